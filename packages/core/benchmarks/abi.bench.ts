@@ -0,0 +1,176 @@
+import { execSync } from 'child_process';
+import { buildSync } from 'esbuild';
+import { mkdtempSync, rmSync } from 'fs';
+import { basename, resolve } from 'path';
+import { performance } from 'perf_hooks';
+import { gzipSync } from 'zlib';
+import { abi, vechain_sdk_core_ethers as ethers } from '@vechain/sdk-core';
+
+/**
+ * Benchmarks of the native ABI codec against the `ethers` one: the speed decoding the output of
+ * contract calls with `abi.decodeParameters`, the size of the bundles of both codecs alone,
+ * and the size of the bundles of the `abi` and `coder` entry points before and after the native codec.
+ * The bundles of the entry points still include `ethers`: `abi.Function`, `abi.Event` and `coder` expose
+ * ethers fragments, interfaces and results.
+ *
+ * Run with `yarn benchmark`, the number of outputs is the first argument (default 10000),
+ * the git revision bundled as "before" is the second argument (default the parent of the commit adding the codec).
+ */
+
+/**
+ * The number of outputs decoded by each benchmark.
+ */
+const COUNT = Number(process.argv[2] ?? 10000);
+
+/**
+ * The number of times each benchmark runs before being measured.
+ */
+const WARMUP_ROUNDS = 2;
+
+/**
+ * The number of measured runs of each benchmark, the best run is reported.
+ */
+const ROUNDS = 5;
+
+/**
+ * The root of the package, the bundled sources are resolved from it.
+ */
+const ROOT = resolve(__dirname, '..');
+
+/**
+ * The git revision of the SDK before the native codec.
+ */
+const BEFORE =
+    process.argv[3] ??
+    `${execSync('git log --diff-filter=A --format=%H -- src/abi/codec.ts', {
+        cwd: ROOT
+    })
+        .toString()
+        .trim()}^`;
+
+/**
+ * The outputs decoded: the arguments of a token transfer, and the list of authority nodes.
+ */
+const outputs = [
+    {
+        name: 'address, uint256',
+        values: ['0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed', 10n ** 18n]
+    },
+    {
+        name: '(address master, address endorsor, bytes32 identity, bool active)[]',
+        values: [
+            Array.from({ length: 101 }, (_, n) => [
+                '0x' + n.toString(16).padStart(40, '0'),
+                '0x' + (n + 1000).toString(16).padStart(40, '0'),
+                '0x' + n.toString(16).padStart(64, '0'),
+                n % 2 === 0
+            ])
+        ]
+    }
+];
+
+/**
+ * Returns the size in bytes of the minified bundle of `source`, and of its gzip compression.
+ */
+function sizeOf(source: string): { bytes: number; gzip: number } {
+    const [bundle] = buildSync({
+        stdin: { contents: source, resolveDir: ROOT },
+        bundle: true,
+        minify: true,
+        format: 'esm',
+        platform: 'browser',
+        write: false
+    }).outputFiles;
+    return {
+        bytes: bundle.contents.length,
+        gzip: gzipSync(bundle.contents).length
+    };
+}
+
+/**
+ * Returns the size of the bundle of `source` importing the sources of the package at the `revision`,
+ * extracted in a temporary directory of the package, see {@link sizeOf}.
+ */
+function sizeAt(
+    revision: string,
+    source: (directory: string) => string
+): { bytes: number; gzip: number } {
+    const directory = mkdtempSync(resolve(ROOT, '.bench-'));
+    try {
+        execSync(`git archive ${revision} src | tar -x -C ${directory}`, {
+            cwd: ROOT
+        });
+        return sizeOf(source(`./${basename(directory)}`));
+    } finally {
+        rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Runs `decode` `COUNT` times and returns the best number of outputs decoded per second.
+ */
+function measure(decode: () => void): number {
+    for (let round = 0; round < WARMUP_ROUNDS; round++) {
+        decode();
+    }
+    let best = Infinity;
+    for (let round = 0; round < ROUNDS; round++) {
+        const start = performance.now();
+        for (let n = 0; n < COUNT; n++) {
+            decode();
+        }
+        best = Math.min(best, performance.now() - start);
+    }
+    return Math.round((COUNT / best) * 1000);
+}
+
+outputs.forEach(({ name, values }) => {
+    const parameters = abi.parseParameters(name);
+    const types = parameters.map((parameter) =>
+        ethers.ParamType.from(parameter)
+    );
+    const encoded = abi.encodeParameters(parameters, values);
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const benchmarks: Record<string, () => void> = {
+        'ethers AbiCoder.decode': () => coder.decode(types, encoded),
+        'abi.decodeParameters': () => abi.decodeParameters(parameters, encoded)
+    };
+    console.log(`Decoding ${COUNT} times ${name} (best of ${ROUNDS} runs)`);
+    console.table(
+        Object.entries(benchmarks).map(([benchmark, decode]) => ({
+            benchmark,
+            'outputs/s': measure(decode)
+        }))
+    );
+});
+
+console.log('Size of the minified bundles');
+console.table([
+    {
+        codec: 'codec and signature',
+        ...sizeOf(
+            "export { codec } from './src/abi/codec'; export { signature } from './src/abi/signature';"
+        )
+    },
+    {
+        codec: 'ethers AbiCoder and Interface',
+        ...sizeOf("export { AbiCoder, Interface } from 'ethers';")
+    }
+]);
+
+console.log(
+    `Size of the minified bundles of abi and coder, before is ${BEFORE}`
+);
+console.table([
+    {
+        entry: 'abi and coder, before',
+        ...sizeAt(
+            BEFORE,
+            (directory) => `export { abi, coder } from '${directory}/src/abi';`
+        )
+    },
+    {
+        entry: 'abi and coder, after',
+        ...sizeOf("export { abi, coder } from './src/abi';")
+    }
+]);
@@ -0,0 +1,162 @@
+import { performance } from 'perf_hooks';
+import {
+    Hex,
+    RLP_CODER,
+    RLPView,
+    SIGNED_TRANSACTION_RLP,
+    TransactionHandler,
+    type TransactionBody
+} from '@vechain/sdk-core';
+
+/**
+ * Benchmarks of the decoding of raw transactions, comparing `RLP_CODER.decode` and
+ * `Profiler.decodeObject`, copying the data, with `RLPView` and `Profiler.decodeView`.
+ *
+ * Run with `yarn benchmark`, the number of transactions is the first argument (default 10000).
+ */
+
+/**
+ * The number of raw transactions decoded by each benchmark.
+ */
+const COUNT = Number(process.argv[2] ?? 10000);
+
+/**
+ * The number of times each benchmark runs before being measured.
+ */
+const WARMUP_ROUNDS = 2;
+
+/**
+ * The number of measured runs of each benchmark, the best run is reported.
+ */
+const ROUNDS = 5;
+
+/**
+ * The private key signing the transactions.
+ */
+const privateKey = Buffer.from(
+    Hex.of('7582be841ca040aa940fff6c05773129e135623e41acce3e0b8ba520dc1ae26a')
+        .bytes
+);
+
+/**
+ * Returns the body of the n-th transaction, with two clauses transferring a token.
+ */
+function bodyOf(n: number): TransactionBody {
+    const clause = {
+        to: '0x0000000000000000000000000000456e65726779',
+        value: 0,
+        data:
+            '0xa9059cbb' +
+            '000000000000000000000000' +
+            '7567d83b7b8d80addcb281a71d54fc7b3364ffed' +
+            n.toString(16).padStart(64, '0')
+    };
+    return {
+        chainTag: 0x4a,
+        blockRef: '0x0000000000000000',
+        expiration: 32,
+        clauses: [clause, clause],
+        gasPriceCoef: 128,
+        gas: 80000,
+        dependsOn: null,
+        nonce: n
+    };
+}
+
+/**
+ * The raw signed transactions.
+ */
+const rawTransactions = Array.from(
+    { length: COUNT },
+    (_, n) => TransactionHandler.sign(bodyOf(n), privateKey).encoded
+);
+
+/**
+ * The raw transactions concatenated, as read from a file or a socket.
+ */
+const concatenated = Buffer.concat(rawTransactions);
+
+/**
+ * Reads each member of the decoded structures, the lazily decoded members included.
+ */
+function readAll(decoded: unknown): void {
+    if (Array.isArray(decoded)) {
+        decoded.forEach(readAll);
+    } else if (
+        typeof decoded === 'object' &&
+        decoded !== null &&
+        !(decoded instanceof Uint8Array)
+    ) {
+        Object.values(decoded).forEach(readAll);
+    }
+}
+
+/**
+ * Runs `decode` for each raw transaction and returns the best number of transactions decoded per second.
+ */
+function measure(decode: () => void): number {
+    for (let round = 0; round < WARMUP_ROUNDS; round++) {
+        decode();
+    }
+    let best = Infinity;
+    for (let round = 0; round < ROUNDS; round++) {
+        const start = performance.now();
+        decode();
+        best = Math.min(best, performance.now() - start);
+    }
+    return Math.round((COUNT / best) * 1000);
+}
+
+const benchmarks: Record<string, () => void> = {
+    'RLP_CODER.decode': () => {
+        rawTransactions.forEach((raw) => RLP_CODER.decode(raw));
+    },
+    'RLPView.toOutput': () => {
+        rawTransactions.forEach((raw) => RLPView.of(raw).toOutput());
+    },
+    'Profiler.decodeObject': () => {
+        rawTransactions.forEach((raw) =>
+            SIGNED_TRANSACTION_RLP.decodeObject(raw)
+        );
+    },
+    'Profiler.decodeView': () => {
+        rawTransactions.forEach((raw) =>
+            SIGNED_TRANSACTION_RLP.decodeView(raw)
+        );
+    },
+    'Profiler.decodeView lazy, all fields read': () => {
+        rawTransactions.forEach((raw) => {
+            readAll(SIGNED_TRANSACTION_RLP.decodeView(raw, true));
+        });
+    },
+    'Profiler.decodeView lazy, nonce read': () => {
+        rawTransactions.forEach(
+            (raw) =>
+                (
+                    SIGNED_TRANSACTION_RLP.decodeView(raw, true) as Record<
+                        string,
+                        unknown
+                    >
+                ).nonce
+        );
+    },
+    'Profiler.decodeStream lazy, nonce read': () => {
+        for (const decoded of SIGNED_TRANSACTION_RLP.decodeStream(
+            concatenated,
+            true
+        )) {
+            void (decoded as Record<string, unknown>).nonce;
+        }
+    },
+    'TransactionHandler.decode': () => {
+        rawTransactions.forEach((raw) => TransactionHandler.decode(raw, true));
+    }
+};
+
+console.log(`Decoding ${COUNT} raw transactions (best of ${ROUNDS} runs)`);
+console.table(
+    Object.entries(benchmarks).map(([name, decode]) => ({
+        benchmark: name,
+        'transactions/s': measure(decode)
+    }))
+);
@@ -0,0 +1,730 @@
+import * as n_utils from '@noble/curves/abstract/utils';
+import { keccak_256 as nh_keccak_256 } from '@noble/hashes/sha3';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { type AbiParameter, type AbiParametersToPrimitiveTypes } from 'abitype';
+import { bytesOf, integerOf } from './helpers/values';
+import { type BytesLike, type DecodedParameters } from './types';
+
+/**
+ * The length in bytes of a word of the ABI encoding.
+ */
+const WORD_LENGTH = 32;
+
+/**
+ * Regular expressions parsing the types.
+ */
+const REGEX = {
+    array: /^(.+)\[(\d*)\]$/,
+    address: /^0x[0-9a-fA-F]{40}$/,
+    bytes: /^bytes(\d+)$/,
+    integer: /^(u?)int(\d*)$/
+};
+
+/**
+ * Decoder of the UTF-8 strings, rejecting the malformed ones.
+ */
+const UTF8_DECODER = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * The type of a parameter, resolved once before a value is encoded or decoded.
+ */
+interface CodecType {
+    /**
+     * The kind of the type.
+     */
+    kind:
+        | 'address'
+        | 'array'
+        | 'bool'
+        | 'bytes'
+        | 'fixedBytes'
+        | 'int'
+        | 'string'
+        | 'tuple'
+        | 'uint';
+
+    /**
+     * The type as declared, e.g. `uint8[2]`.
+     */
+    type: string;
+
+    /**
+     * The bits of an integer, the bytes of a fixed byte sequence,
+     * the length of a fixed-length array or `-1` for a dynamic array.
+     */
+    size: number;
+
+    /**
+     * `true` if the value is encoded in the tail, after the heads of the sequence enclosing it.
+     */
+    isDynamic: boolean;
+
+    /**
+     * The length in bytes of the head of the value in the sequence enclosing it.
+     */
+    headLength: number;
+
+    /**
+     * The element of an array or the components of a tuple.
+     */
+    children: CodecType[];
+
+    /**
+     * The names of the components of a tuple, empty for the unnamed ones.
+     */
+    names: string[];
+}
+
+/**
+ * Returns the error of a value not matching its type.
+ *
+ * @param method - The method failing.
+ * @param path - The path of the value, e.g. `values[0].amount`.
+ * @param reason - Why the value doesn't match its type.
+ * @returns The error.
+ */
+function errorOf(
+    method: string,
+    path: string,
+    reason: string
+): InvalidAbiDataToEncodeOrDecode {
+    const action =
+        method === 'abi.encodeParameters()' ? 'Encoding' : 'Decoding';
+    return new InvalidAbiDataToEncodeOrDecode(
+        method,
+        `${action} failed: ${path} ${reason}.`,
+        { path }
+    );
+}
+
+/**
+ * Resolves the type of a parameter.
+ *
+ * @param parameter - The ABI parameter.
+ * @param method - The method resolving the type.
+ * @returns The type.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the type is not a valid ABI type.
+ */
+function typeOf(
+    parameter: Pick<AbiParameter, 'type'> & {
+        components?: readonly AbiParameter[];
+    },
+    method: string
+): CodecType {
+    const { type } = parameter;
+    const fail = (): never => {
+        throw errorOf(method, `type '${type}'`, 'is not a valid ABI type');
+    };
+    const array = REGEX.array.exec(type);
+    if (array !== null) {
+        const element = typeOf({ ...parameter, type: array[1] }, method);
+        const size = array[2] === '' ? -1 : Number(array[2]);
+        const isDynamic = size === -1 || element.isDynamic;
+        return {
+            kind: 'array',
+            type,
+            size,
+            isDynamic,
+            headLength: isDynamic ? WORD_LENGTH : size * element.headLength,
+            children: [element],
+            names: []
+        };
+    }
+    if (type === 'tuple') {
+        const children = (parameter.components ?? fail()).map((component) =>
+            typeOf(component, method)
+        );
+        const isDynamic = children.some((child) => child.isDynamic);
+        return {
+            kind: 'tuple',
+            type,
+            size: children.length,
+            isDynamic,
+            headLength: isDynamic
+                ? WORD_LENGTH
+                : children.reduce((sum, child) => sum + child.headLength, 0),
+            children,
+            names: (parameter.components ?? []).map(
+                (component) => component.name ?? ''
+            )
+        };
+    }
+    const elementary = (kind: CodecType['kind'], size = 0): CodecType => {
+        const isDynamic = kind === 'bytes' || kind === 'string';
+        return {
+            kind,
+            type,
+            size,
+            isDynamic,
+            headLength: WORD_LENGTH,
+            children: [],
+            names: []
+        };
+    };
+    if (
+        type === 'address' ||
+        type === 'bool' ||
+        type === 'bytes' ||
+        type === 'string'
+    ) {
+        return elementary(type);
+    }
+    const bytes = REGEX.bytes.exec(type);
+    if (bytes !== null) {
+        const size = Number(bytes[1]);
+        return size >= 1 && size <= WORD_LENGTH
+            ? elementary('fixedBytes', size)
+            : fail();
+    }
+    const integer = REGEX.integer.exec(type);
+    if (integer !== null) {
+        const size = integer[2] === '' ? 256 : Number(integer[2]);
+        return size >= 8 && size <= 256 && size % 8 === 0
+            ? elementary(integer[1] === 'u' ? 'uint' : 'int', size)
+            : fail();
+    }
+    return fail();
+}
+
+/**
+ * Returns the checksummed address of its lowercase digits, as `Address.checksum` does.
+ * The codec computes it on its own, so that it can be bundled without the value objects of the SDK.
+ *
+ * @param digits - The 40 lowercase hexadecimal digits of the address.
+ * @returns The checksummed address.
+ */
+function checksumOf(digits: string): string {
+    const hash = n_utils.bytesToHex(nh_keccak_256(digits));
+    let checksum = '0x';
+    for (let i = 0; i < digits.length; i++) {
+        checksum +=
+            parseInt(hash[i], 16) > 7 ? digits[i].toUpperCase() : digits[i];
+    }
+    return checksum;
+}
+
+/**
+ * Returns the word encoding an unsigned integer.
+ *
+ * @param value - The integer, lower than 2^256.
+ * @returns The word.
+ */
+function wordOf(value: bigint | number): Uint8Array {
+    return n_utils.numberToBytesBE(value, WORD_LENGTH);
+}
+
+/**
+ * Returns the encoding of a dynamic byte sequence: its length, then its bytes padded to a multiple of 32 bytes.
+ *
+ * @param bytes - The byte sequence.
+ * @returns The encoding.
+ */
+function dynamicBytesOf(bytes: Uint8Array): Uint8Array {
+    const padded = new Uint8Array(
+        WORD_LENGTH + Math.ceil(bytes.length / WORD_LENGTH) * WORD_LENGTH
+    );
+    padded.set(wordOf(bytes.length));
+    padded.set(bytes, WORD_LENGTH);
+    return padded;
+}
+
+/**
+ * Encodes a sequence of values, the components of a tuple or the elements of an array:
+ * the heads of the values in order, the static values in place, the dynamic ones as the offset of their tail.
+ *
+ * @param types - The types of the values.
+ * @param values - The values.
+ * @param paths - The paths of the values.
+ * @returns The encoding.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ */
+function encodeSequence(
+    types: CodecType[],
+    values: readonly unknown[],
+    paths: string[]
+): Uint8Array {
+    let offset = types.reduce((sum, type) => sum + type.headLength, 0);
+    const heads: Uint8Array[] = [];
+    const tails: Uint8Array[] = [];
+    types.forEach((type, index) => {
+        const encoded = encodeValue(type, values[index], paths[index]);
+        if (type.isDynamic) {
+            heads.push(wordOf(offset));
+            tails.push(encoded);
+            offset += encoded.length;
+        } else {
+            heads.push(encoded);
+        }
+    });
+    return n_utils.concatBytes(...heads, ...tails);
+}
+
+/**
+ * Encodes a value.
+ *
+ * @param type - The type of the value.
+ * @param value - The value.
+ * @param path - The path of the value.
+ * @returns The encoding.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the value doesn't match its type.
+ */
+function encodeValue(
+    type: CodecType,
+    value: unknown,
+    path: string
+): Uint8Array {
+    const fail = (reason: string): never => {
+        throw errorOf('abi.encodeParameters()', path, reason);
+    };
+    switch (type.kind) {
+        case 'address': {
+            if (typeof value !== 'string' || !REGEX.address.test(value)) {
+                return fail('is not an address');
+            }
+            const digits = value.slice(2);
+            if (
+                digits !== digits.toLowerCase() &&
+                digits !== digits.toUpperCase() &&
+                checksumOf(digits.toLowerCase()) !== value
+            ) {
+                return fail('has an invalid checksum');
+            }
+            return wordOf(BigInt(value));
+        }
+        case 'bool':
+            return typeof value === 'boolean'
+                ? wordOf(value ? 1 : 0)
+                : fail('is not a boolean');
+        case 'bytes':
+            return dynamicBytesOf(
+                bytesOf(value) ?? fail('is not a byte sequence')
+            );
+        case 'fixedBytes': {
+            const bytes = bytesOf(value);
+            if (bytes?.length !== type.size) {
+                return fail(`is not a sequence of ${type.size} bytes`);
+            }
+            const word = new Uint8Array(WORD_LENGTH);
+            word.set(bytes);
+            return word;
+        }
+        case 'int':
+        case 'uint': {
+            const n = integerOf(value) ?? fail('is not an integer');
+            const bits = BigInt(type.size);
+            const [min, max] =
+                type.kind === 'int'
+                    ? [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n]
+                    : [0n, (1n << bits) - 1n];
+            if (n < min || n > max) {
+                return fail(`is out of the range of ${type.type}`);
+            }
+            return wordOf(BigInt.asUintN(256, n));
+        }
+        case 'string':
+            return typeof value === 'string'
+                ? dynamicBytesOf(utf8ToBytes(value))
+                : fail('is not a string');
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return fail('is not an array');
+            }
+            if (type.size !== -1 && value.length !== type.size) {
+                return fail(`must have ${type.size} elements`);
+            }
+            const encoded = encodeSequence(
+                value.map(() => type.children[0]),
+                value,
+                value.map((_, index) => `${path}[${index}]`)
+            );
+            return type.size === -1
+                ? n_utils.concatBytes(wordOf(value.length), encoded)
+                : encoded;
+        }
+        case 'tuple': {
+            const paths = type.names.map((name, index) =>
+                name === '' ? `${path}[${index}]` : `${path}.${name}`
+            );
+            if (Array.isArray(value)) {
+                if (value.length !== type.size) {
+                    return fail(`must have ${type.size} components`);
+                }
+                return encodeSequence(type.children, value, paths);
+            }
+            if (typeof value !== 'object' || value === null) {
+                return fail('is not a tuple');
+            }
+            const components = type.names.map((name) =>
+                name !== '' && name in value
+                    ? (value as Record<string, unknown>)[name]
+                    : fail(
+                          name === ''
+                              ? 'has unnamed components, it must be an array'
+                              : `is missing the component '${name}'`
+                      )
+            );
+            return encodeSequence(type.children, components, paths);
+        }
+    }
+}
+
+/**
+ * Reads the word at `offset`.
+ *
+ * @param data - The encoded data.
+ * @param offset - The offset of the word.
+ * @param fail - Throws the error of the value read.
+ * @returns The word, as an unsigned integer.
+ */
+function readWord(
+    data: Uint8Array,
+    offset: number,
+    fail: (reason: string) => never
+): bigint {
+    if (offset + WORD_LENGTH > data.length) {
+        return fail('is out of the bounds of the data');
+    }
+    return n_utils.bytesToNumberBE(data.subarray(offset, offset + WORD_LENGTH));
+}
+
+/**
+ * Reads the word at `offset` as an offset or a length, that can't exceed the length of the data.
+ *
+ * @param data - The encoded data.
+ * @param offset - The offset of the word.
+ * @param fail - Throws the error of the value read.
+ * @returns The offset or the length.
+ */
+function readLength(
+    data: Uint8Array,
+    offset: number,
+    fail: (reason: string) => never
+): number {
+    const length = readWord(data, offset, fail);
+    return length > BigInt(data.length)
+        ? fail('is out of the bounds of the data')
+        : Number(length);
+}
+
+/**
+ * Decodes a sequence of values, the components of a tuple or the elements of an array.
+ *
+ * @param types - The types of the values.
+ * @param data - The encoded data.
+ * @param start - The offset of the sequence, where its heads start and the offsets of its tails are counted from.
+ * @param paths - The paths of the values.
+ * @returns The values.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ */
+function decodeSequence(
+    types: CodecType[],
+    data: Uint8Array,
+    start: number,
+    paths: string[]
+): unknown[] {
+    let offset = start;
+    return types.map((type, index) => {
+        const at = type.isDynamic
+            ? start +
+              readLength(data, offset, (reason) => {
+                  throw errorOf('abi.decodeParameters()', paths[index], reason);
+              })
+            : offset;
+        offset += type.headLength;
+        return decodeValue(type, data, at, paths[index]);
+    });
+}
+
+/**
+ * Decodes a value.
+ *
+ * @param type - The type of the value.
+ * @param data - The encoded data.
+ * @param offset - The offset of the value.
+ * @param path - The path of the value.
+ * @returns The value.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the data doesn't encode a value of the type.
+ */
+function decodeValue(
+    type: CodecType,
+    data: Uint8Array,
+    offset: number,
+    path: string
+): unknown {
+    const fail = (reason: string): never => {
+        throw errorOf('abi.decodeParameters()', path, reason);
+    };
+    switch (type.kind) {
+        case 'address': {
+            const word = readWord(data, offset, fail);
+            if (word >> 160n !== 0n) {
+                return fail('is not an address');
+            }
+            return checksumOf(
+                n_utils.bytesToHex(
+                    data.subarray(offset + 12, offset + WORD_LENGTH)
+                )
+            );
+        }
+        case 'bool':
+            return readWord(data, offset, fail) !== 0n;
+        case 'bytes':
+        case 'string': {
+            const length = readLength(data, offset, fail);
+            const start = offset + WORD_LENGTH;
+            if (
+                start + Math.ceil(length / WORD_LENGTH) * WORD_LENGTH >
+                data.length
+            ) {
+                return fail('is out of the bounds of the data');
+            }
+            const bytes = data.subarray(start, start + length);
+            if (type.kind === 'bytes') {
+                return '0x' + n_utils.bytesToHex(bytes);
+            }
+            try {
+                return UTF8_DECODER.decode(bytes);
+            } catch {
+                return fail('is not a valid UTF-8 string');
+            }
+        }
+        case 'fixedBytes':
+            readWord(data, offset, fail);
+            return (
+                '0x' +
+                n_utils.bytesToHex(data.subarray(offset, offset + type.size))
+            );
+        case 'int':
+            return BigInt.asIntN(type.size, readWord(data, offset, fail));
+        case 'uint':
+            return BigInt.asUintN(type.size, readWord(data, offset, fail));
+        case 'array': {
+            const element = type.children[0];
+            let start = offset;
+            let length = type.size;
+            if (length === -1) {
+                length = readLength(data, offset, fail);
+                start += WORD_LENGTH;
+                if (start + length * element.headLength > data.length) {
+                    return fail('is out of the bounds of the data');
+                }
+            }
+            return decodeSequence(
+                Array.from({ length }, () => element),
+                data,
+                start,
+                Array.from({ length }, (_, index) => `${path}[${index}]`)
+            );
+        }
+        case 'tuple':
+            return withNames(
+                decodeSequence(
+                    type.children,
+                    data,
+                    offset,
+                    type.names.map((name, index) =>
+                        name === '' ? `${path}[${index}]` : `${path}.${name}`
+                    )
+                ),
+                type.names
+            );
+    }
+}
+
+/**
+ * Makes the named values also readable by name, as non-enumerable properties of the array,
+ * hence `values[0]` and `values.owner` both read the first value named `owner`.
+ *
+ * @param values - The decoded values.
+ * @param names - The names of the values, empty for the unnamed ones.
+ * @returns The values.
+ */
+function withNames(values: unknown[], names: string[]): unknown[] {
+    names.forEach((name, index) => {
+        if (name !== '' && !(name in values)) {
+            Object.defineProperty(values, name, {
+                value: values[index],
+                enumerable: false
+            });
+        }
+    });
+    return values;
+}
+
+/**
+ * Encodes values according to the ABI parameters, as the arguments of a function call or the outputs of a function.
+ *
+ * The values are:
+ * - integers as bigint, safe integer, decimal or `0x` prefixed hexadecimal strings;
+ * - addresses as hexadecimal strings, lowercase, uppercase or checksummed;
+ * - booleans as booleans;
+ * - byte sequences as `0x` prefixed hexadecimal strings or byte arrays;
+ * - tuples as arrays of their components or objects keyed by the components' names;
+ * - arrays as arrays.
+ *
+ * @param parameters - The ABI parameters, see {@link abi.parseParameters} to write them in a human-readable form.
+ * @param values - The values, one for each parameter, typed after the parameters declared `as const`.
+ * @returns The encoding as a hexadecimal string.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ *
+ * @example
+ * ```typescript
+ * abi.encodeParameters(abi.parseParameters('address to, uint256 value'), [to, 1000n]);
+ * ```
+ */
+function encodeParameters<const TParameters extends readonly AbiParameter[]>(
+    parameters: TParameters,
+    values: AbiParametersToPrimitiveTypes<TParameters, 'inputs'>
+): string {
+    const method = 'abi.encodeParameters()';
+    if (parameters.length !== values.length) {
+        throw errorOf(
+            method,
+            'values',
+            `must have ${parameters.length} elements, one for each parameter`
+        );
+    }
+    return (
+        '0x' +
+        n_utils.bytesToHex(
+            encodeSequence(
+                parameters.map((parameter) => typeOf(parameter, method)),
+                values,
+                parameters.map((_, index) => `values[${index}]`)
+            )
+        )
+    );
+}
+
+/**
+ * Decodes data according to the ABI parameters, as the arguments of a function call or the outputs of a function.
+ *
+ * The values are:
+ * - integers as bigint;
+ * - addresses as checksummed hexadecimal strings;
+ * - byte sequences as lowercase `0x` prefixed hexadecimal strings;
+ * - tuples and arrays as arrays, the named components of a tuple also readable by name.
+ *
+ * @param parameters - The ABI parameters, see {@link abi.parseParameters} to write them in a human-readable form.
+ * @param data - The encoded data, as a `0x` prefixed hexadecimal string or a byte array.
+ * @returns The values, the named ones also readable by name, typed after the parameters declared `as const`.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ *
+ * @example
+ * ```typescript
+ * const [to, value] = abi.decodeParameters(abi.parseParameters('address to, uint256 value'), data);
+ * ```
+ */
+function decodeParameters<const TParameters extends readonly AbiParameter[]>(
+    parameters: TParameters,
+    data: BytesLike
+): DecodedParameters<TParameters> {
+    const method = 'abi.decodeParameters()';
+    const types = parameters.map((parameter) => typeOf(parameter, method));
+    const bytes = bytesOf(data);
+    if (bytes === null) {
+        throw errorOf(method, 'data', 'is not a byte sequence');
+    }
+    return withNames(
+        decodeSequence(
+            types,
+            bytes,
+            0,
+            parameters.map((_, index) => `values[${index}]`)
+        ),
+        parameters.map((parameter) => parameter.name ?? '')
+    ) as DecodedParameters<TParameters>;
+}
+
+/**
+ * Encodes a value in place, as hashed into the topic of an indexed tuple or array:
+ * the elementary values as their word, the byte sequences and the strings padded to a multiple of 32 bytes
+ * without their length, the tuples and the arrays as the concatenation of their values without offsets nor length.
+ *
+ * @param type - The type of the value.
+ * @param value - The value.
+ * @param path - The path of the value.
+ * @returns The encoding.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the value doesn't match its type.
+ */
+function encodeInPlace(
+    type: CodecType,
+    value: unknown,
+    path: string
+): Uint8Array {
+    if (type.kind === 'bytes' || type.kind === 'string') {
+        return encodeValue(type, value, path).subarray(WORD_LENGTH);
+    }
+    if (type.kind !== 'array' && type.kind !== 'tuple') {
+        return encodeValue(type, value, path);
+    }
+    // Validates the value and the number of its elements or components.
+    encodeValue(type, value, path);
+    const values: unknown[] =
+        type.kind === 'array' || Array.isArray(value)
+            ? (value as unknown[])
+            : type.names.map(
+                  (name) => (value as Record<string, unknown>)[name]
+              );
+    return n_utils.concatBytes(
+        ...values.map((element, index) =>
+            encodeInPlace(
+                type.kind === 'array' ? type.children[0] : type.children[index],
+                element,
+                `${path}[${index}]`
+            )
+        )
+    );
+}
+
+/**
+ * Encodes the value of an indexed parameter of an event as a topic:
+ * - the elementary values as their word;
+ * - the byte sequences and the strings as the Keccak 256 hash of their bytes;
+ * - the tuples and the arrays as the Keccak 256 hash of their encoding in place.
+ *
+ * @param parameter - The ABI parameter.
+ * @param value - The value.
+ * @returns The topic as a hexadecimal string.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ *
+ * @see [Encoding of Indexed Event Parameters](https://docs.soliditylang.org/en/latest/abi-spec.html#encoding-of-indexed-event-parameters)
+ */
+function encodeTopic(parameter: AbiParameter, value: unknown): string {
+    const type = typeOf(parameter, 'abi.encodeParameters()');
+    if (type.kind === 'bytes' || type.kind === 'string') {
+        const encoded = encodeValue(type, value, 'value');
+        const length = Number(
+            n_utils.bytesToNumberBE(encoded.subarray(0, WORD_LENGTH))
+        );
+        return (
+            '0x' +
+            n_utils.bytesToHex(
+                nh_keccak_256(
+                    encoded.subarray(WORD_LENGTH, WORD_LENGTH + length)
+                )
+            )
+        );
+    }
+    if (type.kind === 'array' || type.kind === 'tuple') {
+        return (
+            '0x' +
+            n_utils.bytesToHex(
+                nh_keccak_256(encodeInPlace(type, value, 'value'))
+            )
+        );
+    }
+    return '0x' + n_utils.bytesToHex(encodeValue(type, value, 'value'));
+}
+
+/**
+ * Object containing the ABI codec.
+ */
+const codec = {
+    decodeParameters,
+    encodeParameters,
+    encodeTopic
+};
+
+export { codec };
@@ -1,12 +1,35 @@
+import { type AbiParameter } from 'abitype';
 import { type BytesLike, type ParamType } from './types';
-import { ethers } from 'ethers';
+import { codec } from './codec';
 import { fragment } from './fragment';
-import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { packed } from './packed';
+import { signature } from './signature';
+import {
+    InvalidAbiDataToEncodeOrDecode,
+    InvalidAbiFragment
+} from '@vechain/sdk-errors';
 
 /**
- * Default AbiCoder instance from ethers.js.
+ * Returns the ABI parameter of a type.
+ *
+ * @param type - The human-readable type, e.g. `(address,uint256)[]`, or an ethers `ParamType`.
+ * @returns The ABI parameter.
+ * @throws {InvalidAbiFragment}
  */
-const ethersCoder = new ethers.AbiCoder();
+function parameterOf(type: string | ParamType): AbiParameter {
+    if (typeof type !== 'string') {
+        return JSON.parse(type.format('json')) as AbiParameter;
+    }
+    const parameters = signature.parseParameters(type);
+    if (parameters.length !== 1) {
+        throw new InvalidAbiFragment(
+            'abi.parameterOf()',
+            'Initialization failed: The type must be a single parameter type.',
+            { type: 'parameter', fragment: type }
+        );
+    }
+    return parameters[0];
+}
 
 /**
  * Encodes a parameter value.
@@ -20,7 +43,7 @@ const ethersCoder = new ethers.AbiCoder();
  */
 function encode<ValueType>(type: string | ParamType, value: ValueType): string {
     try {
-        return ethersCoder.encode([type], [value]);
+        return codec.encodeParameters([parameterOf(type)], [value]);
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
             'abi.encode()',
@@ -54,7 +77,10 @@ function encode<ValueType>(type: string | ParamType, value: ValueType): string {
  */
 function encodeParams(types: string[] | ParamType[], values: string[]): string {
     try {
-        return ethersCoder.encode(types, values);
+        return codec.encodeParameters(
+            (types as Array<string | ParamType>).map(parameterOf),
+            values
+        );
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
             'abi.encodeParams()',
@@ -83,8 +109,10 @@ function decode<ReturnType>(
     data: BytesLike
 ): ReturnType {
     try {
-        const decoded = ethersCoder.decode([types], data).toArray();
-        return decoded[0] as ReturnType;
+        return codec.decodeParameters(
+            [parameterOf(types)],
+            data
+        )[0] as ReturnType;
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
             'abi.decode()',
@@ -103,6 +131,9 @@ function decode<ReturnType>(
  */
 const abi = {
     ...fragment,
+    ...packed,
+    ...signature,
+    ...codec,
     encode,
     encodeParams,
     decode
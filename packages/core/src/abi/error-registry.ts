@@ -0,0 +1,170 @@
+import { type AbiError } from 'abitype';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { codec } from './codec';
+import { itemsOf } from './helpers/interface';
+import { render } from './helpers/values';
+import { signature } from './signature';
+import { type DecodedError, type InterfaceAbi } from './types';
+
+/**
+ * The errors Solidity reverts with without being declared in the ABIs.
+ *
+ * @link see [Error handling: Assert, Require, Revert and Exceptions](https://docs.soliditylang.org/en/latest/control-structures.html#error-handling-assert-require-revert-and-exceptions)
+ */
+const BUILT_IN_ERRORS = [
+    'error Error(string message)',
+    'error Panic(uint256 code)'
+];
+
+/**
+ * Represents the errors of one or more ABIs, indexed by selector to decode the revert data
+ * of the transactions and calls, custom errors included.
+ *
+ * `Error(string)` and `Panic(uint256)` are always registered.
+ * When errors of different ABIs share a selector, the one registered first is kept.
+ *
+ * @example
+ * ```typescript
+ * const errors = ErrorRegistry.of(tokenAbi, vaultAbi);
+ * errors.decode(revertData); // { name: 'InsufficientBalance', signature: 'InsufficientBalance(uint256,uint256)', args: { available: 1n, required: 2n } }
+ * ```
+ */
+class ErrorRegistry {
+    /**
+     * The registered errors, keyed by selector.
+     */
+    private readonly fragments = new Map<string, AbiError>();
+
+    /**
+     * Creates a new registry of the built-in errors and the errors of `abis`.
+     *
+     * @param abis - The ABIs, see {@link register}.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+     */
+    constructor(abis: InterfaceAbi[] = []) {
+        [BUILT_IN_ERRORS, ...abis].forEach((abi) => this.register(abi));
+    }
+
+    /**
+     * Get the registered errors, the built-in ones included.
+     *
+     * @returns The JSON ABIs of the errors.
+     */
+    public get errors(): AbiError[] {
+        return Array.from(this.fragments.values());
+    }
+
+    /**
+     * Registers every `error` fragment of `abi`, the other fragments are ignored.
+     * A selector already registered keeps its error: the first error registered with a selector decodes it.
+     *
+     * @param abi - The ABI: JSON fragments, human-readable fragments or the JSON string of an ABI.
+     * @returns This registry.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If the ABI is malformed.
+     */
+    public register(abi: InterfaceAbi): this {
+        itemsOf(abi, 'ErrorRegistry.register()').forEach((item) => {
+            if (item.type === 'error') {
+                const selector = signature.signatureHash(item);
+                if (!this.fragments.has(selector)) {
+                    this.fragments.set(selector, item);
+                }
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Returns a new registry of the errors of this registry and of `abis`.
+     *
+     * @param abis - The ABIs, see {@link register}.
+     * @returns The new registry, this registry is not modified.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+     */
+    public extend(...abis: InterfaceAbi[]): ErrorRegistry {
+        return new ErrorRegistry([this.errors, ...abis]);
+    }
+
+    /**
+     * Returns the error having `selector`.
+     *
+     * @param selector - The selector, the first 4 bytes of the revert data.
+     * @returns The JSON ABI of the error, `undefined` if no error is registered with the selector.
+     */
+    public get(selector: string): AbiError | undefined {
+        return this.fragments.get(selector.toLowerCase());
+    }
+
+    /**
+     * Decodes the revert data against the registered error having its selector.
+     *
+     * @param data - The revert data, hex encoded.
+     * @returns The decoded error, `null` if the data is too short or its selector is not registered.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If the data doesn't match the arguments of the error.
+     */
+    public decode(data: string): DecodedError | null {
+        const fragment = this.get(data.slice(0, 10));
+        if (fragment === undefined) {
+            return null;
+        }
+        try {
+            const values = codec.decodeParameters(
+                fragment.inputs,
+                '0x' + data.slice(10)
+            ) as unknown[];
+            const args: Record<string, unknown> = {};
+            fragment.inputs.forEach((input, index) => {
+                args[
+                    input.name !== undefined && input.name !== ''
+                        ? input.name
+                        : String(index)
+                ] = values[index];
+            });
+            return {
+                name: fragment.name,
+                signature: signature.formatSignature(fragment),
+                args
+            };
+        } catch (e) {
+            throw new InvalidAbiDataToEncodeOrDecode(
+                'ErrorRegistry.decode()',
+                'Decoding failed: Data must encode the arguments of the error having its selector.',
+                { data, error: signature.formatSignature(fragment) },
+                e
+            );
+        }
+    }
+
+    /**
+     * Returns the revert reason of the decoded error:
+     * - the message of `Error(string)` and of the custom errors having only a string argument;
+     * - `Panic(0x<code>)` for `Panic(uint256)`;
+     * - the name and the arguments of the other custom errors, e.g. `InsufficientBalance(1, 2)`.
+     *
+     * @param decoded - The decoded error.
+     * @returns The revert reason.
+     */
+    public static reasonOf(decoded: DecodedError): string {
+        const args = Object.values(decoded.args);
+        if (decoded.signature === 'Panic(uint256)') {
+            return `Panic(0x${(args[0] as bigint).toString(16).padStart(2, '0')})`;
+        }
+        if (args.length === 1 && typeof args[0] === 'string') {
+            return args[0];
+        }
+        return `${decoded.name}(${args.map(render).join(', ')})`;
+    }
+
+    /**
+     * Returns a new registry of the built-in errors and the errors of `abis`.
+     *
+     * @param abis - The ABIs, see {@link register}.
+     * @returns The new registry.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+     */
+    public static of(...abis: InterfaceAbi[]): ErrorRegistry {
+        return new ErrorRegistry(abis);
+    }
+}
+
+export { ErrorRegistry };
@@ -1,3 +1,9 @@
+import {
+    type AbiEvent,
+    type AbiEventParameter,
+    type AbiFunction,
+    type AbiParameter
+} from 'abitype';
 import { ethers, type Fragment } from 'ethers';
 import {
     type BytesLike,
@@ -12,7 +18,15 @@ import {
     InvalidAbiFragment,
     InvalidAbiSignatureFormat
 } from '@vechain/sdk-errors';
-import { sanitizeValuesToEncode } from './helpers/fragment';
+import { codec } from './codec';
+import {
+    abiItemOf,
+    resultOf,
+    resultValueOf,
+    sanitizeValuesToEncode
+} from './helpers/fragment';
+import { bytesOf } from './helpers/values';
+import { signature } from './signature';
 
 /**
  * Allowed formats for the signature.
@@ -21,6 +35,20 @@ import { sanitizeValuesToEncode } from './helpers/fragment';
  */
 const allowedSignatureFormats = ['sighash', 'minimal', 'full', 'json'];
 
+/**
+ * The fragments handled by ethers.js, built when first read, keyed by their `Function` or `Event`.
+ *
+ * @private
+ */
+const ETHERS_FRAGMENTS = new WeakMap<object, Fragment>();
+
+/**
+ * The interfaces handled by ethers.js, built when first read, keyed by their `Function` or `Event`.
+ *
+ * @private
+ */
+const ETHERS_INTERFACES = new WeakMap<object, Interface>();
+
 /**
  * Generic implementation of a function that returns a signature.
  * Used to avoid code duplication.
@@ -45,6 +73,27 @@ function getSignature(fragment: Fragment, formatType: FormatType): string {
     return fragment.format(formatType);
 }
 
+/**
+ * Decodes the topic of an indexed parameter of an event.
+ *
+ * @param parameter - The indexed parameter.
+ * @param topic - The topic.
+ * @returns The value of the elementary types, the `Indexed` topic of the others.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ */
+function topicValueOf(parameter: AbiEventParameter, topic: string): unknown {
+    const { type } = parameter;
+    if (
+        type === 'string' ||
+        type === 'bytes' ||
+        type.startsWith('tuple') ||
+        type.endsWith(']')
+    ) {
+        return new ethers.Indexed(topic.toLowerCase());
+    }
+    return codec.decodeParameters([parameter], topic)[0];
+}
+
 /**
  * Represents a function call in the Event/Function ABI.
  *
@@ -52,15 +101,9 @@ function getSignature(fragment: Fragment, formatType: FormatType): string {
  */
 class Function<ABIType> {
     /**
-     * The main fragment handled by ethers.js.
-     *
-     */
-    public fragment: FunctionFragment;
-
-    /**
-     * The main interface handled by ethers.js.
+     * The JSON ABI of the function, encoding and decoding its calls with the native codec.
      */
-    public iface: Interface;
+    public readonly abiFunction: AbiFunction;
 
     /**
      * Creates a new Function instance from an ABI fragment.
@@ -70,8 +113,17 @@ class Function<ABIType> {
      */
     constructor(source: ABIType) {
         try {
-            this.fragment = ethers.FunctionFragment.from(source);
-            this.iface = new ethers.Interface([this.fragment]);
+            const item = abiItemOf(source, 'function');
+            if (item.type !== 'function') {
+                throw new InvalidAbiFragment(
+                    'abi.Function constructor',
+                    `Initialization failed: the fragment is a ${item.type}, not a function.`,
+                    { type: 'function', fragment: source }
+                );
+            }
+            this.abiFunction = { ...item, outputs: item.outputs ?? [] };
+            // Checks the canonical signature is well formed.
+            signature.signatureHash(this.abiFunction);
         } catch (e) {
             throw new InvalidAbiFragment(
                 'abi.Function constructor',
@@ -85,13 +137,41 @@ class Function<ABIType> {
         }
     }
 
+    /**
+     * The main fragment handled by ethers.js.
+     * The calls are encoded and decoded without it: ethers.js parses it when it is first read.
+     */
+    public get fragment(): FunctionFragment {
+        let fragment = ETHERS_FRAGMENTS.get(this) as
+            | FunctionFragment
+            | undefined;
+        if (fragment === undefined) {
+            fragment = ethers.FunctionFragment.from(this.abiFunction);
+            ETHERS_FRAGMENTS.set(this, fragment);
+        }
+        return fragment;
+    }
+
+    /**
+     * The main interface handled by ethers.js.
+     * The calls are encoded and decoded without it: ethers.js builds it when it is first read.
+     */
+    public get iface(): Interface {
+        let iface = ETHERS_INTERFACES.get(this);
+        if (iface === undefined) {
+            iface = new ethers.Interface([this.fragment]);
+            ETHERS_INTERFACES.set(this, iface);
+        }
+        return iface;
+    }
+
     /**
      * Get the signature hash of the function.
      *
      * @returns The signature hash of the function.
      */
     public signatureHash(): string {
-        return this.fragment.selector;
+        return signature.signatureHash(this.abiFunction);
     }
 
     /**
@@ -113,7 +193,23 @@ class Function<ABIType> {
      */
     public decodeInput(data: BytesLike): Result {
         try {
-            return this.iface.decodeFunctionData(this.fragment, data);
+            const bytes = bytesOf(data);
+            const selector = bytesOf(this.signatureHash()) as Uint8Array;
+            if (
+                bytes === null ||
+                selector.some((byte, index) => bytes[index] !== byte)
+            ) {
+                throw new InvalidAbiDataToEncodeOrDecode(
+                    'abi.Function.decodeInput()',
+                    'Decoding failed: the data does not start with the selector of the function.',
+                    { data }
+                );
+            }
+            const { inputs } = this.abiFunction;
+            return resultOf(
+                inputs,
+                codec.decodeParameters(inputs, bytes.subarray(4))
+            );
         } catch (e) {
             throw new InvalidAbiDataToEncodeOrDecode(
                 'abi.Function.decodeInput()',
@@ -140,7 +236,16 @@ class Function<ABIType> {
      */
     public decodeOutput(data: BytesLike): Result {
         try {
-            return this.iface.decodeFunctionResult(this.fragment, data);
+            const bytes = bytesOf(data);
+            if (bytes === null || bytes.length % 32 !== 0) {
+                throw new InvalidAbiDataToEncodeOrDecode(
+                    'abi.Function.decodeOutput()',
+                    'Decoding failed: the data is not a sequence of 32 bytes words.',
+                    { data }
+                );
+            }
+            const { outputs } = this.abiFunction;
+            return resultOf(outputs, codec.decodeParameters(outputs, bytes));
         } catch (e) {
             throw new InvalidAbiDataToEncodeOrDecode(
                 'abi.Function.decodeOutput()',
@@ -160,7 +265,15 @@ class Function<ABIType> {
      */
     public encodeInput<TValue>(dataToEncode?: TValue[]): string {
         try {
-            return this.iface.encodeFunctionData(this.fragment, dataToEncode);
+            return (
+                this.signatureHash() +
+                codec
+                    .encodeParameters(
+                        this.abiFunction.inputs,
+                        dataToEncode ?? []
+                    )
+                    .slice(2)
+            );
         } catch (e) {
             throw new InvalidAbiDataToEncodeOrDecode(
                 'abi.Function.encodeInput()',
@@ -179,14 +292,9 @@ class Function<ABIType> {
  */
 class Event<ABIType> {
     /**
-     * The main fragment handled by ethers.js.
+     * The JSON ABI of the event, encoding and decoding its logs with the native codec.
      */
-    public fragment: EventFragment;
-
-    /**
-     * The main interface handled by ethers.js.
-     */
-    public iface: Interface;
+    public readonly abiEvent: AbiEvent;
 
     /**
      * Creates a new Event instance from an ABI fragment.
@@ -196,8 +304,17 @@ class Event<ABIType> {
      */
     constructor(source: ABIType) {
         try {
-            this.fragment = ethers.EventFragment.from(source);
-            this.iface = new ethers.Interface([this.fragment]);
+            const item = abiItemOf(source, 'event');
+            if (item.type !== 'event') {
+                throw new InvalidAbiFragment(
+                    'abi.Event constructor',
+                    `Initialization failed: the fragment is a ${item.type}, not an event.`,
+                    { type: 'event', fragment: source }
+                );
+            }
+            this.abiEvent = item;
+            // Checks the canonical signature is well formed.
+            signature.signatureHash(this.abiEvent);
         } catch (e) {
             throw new InvalidAbiFragment(
                 'abi.Event constructor',
@@ -211,13 +328,39 @@ class Event<ABIType> {
         }
     }
 
+    /**
+     * The main fragment handled by ethers.js.
+     * The logs are encoded and decoded without it: ethers.js parses it when it is first read.
+     */
+    public get fragment(): EventFragment {
+        let fragment = ETHERS_FRAGMENTS.get(this) as EventFragment | undefined;
+        if (fragment === undefined) {
+            fragment = ethers.EventFragment.from(this.abiEvent);
+            ETHERS_FRAGMENTS.set(this, fragment);
+        }
+        return fragment;
+    }
+
+    /**
+     * The main interface handled by ethers.js.
+     * The logs are encoded and decoded without it: ethers.js builds it when it is first read.
+     */
+    public get iface(): Interface {
+        let iface = ETHERS_INTERFACES.get(this);
+        if (iface === undefined) {
+            iface = new ethers.Interface([this.fragment]);
+            ETHERS_INTERFACES.set(this, iface);
+        }
+        return iface;
+    }
+
     /**
      * Get the signature hash of the event.
      *
      * @returns The signature hash of the event.
      */
     public signatureHash(): string {
-        return this.fragment.topicHash;
+        return signature.signatureHash(this.abiEvent);
     }
 
     /**
@@ -233,16 +376,42 @@ class Event<ABIType> {
     /**
      * Decode event log data using the event's ABI.
      *
+     * The values of the indexed strings, byte sequences, tuples and arrays are not in the log,
+     * they are decoded as `Indexed` holding the hash of the value, their topic.
+     *
      * @param data - Data to decode.
      * @returns Decoding results.
      * @throws {InvalidAbiDataToEncodeOrDecode}
      */
     public decodeEventLog(data: { data: string; topics: string[] }): Result {
         try {
-            return this.iface.decodeEventLog(
-                this.fragment,
-                data.data,
-                data.topics
+            const { anonymous, inputs } = this.abiEvent;
+            const topics =
+                anonymous === true ? data.topics : data.topics.slice(1);
+            const indexed = inputs.filter((input) => input.indexed === true);
+            if (
+                (anonymous !== true &&
+                    data.topics[0]?.toLowerCase() !== this.signatureHash()) ||
+                topics.length < indexed.length
+            ) {
+                throw new InvalidAbiDataToEncodeOrDecode(
+                    'abi.Event.decodeEventLog()',
+                    'Decoding failed: the topics do not match the event.',
+                    { data }
+                );
+            }
+            const parameters = inputs.filter((input) => input.indexed !== true);
+            const values = codec.decodeParameters(parameters, data.data);
+            return ethers.Result.fromItems(
+                inputs.map((input) =>
+                    input.indexed === true
+                        ? topicValueOf(input, topics[indexed.indexOf(input)])
+                        : resultValueOf(
+                              input,
+                              values[parameters.indexOf(input)]
+                          )
+                ),
+                inputs.map((input) => input.name ?? '')
             );
         } catch (e) {
             throw new InvalidAbiDataToEncodeOrDecode(
@@ -266,7 +435,27 @@ class Event<ABIType> {
         topics: string[];
     } {
         try {
-            return this.iface.encodeEventLog(this.fragment, dataToEncode);
+            const { inputs } = this.abiEvent;
+            if (dataToEncode.length !== inputs.length) {
+                throw new InvalidAbiDataToEncodeOrDecode(
+                    'abi.Event.encodeEventLog()',
+                    `Encoding failed: ${inputs.length} values expected, one for each parameter.`,
+                    { dataToEncode }
+                );
+            }
+            const topics =
+                this.abiEvent.anonymous === true ? [] : [this.signatureHash()];
+            const parameters: AbiParameter[] = [];
+            const values: unknown[] = [];
+            inputs.forEach((input, index) => {
+                if (input.indexed === true) {
+                    topics.push(codec.encodeTopic(input, dataToEncode[index]));
+                } else {
+                    parameters.push(input);
+                    values.push(dataToEncode[index]);
+                }
+            });
+            return { data: codec.encodeParameters(parameters, values), topics };
         } catch (e) {
             throw new InvalidAbiDataToEncodeOrDecode(
                 'abi.Event.encodeEventLog()',
@@ -280,6 +469,9 @@ class Event<ABIType> {
     /**
      * Encode event log topics using the event's ABI.
      *
+     * A value `null` or `undefined` matches any value, an array of values matches any of them.
+     * The trailing topics matching any value are omitted.
+     *
      * @param valuesToEncode - values to encode as topics. Non-indexed values are ignored.
      *                         Only the values of the indexed parameters are needed.
      * @returns Encoded topics array.
@@ -289,17 +481,59 @@ class Event<ABIType> {
         valuesToEncode: TValue[]
     ): Array<string | undefined> {
         try {
+            const { anonymous, inputs } = this.abiEvent;
             // Sanitize the values to encode
             const sanitizedValuesToEncode = sanitizeValuesToEncode(
                 valuesToEncode,
-                this.fragment
+                this.abiEvent
             );
-
-            return this.iface
-                .encodeFilterTopics(this.fragment, sanitizedValuesToEncode)
-                .map((topic) => topic ?? undefined) as Array<
-                string | undefined
-            >;
+            if (sanitizedValuesToEncode.length > inputs.length) {
+                throw new InvalidAbiDataToEncodeOrDecode(
+                    'abi.Event.encodeFilterTopics()',
+                    `Encoding failed: ${inputs.length} values expected at most, one for each parameter.`,
+                    { valuesToEncode }
+                );
+            }
+            const topics: Array<string | string[] | undefined> =
+                anonymous === true ? [] : [this.signatureHash()];
+            sanitizedValuesToEncode.forEach((value, index) => {
+                const input = inputs[index];
+                if (input.indexed !== true) {
+                    if (value !== null && value !== undefined) {
+                        throw new InvalidAbiDataToEncodeOrDecode(
+                            'abi.Event.encodeFilterTopics()',
+                            `Encoding failed: the parameter ${index} is not indexed, its value must be null.`,
+                            { valuesToEncode }
+                        );
+                    }
+                } else if (value === null || value === undefined) {
+                    topics.push(undefined);
+                } else if (
+                    input.type.startsWith('tuple') ||
+                    input.type.endsWith(']')
+                ) {
+                    throw new InvalidAbiDataToEncodeOrDecode(
+                        'abi.Event.encodeFilterTopics()',
+                        `Encoding failed: the parameter ${index} is a tuple or an array, it can't be filtered.`,
+                        { valuesToEncode }
+                    );
+                } else {
+                    topics.push(
+                        Array.isArray(value)
+                            ? value.map((item) =>
+                                  codec.encodeTopic(input, item)
+                              )
+                            : codec.encodeTopic(input, value)
+                    );
+                }
+            });
+            while (
+                topics.length > 0 &&
+                topics[topics.length - 1] === undefined
+            ) {
+                topics.pop();
+            }
+            return topics as Array<string | undefined>;
         } catch (e) {
             throw new InvalidAbiDataToEncodeOrDecode(
                 'abi.Event.encodeEventLog()',
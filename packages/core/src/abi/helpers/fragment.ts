@@ -1,4 +1,8 @@
-import { type Fragment } from 'ethers';
+import { type AbiEvent, type AbiParameter } from 'abitype';
+import { InvalidAbiFragment } from '@vechain/sdk-errors';
+import { ethers } from 'ethers';
+import { signature } from '../signature';
+import { type AbiItem, type Result } from '../types';
 
 /**
  * Sanitizes the values to encode due to the fact that ethers does not handle indexed values ordering.
@@ -8,13 +12,13 @@ import { type Fragment } from 'ethers';
  * 'null' values are used to fill the non-indexed parameters.
  *
  * @param valuesToEncode - Values to encode for the indexed parameters.
- * @param event - Event fragment.
+ * @param event - The JSON ABI of the event.
  *
  * @returns Sanitized values to encode.
  */
 const sanitizeValuesToEncode = (
     valuesToEncode: unknown[],
-    event: Fragment
+    event: Pick<AbiEvent, 'inputs'>
 ): unknown[] => {
     // If there are no values to encode, return an empty array
     if (valuesToEncode.length === 0) return [];
@@ -47,4 +51,106 @@ const sanitizeValuesToEncode = (
     return sanitizedValuesToEncode;
 };
 
-export { sanitizeValuesToEncode };
+/**
+ * Returns the JSON ABI of a fragment: a human-readable signature parsed by {@link abi.parseSignature},
+ * the JSON string of a fragment, a JSON fragment or an ethers fragment.
+ *
+ * @param source - The fragment.
+ * @param kind - The kind of the signatures written without keyword, e.g. `Transfer(address,address,uint256)`.
+ * @returns The ABI item of the fragment.
+ * @throws {InvalidAbiFragment} If the signature is malformed.
+ */
+const abiItemOf = (source: unknown, kind: 'event' | 'function'): AbiItem => {
+    if (typeof source === 'string') {
+        if (source.trim().startsWith('{')) {
+            return checkedAbiItemOf(JSON.parse(source) as AbiItem, kind);
+        }
+        return signature.parseSignature(
+            /^\s*(constructor|error|event|function)\b/.test(source)
+                ? source
+                : `${kind} ${source}`
+        );
+    }
+    if (source instanceof ethers.Fragment) {
+        return JSON.parse(source.format('json')) as AbiItem;
+    }
+    return checkedAbiItemOf(source as AbiItem, kind);
+};
+
+/**
+ * Checks a JSON fragment is named and its parameters have valid types,
+ * parsing their canonical types back with {@link abi.parseParameters}.
+ *
+ * @param item - The JSON fragment.
+ * @param kind - The kind of fragment expected.
+ * @returns The JSON fragment.
+ * @throws {InvalidAbiFragment} If the fragment is malformed.
+ */
+const checkedAbiItemOf = (
+    item: AbiItem,
+    kind: 'event' | 'function'
+): AbiItem => {
+    if (
+        typeof item !== 'object' ||
+        item === null ||
+        ((item.type === 'event' || item.type === 'function') &&
+            typeof item.name !== 'string')
+    ) {
+        throw new InvalidAbiFragment(
+            'abiItemOf()',
+            'Initialization failed: the fragment is not a named JSON fragment.',
+            { type: kind, fragment: item }
+        );
+    }
+    [
+        'inputs' in item ? item.inputs : [],
+        'outputs' in item ? item.outputs : []
+    ].forEach((parameters) =>
+        signature.parseParameters(
+            parameters.map(signature.formatParameter).join(',')
+        )
+    );
+    return item;
+};
+
+/**
+ * Returns a value decoded by the native codec as ethers does: the tuples and the arrays as `Result`.
+ *
+ * @param parameter - The ABI parameter of the value.
+ * @param value - The decoded value.
+ * @returns The value.
+ */
+const resultValueOf = (parameter: AbiParameter, value: unknown): unknown => {
+    const array = /^(.+)\[\d*\]$/.exec(parameter.type);
+    if (array !== null) {
+        const element: AbiParameter = { ...parameter, type: array[1] };
+        return ethers.Result.fromItems(
+            (value as unknown[]).map((item) => resultValueOf(element, item))
+        );
+    }
+    if ('components' in parameter) {
+        return resultOf(parameter.components, value as unknown[]);
+    }
+    return value;
+};
+
+/**
+ * Returns the values decoded by the native codec as the `Result` of ethers,
+ * the values of the named parameters also readable by name.
+ *
+ * @param parameters - The ABI parameters of the values.
+ * @param values - The decoded values.
+ * @returns The result.
+ */
+const resultOf = (
+    parameters: readonly AbiParameter[],
+    values: readonly unknown[]
+): Result =>
+    ethers.Result.fromItems(
+        parameters.map((parameter, index) =>
+            resultValueOf(parameter, values[index])
+        ),
+        parameters.map((parameter) => parameter.name ?? '')
+    );
+
+export { abiItemOf, resultOf, resultValueOf, sanitizeValuesToEncode };
@@ -0,0 +1,71 @@
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { signature } from '../signature';
+import { type AbiItem, type InterfaceAbi } from '../types';
+import { abiItemOf } from './fragment';
+
+/**
+ * Returns the items of `abi`, parsed natively: JSON fragments, human-readable fragments,
+ * ethers fragments, the JSON string of an ABI or a single JSON fragment.
+ *
+ * @param abi - The ABI.
+ * @param methodName - The name of the method parsing the ABI, reported by the error.
+ * @returns The ABI items.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the ABI is malformed.
+ */
+const itemsOf = (abi: InterfaceAbi, methodName: string): AbiItem[] => {
+    try {
+        const parsed: unknown = typeof abi === 'string' ? JSON.parse(abi) : abi;
+        return (Array.isArray(parsed) ? parsed : [parsed]).map((item) =>
+            abiItemOf(item, 'function')
+        );
+    } catch (e) {
+        throw new InvalidAbiDataToEncodeOrDecode(
+            methodName,
+            'Invalid ABI: it must be a JSON ABI or an array of fragments.',
+            { abi },
+            e
+        );
+    }
+};
+
+/**
+ * Returns the function or the event of `abi` matching `key`: its name, its signature,
+ * e.g. `transfer(address,uint256)`, its selector or its topic.
+ *
+ * @param abi - The ABI.
+ * @param kind - The kind of the item.
+ * @param key - The name, the signature, the selector or the topic of the item.
+ * @param methodName - The name of the method looking up the item, reported by the error.
+ * @returns The ABI item.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the ABI is malformed, or if no item or several items match `key`.
+ */
+const itemOf = (
+    abi: InterfaceAbi,
+    kind: 'event' | 'function',
+    key: string,
+    methodName: string
+): AbiItem => {
+    const matches = itemsOf(abi, methodName).filter((item) => {
+        if (item.type !== kind) {
+            return false;
+        }
+        if (key.startsWith('0x')) {
+            return signature.signatureHash(item) === key.toLowerCase();
+        }
+        return key.includes('(')
+            ? signature.formatSignature(item) === key
+            : item.name === key;
+    });
+    if (matches.length !== 1) {
+        throw new InvalidAbiDataToEncodeOrDecode(
+            methodName,
+            matches.length === 0
+                ? `Invalid ABI: no ${kind} matches '${key}'.`
+                : `Invalid ABI: several ${kind}s match '${key}', use the signature to choose one.`,
+            { abi, key }
+        );
+    }
+    return matches[0];
+};
+
+export { itemOf, itemsOf };
@@ -0,0 +1,59 @@
+import * as n_utils from '@noble/curves/abstract/utils';
+
+/**
+ * Regular expressions parsing the values: decimal or `0x` prefixed hexadecimal integers, optionally negative,
+ * and `0x` prefixed hexadecimal byte sequences.
+ */
+const REGEX = {
+    integer: /^(-?)(0x[0-9a-fA-F]+|\d+)$/,
+    bytes: /^0x(?:[0-9a-fA-F]{2})*$/
+};
+
+/**
+ * Returns the integer of an `intN` or `uintN` value.
+ *
+ * @param value - The value, a bigint, a safe integer, a decimal or a `0x` prefixed hexadecimal string.
+ * @returns The integer, `null` if `value` is not an integer.
+ */
+const integerOf = (value: unknown): bigint | null => {
+    if (typeof value === 'bigint') {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return Number.isSafeInteger(value) ? BigInt(value) : null;
+    }
+    if (typeof value === 'string') {
+        const match = REGEX.integer.exec(value);
+        if (match !== null) {
+            return match[1] === '-' ? -BigInt(match[2]) : BigInt(match[2]);
+        }
+    }
+    return null;
+};
+
+/**
+ * Returns the bytes of a `bytes` or `bytesN` value.
+ *
+ * @param value - The value, a `0x` prefixed hexadecimal string or a byte array.
+ * @returns The bytes, `null` if `value` is not a byte sequence.
+ */
+const bytesOf = (value: unknown): Uint8Array | null => {
+    if (value instanceof Uint8Array) {
+        return value;
+    }
+    if (typeof value === 'string' && REGEX.bytes.test(value)) {
+        return n_utils.hexToBytes(value.slice(2));
+    }
+    return null;
+};
+
+/**
+ * Renders a decoded value, arrays and tuples included.
+ *
+ * @param value - The decoded value.
+ * @returns The rendered value.
+ */
+const render = (value: unknown): string =>
+    Array.isArray(value) ? `[${value.map(render).join(', ')}]` : String(value);
+
+export { bytesOf, integerOf, render };
@@ -1,4 +1,6 @@
 export * from './types.d';
 export * from './fragment';
 export * from './coder';
+export * from './error-registry';
+export * from './signature-database';
 export * from '../contract/coder';
@@ -0,0 +1,222 @@
+import * as n_utils from '@noble/curves/abstract/utils';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { Blake2b256, Keccak256 } from '../hash';
+import { Address, Hex } from '../vcdm';
+import { bytesOf, integerOf } from './helpers/values';
+
+/**
+ * The length in bytes of an array element in the packed encoding.
+ */
+const WORD_LENGTH = 32;
+
+/**
+ * Regular expressions parsing the types.
+ */
+const REGEX = {
+    array: /^(.+)\[(\d*)\]$/,
+    bytes: /^bytes(\d+)$/,
+    integer: /^(u?)int(\d*)$/
+};
+
+/**
+ * Packs a value of an elementary type: in its minimal length when packed alone,
+ * padded to 32 bytes as the ABI encoding does when packed as an array element.
+ *
+ * @param type - The elementary type.
+ * @param value - The value.
+ * @param isElement - `true` if the value is an array element.
+ * @param fail - Throws the error of the value.
+ * @returns The packed value.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If the type is not supported or the value doesn't match it.
+ */
+function packElementary(
+    type: string,
+    value: unknown,
+    isElement: boolean,
+    fail: (reason: string) => never
+): Uint8Array {
+    if (type === 'string' || type === 'bytes') {
+        if (isElement) {
+            return fail(`has ${type} elements, they can't be packed`);
+        }
+        return type === 'string'
+            ? typeof value === 'string'
+                ? utf8ToBytes(value)
+                : fail('is not a string')
+            : (bytesOf(value) ?? fail('is not a byte sequence'));
+    }
+    if (type === 'address') {
+        if (typeof value !== 'string' || !Address.isValid(value)) {
+            return fail('is not an address');
+        }
+        return padLeft(n_utils.hexToBytes(value.slice(2)), isElement);
+    }
+    if (type === 'bool') {
+        if (typeof value !== 'boolean') {
+            return fail('is not a boolean');
+        }
+        return padLeft(Uint8Array.of(value ? 1 : 0), isElement);
+    }
+    const bytes = REGEX.bytes.exec(type);
+    if (bytes !== null) {
+        const length = Number(bytes[1]);
+        if (length < 1 || length > WORD_LENGTH) {
+            return fail('is not a supported type');
+        }
+        const sequence = bytesOf(value);
+        if (sequence?.length !== length) {
+            return fail(`is not a sequence of ${length} bytes`);
+        }
+        const packed = new Uint8Array(isElement ? WORD_LENGTH : length);
+        packed.set(sequence);
+        return packed;
+    }
+    const integer = REGEX.integer.exec(type);
+    if (integer !== null) {
+        const bits = integer[2] === '' ? 256 : Number(integer[2]);
+        if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+            return fail('is not a supported type');
+        }
+        const isSigned = integer[1] === '';
+        const n = integerOf(value) ?? fail('is not an integer');
+        const min = isSigned ? -(1n << BigInt(bits - 1)) : 0n;
+        const max = isSigned
+            ? (1n << BigInt(bits - 1)) - 1n
+            : (1n << BigInt(bits)) - 1n;
+        if (n < min || n > max) {
+            return fail(`is out of the range of ${type}`);
+        }
+        // Two's complement of the negative integers, sign extended in the array elements.
+        const width = isElement ? 256 : bits;
+        return n_utils.numberToBytesBE(BigInt.asUintN(width, n), width / 8);
+    }
+    return fail('is not a supported type');
+}
+
+/**
+ * Pads `bytes` to 32 bytes on the left if they are an array element.
+ *
+ * @param bytes - The packed value.
+ * @param isElement - `true` if the value is an array element.
+ * @returns The padded value.
+ */
+function padLeft(bytes: Uint8Array, isElement: boolean): Uint8Array {
+    if (!isElement) {
+        return bytes;
+    }
+    const padded = new Uint8Array(WORD_LENGTH);
+    padded.set(bytes, WORD_LENGTH - bytes.length);
+    return padded;
+}
+
+/**
+ * Packs the values as Solidity's `abi.encodePacked` does.
+ *
+ * @param types - The elementary types or arrays of static elementary types.
+ * @param values - The values to pack.
+ * @returns The packed values.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If a type is not supported or a value doesn't match its type.
+ */
+function packedBytesOf(types: string[], values: unknown[]): Uint8Array {
+    if (types.length !== values.length) {
+        throw new InvalidAbiDataToEncodeOrDecode(
+            'abi.encodePacked()',
+            `Encoding failed: ${types.length} types but ${values.length} values given.`,
+            { types }
+        );
+    }
+    return n_utils.concatBytes(
+        ...types.map((type, index) => {
+            const fail = (reason: string): never => {
+                throw new InvalidAbiDataToEncodeOrDecode(
+                    'abi.encodePacked()',
+                    `Encoding failed: value ${index} of type ${type} ${reason}.`,
+                    { types, index }
+                );
+            };
+            const value = values[index];
+            const array = REGEX.array.exec(type);
+            if (array === null) {
+                return packElementary(type, value, false, fail);
+            }
+            if (REGEX.array.test(array[1])) {
+                return fail("is a nested array, it can't be packed");
+            }
+            if (!Array.isArray(value)) {
+                return fail('is not an array');
+            }
+            if (array[2] !== '' && value.length !== Number(array[2])) {
+                return fail(`must have ${array[2]} elements`);
+            }
+            return n_utils.concatBytes(
+                ...value.map((element: unknown) =>
+                    packElementary(array[1], element, true, fail)
+                )
+            );
+        })
+    );
+}
+
+/**
+ * Encodes the values in the non-standard packed mode of Solidity's `abi.encodePacked`:
+ * - the elementary types are encoded in their minimal length, without padding, e.g. `uint16` in 2 bytes;
+ * - `string` and `bytes` are encoded in place, without length;
+ * - the elements of the arrays are padded to 32 bytes, as in the standard ABI encoding.
+ *
+ * Nested arrays, arrays of `string` or `bytes`, and tuples can't be packed, as in Solidity.
+ *
+ * @param types - The types of the values, e.g. `['address', 'uint16', 'string', 'bytes32[]']`.
+ * @param values - The values to encode: integers as bigint, number or string,
+ * byte sequences as `0x` prefixed hexadecimal strings or byte arrays.
+ * @returns The packed encoding as a hexadecimal string.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ *
+ * @see [Non-standard Packed Mode](https://docs.soliditylang.org/en/latest/abi-spec.html#non-standard-packed-mode)
+ *
+ * @example
+ * ```typescript
+ * abi.encodePacked(['int16', 'bytes1', 'uint16', 'string'], [-1, '0x42', 3, 'Hello, world!']);
+ * // 0xffff42000348656c6c6f2c20776f726c6421
+ * ```
+ */
+function encodePacked(types: string[], values: unknown[]): string {
+    return Hex.of(packedBytesOf(types, values)).toString();
+}
+
+/**
+ * Returns the Keccak 256 hash of the packed encoding of the values,
+ * as Solidity's `keccak256(abi.encodePacked(...))` does.
+ *
+ * @param types - The types of the values, see {@link encodePacked}.
+ * @param values - The values to encode.
+ * @returns The hash.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ */
+function solidityKeccak256(types: string[], values: unknown[]): Keccak256 {
+    return Keccak256.of(packedBytesOf(types, values));
+}
+
+/**
+ * Returns the Blake2b 256 hash of the packed encoding of the values,
+ * as the VeChain `Extension` built-in contract's `blake2b256(abi.encodePacked(...))` does.
+ *
+ * @param types - The types of the values, see {@link encodePacked}.
+ * @param values - The values to encode.
+ * @returns The hash.
+ * @throws {InvalidAbiDataToEncodeOrDecode}
+ */
+function solidityBlake2b256(types: string[], values: unknown[]): Blake2b256 {
+    return Blake2b256.of(packedBytesOf(types, values));
+}
+
+/**
+ * Object containing the packed encoding functions.
+ */
+const packed = {
+    encodePacked,
+    solidityKeccak256,
+    solidityBlake2b256
+};
+
+export { packed };
@@ -0,0 +1,384 @@
+import { type AbiEvent, type AbiFunction, type AbiParameter } from 'abitype';
+import { InvalidAbiFragment } from '@vechain/sdk-errors';
+import {
+    ERC1155_ABI,
+    ERC20_ABI,
+    ERC721_ABI,
+    THOR_BUILT_IN_SIGNATURES
+} from '../utils/const/abi';
+import { codec } from './codec';
+import { itemsOf } from './helpers/interface';
+import { signature } from './signature';
+import {
+    type AbiItem,
+    type DecodedSignature,
+    type InterfaceAbi
+} from './types';
+
+/**
+ * The ABIs bundled in the database: the token standards and the Thor built-in contracts.
+ */
+const BUNDLED_ABIS: InterfaceAbi[] = [
+    ERC20_ABI,
+    ERC721_ABI,
+    ERC1155_ABI,
+    THOR_BUILT_IN_SIGNATURES
+];
+
+/**
+ * Represents an offline database of the signatures of functions and events,
+ * indexed by 4-byte selector and by 32-byte topic, to decode the calldata and the logs
+ * of contracts whose ABI is unknown.
+ *
+ * The signatures of the token standards (ERC-20, ERC-721, ERC-1155) and of the Thor built-in
+ * contracts are bundled; more are added from ABIs or from text files listing one signature per line.
+ *
+ * A selector or a topic may match several signatures: the candidates are trial-decoded,
+ * and only those encoding the data exactly as given are returned.
+ *
+ * @example
+ * ```typescript
+ * const signatures = SignatureDatabase.of(vaultAbi);
+ * signatures.lookupFunction('0xa9059cbb'); // ['transfer(address,uint256)']
+ * signatures.decodeFunction(clause.data); // [{ name: 'transfer', signature: 'transfer(address,uint256)', args: { to: '0x…', value: 1n } }]
+ * signatures.decodeEvent(log.topics, log.data);
+ * ```
+ */
+class SignatureDatabase {
+    /**
+     * The registered functions, keyed by selector.
+     */
+    private readonly functionFragments = new Map<string, AbiFunction[]>();
+
+    /**
+     * The registered events, keyed by topic.
+     */
+    private readonly eventFragments = new Map<string, AbiEvent[]>();
+
+    /**
+     * Creates a new database of the signatures of `abis`.
+     *
+     * @param abis - The ABIs, see {@link register}.
+     * @param bundled - `true` to register the bundled signatures first.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+     */
+    constructor(abis: InterfaceAbi[] = [], bundled: boolean = true) {
+        (bundled ? [...BUNDLED_ABIS, ...abis] : abis).forEach((abi) =>
+            this.register(abi)
+        );
+    }
+
+    /**
+     * Get the registered functions.
+     *
+     * @returns The JSON ABIs of the functions.
+     */
+    public get functions(): AbiFunction[] {
+        return Array.from(this.functionFragments.values()).flat();
+    }
+
+    /**
+     * Get the registered events.
+     *
+     * @returns The JSON ABIs of the events.
+     */
+    public get events(): AbiEvent[] {
+        return Array.from(this.eventFragments.values()).flat();
+    }
+
+    /**
+     * Registers every `function` and non-anonymous `event` fragment of `abi`, the other fragments are ignored.
+     *
+     * A function is registered once per signature, an event once per signature and indexed arguments:
+     * the ERC-20 and ERC-721 `Transfer` events are told apart by the number of topics of the log.
+     *
+     * @param abi - The ABI: JSON fragments, human-readable fragments or the JSON string of an ABI.
+     * @returns This database.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If the ABI is malformed.
+     */
+    public register(abi: InterfaceAbi): this {
+        itemsOf(abi, 'SignatureDatabase.register()').forEach((item) => {
+            this.registerItem(item);
+        });
+        return this;
+    }
+
+    /**
+     * Registers the signatures listed in `text`, the content of a signature file:
+     * - one signature per line, e.g. `transfer(address,uint256)` or `function transfer(address to, uint256 value)`;
+     * - events prefixed by `event`, declaring their indexed arguments, e.g. `event Transfer(address indexed, address indexed, uint256)`;
+     * - blank lines and text following `#` ignored.
+     *
+     * @param text - The listed signatures.
+     * @returns This database.
+     * @throws {InvalidAbiFragment} If a line is not a valid signature.
+     */
+    public registerText(text: string): this {
+        text.split(/\r?\n/)
+            .map((line, index) => ({
+                source: line.replace(/#.*/, '').trim(),
+                line: index + 1
+            }))
+            .filter(({ source }) => source !== '')
+            .forEach(({ source, line }) => {
+                const isEvent = source.startsWith('event ');
+                try {
+                    this.registerItem(
+                        signature.parseSignature(
+                            isEvent || source.startsWith('function ')
+                                ? source
+                                : `function ${source}`
+                        )
+                    );
+                } catch (e) {
+                    throw new InvalidAbiFragment(
+                        'SignatureDatabase.registerText()',
+                        `Initialization failed: Invalid signature at line ${line}.`,
+                        {
+                            type: isEvent ? 'event' : 'function',
+                            fragment: source
+                        },
+                        e
+                    );
+                }
+            });
+        return this;
+    }
+
+    /**
+     * Registers `item` if it is a function or a non-anonymous event, see {@link register}.
+     *
+     * @param item - The ABI item.
+     */
+    private registerItem(item: AbiItem): void {
+        if (item.type === 'function') {
+            add(
+                this.functionFragments,
+                signature.signatureHash(item),
+                item,
+                (other) =>
+                    signature.formatSignature(other) ===
+                    signature.formatSignature(item)
+            );
+        } else if (item.type === 'event' && item.anonymous !== true) {
+            add(
+                this.eventFragments,
+                signature.signatureHash(item),
+                item,
+                (other) =>
+                    signature.formatSignature(other) ===
+                        signature.formatSignature(item) &&
+                    other.inputs.every(
+                        (input, index) =>
+                            (input.indexed === true) ===
+                            (item.inputs[index].indexed === true)
+                    )
+            );
+        }
+    }
+
+    /**
+     * Returns a new database of the signatures of this database and of `abis`.
+     *
+     * @param abis - The ABIs, see {@link register}.
+     * @returns The new database, this database is not modified.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+     */
+    public extend(...abis: InterfaceAbi[]): SignatureDatabase {
+        const database = new SignatureDatabase([], false);
+        [...this.functions, ...this.events].forEach((item) => {
+            database.registerItem(item);
+        });
+        abis.forEach((abi) => database.register(abi));
+        return database;
+    }
+
+    /**
+     * Returns the signatures of the functions having `selector`.
+     *
+     * @param selector - The selector, the first 4 bytes of the calldata.
+     * @returns The candidate signatures, empty if no function is registered with the selector.
+     */
+    public lookupFunction(selector: string): string[] {
+        return signaturesOf(
+            this.functionFragments.get(selector.toLowerCase()) ?? []
+        );
+    }
+
+    /**
+     * Returns the signatures of the events having `topic`.
+     *
+     * @param topic - The topic, the first topic of the log.
+     * @returns The candidate signatures, empty if no event is registered with the topic.
+     */
+    public lookupEvent(topic: string): string[] {
+        return signaturesOf(this.eventFragments.get(topic.toLowerCase()) ?? []);
+    }
+
+    /**
+     * Decodes the calldata against each function having its selector.
+     *
+     * @param data - The calldata, hex encoded.
+     * @returns The decoded calls, in registration order, of the candidates the data is the exact encoding of.
+     */
+    public decodeFunction(data: string): DecodedSignature[] {
+        const candidates =
+            this.functionFragments.get(data.slice(0, 10).toLowerCase()) ?? [];
+        return candidates.flatMap((fragment) => {
+            const values = trialDecode(fragment.inputs, '0x' + data.slice(10));
+            return values !== null ? [decodedOf(fragment, values)] : [];
+        });
+    }
+
+    /**
+     * Decodes the log against each event having its first topic.
+     *
+     * The indexed arguments of dynamic types are returned as their topic, the hash of their value.
+     *
+     * @param topics - The topics of the log, hex encoded.
+     * @param data - The data of the log, hex encoded.
+     * @returns The decoded events, in registration order, of the candidates matching the number of topics
+     * and the data is the exact encoding of.
+     */
+    public decodeEvent(topics: string[], data: string): DecodedSignature[] {
+        const candidates =
+            topics.length > 0
+                ? (this.eventFragments.get(topics[0].toLowerCase()) ?? [])
+                : [];
+        return candidates.flatMap((fragment) => {
+            const indexed = fragment.inputs.filter((input) => input.indexed);
+            if (indexed.length !== topics.length - 1) {
+                return [];
+            }
+            const dataValues = trialDecode(
+                fragment.inputs.filter((input) => input.indexed !== true),
+                data
+            );
+            const topicValues = indexed.map((input, index) =>
+                isHashed(input)
+                    ? [topics[index + 1]]
+                    : trialDecode([input], topics[index + 1])
+            );
+            if (dataValues === null || topicValues.includes(null)) {
+                return [];
+            }
+            let dataIndex = 0;
+            let topicIndex = 0;
+            return [
+                decodedOf(
+                    fragment,
+                    fragment.inputs.map((input) =>
+                        input.indexed === true
+                            ? (topicValues[topicIndex++] as unknown[])[0]
+                            : dataValues[dataIndex++]
+                    )
+                )
+            ];
+        });
+    }
+
+    /**
+     * Returns a new database of the bundled signatures and the signatures of `abis`.
+     *
+     * @param abis - The ABIs, see {@link register}.
+     * @returns The new database.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+     */
+    public static of(...abis: InterfaceAbi[]): SignatureDatabase {
+        return new SignatureDatabase(abis);
+    }
+}
+
+/**
+ * Adds `fragment` to the candidates of `key`, unless a candidate is the same as `fragment`.
+ *
+ * @param fragments - The candidates, keyed by selector or topic.
+ * @param key - The selector or the topic of the fragment.
+ * @param fragment - The fragment.
+ * @param isSame - Tells if a candidate is the same as `fragment`.
+ */
+function add<T>(
+    fragments: Map<string, T[]>,
+    key: string,
+    fragment: T,
+    isSame: (other: T) => boolean
+): void {
+    const candidates = fragments.get(key) ?? [];
+    if (!candidates.some(isSame)) {
+        fragments.set(key, [...candidates, fragment]);
+    }
+}
+
+/**
+ * Returns the distinct signatures of the candidates.
+ *
+ * @param candidates - The JSON ABIs of the functions or the events.
+ * @returns The signatures, in registration order.
+ */
+function signaturesOf(candidates: Array<AbiFunction | AbiEvent>): string[] {
+    return Array.from(new Set(candidates.map(signature.formatSignature)));
+}
+
+/**
+ * Tells if the indexed argument is stored in its topic as the hash of its value.
+ *
+ * @param input - The indexed argument.
+ * @returns `true` for the strings, bytes, arrays and tuples.
+ */
+function isHashed(input: AbiParameter): boolean {
+    return (
+        input.type === 'string' ||
+        input.type === 'bytes' ||
+        input.type.endsWith(']') ||
+        input.type.startsWith('tuple')
+    );
+}
+
+/**
+ * Decodes `data` as the values of `inputs`.
+ *
+ * @param inputs - The types of the values.
+ * @param data - The encoded values, hex encoded.
+ * @returns The values, `null` if the data is not the exact encoding of values of `inputs`.
+ */
+function trialDecode(
+    inputs: readonly AbiParameter[],
+    data: string
+): unknown[] | null {
+    try {
+        const values = codec.decodeParameters(inputs, data) as unknown[];
+        return codec.encodeParameters(inputs, values) === data.toLowerCase()
+            ? [...values]
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Returns the decoded call or event of `fragment`.
+ *
+ * @param fragment - The JSON ABI of the function or the event.
+ * @param values - The values of the arguments, in declaration order.
+ * @returns The decoded signature, the arguments keyed by name or by position.
+ */
+function decodedOf(
+    fragment: AbiFunction | AbiEvent,
+    values: unknown[]
+): DecodedSignature {
+    const args: Record<string, unknown> = {};
+    fragment.inputs.forEach((input, index) => {
+        args[
+            input.name !== undefined && input.name !== ''
+                ? input.name
+                : String(index)
+        ] = values[index];
+    });
+    return {
+        name: fragment.name,
+        signature: signature.formatSignature(fragment),
+        args
+    };
+}
+
+export { SignatureDatabase };
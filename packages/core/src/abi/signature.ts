@@ -0,0 +1,410 @@
+import * as n_utils from '@noble/curves/abstract/utils';
+import { keccak_256 as nh_keccak_256 } from '@noble/hashes/sha3';
+import { InvalidAbiFragment } from '@vechain/sdk-errors';
+import {
+    type AbiConstructor,
+    type AbiError,
+    type AbiEvent,
+    type AbiEventParameter,
+    type AbiFunction,
+    type AbiParameter,
+    type AbiStateMutability
+} from 'abitype';
+import { type AbiItem } from './types';
+
+/**
+ * Regular expressions parsing the signatures.
+ */
+const REGEX = {
+    token: /[A-Za-z0-9_$]+|\S/g,
+    identifier: /^[A-Za-z_$][A-Za-z0-9_$]*$/,
+    integer: /^u?int(\d*)$/,
+    bytes: /^bytes(\d+)$/,
+    length: /^\d+$/
+};
+
+/**
+ * The kinds of signatures, the keywords introducing them, and the parameters parsed alone.
+ */
+type Kind = 'constructor' | 'error' | 'event' | 'function' | 'parameter';
+
+/**
+ * The keywords introducing a signature.
+ */
+const KINDS: Kind[] = ['constructor', 'error', 'event', 'function'];
+
+/**
+ * The modifiers of a function or a constructor, mapped to their state mutability.
+ */
+const STATE_MUTABILITIES: Record<string, AbiStateMutability | null> = {
+    constant: 'view',
+    external: null,
+    nonpayable: 'nonpayable',
+    payable: 'payable',
+    public: null,
+    pure: 'pure',
+    view: 'view'
+};
+
+/**
+ * The data locations of a parameter, ignored by the ABI.
+ */
+const LOCATIONS = ['calldata', 'memory', 'storage'];
+
+/**
+ * The tokens of a signature, consumed while it is parsed.
+ */
+class Tokens {
+    /**
+     * The tokens of the signature.
+     */
+    private readonly tokens: string[];
+
+    /**
+     * The index of the next token.
+     */
+    private index = 0;
+
+    /**
+     * Splits a signature into tokens.
+     *
+     * @param signature - The signature to parse.
+     * @param kind - The kind of the signature, refined once its keyword is parsed.
+     */
+    constructor(
+        public readonly signature: string,
+        public kind: Kind
+    ) {
+        this.tokens = signature.match(REGEX.token) ?? [];
+    }
+
+    /**
+     * Returns the next token, without consuming it.
+     *
+     * @returns The next token, `undefined` at the end of the signature.
+     */
+    public peek(): string | undefined {
+        return this.tokens[this.index];
+    }
+
+    /**
+     * Consumes the next token.
+     *
+     * @param expected - The expected token, if any.
+     * @returns The token consumed.
+     * @throws {InvalidAbiFragment} If there are no more tokens or the token is not the expected one.
+     */
+    public next(expected?: string): string {
+        const token = this.peek();
+        if (
+            token === undefined ||
+            (expected !== undefined && token !== expected)
+        ) {
+            this.fail(
+                expected !== undefined ? `expected '${expected}'` : undefined
+            );
+        }
+        this.index++;
+        return token;
+    }
+
+    /**
+     * Consumes the next token if it is `expected`.
+     *
+     * @param expected - The expected token.
+     * @returns `true` if the token has been consumed.
+     */
+    public accept(expected: string): boolean {
+        if (this.peek() === expected) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Throws the error of the next token.
+     *
+     * @param reason - Why the next token is not valid.
+     * @throws {InvalidAbiFragment}
+     */
+    public fail(reason?: string): never {
+        const token = this.peek();
+        const found = token === undefined ? 'end of signature' : `'${token}'`;
+        throw new InvalidAbiFragment(
+            'abi.parseSignature()',
+            `Initialization failed: Invalid signature, unexpected ${found}${reason !== undefined ? `, ${reason}` : ''}.`,
+            { type: this.kind, fragment: this.signature }
+        );
+    }
+}
+
+/**
+ * Returns `true` if `type` is an elementary type of the ABI.
+ *
+ * @param type - The type, e.g. `uint256`.
+ * @returns `true` if `type` is supported.
+ */
+function isElementary(type: string): boolean {
+    if (type === 'address' || type === 'bool' || type === 'string') {
+        return true;
+    }
+    const integer = REGEX.integer.exec(type);
+    if (integer !== null) {
+        const bits = integer[1] === '' ? 256 : Number(integer[1]);
+        return bits >= 8 && bits <= 256 && bits % 8 === 0;
+    }
+    if (type === 'bytes') {
+        return true;
+    }
+    const bytes = REGEX.bytes.exec(type);
+    return bytes !== null && Number(bytes[1]) >= 1 && Number(bytes[1]) <= 32;
+}
+
+/**
+ * Parses the type of a parameter: an elementary type or a tuple, followed by array suffixes.
+ *
+ * @param tokens - The tokens of the signature.
+ * @returns The parameter, without name.
+ * @throws {InvalidAbiFragment}
+ */
+function parseType(tokens: Tokens): AbiParameter {
+    let type: string;
+    let components: AbiParameter[] | undefined;
+    if (tokens.peek() === '(' || tokens.accept('tuple')) {
+        components = parseParameterList(tokens, false);
+        type = 'tuple';
+    } else {
+        const token = tokens.peek() ?? '';
+        type = token === 'uint' || token === 'int' ? `${token}256` : token;
+        if (!isElementary(type)) {
+            tokens.fail('expected a type');
+        }
+        tokens.next();
+        if (type === 'address') {
+            tokens.accept('payable');
+        }
+    }
+    while (tokens.accept('[')) {
+        const length = tokens.peek() ?? '';
+        if (REGEX.length.test(length)) {
+            if (Number(length) === 0) {
+                tokens.fail('expected an array length');
+            }
+            tokens.next();
+            type = `${type}[${Number(length)}]`;
+        } else {
+            type = `${type}[]`;
+        }
+        tokens.next(']');
+    }
+    return (
+        components !== undefined ? { type, components } : { type }
+    ) as AbiParameter;
+}
+
+/**
+ * Parses a parameter: its type, the `indexed` modifier in events, an ignored data location and its name.
+ *
+ * @param tokens - The tokens of the signature.
+ * @param isEvent - `true` if the parameter is a parameter of an event.
+ * @returns The parameter.
+ * @throws {InvalidAbiFragment}
+ */
+function parseParameter(tokens: Tokens, isEvent: boolean): AbiParameter {
+    const parameter: AbiParameter & { indexed?: boolean } = parseType(tokens);
+    if (isEvent) {
+        parameter.indexed = tokens.accept('indexed');
+    }
+    if (LOCATIONS.includes(tokens.peek() ?? '')) {
+        tokens.next();
+    }
+    const name = tokens.peek() ?? '';
+    if (REGEX.identifier.test(name)) {
+        tokens.next();
+        return { name, ...parameter };
+    }
+    return parameter;
+}
+
+/**
+ * Parses a parenthesized list of parameters.
+ *
+ * @param tokens - The tokens of the signature.
+ * @param isEvent - `true` if the parameters are parameters of an event.
+ * @returns The parameters.
+ * @throws {InvalidAbiFragment}
+ */
+function parseParameterList(tokens: Tokens, isEvent: boolean): AbiParameter[] {
+    tokens.next('(');
+    const parameters: AbiParameter[] = [];
+    if (!tokens.accept(')')) {
+        do {
+            parameters.push(parseParameter(tokens, isEvent));
+        } while (tokens.accept(','));
+        tokens.next(')');
+    }
+    return parameters;
+}
+
+/**
+ * Parses the human-readable signature of a function, an event, an error or a constructor,
+ * as written in Solidity or in the human-readable ABI of ethers and viem:
+ * - `function balanceOf(address owner) view returns (uint256)`, the `function` keyword being optional;
+ * - `event Transfer(address indexed from, address indexed to, uint256 value)`;
+ * - `error InsufficientBalance(uint256 available, uint256 required)`;
+ * - `constructor(address owner) payable`.
+ *
+ * Tuples are written `(address,uint256)` or `tuple(address,uint256)`,
+ * `uint` and `int` stand for `uint256` and `int256`, and data locations are ignored.
+ *
+ * @param signature - The human-readable signature.
+ * @returns The ABI item of the signature.
+ * @throws {InvalidAbiFragment}
+ *
+ * @example
+ * ```typescript
+ * abi.parseSignature('function transfer(address to, uint256 value) returns (bool)');
+ * // { type: 'function', name: 'transfer', inputs: [...], outputs: [{ type: 'bool' }], stateMutability: 'nonpayable' }
+ * ```
+ */
+function parseSignature(signature: string): AbiItem {
+    const tokens = new Tokens(signature, 'function');
+    if (KINDS.includes(tokens.peek() as Kind)) {
+        tokens.kind = tokens.next() as Kind;
+    }
+    const kind = tokens.kind;
+    let name = '';
+    if (kind !== 'constructor') {
+        name = tokens.peek() ?? '';
+        if (!REGEX.identifier.test(name)) {
+            tokens.fail('expected a name');
+        }
+        tokens.next();
+    }
+    const inputs = parseParameterList(tokens, kind === 'event');
+    let item: AbiItem;
+    if (kind === 'event') {
+        const anonymous = tokens.accept('anonymous');
+        item = {
+            type: 'event',
+            name,
+            inputs: inputs as AbiEventParameter[],
+            ...(anonymous ? { anonymous } : {})
+        } satisfies AbiEvent;
+    } else if (kind === 'error') {
+        item = { type: 'error', name, inputs } satisfies AbiError;
+    } else {
+        let stateMutability: AbiStateMutability = 'nonpayable';
+        while (Object.hasOwn(STATE_MUTABILITIES, tokens.peek() ?? '')) {
+            const modifier = STATE_MUTABILITIES[tokens.peek() ?? ''];
+            if (
+                kind === 'constructor' &&
+                (modifier === 'pure' || modifier === 'view')
+            ) {
+                tokens.fail('a constructor is payable or nonpayable');
+            }
+            tokens.next();
+            stateMutability = modifier ?? stateMutability;
+        }
+        if (kind === 'constructor') {
+            item = {
+                type: 'constructor',
+                inputs,
+                stateMutability:
+                    stateMutability as AbiConstructor['stateMutability']
+            } satisfies AbiConstructor;
+        } else {
+            const outputs = tokens.accept('returns')
+                ? parseParameterList(tokens, false)
+                : [];
+            item = {
+                type: 'function',
+                name,
+                inputs,
+                outputs,
+                stateMutability
+            } satisfies AbiFunction;
+        }
+    }
+    if (tokens.peek() !== undefined) {
+        tokens.fail();
+    }
+    return item;
+}
+
+/**
+ * Parses comma-separated parameters, as written in a signature, e.g. `address to, (uint8,bool)[] flags`.
+ *
+ * @param parameters - The human-readable parameters.
+ * @returns The ABI parameters.
+ * @throws {InvalidAbiFragment}
+ */
+function parseParameters(parameters: string): AbiParameter[] {
+    const tokens = new Tokens(`(${parameters})`, 'parameter');
+    const parsed = parseParameterList(tokens, false);
+    if (tokens.peek() !== undefined) {
+        tokens.fail();
+    }
+    return parsed;
+}
+
+/**
+ * Returns the canonical type of a parameter, tuples written as the list of their components' types,
+ * as it appears in the signatures hashed into selectors and topics, e.g. `(address,uint256)[]`.
+ *
+ * @param parameter - The ABI parameter.
+ * @returns The canonical type.
+ * @throws {InvalidAbiFragment} If a tuple has no components.
+ */
+function formatParameter(parameter: AbiParameter): string {
+    if (!parameter.type.startsWith('tuple')) {
+        return parameter.type;
+    }
+    if (!('components' in parameter)) {
+        throw new InvalidAbiFragment(
+            'abi.formatParameter()',
+            `Initialization failed: The ${parameter.type} parameter has no components.`,
+            { type: 'parameter', fragment: parameter }
+        );
+    }
+    return `(${parameter.components.map(formatParameter).join(',')})${parameter.type.slice(5)}`;
+}
+
+/**
+ * Returns the canonical signature of a function, an event or an error, e.g. `transfer(address,uint256)`.
+ *
+ * @param item - The ABI item.
+ * @returns The canonical signature.
+ * @throws {InvalidAbiFragment} If a tuple has no components.
+ */
+function formatSignature(item: AbiError | AbiEvent | AbiFunction): string {
+    return `${item.name}(${item.inputs.map(formatParameter).join(',')})`;
+}
+
+/**
+ * Returns the selector of a function or an error, or the topic of an event:
+ * the Keccak 256 hash of the canonical signature, truncated to 4 bytes for the functions and the errors.
+ *
+ * @param item - The ABI item.
+ * @returns The selector or the topic, as a hexadecimal string.
+ * @throws {InvalidAbiFragment} If a tuple has no components.
+ */
+function signatureHash(item: AbiError | AbiEvent | AbiFunction): string {
+    const hash =
+        '0x' + n_utils.bytesToHex(nh_keccak_256(formatSignature(item)));
+    return item.type === 'event' ? hash : hash.slice(0, 10);
+}
+
+/**
+ * Object containing the parser of human-readable signatures.
+ */
+const signature = {
+    formatParameter,
+    formatSignature,
+    parseParameters,
+    parseSignature,
+    signatureHash
+};
+
+export { signature };
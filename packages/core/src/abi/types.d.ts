@@ -1,3 +1,11 @@
+import {
+    type AbiConstructor,
+    type AbiError,
+    type AbiEvent,
+    type AbiFunction,
+    type AbiParameter,
+    type AbiParametersToPrimitiveTypes
+} from 'abitype';
 import { type ethers } from 'ethers';
 
 /**
@@ -15,6 +23,11 @@ type FunctionFragment = ethers.FunctionFragment;
  */
 type EventFragment = ethers.EventFragment;
 
+/**
+ * Represents a wrapped Error Fragment for ethers.js types.
+ */
+type ErrorFragment = ethers.ErrorFragment;
+
 /**
  * Represents a wrapped Interface for ethers.js types.
  */
@@ -48,10 +61,106 @@ type BytesLike = ethers.BytesLike;
  */
 type FormatType = ethers.FormatType;
 
+/**
+ * Represents a function, an event, an error or a constructor of an ABI,
+ * as parsed from its human-readable signature.
+ */
+type AbiItem = AbiConstructor | AbiError | AbiEvent | AbiFunction;
+
+/**
+ * Represents the revert data decoded against an error of an `ErrorRegistry`.
+ */
+interface DecodedError {
+    /**
+     * The name of the error, e.g. `Error`, `Panic` or the name of a custom error.
+     */
+    name: string;
+
+    /**
+     * The signature of the error, e.g. `Error(string)`.
+     */
+    signature: string;
+
+    /**
+     * The decoded arguments, keyed by name, or by position for the unnamed arguments.
+     */
+    args: Record<string, unknown>;
+}
+
+/**
+ * Represents calldata or a log decoded against a candidate of a `SignatureDatabase`.
+ */
+interface DecodedSignature {
+    /**
+     * The name of the function or the event, e.g. `transfer`.
+     */
+    name: string;
+
+    /**
+     * The signature of the function or the event, e.g. `transfer(address,uint256)`.
+     */
+    signature: string;
+
+    /**
+     * The decoded arguments, keyed by name, or by position for the unnamed arguments.
+     */
+    args: Record<string, unknown>;
+}
+
+/**
+ * The sizes of the integers `abitype` types as `number`, the codec decodes them as `bigint`.
+ */
+type SmallIntegerBits = 8 | 16 | 24 | 32 | 40 | 48;
+
+/**
+ * The type of an ABI parameter, its small integers widened to 256 bits, arrays of them included.
+ */
+type WideIntegerType<TType extends string> =
+    TType extends `${infer Base}[${infer Suffix}`
+        ? `${WideIntegerType<Base>}[${Suffix}`
+        : TType extends `uint${SmallIntegerBits}`
+          ? 'uint256'
+          : TType extends `int${SmallIntegerBits}`
+            ? 'int256'
+            : TType;
+
+/**
+ * An ABI parameter, its small integers widened to 256 bits, the components of tuples included.
+ */
+type WideIntegerParameter<TParameter extends AbiParameter> = Omit<
+    TParameter,
+    'type' | 'components'
+> & {
+    type: WideIntegerType<TParameter['type']>;
+} & (TParameter extends {
+        components: infer Components extends readonly AbiParameter[];
+    }
+        ? {
+              components: {
+                  [K in keyof Components]: WideIntegerParameter<Components[K]>;
+              };
+          }
+        : unknown);
+
+/**
+ * The values decoded for the ABI parameters: the types of {@link AbiParametersToPrimitiveTypes},
+ * every integer as `bigint`. Untyped parameters are decoded as `unknown[]`.
+ */
+type DecodedParameters<TParameters extends readonly AbiParameter[]> =
+    AbiParametersToPrimitiveTypes<
+        { [K in keyof TParameters]: WideIntegerParameter<TParameters[K]> },
+        'outputs'
+    >;
+
 export type {
+    AbiItem,
     ParamType,
     FunctionFragment,
     EventFragment,
+    ErrorFragment,
+    DecodedError,
+    DecodedParameters,
+    DecodedSignature,
     Interface,
     InterfaceAbi,
     Result,
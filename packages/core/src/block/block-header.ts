@@ -0,0 +1,406 @@
+import { InvalidDataType, InvalidRLP } from '@vechain/sdk-errors';
+import { Blake2b256 } from '../hash';
+import { RLP_CODER, type RLPOutput, type RLPValidObject } from '../encoding';
+import { secp256k1 } from '../secp256k1';
+import { BLOCK_HEADER_RLP, SIGNATURE_LENGTH } from '../utils';
+import { Address, BlockId, Hex, HexUInt, Quantity } from '../vcdm';
+import { type BlockHeaderBody, type BlockHeaderJSON } from './types';
+
+/**
+ * Represents an immutable Thor block header, decoded from its raw RLP encoding,
+ * as returned by the `debug_getRawHeader` RPC method.
+ *
+ * The ID of the block and the address of the proposer are not part of the encoding:
+ * they are derived from the signature, hence the data of an untrusted node can be checked
+ * against the raw header with {@link BlockHeader.verify}.
+ *
+ * @remarks The raw header is the RLP list of the fields of {@link BLOCK_HEADER_RLP}, where
+ * * the transactions root and features are encoded as the root alone if the features are zero;
+ * * the extension is the list of `alpha`, `com` and `baseFeePerGas` without the trailing empty fields,
+ *   missing if all its fields are empty.
+ *
+ * @example
+ * ```typescript
+ * const header = BlockHeader.decode(rawHeader);
+ * header.verify(await thorClient.blocks.getBlockCompressed(header.number));
+ * ```
+ */
+class BlockHeader {
+    /**
+     * The number of fields of the raw header before VIP-214, the extension not encoded.
+     */
+    private static readonly FIELDS_WITHOUT_EXTENSION = 10;
+
+    /**
+     * The number of fields of the header signed by the proposer.
+     */
+    private static readonly SIGNED_FIELDS = 9;
+
+    /**
+     * The fields of {@link BlockHeaderJSON}, checked by {@link verify}.
+     */
+    private static readonly JSON_FIELDS: Array<keyof BlockHeaderJSON> = [
+        'number',
+        'id',
+        'parentID',
+        'timestamp',
+        'gasLimit',
+        'beneficiary',
+        'gasUsed',
+        'totalScore',
+        'txsRoot',
+        'txsFeatures',
+        'stateRoot',
+        'receiptsRoot',
+        'com',
+        'signer',
+        'baseFeePerGas'
+    ];
+
+    /**
+     * Block header body. It represents the fields of the header.
+     */
+    public readonly body: BlockHeaderBody;
+
+    /**
+     * Creates a block header.
+     *
+     * @param body - The fields of the header.
+     * @throws {InvalidDataType}
+     */
+    constructor(body: BlockHeaderBody) {
+        if (!BlockHeader.isValidBody(body)) {
+            throw new InvalidDataType(
+                'BlockHeader constructor',
+                'Invalid block header body. Ensure all required fields are correctly formatted and present.',
+                { body: { ...body, baseFeePerGas: String(body.baseFeePerGas) } }
+            );
+        }
+        this.body = body;
+    }
+
+    /**
+     * Get the number of the block, the number of the parent block plus one.
+     *
+     * @returns The block number.
+     */
+    public get number(): number {
+        return BlockId.of(this.body.parentID).number + 1;
+    }
+
+    /**
+     * Computes the hash signed by the proposer, the BLAKE2b-256 hash of the encoding
+     * of the fields preceding the signature.
+     *
+     * @returns The signing hash.
+     */
+    public get signingHash(): Buffer {
+        return Buffer.from(
+            Blake2b256.of(
+                RLP_CODER.encode(
+                    this._packed().slice(0, BlockHeader.SIGNED_FIELDS)
+                )
+            ).bytes
+        );
+    }
+
+    /**
+     * Get the address of the proposer, recovered from the signature.
+     *
+     * @returns The checksum address of the proposer.
+     * @throws {InvalidSecp256k1Signature}
+     */
+    public get signer(): string {
+        return Address.ofPublicKey(
+            secp256k1.recover(
+                this.signingHash,
+                this.body.signature.subarray(0, SIGNATURE_LENGTH)
+            )
+        ).toString();
+    }
+
+    /**
+     * Get the ID of the block, the BLAKE2b-256 hash of the signing hash and the address
+     * of the proposer, having the first 4 bytes replaced with the block number.
+     *
+     * @returns The block ID, `0x` prefixed hexadecimal.
+     * @throws {InvalidSecp256k1Signature}
+     */
+    public get id(): string {
+        const id = Buffer.from(
+            Blake2b256.of(
+                Buffer.concat([this.signingHash, Hex.of(this.signer).bytes])
+            ).bytes
+        );
+        id.writeUInt32BE(this.number);
+        return Hex.of(id).toString();
+    }
+
+    /**
+     * Encode the block header as Thor does.
+     *
+     * @returns The raw header.
+     */
+    public get encoded(): Buffer {
+        return RLP_CODER.encode(this._packed());
+    }
+
+    /**
+     * Decodes a raw block header.
+     *
+     * @param raw - The raw header, bytes or `0x` prefixed hexadecimal.
+     * @returns The block header.
+     * @throws {InvalidRLP, InvalidDataType}
+     */
+    public static decode(raw: Uint8Array | string): BlockHeader {
+        const fail = (message: string): never => {
+            throw new InvalidRLP('BlockHeader.decode()', message, {
+                context: 'header',
+                data: {
+                    raw: typeof raw === 'string' ? raw : Hex.of(raw).toString()
+                }
+            });
+        };
+        let packed: RLPOutput;
+        try {
+            packed = RLP_CODER.decode(
+                Buffer.from(typeof raw === 'string' ? Hex.of(raw).bytes : raw)
+            );
+        } catch {
+            return fail('Invalid block header. It is not RLP encoded.');
+        }
+        if (
+            !Array.isArray(packed) ||
+            packed.length < BlockHeader.FIELDS_WITHOUT_EXTENSION ||
+            packed.length > BlockHeader.FIELDS_WITHOUT_EXTENSION + 1
+        ) {
+            return fail(
+                'Invalid block header. It must be a list of 10 or 11 fields.'
+            );
+        }
+        const [
+            parentID,
+            timestamp,
+            gasLimit,
+            beneficiary,
+            gasUsed,
+            totalScore,
+            txsRootFeatures,
+            stateRoot,
+            receiptsRoot,
+            signature,
+            extension = []
+        ] = packed;
+        if (!Array.isArray(extension) || extension.length > 3) {
+            return fail(
+                'Invalid block header extension. It must be a list of at most 3 fields.'
+            );
+        }
+        // Restore the omitted fields as empty, the profile decodes them as zero.
+        const decoded = BLOCK_HEADER_RLP.decodeObject(
+            RLP_CODER.encode([
+                parentID,
+                timestamp,
+                gasLimit,
+                beneficiary,
+                gasUsed,
+                totalScore,
+                Array.isArray(txsRootFeatures)
+                    ? txsRootFeatures
+                    : [txsRootFeatures, new Uint8Array()],
+                stateRoot,
+                receiptsRoot,
+                signature,
+                [0, 1, 2].map((index) => extension[index] ?? new Uint8Array())
+            ])
+        ) as RLPValidObject;
+        const { txsRoot, txsFeatures } =
+            decoded.txsRootFeatures as RLPValidObject;
+        const { alpha, com, baseFeePerGas } =
+            decoded.extension as RLPValidObject;
+        return new BlockHeader({
+            parentID: decoded.parentID as string,
+            timestamp: Number(decoded.timestamp),
+            gasLimit: Number(decoded.gasLimit),
+            beneficiary: decoded.beneficiary as string,
+            gasUsed: Number(decoded.gasUsed),
+            totalScore: Number(decoded.totalScore),
+            txsRoot: txsRoot as string,
+            txsFeatures: Number(txsFeatures),
+            stateRoot: decoded.stateRoot as string,
+            receiptsRoot: decoded.receiptsRoot as string,
+            signature: decoded.signature as Buffer,
+            alpha: alpha as Buffer,
+            com: com === 1,
+            baseFeePerGas:
+                extension.length > 2
+                    ? BigInt(baseFeePerGas as number | string)
+                    : undefined
+        });
+    }
+
+    /**
+     * Checks the fields of a block header body.
+     *
+     * @param body - The block header body to check.
+     * @returns `true` if the body is valid.
+     */
+    public static isValidBody(body: BlockHeaderBody): boolean {
+        const isUInt = (value: number, maxBytes: number): boolean =>
+            Number.isSafeInteger(value) &&
+            value >= 0 &&
+            BigInt(value) < 1n << BigInt(8 * maxBytes);
+        const isBlob = (value: string, bytes: number): boolean =>
+            typeof value === 'string' &&
+            HexUInt.isValid0x(value) &&
+            value.length === 2 + 2 * bytes;
+        return (
+            isBlob(body.parentID, 32) &&
+            isUInt(body.timestamp, 8) &&
+            isUInt(body.gasLimit, 8) &&
+            isBlob(body.beneficiary, 20) &&
+            isUInt(body.gasUsed, 8) &&
+            isUInt(body.totalScore, 8) &&
+            isBlob(body.txsRoot, 32) &&
+            isUInt(body.txsFeatures, 4) &&
+            isBlob(body.stateRoot, 32) &&
+            isBlob(body.receiptsRoot, 32) &&
+            body.signature instanceof Uint8Array &&
+            body.signature.length >= SIGNATURE_LENGTH &&
+            (body.baseFeePerGas === undefined ||
+                (body.baseFeePerGas >= 0n && body.baseFeePerGas < 1n << 256n))
+        );
+    }
+
+    /**
+     * Return the JSON representation of this block header, see {@link BlockHeaderJSON}.
+     *
+     * @returns The JSON representation of this block header.
+     * @throws {InvalidSecp256k1Signature}
+     */
+    public toJSON(): BlockHeaderJSON {
+        const json: BlockHeaderJSON = {
+            number: this.number,
+            id: this.id,
+            parentID: this.body.parentID.toLowerCase(),
+            timestamp: this.body.timestamp,
+            gasLimit: this.body.gasLimit,
+            beneficiary: this.body.beneficiary.toLowerCase(),
+            gasUsed: this.body.gasUsed,
+            totalScore: this.body.totalScore,
+            txsRoot: this.body.txsRoot.toLowerCase(),
+            txsFeatures: this.body.txsFeatures,
+            stateRoot: this.body.stateRoot.toLowerCase(),
+            receiptsRoot: this.body.receiptsRoot.toLowerCase(),
+            com: this.body.com ?? false,
+            signer: this.signer.toLowerCase()
+        };
+        if (this.body.baseFeePerGas !== undefined) {
+            json.baseFeePerGas = Quantity.of(
+                this.body.baseFeePerGas
+            ).toString();
+        }
+        return json;
+    }
+
+    /**
+     * Checks a block returned by a node against this header: each field of `block`
+     * having a name of {@link BlockHeaderJSON} must match the one of this header,
+     * the other fields are ignored.
+     *
+     * @param block - The block to check, e.g. an expanded or compressed block of the `/blocks` endpoint.
+     * @throws {InvalidDataType} If a field doesn't match.
+     */
+    public verify(block: Partial<BlockHeaderJSON>): void {
+        const json = this.toJSON();
+        BlockHeader.JSON_FIELDS.forEach((fieldName) => {
+            const expected = json[fieldName];
+            const actual = block[fieldName];
+            if (
+                actual !== undefined &&
+                actual !== null &&
+                !BlockHeader._isSameValue(expected, actual)
+            ) {
+                throw new InvalidDataType(
+                    'BlockHeader.verify()',
+                    `Invalid ${fieldName}. It does not match the one of the raw header.`,
+                    { fieldName, expected, actual }
+                );
+            }
+        });
+    }
+
+    /**
+     * Determines whether a field of the raw header has the same value of a field returned by a node,
+     * hexadecimal expressions are compared as numbers.
+     * @private
+     *
+     * @param expected - The value of the raw header.
+     * @param actual - The value returned by the node.
+     * @returns `true` if the values are the same.
+     */
+    private static _isSameValue(
+        expected: string | number | boolean | undefined,
+        actual: string | number | boolean
+    ): boolean {
+        if (typeof expected === 'string' && typeof actual === 'string') {
+            return (
+                HexUInt.isValid0x(actual) &&
+                HexUInt.of(actual).bi === HexUInt.of(expected).bi
+            );
+        }
+        return expected === actual;
+    }
+
+    /**
+     * Packs the fields of the header as Thor encodes them.
+     * @private
+     *
+     * @returns The list of the fields, the input of the RLP encoding.
+     */
+    private _packed(): RLPOutput[] {
+        const packed = RLP_CODER.decode(
+            BLOCK_HEADER_RLP.encodeObject({
+                parentID: this.body.parentID,
+                timestamp: this.body.timestamp,
+                gasLimit: this.body.gasLimit,
+                beneficiary: this.body.beneficiary,
+                gasUsed: this.body.gasUsed,
+                totalScore: this.body.totalScore,
+                txsRootFeatures: {
+                    txsRoot: this.body.txsRoot,
+                    txsFeatures: this.body.txsFeatures
+                },
+                stateRoot: this.body.stateRoot,
+                receiptsRoot: this.body.receiptsRoot,
+                signature: Buffer.from(this.body.signature),
+                extension: {
+                    alpha: Buffer.from(this.body.alpha ?? []),
+                    com: this.body.com === true ? 1 : 0,
+                    baseFeePerGas: String(this.body.baseFeePerGas ?? 0n)
+                }
+            })
+        ) as RLPOutput[];
+        const [txsRoot, txsFeatures] = packed[6] as Uint8Array[];
+        if (txsFeatures.length === 0) {
+            packed[6] = txsRoot;
+        }
+        const extension = packed[10] as Uint8Array[];
+        // The base fee is encoded if set, the other fields are trimmed if empty.
+        if (this.body.baseFeePerGas === undefined) {
+            extension.pop();
+            while (
+                extension.length > 0 &&
+                extension[extension.length - 1].length === 0
+            ) {
+                extension.pop();
+            }
+        }
+        if (extension.length === 0) {
+            packed.pop();
+        }
+        return packed;
+    }
+}
+
+export { BlockHeader };
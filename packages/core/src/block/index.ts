@@ -0,0 +1,2 @@
+export * from './block-header';
+export * from './types.d';
@@ -0,0 +1,164 @@
+/**
+ * The fields of a Thor block header.
+ *
+ * @see {@link BlockHeaderJSON} for the derived fields, as `id` and `signer`.
+ */
+interface BlockHeaderBody {
+    /**
+     * The ID of the parent block, `0x` prefixed hexadecimal.
+     */
+    parentID: string;
+
+    /**
+     * The time the block was proposed, in seconds since the Unix epoch.
+     */
+    timestamp: number;
+
+    /**
+     * The maximum gas the transactions of the block can use.
+     */
+    gasLimit: number;
+
+    /**
+     * The address receiving the rewards of the block.
+     */
+    beneficiary: string;
+
+    /**
+     * The gas used by the transactions of the block.
+     */
+    gasUsed: number;
+
+    /**
+     * The accumulated witness number of the chain up to the block.
+     */
+    totalScore: number;
+
+    /**
+     * The root of the trie of the transactions of the block, `0x` prefixed hexadecimal.
+     */
+    txsRoot: string;
+
+    /**
+     * The features supported by the transactions of the block, `1` if delegation is supported.
+     */
+    txsFeatures: number;
+
+    /**
+     * The root of the trie of the accounts after the block, `0x` prefixed hexadecimal.
+     */
+    stateRoot: string;
+
+    /**
+     * The root of the trie of the receipts of the block, `0x` prefixed hexadecimal.
+     */
+    receiptsRoot: string;
+
+    /**
+     * The 65 bytes signature of the proposer, followed by its VRF proof since
+     * [VIP-214](https://github.com/vechain/VIPs/blob/master/vips/VIP-214.md).
+     */
+    signature: Uint8Array;
+
+    /**
+     * The input of the VRF proof of the proposer, empty before VIP-214.
+     */
+    alpha?: Uint8Array;
+
+    /**
+     * `true` if the proposer commits to the finality of the chain,
+     * see [VIP-220](https://github.com/vechain/VIPs/blob/master/vips/VIP-220.md).
+     */
+    com?: boolean;
+
+    /**
+     * The base fee per gas of dynamic-fee transactions, in wei, missing before dynamic fees.
+     */
+    baseFeePerGas?: bigint;
+}
+
+/**
+ * JSON representation of a block header, as returned by `BlockHeader.toJSON`.
+ *
+ * The names and formats of the fields are the ones of the blocks returned by the
+ * `/blocks` endpoint of Thor, hence an expanded or compressed block can be checked
+ * with `BlockHeader.verify`.
+ */
+interface BlockHeaderJSON {
+    /**
+     * The number of the block.
+     */
+    number: number;
+
+    /**
+     * The ID of the block, derived from the signing hash and the signer.
+     */
+    id: string;
+
+    /**
+     * The ID of the parent block.
+     */
+    parentID: string;
+
+    /**
+     * The time the block was proposed, in seconds since the Unix epoch.
+     */
+    timestamp: number;
+
+    /**
+     * The maximum gas the transactions of the block can use.
+     */
+    gasLimit: number;
+
+    /**
+     * The address receiving the rewards of the block.
+     */
+    beneficiary: string;
+
+    /**
+     * The gas used by the transactions of the block.
+     */
+    gasUsed: number;
+
+    /**
+     * The accumulated witness number of the chain up to the block.
+     */
+    totalScore: number;
+
+    /**
+     * The root of the trie of the transactions of the block.
+     */
+    txsRoot: string;
+
+    /**
+     * The features supported by the transactions of the block.
+     */
+    txsFeatures: number;
+
+    /**
+     * The root of the trie of the accounts after the block.
+     */
+    stateRoot: string;
+
+    /**
+     * The root of the trie of the receipts of the block.
+     */
+    receiptsRoot: string;
+
+    /**
+     * `true` if the proposer commits to the finality of the chain.
+     */
+    com: boolean;
+
+    /**
+     * The address of the proposer, recovered from the signature.
+     */
+    signer: string;
+
+    /**
+     * The base fee per gas of dynamic-fee transactions, `0x` prefixed hexadecimal, missing before dynamic fees.
+     */
+    baseFeePerGas?: string;
+}
+
+export type { BlockHeaderBody, BlockHeaderJSON };
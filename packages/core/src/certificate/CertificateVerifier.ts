@@ -0,0 +1,362 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { base64urlnopad } from '@scure/base';
+import {
+    CertificateVerification,
+    InvalidSessionToken,
+    UnsupportedOperation
+} from '@vechain/sdk-errors';
+import { Blake2b256 } from '../hash';
+import { secp256k1 } from '../secp256k1';
+import { Address, Txt } from '../vcdm';
+import { certificate } from './certificate';
+import { InMemoryNonceStore } from './InMemoryNonceStore';
+import {
+    type Certificate,
+    type CertificateNonceStore,
+    type CertificateVerifierOptions,
+    type SessionTokenClaims,
+    type SessionTokenKey
+} from './types';
+
+/**
+ * Verifies certificates against a policy and issues session tokens for the verified ones.
+ *
+ * A certificate is verified if
+ * * its purpose is one of {@link CertificateVerifierOptions.purposes};
+ * * its domain is one of {@link CertificateVerifierOptions.domains};
+ * * its timestamp is not older than {@link CertificateVerifierOptions.maxAge}
+ *   and not ahead of the clock more than {@link CertificateVerifierOptions.clockSkew};
+ * * it is signed by its signer, see {@link certificate.verify};
+ * * it was not verified before, according the {@link CertificateVerifierOptions.nonceStore}.
+ *
+ * The session tokens are [JSON Web Tokens](https://www.rfc-editor.org/rfc/rfc7519)
+ * having the {@link SessionTokenClaims} as payload, hence a later request can be
+ * authenticated verifying the token instead of the certificate.
+ */
+class CertificateVerifier {
+    /**
+     * The default purposes a certificate can be issued for.
+     *
+     * @type {string[]}
+     */
+    private static readonly DEFAULT_PURPOSES = ['identification'];
+
+    /**
+     * The default maximum age in seconds of a certificate.
+     *
+     * @type {number}
+     */
+    private static readonly DEFAULT_MAX_AGE = 300;
+
+    /**
+     * The default tolerance in seconds for certificates timestamped in the future.
+     *
+     * @type {number}
+     */
+    private static readonly DEFAULT_CLOCK_SKEW = 30;
+
+    /**
+     * The default lifetime in seconds of session tokens.
+     *
+     * @type {number}
+     */
+    private static readonly DEFAULT_SESSION_TOKEN_TTL = 3600;
+
+    /**
+     * The domains a certificate can be issued for.
+     *
+     * @type {string[]}
+     */
+    public readonly domains: string[];
+
+    /**
+     * The purposes a certificate can be issued for.
+     *
+     * @type {string[]}
+     */
+    public readonly purposes: string[];
+
+    /**
+     * The maximum age in seconds of a certificate.
+     *
+     * @type {number}
+     */
+    public readonly maxAge: number;
+
+    /**
+     * The tolerance in seconds for certificates timestamped in the future.
+     *
+     * @type {number}
+     */
+    public readonly clockSkew: number;
+
+    /**
+     * The lifetime in seconds of session tokens.
+     *
+     * @type {number}
+     */
+    public readonly sessionTokenTTL: number;
+
+    /**
+     * The store rejecting replayed certificates.
+     *
+     * @type {CertificateNonceStore}
+     */
+    private readonly nonceStore: CertificateNonceStore;
+
+    /**
+     * The key signing and verifying session tokens.
+     *
+     * @type {SessionTokenKey | undefined}
+     */
+    private readonly sessionTokenKey?: SessionTokenKey;
+
+    /**
+     * The address of the issuer of `ES256K-R` session tokens.
+     *
+     * @type {string | undefined}
+     */
+    private readonly issuer?: string;
+
+    /**
+     * The clock returning the current time in milliseconds since the epoch.
+     *
+     * @type {() => number}
+     */
+    private readonly now: () => number;
+
+    /**
+     * Creates a new instance of this class.
+     *
+     * @param {CertificateVerifierOptions} options - The policy to enforce.
+     * @throws {InvalidDataType} If the `ES256K-R` session token key is not a valid private key or address.
+     */
+    constructor(options: CertificateVerifierOptions) {
+        this.domains = options.domains;
+        this.purposes =
+            options.purposes ?? CertificateVerifier.DEFAULT_PURPOSES;
+        this.maxAge = options.maxAge ?? CertificateVerifier.DEFAULT_MAX_AGE;
+        this.clockSkew =
+            options.clockSkew ?? CertificateVerifier.DEFAULT_CLOCK_SKEW;
+        this.sessionTokenTTL =
+            options.sessionTokenTTL ??
+            CertificateVerifier.DEFAULT_SESSION_TOKEN_TTL;
+        this.now = options.now ?? Date.now;
+        this.nonceStore =
+            options.nonceStore ?? new InMemoryNonceStore(this.now);
+        this.sessionTokenKey = options.sessionTokenKey;
+        if (this.sessionTokenKey?.alg === 'ES256K-R') {
+            this.issuer =
+                'privateKey' in this.sessionTokenKey
+                    ? Address.ofPrivateKey(
+                          this.sessionTokenKey.privateKey
+                      ).toString()
+                    : Address.of(this.sessionTokenKey.issuer).toString();
+        }
+    }
+
+    /**
+     * Verifies `cert` against the policy of this verifier and records it as used.
+     *
+     * Secure audit function.
+     * - {@link certificate.verify}.
+     *
+     * @param {Certificate} cert - The certificate to verify.
+     * @throws {CertificateVerification, CertificateSignature}
+     *
+     * @remarks The certificate is recorded in the nonce store only if it satisfies the policy,
+     * hence a second verification of the same certificate fails.
+     */
+    public async verify(cert: Certificate): Promise<void> {
+        const fail = (reason: string): never => {
+            throw new CertificateVerification(
+                'CertificateVerifier.verify()',
+                `Verification failed: ${reason}.`,
+                { cert }
+            );
+        };
+        if (!this.purposes.includes(cert.purpose)) {
+            fail(`purpose '${cert.purpose}' not allowed`);
+        }
+        if (!this.domains.includes(cert.domain)) {
+            fail(`domain '${cert.domain}' not allowed`);
+        }
+        if (!Number.isSafeInteger(cert.timestamp)) {
+            fail('timestamp not an integer');
+        }
+        const now = Math.floor(this.now() / 1000);
+        if (now - cert.timestamp > this.maxAge) {
+            fail('certificate expired');
+        }
+        if (cert.timestamp - now > this.clockSkew) {
+            fail('certificate issued in the future');
+        }
+        certificate.verify(cert);
+        // The key is the hash of the signed content, not the signature,
+        // hence the same certificate with a malleated signature is a replay too.
+        const isFirstUse = await this.nonceStore.add(
+            Blake2b256.of(certificate.encode(cert)).toString(),
+            (cert.timestamp + this.maxAge + 1) * 1000
+        );
+        if (!isFirstUse) {
+            fail('certificate already used');
+        }
+    }
+
+    /**
+     * Verifies `cert`, see {@link verify}, then issues a session token for its signer.
+     *
+     * Secure audit function.
+     * - {@link verify};
+     * - [hmac](https://github.com/paulmillr/noble-hashes?tab=readme-ov-file#hmac) for `HS256`;
+     * - {@link secp256k1.sign} for `ES256K-R`.
+     *
+     * @param {Certificate} cert - The certificate to verify.
+     * @returns {Promise<string>} - The session token, a JSON Web Token.
+     * @throws {CertificateVerification, CertificateSignature, UnsupportedOperation}
+     */
+    public async issueSessionToken(cert: Certificate): Promise<string> {
+        const key = this.sessionTokenKey;
+        if (key === undefined || 'issuer' in key) {
+            throw new UnsupportedOperation(
+                'CertificateVerifier.issueSessionToken()',
+                'The session token key is not set or it can only verify tokens.',
+                { alg: key?.alg }
+            );
+        }
+        await this.verify(cert);
+        const iat = Math.floor(this.now() / 1000);
+        const claims: SessionTokenClaims = {
+            iss: this.issuer,
+            sub: Address.of(cert.signer).toString(),
+            aud: cert.domain,
+            purpose: cert.purpose,
+            iat,
+            exp: iat + this.sessionTokenTTL
+        };
+        const input = [{ alg: key.alg, typ: 'JWT' }, claims]
+            .map((part) =>
+                base64urlnopad.encode(Txt.of(JSON.stringify(part)).bytes)
+            )
+            .join('.');
+        const signature =
+            key.alg === 'HS256'
+                ? hmac(sha256, key.secret, Txt.of(input).bytes)
+                : secp256k1.sign(sha256(Txt.of(input).bytes), key.privateKey);
+        return `${input}.${base64urlnopad.encode(signature)}`;
+    }
+
+    /**
+     * Verifies a session token issued by {@link issueSessionToken}, checking
+     * * it is signed with the session token key of this verifier;
+     * * it is issued for one of the {@link domains} of this verifier;
+     * * it is not expired.
+     *
+     * Secure audit function.
+     * - [hmac](https://github.com/paulmillr/noble-hashes?tab=readme-ov-file#hmac) for `HS256`;
+     * - {@link secp256k1.recover} for `ES256K-R`.
+     *
+     * @param {string} token - The session token.
+     * @returns {SessionTokenClaims} - The claims of the token.
+     * @throws {InvalidSessionToken, UnsupportedOperation}
+     */
+    public verifySessionToken(token: string): SessionTokenClaims {
+        const key = this.sessionTokenKey;
+        if (key === undefined) {
+            throw new UnsupportedOperation(
+                'CertificateVerifier.verifySessionToken()',
+                'The session token key is not set.',
+                { alg: undefined }
+            );
+        }
+        const fail = (reason: string, innerError?: unknown): never => {
+            throw new InvalidSessionToken(
+                'CertificateVerifier.verifySessionToken()',
+                `Invalid session token: ${reason}.`,
+                { token },
+                innerError
+            );
+        };
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            fail('not a JSON Web Token');
+        }
+        let header: { alg?: unknown };
+        let claims: SessionTokenClaims;
+        let signature: Uint8Array;
+        try {
+            header = JSON.parse(
+                Txt.of(base64urlnopad.decode(parts[0])).toString()
+            ) as { alg?: unknown };
+            claims = JSON.parse(
+                Txt.of(base64urlnopad.decode(parts[1])).toString()
+            ) as SessionTokenClaims;
+            signature = base64urlnopad.decode(parts[2]);
+        } catch (error) {
+            return fail('not a JSON Web Token', error);
+        }
+        if (
+            typeof header !== 'object' ||
+            header === null ||
+            typeof claims !== 'object' ||
+            claims === null
+        ) {
+            fail('header or claims not a JSON object');
+        }
+        // The algorithm is fixed by the key, never chosen by the token.
+        if (header.alg !== key.alg) {
+            fail('algorithm not expected');
+        }
+        const input = Txt.of(`${parts[0]}.${parts[1]}`).bytes;
+        if (key.alg === 'HS256') {
+            if (
+                !isEqualConstantTime(hmac(sha256, key.secret, input), signature)
+            ) {
+                fail('signature mismatch');
+            }
+        } else {
+            let signer: string | undefined;
+            try {
+                signer = Address.ofPublicKey(
+                    secp256k1.recover(sha256(input), signature)
+                ).toString();
+            } catch (error) {
+                fail('signature malformed', error);
+            }
+            if (signer !== this.issuer || claims.iss !== this.issuer) {
+                fail('issuer mismatch');
+            }
+        }
+        if (!this.domains.includes(claims.aud)) {
+            fail('domain not allowed');
+        }
+        if (
+            typeof claims.exp !== 'number' ||
+            Math.floor(this.now() / 1000) >= claims.exp
+        ) {
+            fail('token expired');
+        }
+        return claims;
+    }
+}
+
+/**
+ * Compares two arrays of bytes in a time not depending on their content.
+ *
+ * @param {Uint8Array} a - The first array.
+ * @param {Uint8Array} b - The second array.
+ * @returns {boolean} - `true` if the arrays are equal.
+ */
+function isEqualConstantTime(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
+
+export { CertificateVerifier };
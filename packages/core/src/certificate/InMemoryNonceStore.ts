@@ -0,0 +1,69 @@
+import { type CertificateNonceStore } from './types';
+
+/**
+ * The default {@link CertificateNonceStore} of the {@link CertificateVerifier},
+ * recording the keys in the memory of the process.
+ *
+ * @remarks Expired keys are discarded when new keys are added.
+ * Use a shared store when more than one process verifies certificates for the same domains,
+ * else a certificate can be replayed against each process.
+ *
+ * @implements {CertificateNonceStore}
+ */
+class InMemoryNonceStore implements CertificateNonceStore {
+    /**
+     * The expiration time of the recorded keys.
+     *
+     * @type {Map<string, number>}
+     */
+    private readonly expirations = new Map<string, number>();
+
+    /**
+     * The clock returning the current time in milliseconds since the epoch.
+     *
+     * @type {() => number}
+     */
+    private readonly now: () => number;
+
+    /**
+     * Creates a new instance of this class.
+     *
+     * @param {() => number} now - The clock returning the current time in milliseconds since the epoch,
+     * `Date.now` by default.
+     */
+    constructor(now: () => number = Date.now) {
+        this.now = now;
+    }
+
+    /**
+     * Return the number of the recorded keys, expired keys not yet discarded included.
+     *
+     * @return {number} The number of the recorded keys.
+     */
+    get size(): number {
+        return this.expirations.size;
+    }
+
+    /**
+     * Records `key` until `expiresAt`.
+     *
+     * @param {string} key - The unique key of the certificate.
+     * @param {number} expiresAt - The time in milliseconds since the epoch the record can be discarded at.
+     * @return {Promise<boolean>} `true` if `key` is recorded, `false` if it was recorded already and not expired.
+     */
+    public async add(key: string, expiresAt: number): Promise<boolean> {
+        const now = this.now();
+        this.expirations.forEach((expiration, recorded) => {
+            if (expiration <= now) {
+                this.expirations.delete(recorded);
+            }
+        });
+        if (this.expirations.has(key)) {
+            return await Promise.resolve(false);
+        }
+        this.expirations.set(key, expiresAt);
+        return await Promise.resolve(true);
+    }
+}
+
+export { InMemoryNonceStore };
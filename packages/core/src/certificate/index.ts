@@ -1,2 +1,5 @@
 export * from './certificate';
+export * from './CertificateVerifier';
+export * from './InMemoryNonceStore';
+export * from './siwv';
 export * from './types.d';
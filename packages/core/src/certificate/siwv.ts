@@ -0,0 +1,497 @@
+import { InvalidSIWVMessage, SIWVVerification } from '@vechain/sdk-errors';
+import { secp256k1 } from '../secp256k1';
+import { Address, Hex } from '../vcdm';
+import { certificate } from './certificate';
+import {
+    type Certificate,
+    type SIWVMessage,
+    type SIWVVerifyOptions
+} from './types';
+
+/**
+ * The suffix of the first line of the message, following the domain.
+ */
+const SIWV_HEADER_SUFFIX = ' wants you to sign in with your VeChain account:';
+
+/**
+ * The version of the message format.
+ */
+const SIWV_VERSION = '1';
+
+/**
+ * The purpose of the certificate carrying the message.
+ */
+const SIWV_CERTIFICATE_PURPOSE = 'identification';
+
+/**
+ * The payload type of the certificate carrying the message.
+ */
+const SIWV_CERTIFICATE_PAYLOAD_TYPE = 'text';
+
+/**
+ * The characters a nonce is made of.
+ */
+const SIWV_NONCE_ALPHABET =
+    '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/**
+ * The number of characters of the nonce returned by {@link generateNonce}.
+ */
+const SIWV_NONCE_LENGTH = 17;
+
+/**
+ * Regular expressions validating the fields of the message.
+ */
+const REGEX = {
+    chainTag: /^0x[0-9a-f]{2}$/,
+    domain: /^[^\s/?#@]+(@[^\s/?#@]+)?$/,
+    nonce: /^[0-9A-Za-z]{8,}$/,
+    time: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/,
+    uri: /^[A-Za-z][A-Za-z0-9+.-]*:\S+$/
+};
+
+/**
+ * The prefixes of the tagged lines of the message, in the order they must appear.
+ */
+const TAG = {
+    uri: 'URI: ',
+    version: 'Version: ',
+    chainTag: 'Chain Tag: ',
+    genesisId: 'Genesis ID: ',
+    nonce: 'Nonce: ',
+    issuedAt: 'Issued At: ',
+    expirationTime: 'Expiration Time: ',
+    resources: 'Resources:',
+    resource: '- '
+};
+
+/**
+ * Returns the milliseconds since the epoch of an ISO 8601 time.
+ *
+ * @param {string} time - The ISO 8601 time.
+ * @returns {number} - The milliseconds since the epoch, `NaN` if `time` is not valid.
+ */
+function timeOf(time: string): number {
+    return REGEX.time.test(time) ? Date.parse(time) : NaN;
+}
+
+/**
+ * Checks the fields of the message, throwing an error for the first invalid one.
+ *
+ * @param {string} methodName - The name of the calling function, reported in the error.
+ * @param {SIWVMessage} message - The message to check.
+ * @throws {InvalidSIWVMessage}
+ */
+function assertIsValid(methodName: string, message: SIWVMessage): void {
+    const fail = (field: string, reason: string): never => {
+        throw new InvalidSIWVMessage(
+            methodName,
+            `Invalid Sign-In with VeChain message: ${field} ${reason}.`,
+            { field, message }
+        );
+    };
+    if (!REGEX.domain.test(message.domain)) {
+        fail('domain', 'is not an RFC 3986 authority');
+    }
+    if (!Address.isValid(message.address)) {
+        fail('address', 'is not a valid address');
+    }
+    if (message.statement?.includes('\n') === true) {
+        fail('statement', 'must not contain new lines');
+    }
+    if (!REGEX.uri.test(message.uri)) {
+        fail('uri', 'is not an RFC 3986 URI');
+    }
+    if (
+        !Number.isInteger(message.chainTag) ||
+        message.chainTag < 0 ||
+        message.chainTag > 0xff
+    ) {
+        fail('chainTag', 'is not a byte value');
+    }
+    if (message.genesisId !== undefined) {
+        if (
+            !Hex.isValid0x(message.genesisId) ||
+            message.genesisId.length !== 66
+        ) {
+            fail('genesisId', 'is not a block ID');
+        }
+        if (Hex.of(message.genesisId).bytes[31] !== message.chainTag) {
+            fail('genesisId', 'does not end with the chain tag');
+        }
+    }
+    if (!REGEX.nonce.test(message.nonce)) {
+        fail('nonce', 'must be at least 8 alphanumeric characters');
+    }
+    const issuedAt = timeOf(message.issuedAt);
+    if (Number.isNaN(issuedAt)) {
+        fail('issuedAt', 'is not an ISO 8601 time');
+    }
+    if (message.expirationTime !== undefined) {
+        const expirationTime = timeOf(message.expirationTime);
+        if (Number.isNaN(expirationTime)) {
+            fail('expirationTime', 'is not an ISO 8601 time');
+        }
+        if (expirationTime <= issuedAt) {
+            fail('expirationTime', 'must follow issuedAt');
+        }
+    }
+    message.resources?.forEach((resource) => {
+        if (!REGEX.uri.test(resource)) {
+            fail('resources', 'must be RFC 3986 URIs');
+        }
+    });
+}
+
+/**
+ * Builds the canonical text of a Sign-In with VeChain message, formatted as
+ * ```
+ * ${domain} wants you to sign in with your VeChain account:
+ * ${address}
+ *
+ * ${statement}
+ *
+ * URI: ${uri}
+ * Version: 1
+ * Chain Tag: ${chainTag}
+ * Genesis ID: ${genesisId}
+ * Nonce: ${nonce}
+ * Issued At: ${issuedAt}
+ * Expiration Time: ${expirationTime}
+ * Resources:
+ * - ${resources[0]}
+ * - ${resources[1]}
+ * ```
+ * following [EIP-4361](https://eips.ethereum.org/EIPS/eip-4361#message-format), where
+ * * the statement and its following blank line are omitted if there is no statement;
+ * * the optional `Genesis ID`, `Expiration Time` and `Resources` lines are omitted if not set;
+ * * `address` is written with the [EIP-55](https://eips.ethereum.org/EIPS/eip-55) checksum;
+ * * `chainTag` is written as `0x` prefixed two digits lowercase hexadecimal.
+ *
+ * @param {SIWVMessage} message - The fields of the message.
+ * @returns {string} - The text of the message.
+ * @throws {InvalidSIWVMessage}
+ *
+ * @see parse
+ */
+function build(message: SIWVMessage): string {
+    assertIsValid('siwv.build()', message);
+    const lines = [
+        message.domain + SIWV_HEADER_SUFFIX,
+        Address.of(message.address).toString(),
+        ''
+    ];
+    if (message.statement !== undefined) {
+        lines.push(message.statement, '');
+    }
+    lines.push(
+        TAG.uri + message.uri,
+        TAG.version + SIWV_VERSION,
+        TAG.chainTag + '0x' + message.chainTag.toString(16).padStart(2, '0')
+    );
+    if (message.genesisId !== undefined) {
+        lines.push(TAG.genesisId + message.genesisId.toLowerCase());
+    }
+    lines.push(TAG.nonce + message.nonce, TAG.issuedAt + message.issuedAt);
+    if (message.expirationTime !== undefined) {
+        lines.push(TAG.expirationTime + message.expirationTime);
+    }
+    if (message.resources !== undefined && message.resources.length > 0) {
+        lines.push(
+            TAG.resources,
+            ...message.resources.map((resource) => TAG.resource + resource)
+        );
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Parses the canonical text of a Sign-In with VeChain message.
+ *
+ * The parser is strict: lines must be in the order and format written by {@link build}.
+ *
+ * @param {string} text - The text of the message.
+ * @returns {SIWVMessage} - The fields of the message.
+ * @throws {InvalidSIWVMessage}
+ *
+ * @see build
+ */
+function parse(text: string): SIWVMessage {
+    const lines = text.split('\n');
+    let cursor = 0;
+    const fail = (reason: string): never => {
+        throw new InvalidSIWVMessage(
+            'siwv.parse()',
+            `Invalid Sign-In with VeChain message: ${reason} at line ${cursor + 1}.`,
+            { text, line: cursor + 1 }
+        );
+    };
+    const next = (): string => lines.at(cursor++) ?? fail('unexpected end');
+    const tagged = (tag: string, isOptional = false): string | undefined => {
+        const line = lines.at(cursor);
+        if (line?.startsWith(tag) === true) {
+            cursor++;
+            return line.slice(tag.length);
+        }
+        return isOptional ? undefined : fail(`expected '${tag.trim()}'`);
+    };
+
+    const header = next();
+    if (!header.endsWith(SIWV_HEADER_SUFFIX)) {
+        fail('expected header');
+    }
+    const domain = header.slice(0, -SIWV_HEADER_SUFFIX.length);
+    const address = next();
+    if (next() !== '') {
+        fail('expected blank line');
+    }
+    let statement: string | undefined;
+    if (lines.at(cursor)?.startsWith(TAG.uri) !== true) {
+        statement = next();
+        if (next() !== '') {
+            fail('expected blank line');
+        }
+    }
+    const uri = tagged(TAG.uri) as string;
+    if (tagged(TAG.version) !== SIWV_VERSION) {
+        cursor--;
+        fail(`expected version ${SIWV_VERSION}`);
+    }
+    const chainTag = tagged(TAG.chainTag) as string;
+    if (!REGEX.chainTag.test(chainTag)) {
+        cursor--;
+        fail('expected chain tag');
+    }
+    const genesisId = tagged(TAG.genesisId, true);
+    const nonce = tagged(TAG.nonce) as string;
+    const issuedAt = tagged(TAG.issuedAt) as string;
+    const expirationTime = tagged(TAG.expirationTime, true);
+    let resources: string[] | undefined;
+    if (tagged(TAG.resources, true) === '') {
+        resources = [];
+        while (cursor < lines.length) {
+            resources.push(tagged(TAG.resource) as string);
+        }
+    }
+    if (cursor < lines.length) {
+        fail('unexpected line');
+    }
+    const message: SIWVMessage = {
+        domain,
+        address,
+        statement,
+        uri,
+        chainTag: parseInt(chainTag, 16),
+        genesisId,
+        nonce,
+        issuedAt,
+        expirationTime,
+        resources
+    };
+    // Drop the optional fields not present in the text.
+    (Object.keys(message) as Array<keyof SIWVMessage>).forEach((key) => {
+        if (message[key] === undefined) {
+            // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+            delete message[key];
+        }
+    });
+    assertIsValid('siwv.parse()', message);
+    return message;
+}
+
+/**
+ * Returns a random nonce suitable for {@link SIWVMessage.nonce}.
+ *
+ * Security audit function.
+ * * {@link secp256k1.randomBytes}
+ *
+ * @returns {string} - A random string of 17 alphanumeric characters, about 100 bits of entropy.
+ */
+function generateNonce(): string {
+    let nonce = '';
+    while (nonce.length < SIWV_NONCE_LENGTH) {
+        for (const byte of secp256k1.randomBytes(SIWV_NONCE_LENGTH)) {
+            // Reject the bytes above the highest multiple of the alphabet size to avoid modulo bias.
+            if (
+                byte < 256 - (256 % SIWV_NONCE_ALPHABET.length) &&
+                nonce.length < SIWV_NONCE_LENGTH
+            ) {
+                nonce += SIWV_NONCE_ALPHABET[byte % SIWV_NONCE_ALPHABET.length];
+            }
+        }
+    }
+    return nonce;
+}
+
+/**
+ * Maps a Sign-In with VeChain message onto the not signed {@link Certificate} carrying it, where
+ * * `purpose` is `identification`;
+ * * `payload` is the `text` built by {@link build};
+ * * `domain` and `signer` are the domain and the address of the message;
+ * * `timestamp` is the `issuedAt` time of the message in seconds.
+ *
+ * @param {SIWVMessage} message - The fields of the message.
+ * @returns {Certificate} - The certificate to sign.
+ * @throws {InvalidSIWVMessage}
+ *
+ * @see fromCertificate
+ */
+function toCertificate(message: SIWVMessage): Certificate {
+    return {
+        purpose: SIWV_CERTIFICATE_PURPOSE,
+        payload: {
+            type: SIWV_CERTIFICATE_PAYLOAD_TYPE,
+            content: build(message)
+        },
+        domain: message.domain,
+        timestamp: Math.floor(timeOf(message.issuedAt) / 1000),
+        signer: Address.of(message.address).toString()
+    };
+}
+
+/**
+ * Parses the Sign-In with VeChain message carried by `cert`, checking the
+ * certificate fields match the ones of the message as written by {@link toCertificate}.
+ *
+ * @param {Certificate} cert - The certificate carrying the message.
+ * @returns {SIWVMessage} - The fields of the message.
+ * @throws {InvalidSIWVMessage}
+ *
+ * @remarks The signature is not verified, use {@link verifyCertificate}.
+ */
+function fromCertificate(cert: Certificate): SIWVMessage {
+    const message = parse(cert.payload.content);
+    const expected = toCertificate(message);
+    if (
+        cert.purpose !== expected.purpose ||
+        cert.payload.type !== expected.payload.type ||
+        cert.domain !== expected.domain ||
+        cert.timestamp !== expected.timestamp ||
+        cert.signer.toLowerCase() !== expected.signer.toLowerCase()
+    ) {
+        throw new InvalidSIWVMessage(
+            'siwv.fromCertificate()',
+            'Invalid Sign-In with VeChain certificate: the certificate fields do not match the message.',
+            { cert }
+        );
+    }
+    return message;
+}
+
+/**
+ * Signs a Sign-In with VeChain message as the certificate returned by {@link toCertificate}.
+ *
+ * Secure audit function.
+ * - {@link certificate.sign}.
+ *
+ * @param {SIWVMessage} message - The fields of the message.
+ * @param {Uint8Array} privateKey - The private key of {@link SIWVMessage.address}.
+ * @returns {string} - The `0x` prefixed hexadecimal signature.
+ * @throws {InvalidSIWVMessage, InvalidSecp256k1PrivateKey}
+ *
+ * @remarks The private key is not checked to match the address of the message,
+ * the signature won't verify if it doesn't.
+ */
+function sign(message: SIWVMessage, privateKey: Uint8Array): string {
+    return certificate.sign(toCertificate(message), privateKey)
+        .signature as string;
+}
+
+/**
+ * Verifies a Sign-In with VeChain certificate, as signed by {@link sign} or by a wallet signing the
+ * certificate returned by {@link toCertificate}, checking
+ * * the certificate fields match the message;
+ * * the domain and the nonce match the expected ones;
+ * * the chain tag matches the expected one, if given;
+ * * the message is issued before and expires after the verification time;
+ * * the certificate is signed by the address of the message.
+ *
+ * Secure audit function.
+ * - {@link certificate.verify}.
+ *
+ * @param {Certificate} cert - The signed certificate carrying the message.
+ * @param {SIWVVerifyOptions} options - The values the message is expected to match.
+ * @returns {SIWVMessage} - The fields of the verified message.
+ * @throws {InvalidSIWVMessage, SIWVVerification, CertificateSignature}
+ */
+function verifyCertificate(
+    cert: Certificate,
+    options: SIWVVerifyOptions
+): SIWVMessage {
+    const message = fromCertificate(cert);
+    const fail = (reason: string): never => {
+        throw new SIWVVerification(
+            'siwv.verify()',
+            `Verification failed: ${reason}.`,
+            { message, options }
+        );
+    };
+    if (message.domain !== options.domain) {
+        fail('domain mismatch');
+    }
+    if (message.nonce !== options.nonce) {
+        fail('nonce mismatch');
+    }
+    if (
+        options.chainTag !== undefined &&
+        message.chainTag !== options.chainTag
+    ) {
+        fail('chain tag mismatch');
+    }
+    const time = options.time ?? Date.now();
+    if (time < timeOf(message.issuedAt)) {
+        fail('message issued in the future');
+    }
+    if (
+        message.expirationTime !== undefined &&
+        time >= timeOf(message.expirationTime)
+    ) {
+        fail('message expired');
+    }
+    certificate.verify(cert);
+    return message;
+}
+
+/**
+ * Verifies the text of a Sign-In with VeChain message and its signature.
+ *
+ * Secure audit function.
+ * - {@link verifyCertificate}.
+ *
+ * @param {string} text - The text of the message.
+ * @param {string} signature - The `0x` prefixed hexadecimal signature.
+ * @param {SIWVVerifyOptions} options - The values the message is expected to match.
+ * @returns {SIWVMessage} - The fields of the verified message.
+ * @throws {InvalidSIWVMessage, SIWVVerification, CertificateSignature}
+ *
+ * @see verifyCertificate
+ */
+function verify(
+    text: string,
+    signature: string,
+    options: SIWVVerifyOptions
+): SIWVMessage {
+    const cert = toCertificate(parse(text));
+    return verifyCertificate(
+        {
+            ...cert,
+            payload: { ...cert.payload, content: text },
+            signature
+        },
+        options
+    );
+}
+
+/**
+ * Exposes the Sign-In with VeChain functions.
+ */
+export const siwv = {
+    build,
+    fromCertificate,
+    generateNonce,
+    parse,
+    sign,
+    toCertificate,
+    verify,
+    verifyCertificate
+};
@@ -46,4 +46,209 @@ interface Certificate {
     signature?: string;
 }
 
-export type { Certificate };
+/**
+ * The fields of a Sign-In with VeChain message, the VeChain counterpart of
+ * [EIP-4361: Sign-In with Ethereum](https://eips.ethereum.org/EIPS/eip-4361).
+ *
+ * The message is signed as the text payload of a {@link Certificate},
+ * hence wallets able to sign certificates can sign in with VeChain too.
+ */
+interface SIWVMessage {
+    /**
+     * The [RFC 3986](https://www.rfc-editor.org/rfc/rfc3986) authority requesting the sign-in,
+     * e.g. `example.com` or `example.com:8080`.
+     */
+    domain: string;
+
+    /**
+     * The address of the account signing in.
+     */
+    address: string;
+
+    /**
+     * A human-readable assertion the user signs, it must not contain new lines.
+     */
+    statement?: string;
+
+    /**
+     * The [RFC 3986](https://www.rfc-editor.org/rfc/rfc3986) URI referring to the subject of the sign-in.
+     */
+    uri: string;
+
+    /**
+     * The chain tag of the network, the last byte of the genesis block ID,
+     * e.g. `0x4a` for the main network and `0x27` for the test network.
+     */
+    chainTag: number;
+
+    /**
+     * The ID of the genesis block of the network, to bind the sign-in to a network
+     * more strictly than {@link chainTag} does.
+     */
+    genesisId?: string;
+
+    /**
+     * A random alphanumeric string of at least 8 characters chosen by the relying party
+     * to prevent replay attacks.
+     */
+    nonce: string;
+
+    /**
+     * The [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) time the message was issued at.
+     */
+    issuedAt: string;
+
+    /**
+     * The [ISO 8601](https://en.wikipedia.org/wiki/ISO_8601) time the message expires at.
+     */
+    expirationTime?: string;
+
+    /**
+     * The URIs of the resources the user wishes to have resolved as part of the sign-in.
+     */
+    resources?: string[];
+}
+
+/**
+ * The values a Sign-In with VeChain message is expected to match when verified.
+ */
+interface SIWVVerifyOptions {
+    /**
+     * The domain of the relying party, it must match {@link SIWVMessage.domain}.
+     */
+    domain: string;
+
+    /**
+     * The nonce issued by the relying party, it must match {@link SIWVMessage.nonce}.
+     */
+    nonce: string;
+
+    /**
+     * The chain tag of the network, if given it must match {@link SIWVMessage.chainTag}.
+     */
+    chainTag?: number;
+
+    /**
+     * The time in milliseconds since the epoch the message is verified at, the current time by default.
+     */
+    time?: number;
+}
+
+/**
+ * Records the certificates already verified to reject their replay.
+ *
+ * Implement this interface on a shared storage, e.g. a database or a cache,
+ * when more than one process verifies certificates for the same domains.
+ */
+interface CertificateNonceStore {
+    /**
+     * Records `key` until `expiresAt`.
+     *
+     * @param {string} key - The unique key of the certificate.
+     * @param {number} expiresAt - The time in milliseconds since the epoch the record can be discarded at.
+     * @returns {Promise<boolean>} - `true` if `key` is recorded, `false` if it was recorded already and not expired.
+     */
+    add: (key: string, expiresAt: number) => Promise<boolean>;
+}
+
+/**
+ * The key signing the session tokens, either
+ * * `HS256`: HMAC SHA-256 with a shared secret;
+ * * `ES256K-R`: recoverable secp256k1 signature of the SHA-256 hash, with the private key of the issuer,
+ *   or only verifying the tokens are signed by the `issuer` address.
+ */
+type SessionTokenKey =
+    | { alg: 'HS256'; secret: Uint8Array }
+    | { alg: 'ES256K-R'; privateKey: Uint8Array }
+    | { alg: 'ES256K-R'; issuer: string };
+
+/**
+ * The claims of a session token, named after
+ * [RFC 7519: JSON Web Token](https://www.rfc-editor.org/rfc/rfc7519#section-4.1).
+ */
+interface SessionTokenClaims {
+    /**
+     * The address of the issuer, set only for `ES256K-R` tokens.
+     */
+    iss?: string;
+
+    /**
+     * The signer of the certificate.
+     */
+    sub: string;
+
+    /**
+     * The domain of the certificate.
+     */
+    aud: string;
+
+    /**
+     * The purpose of the certificate.
+     */
+    purpose: string;
+
+    /**
+     * The time in seconds since the epoch the token was issued at.
+     */
+    iat: number;
+
+    /**
+     * The time in seconds since the epoch the token expires at.
+     */
+    exp: number;
+}
+
+/**
+ * The policy enforced by the certificate verifier.
+ */
+interface CertificateVerifierOptions {
+    /**
+     * The domains a certificate can be issued for.
+     */
+    domains: string[];
+
+    /**
+     * The purposes a certificate can be issued for, `['identification']` by default.
+     */
+    purposes?: string[];
+
+    /**
+     * The maximum age in seconds of a certificate, 300 by default.
+     */
+    maxAge?: number;
+
+    /**
+     * The tolerance in seconds for certificates timestamped in the future because of clock drift, 30 by default.
+     */
+    clockSkew?: number;
+
+    /**
+     * The store rejecting replayed certificates, an in-memory store by default.
+     */
+    nonceStore?: CertificateNonceStore;
+
+    /**
+     * The key signing and verifying session tokens, session tokens are not supported if not set.
+     */
+    sessionTokenKey?: SessionTokenKey;
+
+    /**
+     * The lifetime in seconds of session tokens, 3600 by default.
+     */
+    sessionTokenTTL?: number;
+
+    /**
+     * The clock returning the current time in milliseconds since the epoch, `Date.now` by default.
+     */
+    now?: () => number;
+}
+
+export type {
+    Certificate,
+    CertificateNonceStore,
+    CertificateVerifierOptions,
+    SessionTokenClaims,
+    SessionTokenKey,
+    SIWVMessage,
+    SIWVVerifyOptions
+};
@@ -1,10 +1,17 @@
-import { Interface as EthersInterface, type InterfaceAbi } from 'ethers';
+import {
+    Interface as EthersInterface,
+    LogDescription,
+    type InterfaceAbi
+} from 'ethers';
 import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
 import type { BytesLike, Interface, Log, Result } from '../abi';
 import { abi } from '../abi';
+import { itemOf, itemsOf } from '../abi/helpers/interface';
+import { signature } from '../abi/signature';
 
 /**
- * Creates a new Interface instance from an ABI fragment.
+ * Creates a new ethers Interface instance from an ABI fragment.
+ * The other functions of `coder` parse the ABI and decode the data natively.
  * @param abi - ABI in a compatible format
  * @returns The Interface instance.
  */
@@ -26,9 +33,13 @@ function encodeFunctionInput(
     functionData?: unknown[]
 ): string {
     try {
-        const contractInterface = createInterface(interfaceABI);
         return new abi.Function(
-            contractInterface.getFunction(functionName)
+            itemOf(
+                interfaceABI,
+                'function',
+                functionName,
+                'coder.encodeFunctionInput()'
+            )
         ).encodeInput(functionData);
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
@@ -54,9 +65,13 @@ function decodeFunctionInput(
     encodedFunctionInput: BytesLike
 ): Result {
     try {
-        const contractInterface = createInterface(interfaceABI);
         return new abi.Function(
-            contractInterface.getFunction(functionName)
+            itemOf(
+                interfaceABI,
+                'function',
+                functionName,
+                'coder.decodeFunctionInput()'
+            )
         ).decodeInput(encodedFunctionInput);
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
@@ -91,10 +106,13 @@ function decodeFunctionOutput(
     encodedFunctionOutput: BytesLike
 ): Result {
     try {
-        const contractInterface = createInterface(interfaceABI);
-
         return new abi.Function(
-            contractInterface.getFunction(functionName)
+            itemOf(
+                interfaceABI,
+                'function',
+                functionName,
+                'coder.decodeFunctionOutput()'
+            )
         ).decodeOutput(encodedFunctionOutput);
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
@@ -120,12 +138,9 @@ function encodeEventLog(
     dataToEncode: unknown[]
 ): { data: string; topics: string[] } {
     try {
-        // Create a contract interface using the provided ABI
-        const contractInterface = createInterface(interfaceABI);
-
-        // Encode the event log data using the contract interface and event name
+        // Encode the event log data using the event of the ABI
         return new abi.Event(
-            contractInterface.getEvent(eventName)
+            itemOf(interfaceABI, 'event', eventName, 'coder.encodeEventLog()')
         ).encodeEventLog(dataToEncode);
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
@@ -151,12 +166,9 @@ function decodeEventLog(
     dataToDecode: { data: string; topics: string[] }
 ): Result {
     try {
-        // Create a contract interface using the provided ABI
-        const contractInterface = createInterface(interfaceABI);
-
-        // Decode the event log data using the contract interface, event name, and raw data/topics
+        // Decode the event log data using the event of the ABI, and raw data/topics
         return new abi.Event(
-            contractInterface.getEvent(eventName)
+            itemOf(interfaceABI, 'event', eventName, 'coder.decodeEventLog()')
         ).decodeEventLog(dataToDecode);
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
@@ -188,8 +200,21 @@ function parseLog(
     topics: string[]
 ): Log | null {
     try {
-        const contractInterface = createInterface(interfaceABI);
-        return contractInterface.parseLog({ topics, data });
+        const item = itemsOf(interfaceABI, 'coder.parseLog()').find(
+            (item) =>
+                item.type === 'event' &&
+                item.anonymous !== true &&
+                signature.signatureHash(item) === topics[0]?.toLowerCase()
+        );
+        if (item === undefined) {
+            return null;
+        }
+        const event = new abi.Event(item);
+        return new LogDescription(
+            event.fragment,
+            event.signatureHash(),
+            event.decodeEventLog({ data, topics })
+        );
     } catch (e) {
         throw new InvalidAbiDataToEncodeOrDecode(
             'coder.parseLog()',
@@ -2,15 +2,18 @@ import { ethers } from 'ethers';
 
 // Our core library
 export * from './abi';
+export * from './block';
 export * from './certificate';
 export * from './clause';
 export * from './contract';
+export * from './eip712';
 export * from './encoding';
 export * from './hash';
 export * from './hdnode';
 export * from './keystore';
 export * from './secp256k1';
 export * from './transaction';
+export * from './trie';
 export * from './utils';
 export * from './vcdm';
 
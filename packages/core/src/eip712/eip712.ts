@@ -0,0 +1,647 @@
+import * as n_utils from '@noble/curves/abstract/utils';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { InvalidTypedData } from '@vechain/sdk-errors';
+import { bytesOf, integerOf } from '../abi/helpers/values';
+import { Keccak256 } from '../hash';
+import { secp256k1 } from '../secp256k1';
+import { Address, Hex, Signature } from '../vcdm';
+import {
+    type TypedDataDomain,
+    type TypedDataField,
+    type TypedDataTypes
+} from './types';
+
+/**
+ * The name of the struct type of the domain.
+ */
+const DOMAIN_TYPE = 'EIP712Domain';
+
+/**
+ * The members of the domain, in the order they are encoded when set.
+ */
+const DOMAIN_FIELDS: TypedDataField[] = [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' },
+    { name: 'salt', type: 'bytes32' }
+];
+
+/**
+ * The prefix of the encoded typed data, the version `0x01` of [EIP-191](https://eips.ethereum.org/EIPS/eip-191).
+ */
+const PREFIX = Uint8Array.of(0x19, 0x01);
+
+/**
+ * The length in bytes of an encoded member.
+ */
+const WORD_LENGTH = 32;
+
+/**
+ * Regular expressions validating the types and the values.
+ */
+const REGEX = {
+    array: /^(.+)\[(\d*)\]$/,
+    bytes: /^bytes(\d+)$/,
+    identifier: /^[A-Za-z_$][A-Za-z0-9_$]*$/,
+    integer: /^(u?)int(\d*)$/
+};
+
+/**
+ * Returns the error of the typed data.
+ *
+ * @param {string} methodName - The name of the calling function, reported in the error.
+ * @param {string} reason - The reason of the error.
+ * @param {Record<string, unknown>} data - The context of the error, without bigint values.
+ * @returns {InvalidTypedData} - The error to throw.
+ */
+function errorOf(
+    methodName: string,
+    reason: string,
+    data: Record<string, unknown>
+): InvalidTypedData {
+    return new InvalidTypedData(
+        methodName,
+        `Invalid EIP-712 typed data: ${reason}.`,
+        data
+    );
+}
+
+/**
+ * Returns the struct types, the `EIP712Domain` type excluded.
+ *
+ * @param {TypedDataTypes} types - The struct types.
+ * @returns {TypedDataTypes} - The struct types, but the type of the domain.
+ */
+function structsOf(types: TypedDataTypes): TypedDataTypes {
+    return Object.fromEntries(
+        Object.entries(types).filter(([name]) => name !== DOMAIN_TYPE)
+    );
+}
+
+/**
+ * Returns the type of the items of an array type, `null` if `type` is not an array.
+ *
+ * @param {string} type - The type.
+ * @returns {{ item: string; length?: number } | null} - The type of the items and the length of a fixed size array.
+ */
+function arrayOf(type: string): { item: string; length?: number } | null {
+    const match = REGEX.array.exec(type);
+    if (match === null) {
+        return null;
+    }
+    return {
+        item: match[1],
+        length: match[2] !== '' ? Number(match[2]) : undefined
+    };
+}
+
+/**
+ * Returns the struct type the type is made of, stripping the array suffixes.
+ *
+ * @param {string} type - The type.
+ * @returns {string} - The type of the innermost items of an array, else `type`.
+ */
+function baseOf(type: string): string {
+    const array = arrayOf(type);
+    return array === null ? type : baseOf(array.item);
+}
+
+/**
+ * Tells if the type is an atomic type: `address`, `bool`, `bytes1` to `bytes32`, `int8` to `int256`
+ * and `uint8` to `uint256` by steps of 8 bits, `int` and `uint` as aliases of the 256 bits types.
+ *
+ * @param {string} type - The type.
+ * @returns {boolean} - `true` if the type is atomic.
+ */
+function isAtomic(type: string): boolean {
+    const bytes = REGEX.bytes.exec(type);
+    if (bytes !== null) {
+        const length = Number(bytes[1]);
+        return length >= 1 && length <= WORD_LENGTH;
+    }
+    const integer = REGEX.integer.exec(type);
+    if (integer !== null) {
+        const bits = integer[2] === '' ? 256 : Number(integer[2]);
+        return bits >= 8 && bits <= 256 && bits % 8 === 0;
+    }
+    return type === 'address' || type === 'bool';
+}
+
+/**
+ * Checks the struct types, throwing an error for the first invalid one:
+ * the names must be identifiers, the members of a struct must have distinct names,
+ * and their types must be atomic, dynamic (`string` and `bytes`), struct types or arrays of them.
+ *
+ * @param {string} methodName - The name of the calling function, reported in the error.
+ * @param {TypedDataTypes} structs - The struct types, the type of the domain excluded.
+ * @throws {InvalidTypedData}
+ */
+function assertIsValidTypes(methodName: string, structs: TypedDataTypes): void {
+    Object.entries(structs).forEach(([name, fields]) => {
+        if (!REGEX.identifier.test(name) || !Array.isArray(fields)) {
+            throw errorOf(methodName, `struct type '${name}' is not valid`, {
+                type: name
+            });
+        }
+        const names = new Set<string>();
+        fields.forEach((field) => {
+            if (!REGEX.identifier.test(field.name) || names.has(field.name)) {
+                throw errorOf(
+                    methodName,
+                    `member '${field.name}' of '${name}' is not a valid or distinct name`,
+                    { type: name, member: field.name }
+                );
+            }
+            names.add(field.name);
+            const base = baseOf(field.type);
+            if (
+                !isAtomic(base) &&
+                base !== 'string' &&
+                base !== 'bytes' &&
+                structs[base] === undefined
+            ) {
+                throw errorOf(
+                    methodName,
+                    `type '${field.type}' of '${name}.${field.name}' is not defined`,
+                    { type: name, member: field.name }
+                );
+            }
+        });
+    });
+}
+
+/**
+ * Returns the primary type of the struct types, the only one not referenced by the others.
+ *
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @returns {string} - The name of the primary type.
+ * @throws {InvalidTypedData} If the types are malformed, or no or more than one type is not referenced.
+ */
+function primaryTypeOf(types: TypedDataTypes): string {
+    const structs = structsOf(types);
+    assertIsValidTypes('eip712.primaryTypeOf()', structs);
+    const referenced = new Set<string>();
+    Object.entries(structs).forEach(([name, fields]) => {
+        fields.forEach((field) => {
+            const base = baseOf(field.type);
+            if (base !== name) {
+                referenced.add(base);
+            }
+        });
+    });
+    const candidates = Object.keys(structs).filter(
+        (name) => !referenced.has(name)
+    );
+    if (candidates.length !== 1) {
+        throw errorOf(
+            'eip712.primaryTypeOf()',
+            candidates.length === 0
+                ? 'no primary type, every type is referenced by another'
+                : `ambiguous primary type, one of ${candidates.join(', ')}`,
+            { candidates }
+        );
+    }
+    return candidates[0];
+}
+
+/**
+ * Returns the members of the domain set, in encoding order.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @returns {TypedDataField[]} - The members of the `EIP712Domain` type of the domain.
+ * @throws {InvalidTypedData} If the domain has members not defined by EIP-712.
+ */
+function domainFieldsOf(domain: TypedDataDomain): TypedDataField[] {
+    const values = domain as Record<string, unknown>;
+    Object.keys(values).forEach((name) => {
+        if (
+            values[name] !== undefined &&
+            !DOMAIN_FIELDS.some((field) => field.name === name)
+        ) {
+            throw errorOf(
+                'eip712.hashDomain()',
+                `domain member '${name}' is not defined`,
+                { member: name }
+            );
+        }
+    });
+    return DOMAIN_FIELDS.filter(
+        (field) =>
+            values[field.name] !== undefined && values[field.name] !== null
+    );
+}
+
+/**
+ * Returns the encoding of the type, e.g. `Mail(Person from,Person to,string contents)Person(string name,address wallet)`:
+ * the primary type followed by the struct types it references, sorted by name.
+ *
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {string} primaryType - The name of the type to encode.
+ * @returns {string} - The encoded type.
+ * @throws {InvalidTypedData} If the types are malformed or `primaryType` is not defined.
+ */
+function encodeType(types: TypedDataTypes, primaryType: string): string {
+    const structs = structsOf(types);
+    assertIsValidTypes('eip712.encodeType()', structs);
+    return encodeTypeOf(structs, primaryType);
+}
+
+/**
+ * Returns the encoding of the type, the types being checked.
+ *
+ * @param {TypedDataTypes} structs - The struct types, the type of the domain excluded.
+ * @param {string} primaryType - The name of the type to encode.
+ * @returns {string} - The encoded type.
+ * @throws {InvalidTypedData} If `primaryType` is not defined.
+ */
+function encodeTypeOf(structs: TypedDataTypes, primaryType: string): string {
+    if (structs[primaryType] === undefined) {
+        throw errorOf(
+            'eip712.encodeType()',
+            `struct type '${primaryType}' is not defined`,
+            { type: primaryType }
+        );
+    }
+    const dependencies = new Set<string>();
+    const collect = (name: string): void => {
+        structs[name].forEach((field) => {
+            const base = baseOf(field.type);
+            if (
+                structs[base] !== undefined &&
+                base !== primaryType &&
+                !dependencies.has(base)
+            ) {
+                dependencies.add(base);
+                collect(base);
+            }
+        });
+    };
+    collect(primaryType);
+    return [primaryType, ...Array.from(dependencies).sort()]
+        .map(
+            (name) =>
+                `${name}(${structs[name].map((field) => `${field.type} ${field.name}`).join(',')})`
+        )
+        .join('');
+}
+
+/**
+ * Encodes a value as a 32 bytes word: atomic values are padded,
+ * dynamic values, arrays and structs are hashed.
+ *
+ * @param {string} methodName - The name of the calling function, reported in the error.
+ * @param {TypedDataTypes} structs - The struct types, the type of the domain excluded.
+ * @param {string} type - The type of the value.
+ * @param {unknown} value - The value.
+ * @param {string} path - The path of the value in the message, reported in the error.
+ * @returns {Uint8Array} - The encoded value.
+ * @throws {InvalidTypedData} If the value doesn't match its type.
+ */
+function encodeValue(
+    methodName: string,
+    structs: TypedDataTypes,
+    type: string,
+    value: unknown,
+    path: string
+): Uint8Array {
+    const fail = (reason: string): never => {
+        throw errorOf(methodName, `${path} ${reason}`, { path, type });
+    };
+    const array = arrayOf(type);
+    if (array !== null) {
+        if (!Array.isArray(value)) {
+            return fail(`is not an array of ${array.item}`);
+        }
+        if (array.length !== undefined && value.length !== array.length) {
+            return fail(`must have ${array.length} items`);
+        }
+        return Keccak256.of(
+            n_utils.concatBytes(
+                ...value.map((item: unknown, index) =>
+                    encodeValue(
+                        methodName,
+                        structs,
+                        array.item,
+                        item,
+                        `${path}[${index}]`
+                    )
+                )
+            )
+        ).bytes;
+    }
+    if (structs[type] !== undefined) {
+        return Keccak256.of(
+            encodeDataOf(methodName, structs, type, value, path)
+        ).bytes;
+    }
+    if (type === 'string') {
+        // UTF-8 bytes as given, without the normalization of Txt, as EIP-712 wallets do.
+        return typeof value === 'string'
+            ? Keccak256.of(utf8ToBytes(value)).bytes
+            : fail('is not a string');
+    }
+    if (type === 'bytes') {
+        return Keccak256.of(bytesOf(value) ?? fail('is not a byte sequence'))
+            .bytes;
+    }
+    const word = new Uint8Array(WORD_LENGTH);
+    if (type === 'bool') {
+        if (typeof value !== 'boolean') {
+            return fail('is not a boolean');
+        }
+        word[WORD_LENGTH - 1] = value ? 1 : 0;
+        return word;
+    }
+    if (type === 'address') {
+        if (typeof value !== 'string' || !Address.isValid(value)) {
+            return fail('is not an address');
+        }
+        word.set(n_utils.hexToBytes(value.slice(2)), WORD_LENGTH - 20);
+        return word;
+    }
+    const bytes = REGEX.bytes.exec(type);
+    if (bytes !== null) {
+        const sequence = bytesOf(value);
+        if (sequence?.length !== Number(bytes[1])) {
+            return fail(`is not a sequence of ${bytes[1]} bytes`);
+        }
+        word.set(sequence);
+        return word;
+    }
+    const integer = REGEX.integer.exec(type) as RegExpExecArray;
+    const bits = BigInt(integer[2] === '' ? 256 : Number(integer[2]));
+    const isSigned = integer[1] === '';
+    const n = integerOf(value) ?? fail('is not an integer');
+    const min = isSigned ? -(1n << (bits - 1n)) : 0n;
+    const max = isSigned ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+    if (n < min || n > max) {
+        return fail(`is out of the range of ${type}`);
+    }
+    // Two's complement of the negative integers.
+    return n_utils.numberToBytesBE(BigInt.asUintN(256, n), WORD_LENGTH);
+}
+
+/**
+ * Encodes a struct, the types being checked.
+ *
+ * @param {string} methodName - The name of the calling function, reported in the error.
+ * @param {TypedDataTypes} structs - The struct types, the type of the domain excluded.
+ * @param {string} primaryType - The type of the struct.
+ * @param {unknown} value - The struct.
+ * @param {string} path - The path of the struct in the message, reported in the error.
+ * @returns {Uint8Array} - The type hash followed by the encoded members.
+ * @throws {InvalidTypedData} If the struct doesn't match its type.
+ */
+function encodeDataOf(
+    methodName: string,
+    structs: TypedDataTypes,
+    primaryType: string,
+    value: unknown,
+    path: string
+): Uint8Array {
+    if (typeof value !== 'object' || value === null) {
+        throw errorOf(methodName, `${path} is not a struct`, {
+            path,
+            type: primaryType
+        });
+    }
+    const members = value as Record<string, unknown>;
+    return n_utils.concatBytes(
+        Keccak256.of(utf8ToBytes(encodeTypeOf(structs, primaryType))).bytes,
+        ...structs[primaryType].map((field) => {
+            const memberPath = `${path}.${field.name}`;
+            if (members[field.name] === undefined) {
+                throw errorOf(methodName, `${memberPath} is missing`, {
+                    path: memberPath,
+                    type: field.type
+                });
+            }
+            return encodeValue(
+                methodName,
+                structs,
+                field.type,
+                members[field.name],
+                memberPath
+            );
+        })
+    );
+}
+
+/**
+ * Encodes a struct as defined by `encodeData` in EIP-712:
+ * the hash of its type followed by its members encoded as 32 bytes words.
+ *
+ * Members not defined by the type are ignored.
+ *
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {string} primaryType - The type of the struct.
+ * @param {Record<string, unknown>} value - The struct.
+ * @returns {Uint8Array} - The encoded struct.
+ * @throws {InvalidTypedData} If the types are malformed or the struct doesn't match its type.
+ */
+function encodeData(
+    types: TypedDataTypes,
+    primaryType: string,
+    value: Record<string, unknown>
+): Uint8Array {
+    const structs = structsOf(types);
+    assertIsValidTypes('eip712.encodeData()', structs);
+    return encodeDataOf(
+        'eip712.encodeData()',
+        structs,
+        primaryType,
+        value,
+        primaryType
+    );
+}
+
+/**
+ * Returns the `hashStruct` of a struct as defined by EIP-712.
+ *
+ * Secure audit function.
+ * - {@link Keccak256.of}.
+ *
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {string} primaryType - The type of the struct.
+ * @param {Record<string, unknown>} value - The struct.
+ * @returns {Keccak256} - The hash of the encoded struct.
+ * @throws {InvalidTypedData} If the types are malformed or the struct doesn't match its type.
+ */
+function hashStruct(
+    types: TypedDataTypes,
+    primaryType: string,
+    value: Record<string, unknown>
+): Keccak256 {
+    return Keccak256.of(encodeData(types, primaryType, value));
+}
+
+/**
+ * Returns the domain separator, the `hashStruct` of the domain
+ * as an `EIP712Domain` struct made of the members set.
+ *
+ * Secure audit function.
+ * - {@link Keccak256.of}.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @returns {Keccak256} - The domain separator.
+ * @throws {InvalidTypedData} If a member of the domain is not valid.
+ */
+function hashDomain(domain: TypedDataDomain): Keccak256 {
+    return Keccak256.of(
+        encodeDataOf(
+            'eip712.hashDomain()',
+            { [DOMAIN_TYPE]: domainFieldsOf(domain) },
+            DOMAIN_TYPE,
+            domain,
+            'domain'
+        )
+    );
+}
+
+/**
+ * Returns the hash to sign of the typed data:
+ * `keccak256(0x19 || 0x01 || domainSeparator || hashStruct(message))`.
+ *
+ * The primary type of the message is the only type not referenced by the others, see {@link primaryTypeOf}.
+ *
+ * Secure audit function.
+ * - {@link Keccak256.of}.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {Record<string, unknown>} message - The message.
+ * @returns {Keccak256} - The hash of the typed data.
+ * @throws {InvalidTypedData} If the domain, the types or the message are malformed.
+ */
+function hash(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>
+): Keccak256 {
+    return Keccak256.of(
+        n_utils.concatBytes(
+            PREFIX,
+            hashDomain(domain).bytes,
+            hashStruct(types, primaryTypeOf(types), message).bytes
+        )
+    );
+}
+
+/**
+ * Signs the typed data with a private key.
+ *
+ * Secure audit function.
+ * - {@link hash};
+ * - {@link secp256k1.sign}.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {Record<string, unknown>} message - The message.
+ * @param {Uint8Array} privateKey - The private key used for signing.
+ * @returns {string} - The signature as `r || s || v` hexadecimal expression, where `v` is `27` or `28`.
+ * @throws {InvalidTypedData, InvalidSecp256k1PrivateKey}
+ */
+function sign(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>,
+    privateKey: Uint8Array
+): string {
+    const signature = secp256k1.sign(
+        hash(domain, types, message).bytes,
+        privateKey
+    );
+    return Hex.of(Signature.of(signature).legacyBytes).toString();
+}
+
+/**
+ * Recovers the address of the signer of the typed data.
+ *
+ * Secure audit function.
+ * - {@link hash};
+ * - {@link secp256k1.recover}.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {Record<string, unknown>} message - The message.
+ * @param {Hex | Uint8Array | string} signature - The signature, in any form accepted by {@link Signature.of}.
+ * @returns {string} - The checksummed address of the signer.
+ * @throws {InvalidTypedData, InvalidDataType, InvalidSecp256k1Signature}
+ */
+function recover(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>,
+    signature: Hex | Uint8Array | string
+): string {
+    const messageHash = hash(domain, types, message).bytes;
+    return Address.ofPublicKey(
+        secp256k1.recover(messageHash, Signature.of(signature).bytes)
+    ).toString();
+}
+
+/**
+ * Tells if the typed data is signed by `signer`, the address being compared case-insensitively.
+ *
+ * Signatures with high `s` are accepted, as `ecrecover` does:
+ * normalize them with {@link Signature.normalize} to enforce [EIP-2](https://eips.ethereum.org/EIPS/eip-2).
+ *
+ * Secure audit function.
+ * - {@link recover}.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @param {Record<string, unknown>} message - The message.
+ * @param {Hex | Uint8Array | string} signature - The signature, in any form accepted by {@link Signature.of}.
+ * @param {string} signer - The address of the expected signer.
+ * @returns {boolean} - `true` if the signature is valid and recovers `signer`, `false` otherwise.
+ * @throws {InvalidTypedData} If the domain, the types or the message are malformed.
+ */
+function verify(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    message: Record<string, unknown>,
+    signature: Hex | Uint8Array | string,
+    signer: string
+): boolean {
+    const messageHash = hash(domain, types, message).bytes;
+    try {
+        const recovered = Address.ofPublicKey(
+            secp256k1.recover(messageHash, Signature.of(signature).bytes)
+        );
+        return recovered.toString().toLowerCase() === signer.toLowerCase();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks the domain and the types, throwing an error for the first invalid member:
+ * the domain has only the members defined by EIP-712, of the right type,
+ * and the types have valid names, distinct members of defined types and one primary type.
+ *
+ * @param {TypedDataDomain} domain - The domain.
+ * @param {TypedDataTypes} types - The struct types, an `EIP712Domain` entry is ignored.
+ * @throws {InvalidTypedData}
+ */
+function validate(domain: TypedDataDomain, types: TypedDataTypes): void {
+    hashDomain(domain);
+    primaryTypeOf(types);
+}
+
+/**
+ * Exposes the [EIP-712](https://eips.ethereum.org/EIPS/eip-712) typed data encoding, hashing, signing and verification functions.
+ */
+export const eip712 = {
+    encodeData,
+    encodeType,
+    hash,
+    hashDomain,
+    hashStruct,
+    primaryTypeOf,
+    recover,
+    sign,
+    validate,
+    verify
+};
@@ -0,0 +1,2 @@
+export * from './eip712';
+export * from './types.d';
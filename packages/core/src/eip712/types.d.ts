@@ -0,0 +1,58 @@
+/**
+ * The domain of [EIP-712](https://eips.ethereum.org/EIPS/eip-712) typed data,
+ * binding the signatures to a dApp, a chain and a contract.
+ *
+ * Only the fields set are part of the `EIP712Domain` type, `null` and `undefined` fields are left out.
+ */
+interface TypedDataDomain {
+    /**
+     * The user readable name of the dApp or the protocol.
+     */
+    name?: string | null;
+
+    /**
+     * The current major version of the dApp or the protocol.
+     */
+    version?: string | null;
+
+    /**
+     * The chain ID, encoded as `uint256`: a number, a decimal or `0x` prefixed hexadecimal string,
+     * e.g. the genesis block ID of a VeChain network.
+     */
+    chainId?: number | bigint | string | null;
+
+    /**
+     * The address of the contract verifying the signatures.
+     */
+    verifyingContract?: string | null;
+
+    /**
+     * The disambiguating salt, 32 bytes.
+     */
+    salt?: string | Uint8Array | null;
+}
+
+/**
+ * A member of a struct type of EIP-712 typed data.
+ */
+interface TypedDataField {
+    /**
+     * The name of the member.
+     */
+    name: string;
+
+    /**
+     * The type of the member: an atomic type (e.g. `address`, `uint256`, `bytes32`),
+     * `string`, `bytes`, the name of a struct type, or an array of them (e.g. `Person[]`, `uint8[3]`).
+     */
+    type: string;
+}
+
+/**
+ * The struct types of EIP-712 typed data, keyed by name.
+ *
+ * An `EIP712Domain` entry is ignored, the type of the domain is derived from its fields.
+ */
+type TypedDataTypes = Record<string, TypedDataField[]>;
+
+export type { TypedDataDomain, TypedDataField, TypedDataTypes };
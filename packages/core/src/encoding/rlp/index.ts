@@ -5,6 +5,7 @@ export * from './rlp';
 export * from './kind';
 export * from './types.d';
 export * from './helpers';
+export * from './view';
 
 /**
  * The `RLP_CODER` object, encapsulating all functionalities related to Recursive Length Prefix (RLP_CODER) encoding.
@@ -13,6 +14,7 @@ export * from './helpers';
  * - `encode` - Encodes data using the Ethereumjs RLP_CODER library.
  * - `decode` - Decodes RLP_CODER-encoded data using the Ethereumjs RLP_CODER library.
  * - `Profiler` - Class handling the profiling of RLP_CODER encoded/decoded objects.
+ * - `RLPView` - Class decoding RLP_CODER-encoded data without copying it, exported on its own.
  * - `ScalarKind` - Abstract class for scalar types.
  * - `BufferKind` - Class managing buffers and ensuring type safety with encode/decode methods.
  * - `NumericKind` - Class managing numerical data ensuring it adheres to specific constraints.
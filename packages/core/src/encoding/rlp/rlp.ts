@@ -8,6 +8,7 @@ import {
 } from './types';
 import { RLPProfiles } from '.';
 import { InvalidRLP } from '@vechain/sdk-errors';
+import { RLPView } from './view';
 
 /**
  * Encodes data using the Ethereumjs RLP library.
@@ -58,6 +59,40 @@ class Profiler {
         const packedData = RLP.decode(encodedData);
         return _unpackData(packedData, this.profile, '');
     }
+
+    /**
+     * Decodes an object following the provided RLP_CODER profile, without copying the encoded data.
+     * @param encodedData - Data to be decoded.
+     * @param lazy - Decode the members of the structures when read, see {@link RLPView.decodeLazy}.
+     * @returns - Decoded data as RLPValueType.
+     * @throws {InvalidRLP} - Reporting the byte offset of the malformed item.
+     */
+    public decodeView(
+        encodedData: Uint8Array,
+        lazy: boolean = false
+    ): RLPValueType {
+        const view = RLPView.of(encodedData);
+        return lazy ? view.decodeLazy(this.profile) : view.decode(this.profile);
+    }
+
+    /**
+     * Decodes the objects encoded one after the other, following the provided RLP_CODER profile.
+     * Each object is decoded when reached, see {@link decodeView}.
+     * @param encodedData - Concatenated data to be decoded.
+     * @param lazy - Decode the members of the structures when read, see {@link RLPView.decodeLazy}.
+     * @returns - Iterator of the decoded data as RLPValueType.
+     * @throws {InvalidRLP} - Reporting the byte offset of the malformed item.
+     */
+    public *decodeStream(
+        encodedData: Uint8Array,
+        lazy: boolean = false
+    ): Generator<RLPValueType> {
+        for (const view of RLPView.stream(encodedData)) {
+            yield lazy
+                ? view.decodeLazy(this.profile)
+                : view.decode(this.profile);
+        }
+    }
 }
 
 /**
@@ -0,0 +1,418 @@
+import { InvalidRLP } from '@vechain/sdk-errors';
+import { RLPProfiles } from './kind';
+import {
+    type RLPOutput,
+    type RLPProfile,
+    type RLPValidObject,
+    type RLPValueType
+} from './types';
+
+/**
+ * Offset of the prefixes of the RLP encoding, see the
+ * [RLP specification](https://ethereum.org/en/developers/docs/data-structures-and-encoding/rlp/).
+ */
+const RLP_PREFIX = {
+    SHORT_STRING: 0x80,
+    LONG_STRING: 0xb7,
+    SHORT_LIST: 0xc0,
+    LONG_LIST: 0xf7
+};
+
+/**
+ * Payloads shorter than this length have their length encoded in the prefix.
+ */
+const SHORT_PAYLOAD_LENGTH = 56;
+
+/**
+ * Represents an RLP item of an encoded buffer without copying its bytes.
+ *
+ * Only the prefix of the item is parsed when the view is created:
+ * the items of a list are parsed when iterated, and the values are decoded
+ * when read, hence the cost of decoding is paid for the parts actually used.
+ *
+ * The byte arrays returned by the view, and the buffers decoded by `BufferKind`,
+ * share the memory of the encoded buffer: copy them if the buffer is going to be modified.
+ *
+ * Errors report the byte offset of the malformed item in the encoded buffer.
+ *
+ * @example
+ * ```typescript
+ * const view = RLPView.of(rawTransaction);
+ * const chainTag = view.at(0).bytes[0];
+ * for (const item of RLPView.stream(concatenatedTransactions)) {
+ *     // One item at a time.
+ * }
+ * ```
+ */
+class RLPView {
+    /**
+     * Creates a new view, see {@link RLPView.at}.
+     *
+     * @param source - The encoded buffer.
+     * @param offset - The offset of the item in the encoded buffer.
+     * @param payloadOffset - The offset of the payload of the item in the encoded buffer.
+     * @param end - The offset following the item in the encoded buffer.
+     * @param isList - `true` if the item is a list.
+     */
+    private constructor(
+        readonly source: Uint8Array,
+        readonly offset: number,
+        private readonly payloadOffset: number,
+        readonly end: number,
+        readonly isList: boolean
+    ) {}
+
+    /**
+     * Get the payload of the item: the bytes of a string, or the encoded items of a list.
+     *
+     * @returns The payload, sharing the memory of the encoded buffer.
+     */
+    public get bytes(): Uint8Array {
+        return this.source.subarray(this.payloadOffset, this.end);
+    }
+
+    /**
+     * Get the encoding of the item, prefix included.
+     *
+     * @returns The encoding, sharing the memory of the encoded buffer.
+     */
+    public get encoded(): Uint8Array {
+        return this.source.subarray(this.offset, this.end);
+    }
+
+    /**
+     * Get the items of the list.
+     *
+     * @returns The views of the items.
+     * @throws {InvalidRLP} If the item is not a list or an item is malformed.
+     */
+    public get items(): RLPView[] {
+        const items: RLPView[] = [];
+        let offset = this.listPayloadOffset();
+        while (offset < this.end) {
+            const item = RLPView.at(this.source, offset, this.end);
+            items.push(item);
+            offset = item.end;
+        }
+        return items;
+    }
+
+    /**
+     * Iterates the items of the list, parsing each item when reached.
+     *
+     * @returns The iterator of the views of the items.
+     * @throws {InvalidRLP} If the item is not a list or an item is malformed.
+     */
+    public *[Symbol.iterator](): Iterator<RLPView> {
+        let offset = this.listPayloadOffset();
+        while (offset < this.end) {
+            const item = RLPView.at(this.source, offset, this.end);
+            yield item;
+            offset = item.end;
+        }
+    }
+
+    /**
+     * Returns the item of the list at `index`, the items before it are parsed but not decoded.
+     *
+     * @param index - The index of the item.
+     * @returns The view of the item.
+     * @throws {InvalidRLP} If the item is not a list, the index is out of the list or an item is malformed.
+     */
+    public at(index: number): RLPView {
+        let offset = this.listPayloadOffset();
+        for (let current = 0; offset < this.end; current++) {
+            const item = RLPView.at(this.source, offset, this.end);
+            if (current === index) {
+                return item;
+            }
+            offset = item.end;
+        }
+        throw new InvalidRLP(
+            'RLPView.at()',
+            `Decoding error: Expected an item at index ${index} of the list at byte offset ${this.offset}.`,
+            { context: 'RLPView', data: { offset: this.offset, index } }
+        );
+    }
+
+    /**
+     * Returns the offset of the first item of the list.
+     *
+     * @returns The offset of the payload.
+     * @throws {InvalidRLP} If the item is not a list.
+     */
+    private listPayloadOffset(): number {
+        if (!this.isList) {
+            throw new InvalidRLP(
+                'RLPView.items()',
+                `Decoding error: Expected a list at byte offset ${this.offset}.`,
+                { context: 'RLPView', data: { offset: this.offset } }
+            );
+        }
+        return this.payloadOffset;
+    }
+
+    /**
+     * Decodes the item without profile, as `RLP_CODER.decode` does.
+     *
+     * @returns The byte arrays of the item, nested as the lists, sharing the memory of the encoded buffer.
+     * @throws {InvalidRLP} If an item is malformed.
+     */
+    public toOutput(): RLPOutput {
+        return this.isList
+            ? this.items.map((item) => item.toOutput())
+            : this.bytes;
+    }
+
+    /**
+     * Decodes the item following `profile`, as `Profiler.decodeObject` does.
+     *
+     * @param profile - The profile of the item.
+     * @param context - The context of the item, for error messages.
+     * @returns The decoded item.
+     * @throws {InvalidRLP} If the item doesn't match the profile.
+     */
+    public decode(profile: RLPProfile, context: string = ''): RLPValueType {
+        return this.decodeWith(profile, context, false);
+    }
+
+    /**
+     * Decodes the item following `profile`, the members of the structures decoded when read
+     * for the first time: the cheaper when a few members are read, see {@link decode} else.
+     *
+     * The number of members is checked when the structure is decoded,
+     * the errors of a member are thrown when the member is read.
+     *
+     * @param profile - The profile of the item.
+     * @param context - The context of the item, for error messages.
+     * @returns The decoded item.
+     * @throws {InvalidRLP} If the item doesn't match the profile.
+     */
+    public decodeLazy(profile: RLPProfile, context: string = ''): RLPValueType {
+        return this.decodeWith(profile, context, true);
+    }
+
+    /**
+     * Decodes the item following `profile`, see {@link decode} and {@link decodeLazy}.
+     *
+     * @param profile - The profile of the item.
+     * @param context - The context of the enclosing item.
+     * @param lazy - `true` to decode the members of the structures when read.
+     * @returns The decoded item.
+     * @throws {InvalidRLP} If the item doesn't match the profile.
+     */
+    private decodeWith(
+        profile: RLPProfile,
+        context: string,
+        lazy: boolean
+    ): RLPValueType {
+        context = context !== '' ? context + '.' + profile.name : profile.name;
+        const kind = profile.kind;
+
+        // ScalarKind: decode the bytes with the kind, wrapped in a buffer sharing the memory.
+        if (kind instanceof RLPProfiles.ScalarKind) {
+            if (this.isList) {
+                throw this.error(
+                    `Expected data type is Buffer in ${context}`,
+                    context
+                );
+            }
+            const bytes = this.bytes;
+            try {
+                return kind
+                    .buffer(
+                        Buffer.from(
+                            bytes.buffer,
+                            bytes.byteOffset,
+                            bytes.byteLength
+                        ),
+                        context
+                    )
+                    .decode();
+            } catch (error) {
+                throw this.error(`Invalid value in ${context}`, context, error);
+            }
+        }
+
+        if (!this.isList) {
+            throw this.error(`Expected an array in ${context}`, context);
+        }
+
+        // StructKind: check the number of members, decode each member now or when read.
+        if (Array.isArray(kind)) {
+            const items = this.items;
+            if (items.length !== kind.length) {
+                throw this.error(
+                    `Expected ${kind.length} items, but got ${items.length}`,
+                    context
+                );
+            }
+            const obj: RLPValidObject = {};
+            kind.forEach((member, index) => {
+                if (!lazy) {
+                    obj[member.name] = items[index].decodeWith(
+                        member,
+                        context,
+                        lazy
+                    );
+                    return;
+                }
+                let value: RLPValueType;
+                let isDecoded = false;
+                Object.defineProperty(obj, member.name, {
+                    enumerable: true,
+                    get: () => {
+                        if (!isDecoded) {
+                            value = items[index].decodeWith(
+                                member,
+                                context,
+                                lazy
+                            );
+                            isDecoded = true;
+                        }
+                        return value;
+                    }
+                });
+            });
+            return obj;
+        }
+
+        // ArrayKind: decode each item with the shared item profile.
+        return this.items.map((item, index) =>
+            item.decodeWith(
+                { name: '#' + index, kind: kind.item },
+                context,
+                lazy
+            )
+        ) as RLPValueType;
+    }
+
+    /**
+     * Returns the error of the item, reporting its byte offset.
+     *
+     * @param reason - The reason of the error.
+     * @param context - The context of the item.
+     * @param innerError - The error of the kind of the item, if any.
+     * @returns The error to throw.
+     */
+    private error(
+        reason: string,
+        context: string,
+        innerError?: unknown
+    ): InvalidRLP {
+        return new InvalidRLP(
+            'RLPView.decode()',
+            `Decoding error: ${reason} at byte offset ${this.offset}.`,
+            { context, data: { offset: this.offset } },
+            innerError
+        );
+    }
+
+    /**
+     * Returns the view of the item at `offset` of `source`.
+     *
+     * @param source - The encoded buffer.
+     * @param offset - The offset of the item.
+     * @param limit - The offset the item must end before, the end of the enclosing list.
+     * @returns The view of the item.
+     * @throws {InvalidRLP} If the item is truncated or not canonically encoded.
+     */
+    public static at(
+        source: Uint8Array,
+        offset: number = 0,
+        limit: number = source.length
+    ): RLPView {
+        const fail = (reason: string): never => {
+            throw new InvalidRLP(
+                'RLPView.at()',
+                `Decoding error: ${reason} at byte offset ${offset}.`,
+                { context: 'RLPView', data: { offset } }
+            );
+        };
+        if (offset >= limit) {
+            return fail('Expected an item');
+        }
+        const prefix = source[offset];
+        // A single byte lower than the short string prefix is its own encoding.
+        if (prefix < RLP_PREFIX.SHORT_STRING) {
+            return new RLPView(source, offset, offset, offset + 1, false);
+        }
+        const isList = prefix >= RLP_PREFIX.SHORT_LIST;
+        const shortPrefix = isList
+            ? RLP_PREFIX.SHORT_LIST
+            : RLP_PREFIX.SHORT_STRING;
+        const longPrefix = isList
+            ? RLP_PREFIX.LONG_LIST
+            : RLP_PREFIX.LONG_STRING;
+        let payloadOffset = offset + 1;
+        let length = prefix - shortPrefix;
+        if (prefix > longPrefix) {
+            // The prefix encodes the length of the length of the payload.
+            const lengthOfLength = prefix - longPrefix;
+            payloadOffset += lengthOfLength;
+            if (payloadOffset > limit) {
+                return fail('Truncated length');
+            }
+            if (source[offset + 1] === 0) {
+                return fail('Length with leading zeros');
+            }
+            length = 0;
+            for (let i = offset + 1; i < payloadOffset; i++) {
+                length = length * 256 + source[i];
+            }
+            if (length < SHORT_PAYLOAD_LENGTH) {
+                return fail('Long length of a short payload');
+            }
+        } else if (
+            !isList &&
+            length === 1 &&
+            payloadOffset < limit &&
+            source[payloadOffset] < RLP_PREFIX.SHORT_STRING
+        ) {
+            return fail('Single byte not encoded as itself');
+        }
+        const end = payloadOffset + length;
+        if (end > limit) {
+            return fail('Truncated payload');
+        }
+        return new RLPView(source, offset, payloadOffset, end, isList);
+    }
+
+    /**
+     * Returns the view of the item encoded in `encoded`.
+     *
+     * @param encoded - The encoded item.
+     * @returns The view of the item.
+     * @throws {InvalidRLP} If the item is malformed or followed by other bytes.
+     */
+    public static of(encoded: Uint8Array): RLPView {
+        const view = RLPView.at(encoded);
+        if (view.end !== encoded.length) {
+            throw new InvalidRLP(
+                'RLPView.of()',
+                `Decoding error: Unexpected bytes after the item at byte offset ${view.end}.`,
+                { context: 'RLPView', data: { offset: view.end } }
+            );
+        }
+        return view;
+    }
+
+    /**
+     * Iterates the items encoded one after the other in `encoded`,
+     * parsing each item when reached.
+     *
+     * @param encoded - The concatenated encoded items.
+     * @returns The iterator of the views of the items.
+     * @throws {InvalidRLP} If an item is malformed.
+     */
+    public static *stream(encoded: Uint8Array): Generator<RLPView> {
+        let offset = 0;
+        while (offset < encoded.length) {
+            const view = RLPView.at(encoded, offset);
+            yield view;
+            offset = view.end;
+        }
+    }
+}
+
+export { RLPView };
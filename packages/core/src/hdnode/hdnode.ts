@@ -9,7 +9,26 @@ import {
 import { base58 } from '@scure/base';
 import { secp256k1 } from '../secp256k1';
 import { Sha256 } from '../hash';
-import { VET_DERIVATION_PATH, X_PRIV_PREFIX, X_PUB_PREFIX } from '../utils';
+import {
+    VET_DERIVATION_PATH,
+    X_PRIV_PREFIX,
+    X_PRIV_VERSION,
+    X_PUB_PREFIX,
+    X_PUB_VERSION
+} from '../utils';
+import { Address } from '../vcdm/Address';
+import { type ExtendedKeyMetadata } from './types';
+
+/**
+ * Length in bytes of a serialized extended key, checksum excluded.
+ */
+const EXTENDED_KEY_LENGTH = 78;
+
+/**
+ * First index of hardened child nodes, only non-hardened children
+ * can be derived from an extended public key.
+ */
+const HARDENED_OFFSET = 0x80000000;
 
 /**
  * Creates a [BIP32 Hierarchical Deterministic Key](https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki)
@@ -21,20 +40,29 @@ import { VET_DERIVATION_PATH, X_PRIV_PREFIX, X_PUB_PREFIX } from '../utils';
  * - [n_bip32](https://github.com/paulmillr/scure-bip32).
  * - [n_bip39](https://github.com/paulmillr/scure-bip39)
  *
- * @param {string[]} words - An array of words representing the mnemonic.
+ * @param {string[]} words - An array of words representing the mnemonic,
+ * in any language of the BIP39 wordlists.
  * @param {string} path - The derivation path to derive the child node.
  * Default value is {@link VET_DERIVATION_PATH}.
+ * @param {string} [passphrase=''] - The optional BIP39 passphrase, also known as the "25th word".
  * @return {bip32.HDKey} - An instance of n_bip32.HDKey representing the derived child node.
  * @throws {InvalidHDNodeMnemonic,InvalidHDNode}
+ *
+ * @remarks Both words and passphrase are NFKD normalized before the seed is computed,
+ * as required by BIP39.
  */
 function fromMnemonic(
     words: string[],
-    path: string = VET_DERIVATION_PATH
+    path: string = VET_DERIVATION_PATH,
+    passphrase: string = ''
 ): n_bip32.HDKey {
     let master: n_bip32.HDKey;
     try {
         master = n_bip32.HDKey.fromMasterSeed(
-            n_bip39.mnemonicToSeedSync(words.join(' ').toLowerCase())
+            n_bip39.mnemonicToSeedSync(
+                words.join(' ').normalize('NFKD').toLowerCase(),
+                passphrase
+            )
         );
     } catch (error) {
         // The error masks any mnemonic words leak.
@@ -82,15 +110,8 @@ function fromPrivateKey(
             privateKey
         );
         privateKey.fill(0); // Clear the private key from memory.
-        const checksum = Sha256.of(Sha256.of(header).bytes).bytes.subarray(
-            0,
-            4
-        );
-        const expandedPrivateKey = n_utils.concatBytes(header, checksum);
         try {
-            return n_bip32.HDKey.fromExtendedKey(
-                base58.encode(expandedPrivateKey)
-            );
+            return n_bip32.HDKey.fromExtendedKey(encodeBase58Check(header));
         } catch (error) {
             throw new InvalidSecp256k1PrivateKey(
                 'HDNode.fromPrivateKey()',
@@ -128,15 +149,8 @@ function fromPublicKey(
             chainCode,
             secp256k1.compressPublicKey(publicKey)
         );
-        const checksum = Sha256.of(Sha256.of(header).bytes).bytes.subarray(
-            0,
-            4
-        );
-        const expandedPublicKey = n_utils.concatBytes(header, checksum);
         try {
-            return n_bip32.HDKey.fromExtendedKey(
-                base58.encode(expandedPublicKey)
-            );
+            return n_bip32.HDKey.fromExtendedKey(encodeBase58Check(header));
         } catch (error) {
             throw new InvalidHDNode(
                 'HDNode.fromPublicKey()',
@@ -155,8 +169,263 @@ function fromPublicKey(
     );
 }
 
+/**
+ * Creates a [BIP32 Hierarchical Deterministic Key](https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki)
+ * {@link bip32.HDKey} node from its serialized extended key,
+ * either an extended public key (`xpub`) or an extended private key (`xprv`).
+ *
+ * Secure audit function.
+ * - [base58](https://github.com/paulmillr/scure-base)
+ * - [n_bip32](https://github.com/paulmillr/scure-bip32).
+ * - {@link Sha256}
+ *
+ * @param {string} extendedKey - The base58check encoded extended key.
+ * @returns {bip32.HDKey} - The `n_bip32.HDKey` object, it has no private key if built from an `xpub`.
+ * @throws {InvalidHDNode}
+ */
+function fromExtendedKey(extendedKey: string): n_bip32.HDKey {
+    const payload = decodeBase58Check('HDNode.fromExtendedKey()', extendedKey);
+    const version = n_utils.bytesToNumberBE(payload.subarray(0, 4));
+    if (
+        payload.length !== EXTENDED_KEY_LENGTH ||
+        (version !== BigInt(X_PUB_VERSION) &&
+            version !== BigInt(X_PRIV_VERSION))
+    ) {
+        throw new InvalidHDNode(
+            'HDNode.fromExtendedKey()',
+            'Invalid extended key given as input. It must be a serialized xpub or xprv.',
+            {}
+        );
+    }
+    try {
+        return n_bip32.HDKey.fromExtendedKey(extendedKey);
+    } catch (error) {
+        throw new InvalidHDNode(
+            'HDNode.fromExtendedKey()',
+            'Invalid extended key given as input.',
+            {},
+            error
+        );
+    }
+}
+
+/**
+ * Serializes the given node as base58check encoded extended public key (`xpub`).
+ *
+ * Secure audit function.
+ * - [base58](https://github.com/paulmillr/scure-base)
+ * - {@link Sha256}
+ *
+ * @param {bip32.HDKey} node - The node to serialize.
+ * @returns {string} - The extended public key.
+ * @throws {InvalidHDNode}
+ */
+function toExtendedPublicKey(node: n_bip32.HDKey): string {
+    if (node.chainCode === null || node.publicKey === null) {
+        throw new InvalidHDNode(
+            'HDNode.toExtendedPublicKey()',
+            'Invalid node given as input. Chain code and public key are required.',
+            {}
+        );
+    }
+    return encodeBase58Check(
+        n_utils.concatBytes(
+            serializeMetadata(X_PUB_VERSION, node),
+            node.chainCode,
+            node.publicKey
+        )
+    );
+}
+
+/**
+ * Serializes the given node as base58check encoded extended private key (`xprv`).
+ *
+ * Secure audit function.
+ * - [base58](https://github.com/paulmillr/scure-base)
+ * - {@link Sha256}
+ *
+ * @param {bip32.HDKey} node - The node to serialize.
+ * @returns {string} - The extended private key.
+ * @throws {InvalidHDNode} - If the node has no private key, e.g. a watch-only node built from an `xpub`.
+ */
+function toExtendedPrivateKey(node: n_bip32.HDKey): string {
+    if (node.chainCode === null || node.privateKey === null) {
+        throw new InvalidHDNode(
+            'HDNode.toExtendedPrivateKey()',
+            'Invalid node given as input. Chain code and private key are required.',
+            {}
+        );
+    }
+    return encodeBase58Check(
+        n_utils.concatBytes(
+            serializeMetadata(X_PRIV_VERSION, node),
+            node.chainCode,
+            Uint8Array.of(0),
+            node.privateKey
+        )
+    );
+}
+
+/**
+ * Returns the metadata of the given node or serialized extended key.
+ *
+ * @param {bip32.HDKey | string} nodeOrExtendedKey - The node or the base58check encoded extended key.
+ * @returns {ExtendedKeyMetadata} - The depth, index and fingerprints of the node,
+ * and whether it holds a private key.
+ * @throws {InvalidHDNode} - If the given extended key is not valid.
+ */
+function metadataOf(
+    nodeOrExtendedKey: n_bip32.HDKey | string
+): ExtendedKeyMetadata {
+    const node =
+        typeof nodeOrExtendedKey === 'string'
+            ? fromExtendedKey(nodeOrExtendedKey)
+            : nodeOrExtendedKey;
+    return {
+        isPrivate: node.privateKey !== null,
+        depth: node.depth,
+        index: node.index,
+        fingerprint: node.fingerprint,
+        parentFingerprint: node.parentFingerprint
+    };
+}
+
+/**
+ * Derives the addresses of `count` consecutive non-hardened children of the given node,
+ * starting from the child at index `start`.
+ *
+ * Only public derivation is used, hence an extended public key is enough to derive
+ * the deposit addresses of a watch-only wallet.
+ * To derive the same addresses of {@link Address.ofMnemonic},
+ * the extended public key must be exported from the node at {@link VET_DERIVATION_PATH}.
+ *
+ * @example
+ * ```typescript
+ * const xpub = HDNode.toExtendedPublicKey(HDNode.fromMnemonic(words));
+ * // Watch-only side.
+ * const addresses = HDNode.deriveAddresses(xpub, 0, 10);
+ * ```
+ *
+ * @param {bip32.HDKey | string} nodeOrExtendedKey - The node or the base58check encoded extended key,
+ * usually an `xpub`.
+ * @param {number} [start=0] - The index of the first child.
+ * @param {number} [count=10] - The number of addresses to derive.
+ * @returns {Address[]} - The addresses of the children, in index order.
+ * @throws {InvalidHDNode} - If the extended key is not valid or the range is not a valid range
+ * of non-hardened indexes.
+ */
+function deriveAddresses(
+    nodeOrExtendedKey: n_bip32.HDKey | string,
+    start: number = 0,
+    count: number = 10
+): Address[] {
+    if (
+        !Number.isSafeInteger(start) ||
+        !Number.isSafeInteger(count) ||
+        start < 0 ||
+        count < 0 ||
+        start + count > HARDENED_OFFSET
+    ) {
+        throw new InvalidHDNode(
+            'HDNode.deriveAddresses()',
+            'Invalid range given as input. Indexes must be non-hardened.',
+            { index: start, count }
+        );
+    }
+    const node =
+        typeof nodeOrExtendedKey === 'string'
+            ? fromExtendedKey(nodeOrExtendedKey)
+            : nodeOrExtendedKey;
+    const addresses: Address[] = [];
+    for (let index = start; index < start + count; index++) {
+        try {
+            // Public key is always available.
+            addresses.push(
+                Address.ofPublicKey(
+                    node.deriveChild(index).publicKey as Uint8Array
+                )
+            );
+        } catch (error) {
+            throw new InvalidHDNode(
+                'HDNode.deriveAddresses()',
+                'Invalid child node derived from the node given as input.',
+                { index },
+                error
+            );
+        }
+    }
+    return addresses;
+}
+
+/**
+ * Encodes the given payload in base58check format:
+ * the payload is followed by the first 4 bytes of its double SHA-256 hash.
+ *
+ * @param {Uint8Array} payload - The bytes to encode.
+ * @returns {string} - The base58check encoded payload.
+ */
+function encodeBase58Check(payload: Uint8Array): string {
+    const checksum = Sha256.of(Sha256.of(payload).bytes).bytes.subarray(0, 4);
+    return base58.encode(n_utils.concatBytes(payload, checksum));
+}
+
+/**
+ * Decodes the given base58check encoded string and verifies its checksum.
+ *
+ * @param {string} methodName - The name of the calling method, used for errors.
+ * @param {string} encoded - The base58check encoded string.
+ * @returns {Uint8Array} - The payload, checksum excluded.
+ * @throws {InvalidHDNode} - If the string is not base58 encoded or the checksum doesn't match.
+ */
+function decodeBase58Check(methodName: string, encoded: string): Uint8Array {
+    let bytes: Uint8Array;
+    try {
+        bytes = base58.decode(encoded);
+    } catch (error) {
+        throw new InvalidHDNode(
+            methodName,
+            'Invalid extended key given as input. It must be base58 encoded.',
+            {},
+            error
+        );
+    }
+    const payload = bytes.subarray(0, -4);
+    const checksum = Sha256.of(Sha256.of(payload).bytes).bytes.subarray(0, 4);
+    if (bytes.length < 4 || !n_utils.equalBytes(bytes.subarray(-4), checksum)) {
+        throw new InvalidHDNode(
+            methodName,
+            'Invalid extended key given as input. Checksum mismatch.',
+            {}
+        );
+    }
+    return payload;
+}
+
+/**
+ * Serializes the version, depth, parent fingerprint and index of the given node,
+ * the first 13 bytes of an extended key.
+ *
+ * @param {number} version - The version bytes, either {@link X_PUB_VERSION} or {@link X_PRIV_VERSION}.
+ * @param {bip32.HDKey} node - The node.
+ * @returns {Uint8Array} - The serialized metadata.
+ */
+function serializeMetadata(version: number, node: n_bip32.HDKey): Uint8Array {
+    const metadata = new Uint8Array(13);
+    const view = new DataView(metadata.buffer);
+    view.setUint32(0, version);
+    view.setUint8(4, node.depth);
+    view.setUint32(5, node.parentFingerprint);
+    view.setUint32(9, node.index);
+    return metadata;
+}
+
 export const HDNode = {
+    deriveAddresses,
+    fromExtendedKey,
     fromMnemonic,
     fromPrivateKey,
-    fromPublicKey
+    fromPublicKey,
+    metadataOf,
+    toExtendedPrivateKey,
+    toExtendedPublicKey
 };
@@ -1 +1,2 @@
 export * from './hdnode';
+export * from './types.d';
@@ -0,0 +1,33 @@
+/**
+ * Metadata of a [BIP32](https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki)
+ * extended key.
+ */
+interface ExtendedKeyMetadata {
+    /**
+     * True if the extended key is an extended private key (`xprv`),
+     * false if it is an extended public key (`xpub`).
+     */
+    isPrivate: boolean;
+
+    /**
+     * The depth of the node in the derivation tree, 0 for the master node.
+     */
+    depth: number;
+
+    /**
+     * The index of the node in its parent, hardened indexes are greater or equal than 2^31.
+     */
+    index: number;
+
+    /**
+     * The fingerprint of the node, the first 32 bits of the `HASH160` of its public key.
+     */
+    fingerprint: number;
+
+    /**
+     * The fingerprint of the parent node, 0 for the master node.
+     */
+    parentFingerprint: number;
+}
+
+export type { ExtendedKeyMetadata };
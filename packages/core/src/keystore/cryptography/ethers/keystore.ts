@@ -2,6 +2,7 @@
  * Implements the JSON Keystore v3 Wallet encryption, decryption, and validation functionality.
  */
 import { Hex } from '../../../vcdm/Hex';
+import { PBKDF2_MAX_ITERATIONS } from '../../../utils/const/keystore';
 import { SCRYPT_PARAMS } from './const';
 import { ethers } from 'ethers';
 import { secp256k1 } from '../../../secp256k1';
@@ -10,7 +11,12 @@ import {
     InvalidKeystoreParams,
     stringifyData
 } from '@vechain/sdk-errors';
-import { type Keystore, type KeystoreAccount } from '../../types';
+import {
+    type Keystore,
+    type KeystoreAccount,
+    type KeystoreEncryptOptions,
+    type Pbkdf2KdfParams
+} from '../../types';
 import { Address } from '../../../vcdm';
 
 /**
@@ -18,12 +24,23 @@ import { Address } from '../../../vcdm';
  *
  * @param privateKey - The private key to be encrypted.
  * @param password - The password used for the encryption.
+ * @param options - The Scrypt parameters overriding the default ones.
  * @returns A Promise that resolves to the encrypted keystore.
+ * @throws {InvalidKeystoreParams} - If PBKDF2 is requested, ethers supports only Scrypt for encryption.
  */
 async function encrypt(
     privateKey: Buffer,
-    password: string
+    password: string,
+    options: KeystoreEncryptOptions = {}
 ): Promise<Keystore> {
+    if ((options.kdf ?? 'scrypt') !== 'scrypt') {
+        throw new InvalidKeystoreParams(
+            'keystore.encrypt()',
+            'Encryption failed: only scrypt key derivation function is supported, use experimental cryptography for pbkdf2.',
+            { keyDerivationFunction: options.kdf }
+        );
+    }
+
     // Public and Address are derived from a private key
     const derivePublicKey = secp256k1.derivePublicKey(privateKey);
     const deriveAddress = Address.ofPublicKey(
@@ -39,9 +56,9 @@ async function encrypt(
     // Scrypt options
     const encryptOptions: ethers.EncryptOptions = {
         scrypt: {
-            N: SCRYPT_PARAMS.N,
-            r: SCRYPT_PARAMS.r,
-            p: SCRYPT_PARAMS.p
+            N: options.scrypt?.N ?? SCRYPT_PARAMS.N,
+            r: options.scrypt?.r ?? SCRYPT_PARAMS.r,
+            p: options.scrypt?.p ?? SCRYPT_PARAMS.p
         }
     };
 
@@ -61,7 +78,7 @@ async function encrypt(
  * @param keystore - The keystore containing the encrypted private key.
  * @param password - The password used to decrypt the keystore.
  * @returns A Promise that resolves to the decrypted KeystoreAccount or rejects if the keystore or password is invalid.
- * @throws {InvalidKeystore, InvalidKeystoreParams}
+ * @throws {InvalidKeystore, InvalidKeystoreParams} - Also if the PBKDF2 iterations are more than 2^20.
  */
 async function decrypt(
     keystore: Keystore,
@@ -76,6 +93,20 @@ async function decrypt(
         );
     }
 
+    // Bound the iterations before ethers derives the key, ethers writes `Crypto` capitalized.
+    const crypto =
+        (keystore as { Crypto?: Keystore['crypto'] }).Crypto ?? keystore.crypto;
+    if (crypto.kdf.toLowerCase() === 'pbkdf2') {
+        const c = (crypto.kdfparams as Pbkdf2KdfParams).c;
+        if (!Number.isSafeInteger(c) || c <= 0 || c > PBKDF2_MAX_ITERATIONS) {
+            throw new InvalidKeystoreParams(
+                'keystore.decrypt()',
+                `Decryption failed: keystore.crypto.kdfparams.c parameter must be > 0 and <= ${PBKDF2_MAX_ITERATIONS}.`,
+                { keystore, c }
+            );
+        }
+    }
+
     try {
         return (await ethers.decryptKeystoreJson(
             stringifyData(keystore),
@@ -93,6 +124,30 @@ async function decrypt(
     }
 }
 
+/**
+ * Decrypts the keystore with `password` and encrypts the private key again with `newPassword`.
+ *
+ * @param keystore - The keystore to re-encrypt.
+ * @param password - The current password of the keystore.
+ * @param newPassword - The password of the new keystore.
+ * @param options - The Scrypt parameters of the new keystore overriding the default ones.
+ * @returns A Promise that resolves to the new keystore.
+ * @throws {InvalidKeystore, InvalidKeystoreParams}
+ */
+async function reencrypt(
+    keystore: Keystore,
+    password: string,
+    newPassword: string,
+    options: KeystoreEncryptOptions = {}
+): Promise<Keystore> {
+    const account = await decrypt(keystore, password);
+    return await encrypt(
+        Buffer.from(Hex.of(account.privateKey).bytes),
+        newPassword,
+        options
+    );
+}
+
 /**
  * Validates if the provided keystore adheres to the expected format and structure.
  *
@@ -106,5 +161,5 @@ function isValid(keystore: Keystore): boolean {
 /**
  * Exports the keystore functions for encryption, decryption, and validation.
  */
-const keystore = { encrypt, decrypt, isValid };
+const keystore = { encrypt, decrypt, isValid, reencrypt };
 export { keystore };
@@ -5,12 +5,21 @@
  */
 import { ctr } from '@noble/ciphers/aes';
 import * as n_utils from '@noble/curves/abstract/utils';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
 import { scrypt } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha256';
 import { InvalidKeystoreParams, stringifyData } from '@vechain/sdk-errors';
 import { Keccak256 } from '../../../hash';
 import { secp256k1 } from '../../../secp256k1';
-import { Address, Hex } from '../../../vcdm';
-import { type Keystore, type KeystoreAccount } from '../../types';
+import { PBKDF2_MAX_ITERATIONS } from '../../../utils/const/keystore';
+import { Address, Hex, HexUInt } from '../../../vcdm';
+import {
+    type Keystore,
+    type KeystoreAccount,
+    type KeystoreEncryptOptions,
+    type Pbkdf2KdfParams,
+    type ScryptKdfParams
+} from '../../types';
 
 /**
  * The cryptographic algorithm used to store the private key in the
@@ -33,11 +42,23 @@ const KEYSTORE_CRYPTO_CIPHER = 'aes-128-ctr';
 const KEYSTORE_CRYPTO_PARAMS_DKLEN = 32;
 
 /**
- * The [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
+ * The default [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
  * of the keystore is [Scrypt](https://en.wikipedia.org/wiki/Scrypt).
  */
 const KEYSTORE_CRYPTO_KDF = 'scrypt';
 
+/**
+ * The alternative [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
+ * of the keystore is [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2).
+ */
+const KEYSTORE_CRYPTO_KDF_PBKDF2 = 'pbkdf2';
+
+/**
+ * The pseudo-random function of the [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2)
+ * key derivation function, only [HMAC](https://en.wikipedia.org/wiki/HMAC) SHA-256 is supported.
+ */
+const KEYSTORE_CRYPTO_PBKDF2_PRF = 'hmac-sha256';
+
 /**
  * The version number of the
  * [Web3 Secret Storage Definition](https://ethereum.org/en/developers/docs/data-structures-and-encoding/web3-secret-storage)
@@ -59,29 +80,38 @@ const SCRYPT_PARAMS = {
     p: 1
 };
 
+/**
+ * The [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) parameters
+ * used in the keystore encryption.
+ *
+ * @property {number} c - The number of iterations = 2^18 = 262144.
+ */
+const PBKDF2_PARAMS = {
+    c: 262144
+};
+
 /**
  * EncryptOptions interface defines the options of the
- * [Scrypt](https://en.wikipedia.org/wiki/Scrypt) algorithm for the
+ * [Scrypt](https://en.wikipedia.org/wiki/Scrypt) or [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2)
+ * algorithms for the
  * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
  * used in keystore encryption.
  *
  * @property {Uint8Array} iv - Initialization Vector.
  * @property {Uint8Array} salt - Random bytes to protect against [Rainbow table](https://en.wikipedia.org/wiki/Rainbow_table).
+ * @property {string} kdf - The key derivation function, `scrypt` if omitted.
  * @property {number} scrypt.N - CPU/memory cost parameter.
  * @property {number} scrypt.p - Parallelization parameter.
  * @property {number} scrypt.r - Block size parameter.
+ * @property {number} pbkdf2.c - Number of iterations.
  *
  * @see {encodeScryptParams}
+ * @see {encodePbkdf2Params}
  */
-interface EncryptOptions {
+interface EncryptOptions extends KeystoreEncryptOptions {
     iv?: Uint8Array;
     salt?: Uint8Array;
     uuid?: Uint8Array;
-    scrypt?: {
-        N?: number;
-        p?: number;
-        r?: number;
-    };
 }
 
 /**
@@ -109,14 +139,35 @@ interface ScryptParams {
     salt: Uint8Array;
 }
 
+/**
+ * Pbkdf2Params interfaces defines the parameters of the
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) algorithm for the
+ * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
+ * used in keystore encryption.
+ *
+ * Compatible with
+ * [ethers Pbkdf2Params](https://github.com/ethers-io/ethers.js/blob/main/src.ts/wallet/json-keystore.ts).
+ *
+ * @property {number} c - Number of iterations.
+ * @property {number} dkLen - Derived key length in bytes.
+ * @property {string} name - constant "pbkdf2".
+ * @property {string} prf - constant "hmac-sha256".
+ * @property {Uint8Array} salt - Random bytes to protect against [Rainbow table](https://en.wikipedia.org/wiki/Rainbow_table).
+ */
+interface Pbkdf2Params {
+    c: number;
+    dkLen: number;
+    name: string;
+    prf: string;
+    salt: Uint8Array;
+}
+
 /**
  * Retrieves the
  * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
  * parameters from the given keystore.
  *
- * Only [Scrypt](https://en.wikipedia.org/wiki/Scrypt) is supported as key-derivation function.
- * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) superseded by Scrypt, hence
- * not implemented.
+ * The keystore `crypto.kdf` must be [Scrypt](https://en.wikipedia.org/wiki/Scrypt).
  *
  * @param {Keystore} keystore - The key store object.
  * @returns {ScryptParams} - The decryption key-derivation function parameters.
@@ -126,10 +177,11 @@ interface ScryptParams {
  * @see {encodeScryptParams}
  */
 function decodeScryptParams(keystore: Keystore): ScryptParams {
-    const salt = n_utils.hexToBytes(keystore.crypto.kdfparams.salt);
-    const N = keystore.crypto.kdfparams.n;
-    const r = keystore.crypto.kdfparams.r;
-    const p: number = keystore.crypto.kdfparams.p;
+    const kdfparams = keystore.crypto.kdfparams as ScryptKdfParams;
+    const salt = n_utils.hexToBytes(kdfparams.salt);
+    const N = kdfparams.n;
+    const r = kdfparams.r;
+    const p: number = kdfparams.p;
     // Make sure N is a power of 2
     if (N <= 0 || (N & (N - 1)) !== 0)
         throw new InvalidKeystoreParams(
@@ -152,7 +204,7 @@ function decodeScryptParams(keystore: Keystore): ScryptParams {
                 p
             }
         );
-    const dkLen = keystore.crypto.kdfparams.dklen;
+    const dkLen = kdfparams.dklen;
 
     if (dkLen !== KEYSTORE_CRYPTO_PARAMS_DKLEN)
         throw new InvalidKeystoreParams(
@@ -251,6 +303,161 @@ function encodeScryptParams(options: EncryptOptions): ScryptParams {
     } satisfies ScryptParams;
 }
 
+/**
+ * Retrieves the
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2)
+ * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
+ * parameters from the given keystore.
+ *
+ * The keystore `crypto.kdf` must be `pbkdf2` and only the `hmac-sha256`
+ * pseudo-random function is supported.
+ *
+ * @param {Keystore} keystore - The key store object.
+ * @returns {Pbkdf2Params} - The decryption key-derivation function parameters.
+ * @throws {InvalidKeystoreParams}
+ *
+ * @see {decryptKeystore}
+ * @see {encodePbkdf2Params}
+ */
+function decodePbkdf2Params(keystore: Keystore): Pbkdf2Params {
+    const kdfparams = keystore.crypto.kdfparams as Pbkdf2KdfParams;
+    const prf = `${kdfparams.prf}`.toLowerCase();
+    if (prf !== KEYSTORE_CRYPTO_PBKDF2_PRF)
+        throw new InvalidKeystoreParams(
+            '(EXPERIMENTAL) keystore.decodePbkdf2Params()',
+            'Decryption failed: unsupported keystore.crypto.kdfparams.prf parameter.',
+            {
+                keystore,
+                prf
+            }
+        );
+
+    const c = kdfparams.c;
+    if (!Number.isSafeInteger(c) || c <= 0 || c > PBKDF2_MAX_ITERATIONS)
+        throw new InvalidKeystoreParams(
+            '(EXPERIMENTAL) keystore.decodePbkdf2Params()',
+            `Decryption failed: keystore.crypto.kdfparams.c parameter must be > 0 and <= ${PBKDF2_MAX_ITERATIONS}.`,
+            {
+                keystore,
+                c
+            }
+        );
+
+    const dkLen = kdfparams.dklen;
+    if (dkLen !== KEYSTORE_CRYPTO_PARAMS_DKLEN)
+        throw new InvalidKeystoreParams(
+            '(EXPERIMENTAL) keystore.decodePbkdf2Params()',
+            `Decryption failed: keystore.crypto.kdfparams.dklen parameter must be ${KEYSTORE_CRYPTO_PARAMS_DKLEN}`,
+            {
+                keystore,
+                dkLen
+            }
+        );
+
+    return {
+        c,
+        dkLen: KEYSTORE_CRYPTO_PARAMS_DKLEN,
+        name: KEYSTORE_CRYPTO_KDF_PBKDF2,
+        prf: KEYSTORE_CRYPTO_PBKDF2_PRF,
+        salt: n_utils.hexToBytes(kdfparams.salt)
+    } satisfies Pbkdf2Params;
+}
+
+/**
+ * Encodes the parameters of the
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) algorithm of the
+ * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
+ * used in the keystore encryption.
+ *
+ * @param {EncryptOptions} options - The encryption options used to override
+ * the default PBKDF2 parameters:
+ * - c: Number of iterations.
+ * @returns {Pbkdf2Params} - The encoded PBKDF2 parameters.
+ * @throws {InvalidKeystoreParams}
+ *
+ * @see {decodePbkdf2Params}
+ * @see {encryptKeystore}
+ */
+function encodePbkdf2Params(options: EncryptOptions): Pbkdf2Params {
+    // Use or generate the salt.
+    const salt =
+        options.salt ?? secp256k1.randomBytes(KEYSTORE_CRYPTO_PARAMS_DKLEN);
+    const c = options.pbkdf2?.c ?? PBKDF2_PARAMS.c;
+    if (!Number.isSafeInteger(c) || c <= 0 || c > PBKDF2_MAX_ITERATIONS)
+        throw new InvalidKeystoreParams(
+            '(EXPERIMENTAL) keystore.encodePbkdf2Params()',
+            'Encryption failed: invalid options.pbkdf2.c parameter.',
+            {
+                options,
+                c
+            }
+        );
+
+    return {
+        c,
+        dkLen: KEYSTORE_CRYPTO_PARAMS_DKLEN,
+        name: KEYSTORE_CRYPTO_KDF_PBKDF2,
+        prf: KEYSTORE_CRYPTO_PBKDF2_PRF,
+        salt
+    } satisfies Pbkdf2Params;
+}
+
+/**
+ * Derives the encryption key from the password using the given
+ * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function) parameters.
+ *
+ * Secure audit function.
+ * - [pbkdf2](https://github.com/paulmillr/noble-hashes/?tab=readme-ov-file#pbkdf2).
+ * - [scrypt](https://github.com/paulmillr/noble-hashes/?tab=readme-ov-file#scrypt).
+ *
+ * @param {Uint8Array} password - The password.
+ * @param {ScryptParams | Pbkdf2Params} kdf - The key derivation function parameters.
+ * @returns {Uint8Array} - The derived key.
+ */
+function deriveKey(
+    password: Uint8Array,
+    kdf: ScryptParams | Pbkdf2Params
+): Uint8Array {
+    if ('c' in kdf) {
+        return pbkdf2(sha256, password, kdf.salt, {
+            c: kdf.c,
+            dkLen: kdf.dkLen
+        });
+    }
+    return scrypt(password, kdf.salt, {
+        N: kdf.N,
+        r: kdf.r,
+        p: kdf.p,
+        dkLen: kdf.dkLen
+    });
+}
+
+/**
+ * Encodes the parameters of the key derivation function as stored in the keystore.
+ *
+ * @param {ScryptParams | Pbkdf2Params} kdf - The key derivation function parameters.
+ * @returns {ScryptKdfParams | Pbkdf2KdfParams} - The `crypto.kdfparams` property of the keystore.
+ */
+function encodeKdfParams(
+    kdf: ScryptParams | Pbkdf2Params
+): ScryptKdfParams | Pbkdf2KdfParams {
+    if ('c' in kdf) {
+        return {
+            c: kdf.c,
+            dklen: kdf.dkLen,
+            prf: kdf.prf,
+            salt: Hex.of(kdf.salt).digits
+        } satisfies Pbkdf2KdfParams;
+    }
+    return {
+        dklen: kdf.dkLen,
+        n: kdf.N,
+        p: kdf.p,
+        r: kdf.r,
+        salt: Hex.of(kdf.salt).digits
+    } satisfies ScryptKdfParams;
+}
+
 /**
  * Encrypts a private key with a password to returns a keystore object
  * compliant with [Web3 Secret Storage Definition](https://ethereum.org/en/developers/docs/data-structures-and-encoding/web3-secret-storage/)
@@ -263,7 +470,8 @@ function encodeScryptParams(options: EncryptOptions): ScryptParams {
  * [NIST AES Recommendation for Block Cipher Modes of Operation](https://nvlpubs.nist.gov/nistpubs/Legacy/SP/nistspecialpublication800-38a.pdf).
  *
  * The [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
- * algorithm is [Scrypt](https://en.wikipedia.org/wiki/Scrypt).
+ * algorithm is [Scrypt](https://en.wikipedia.org/wiki/Scrypt) unless
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) is set in `options`.
  *
  * Secure audit function.
  * - {@link encryptKeystore}.
@@ -272,6 +480,8 @@ function encodeScryptParams(options: EncryptOptions): ScryptParams {
  *
  * @param {Uint8Array} privateKey - The private key to encrypt, the memory location is wiped after use.
  * @param {Uint8Array} password - The password to use for encryption, the memory location is wiped after use.
+ * @param {KeystoreEncryptOptions} [options] - The key derivation function and its parameters,
+ * default Scrypt parameters if omitted.
  * @returns {Keystore} - The encrypted keystore object.
  * @throws {InvalidKeystoreParams}
  *
@@ -281,12 +491,20 @@ function encodeScryptParams(options: EncryptOptions): ScryptParams {
  * [Memory Dumping](https://github.com/paulmillr/noble-hashes?tab=readme-ov-file#memory-dumping)
  * attack**.
  */
-function encrypt(privateKey: Uint8Array, password: Uint8Array): Keystore {
+function encrypt(
+    privateKey: Uint8Array,
+    password: Uint8Array,
+    options: KeystoreEncryptOptions = {}
+): Keystore {
     return encryptKeystore(privateKey, password, {
+        kdf: options.kdf,
         scrypt: {
-            N: SCRYPT_PARAMS.N,
-            r: SCRYPT_PARAMS.r,
-            p: SCRYPT_PARAMS.p
+            N: options.scrypt?.N ?? SCRYPT_PARAMS.N,
+            r: options.scrypt?.r ?? SCRYPT_PARAMS.r,
+            p: options.scrypt?.p ?? SCRYPT_PARAMS.p
+        },
+        pbkdf2: {
+            c: options.pbkdf2?.c ?? PBKDF2_PARAMS.c
         }
     });
 }
@@ -303,20 +521,21 @@ function encrypt(privateKey: Uint8Array, password: Uint8Array): Keystore {
  * [NIST AES Recommendation for Block Cipher Modes of Operation](https://nvlpubs.nist.gov/nistpubs/Legacy/SP/nistspecialpublication800-38a.pdf).
  *
  * The [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
- * algorithm is [Scrypt](https://en.wikipedia.org/wiki/Scrypt).
+ * algorithm is [Scrypt](https://en.wikipedia.org/wiki/Scrypt) or
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) as set in `options.kdf`.
  *
  * Secure audit function.
  * - [ctr](https://github.com/paulmillr/noble-ciphers?tab=readme-ov-file#aes).
+ * - {@link deriveKey}.
  * - {@link Keccak256.of}
  * - `password` wiped after use.
  * - `privateKey` wiped after use.
  * - {@link secp256k1.derivePublicKey}.
  * - {@link secp256k1.randomBytes}.
- * - [scrypt](https://github.com/paulmillr/noble-hashes/?tab=readme-ov-file#scrypt).
  *
  * @param privateKey - The private key to encrypt, the memory location is wiped after use.
  * @param password - The password to use for encryption, the memory location is wiped after use.
- * @param options - Parameters used to configure the **AES** encryption of the private key and the **Scrypt** derivation key function.
+ * @param options - Parameters used to configure the **AES** encryption of the private key and the **Scrypt** or **PBKDF2** derivation key function.
  * @returns {Keystore} - The encrypted keystore object.
  * @throws {InvalidKeystoreParams}
  *
@@ -333,13 +552,22 @@ function encryptKeystore(
     options: EncryptOptions
 ): Keystore {
     try {
-        const kdf = encodeScryptParams(options);
-        const key = scrypt(password, kdf.salt, {
-            N: kdf.N,
-            r: kdf.r,
-            p: kdf.p,
-            dkLen: kdf.dkLen
-        });
+        let kdf: ScryptParams | Pbkdf2Params;
+        switch (options.kdf ?? KEYSTORE_CRYPTO_KDF) {
+            case KEYSTORE_CRYPTO_KDF:
+                kdf = encodeScryptParams(options);
+                break;
+            case KEYSTORE_CRYPTO_KDF_PBKDF2:
+                kdf = encodePbkdf2Params(options);
+                break;
+            default:
+                throw new InvalidKeystoreParams(
+                    '(EXPERIMENTAL) keystore.encryptKeystore()',
+                    'Encryption failed: unsupported options.kdf key derivation function.',
+                    { keyDerivationFunction: options.kdf }
+                );
+        }
+        const key = deriveKey(password, kdf);
         // Override initialization vector.
         const iv = options.iv ?? secp256k1.randomBytes(16);
         if (iv.length !== 16)
@@ -371,14 +599,8 @@ function encryptKeystore(
                     iv: Hex.of(iv).digits
                 },
                 ciphertext: Hex.of(ciphertext).digits,
-                kdf: 'scrypt',
-                kdfparams: {
-                    dklen: KEYSTORE_CRYPTO_PARAMS_DKLEN,
-                    n: kdf.N,
-                    p: kdf.p,
-                    r: kdf.r,
-                    salt: Hex.of(kdf.salt).digits
-                },
+                kdf: kdf.name,
+                kdfparams: encodeKdfParams(kdf),
                 // Compute the message authentication code, used to check the password.
                 mac: Keccak256.of(n_utils.concatBytes(macPrefix, ciphertext))
                     .digits
@@ -411,7 +633,8 @@ function encryptKeystore(
  * any different encryption not supported.
  *
  * The [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
- * algorithm should be [Scrypt](https://en.wikipedia.org/wiki/Scrypt),
+ * algorithm should be [Scrypt](https://en.wikipedia.org/wiki/Scrypt) or
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) with HMAC SHA-256,
  * any different KDF function not supported.
  *
  * Secure audit function.
@@ -447,20 +670,22 @@ function decrypt(keystore: Keystore, password: Uint8Array): KeystoreAccount {
  * any different encryption not supported.
  *
  * The [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function)
- * algorithm should be [Scrypt](https://en.wikipedia.org/wiki/Scrypt),
+ * algorithm should be [Scrypt](https://en.wikipedia.org/wiki/Scrypt) or
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) with HMAC SHA-256,
  * any different KDF function not supported.
  *
  * Secure audit function.
  * - {@link Address.ofPrivateKey}
  * - [ctr](https://github.com/paulmillr/noble-ciphers?tab=readme-ov-file#aes).
+ * - {@link deriveKey}.
  * - `password` wiped after use.
- * - [scrypt](https://github.com/paulmillr/noble-hashes/?tab=readme-ov-file#scrypt).
  *
  * @param {Keystore} keystore - The keystore object to decrypt.
  * @param {Uint8Array} password - The password used for decryption, wiped after use.
  * @return {KeystoreAccount} - The decrypted keystore account object.
  * @throws {InvalidKeystoreParams}
  *
+ * @see {decodePbkdf2Params}
  * @see {decodeScryptParams}
  * @see {decrypt}
  */
@@ -476,11 +701,15 @@ function decryptKeystore(
                 { cipher: keystore.crypto.cipher.toLowerCase() }
             );
 
-        if (keystore.crypto.kdf.toLowerCase() !== KEYSTORE_CRYPTO_KDF)
+        const keyDerivationFunction = keystore.crypto.kdf.toLowerCase();
+        if (
+            keyDerivationFunction !== KEYSTORE_CRYPTO_KDF &&
+            keyDerivationFunction !== KEYSTORE_CRYPTO_KDF_PBKDF2
+        )
             throw new InvalidKeystoreParams(
                 '(EXPERIMENTAL) keystore.decryptKeystore()',
                 'Decryption failed: unsupported crypto key derivation function.',
-                { keyDerivationFunction: keystore.crypto.kdf.toLowerCase() }
+                { keyDerivationFunction }
             );
 
         if (keystore.version !== KEYSTORE_VERSION)
@@ -490,13 +719,11 @@ function decryptKeystore(
                 { version: keystore.version }
             );
 
-        const kdf = decodeScryptParams(keystore);
-        const key = scrypt(password, kdf.salt, {
-            N: kdf.N,
-            r: kdf.r,
-            p: kdf.p,
-            dkLen: kdf.dkLen
-        });
+        const kdf =
+            keyDerivationFunction === KEYSTORE_CRYPTO_KDF_PBKDF2
+                ? decodePbkdf2Params(keystore)
+                : decodeScryptParams(keystore);
+        const key = deriveKey(password, kdf);
         const ciphertext = n_utils.hexToBytes(keystore.crypto.ciphertext);
         if (
             keystore.crypto.mac !==
@@ -519,7 +746,7 @@ function decryptKeystore(
         const address = Address.ofPrivateKey(privateKey).toString();
         if (
             keystore.address !== '' &&
-            address !== Address.checksum(Hex.of(keystore.address))
+            address !== Address.checksum(HexUInt.of(keystore.address))
         ) {
             throw new InvalidKeystoreParams(
                 '(EXPERIMENTAL) keystore.decryptKeystore()',
@@ -537,6 +764,49 @@ function decryptKeystore(
     }
 }
 
+/**
+ * Decrypts the given keystore with `password` and encrypts the private key again
+ * with `newPassword` and the key derivation function set in `options`,
+ * to change the password or to harden the key derivation function parameters
+ * without exposing the private key to the caller.
+ *
+ * Secure audit function.
+ * - {@link decryptKeystore}.
+ * - {@link encryptKeystore}.
+ * - `password` wiped after use.
+ * - `newPassword` wiped after use.
+ * - the bytes of the decrypted private key wiped after use, but not the hexadecimal
+ *   string of {@link KeystoreAccount.privateKey} returned by {@link decryptKeystore}:
+ *   strings are immutable, that copy stays in memory until garbage collected.
+ *
+ * @param {Keystore} keystore - The keystore object to re-encrypt.
+ * @param {Uint8Array} password - The current password, wiped after use.
+ * @param {Uint8Array} newPassword - The new password, wiped after use.
+ * @param {KeystoreEncryptOptions} [options] - The key derivation function and its parameters
+ * of the new keystore, default Scrypt parameters if omitted.
+ * @returns {Keystore} - The new keystore object, it has a new salt, initialization vector and id.
+ * @throws {InvalidKeystoreParams}
+ *
+ * @see {decrypt}
+ * @see {encrypt}
+ */
+function reencrypt(
+    keystore: Keystore,
+    password: Uint8Array,
+    newPassword: Uint8Array,
+    options: KeystoreEncryptOptions = {}
+): Keystore {
+    let account: KeystoreAccount;
+    try {
+        account = decryptKeystore(keystore, password);
+    } catch (error) {
+        newPassword.fill(0); // Clear the new password from memory.
+        throw error;
+    }
+    // The bytes of the private key are wiped by encrypt, its string can't be wiped.
+    return encrypt(Hex.of(account.privateKey).bytes, newPassword, options);
+}
+
 /**
  * Checks if a given keystore object is valid parsing its JSON representation
  * to catch any parsing errors, only valid
@@ -545,7 +815,8 @@ function decryptKeystore(
  * [Advanced Encryption Standard](https://en.wikipedia.org/wiki/Advanced_Encryption_Standard)
  * [128 bits Counter Mode](https://en.wikipedia.org/wiki/Block_cipher_mode_of_operation)
  * to encrypt the private key and using
- * [Scrypt](https://en.wikipedia.org/wiki/Scrypt) as
+ * [Scrypt](https://en.wikipedia.org/wiki/Scrypt) or
+ * [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2) as
  * [Key Derivation Function](https://en.wikipedia.org/wiki/Key_derivation_function).
  *
  * @param {Keystore} keystore - The keystore object to validate.
@@ -554,9 +825,11 @@ function decryptKeystore(
 function isValid(keystore: Keystore): boolean {
     try {
         const copy = JSON.parse(stringifyData(keystore)) as Keystore;
+        const kdf = copy.crypto.kdf.toLowerCase();
         if (
             copy.crypto.cipher.toLowerCase() === KEYSTORE_CRYPTO_CIPHER &&
-            copy.crypto.kdf.toLowerCase() === KEYSTORE_CRYPTO_KDF &&
+            (kdf === KEYSTORE_CRYPTO_KDF ||
+                kdf === KEYSTORE_CRYPTO_KDF_PBKDF2) &&
             copy.version === KEYSTORE_VERSION
         ) {
             return true;
@@ -594,4 +867,4 @@ function uuidV4(bytes: Uint8Array): string {
 /**
  * Exports the keystore functions for encryption, decryption, and validation.
  */
-export const keystore = { decrypt, encrypt, isValid };
+export const keystore = { decrypt, encrypt, isValid, reencrypt };
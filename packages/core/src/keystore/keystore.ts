@@ -1,7 +1,11 @@
 import { VeChainSDKLogger } from '@vechain/sdk-logging';
 import { Txt } from '../vcdm';
 import { keystoreEthers, keystoreExperimental } from './cryptography';
-import { type Keystore, type KeystoreAccount } from './types';
+import {
+    type Keystore,
+    type KeystoreAccount,
+    type KeystoreEncryptOptions
+} from './types';
 
 /**
  * A boolean indicating whether the keystore cryptography is experimental or not.
@@ -22,11 +26,14 @@ function useExperimentalCryptography(experimentalCryptography: boolean): void {
  *
  * @param privateKey - The private key to be encrypted.
  * @param password - The password used for the encryption.
+ * @param options - The key derivation function and its parameters, default Scrypt.
+ * PBKDF2 is supported only by the experimental cryptography.
  * @returns A Promise that resolves to the encrypted keystore.
  */
 async function encrypt(
     privateKey: Buffer,
-    password: string
+    password: string,
+    options?: KeystoreEncryptOptions
 ): Promise<Keystore> {
     if (EXPERIMENTAL_CRYPTOGRAPHY)
         VeChainSDKLogger('warning').log({
@@ -38,8 +45,12 @@ async function encrypt(
         });
 
     return EXPERIMENTAL_CRYPTOGRAPHY
-        ? keystoreExperimental.encrypt(privateKey, Txt.of(password).bytes)
-        : await keystoreEthers.encrypt(privateKey, password);
+        ? keystoreExperimental.encrypt(
+              privateKey,
+              Txt.of(password).bytes,
+              options
+          )
+        : await keystoreEthers.encrypt(privateKey, password, options);
 }
 
 /**
@@ -68,6 +79,48 @@ async function decrypt(
         : await keystoreEthers.decrypt(keystore, password);
 }
 
+/**
+ * Re-encrypts a keystore with a new password and, optionally, new key derivation function parameters,
+ * without exposing the private key.
+ *
+ * @throws {InvalidKeystoreError, InvalidKeystorePasswordError}
+ * @param keystore - The keystore to re-encrypt.
+ * @param password - The current password of the keystore.
+ * @param newPassword - The password of the new keystore.
+ * @param options - The key derivation function and its parameters of the new keystore, default Scrypt.
+ * PBKDF2 is supported only by the experimental cryptography.
+ * @returns A Promise that resolves to the new keystore.
+ */
+async function reencrypt(
+    keystore: Keystore,
+    password: string,
+    newPassword: string,
+    options?: KeystoreEncryptOptions
+): Promise<Keystore> {
+    if (EXPERIMENTAL_CRYPTOGRAPHY)
+        VeChainSDKLogger('warning').log({
+            title: `Experimental cryptography`,
+            messages: [
+                `Remember, you are using an experimental cryptography library.`,
+                'functions: keystore.reencrypt'
+            ]
+        });
+
+    return EXPERIMENTAL_CRYPTOGRAPHY
+        ? keystoreExperimental.reencrypt(
+              keystore,
+              Txt.of(password).bytes,
+              Txt.of(newPassword).bytes,
+              options
+          )
+        : await keystoreEthers.reencrypt(
+              keystore,
+              password,
+              newPassword,
+              options
+          );
+}
+
 /**
  * Validates if the provided keystore adheres to the expected format and structure.
  *
@@ -92,5 +145,11 @@ function isValid(keystore: Keystore): boolean {
 /**
  * Exports the keystore functions for encryption, decryption, and validation.
  */
-const keystore = { encrypt, decrypt, isValid, useExperimentalCryptography };
+const keystore = {
+    encrypt,
+    decrypt,
+    isValid,
+    reencrypt,
+    useExperimentalCryptography
+};
 export { keystore };
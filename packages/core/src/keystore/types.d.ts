@@ -1,3 +1,39 @@
+/**
+ * @interface ScryptKdfParams
+ * Represents the parameters of the [Scrypt](https://en.wikipedia.org/wiki/Scrypt)
+ * key derivation function stored in a keystore when `crypto.kdf` is `scrypt`.
+ *
+ * @property {number} dklen - The derived private key length.
+ * @property {number} n - The CPU/memory cost parameter for the key derivation function.
+ * @property {number} p - The parallelization factor.
+ * @property {number} r - The block size factor.
+ * @property {string} salt - The salt value used in the KDF.
+ */
+interface ScryptKdfParams {
+    dklen: number;
+    n: number;
+    p: number;
+    r: number;
+    salt: string;
+}
+
+/**
+ * @interface Pbkdf2KdfParams
+ * Represents the parameters of the [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2)
+ * key derivation function stored in a keystore when `crypto.kdf` is `pbkdf2`.
+ *
+ * @property {number} c - The number of iterations, decryption rejects counts greater than 2^20 = 1048576.
+ * @property {number} dklen - The derived private key length.
+ * @property {string} prf - The pseudo-random function, only `hmac-sha256` is supported.
+ * @property {string} salt - The salt value used in the KDF.
+ */
+interface Pbkdf2KdfParams {
+    c: number;
+    dklen: number;
+    prf: string;
+    salt: string;
+}
+
 /**
  * @interface Keystore
  * Represents a
@@ -11,19 +47,19 @@
  * @property {Object} crypto.cipherparams - Additional parameters for the encryption algorithm.
  * @property {string} crypto.cipherparams.iv - The initialization vector (IV) used for encryption.
  * @property {string} crypto.ciphertext - The encrypted private key.
- * @property {string} crypto.kdf - The key derivation function (KDF) used.
- * @property {Object} crypto.kdfparams - Additional parameters for the KDF.
- * @property {number} crypto.kdfparams.dklen - The derived private key length.
- * @property {number} crypto.kdfparams.n - The CPU/memory cost parameter for the key derivation function.
- * @property {number} crypto.kdfparams.p - The parallelization factor.
- * @property {number} crypto.kdfparams.r - The block size factor.
- * @property {string} crypto.kdfparams.salt - The salt value used in the KDF.
+ * @property {string} crypto.kdf - The key derivation function (KDF) used, either `scrypt` or `pbkdf2`.
+ * @property {ScryptKdfParams | Pbkdf2KdfParams} crypto.kdfparams - Additional parameters for the KDF.
  * @property {string} crypto.mac - The MAC (Message Authentication Code)
  * to match the KDF function with the private key derived by the cyphered text stored.
  * @property {string} id - The
  * [unique identifier version 4](https://en.wikipedia.org/wiki/Universally_unique_identifier)
  * for the key store.
  * @property {number} version - The version number of the key store.
+ *
+ * @remarks **Breaking change:** `crypto.kdfparams` was the Scrypt parameters object,
+ * it's now the {@link ScryptKdfParams} | {@link Pbkdf2KdfParams} union, hence code reading
+ * `kdfparams.n`, `kdfparams.r` or `kdfparams.p` must narrow it first, checking `crypto.kdf`
+ * is `scrypt` and casting to {@link ScryptKdfParams}.
  */
 interface Keystore {
     address: string;
@@ -34,13 +70,7 @@ interface Keystore {
         };
         ciphertext: string;
         kdf: string;
-        kdfparams: {
-            dklen: number;
-            n: number;
-            p: number;
-            r: number;
-            salt: string;
-        };
+        kdfparams: ScryptKdfParams | Pbkdf2KdfParams;
         mac: string;
     };
     id: string;
@@ -76,4 +106,35 @@ interface KeystoreAccount {
     };
 }
 
-export { type Keystore, type KeystoreAccount };
+/**
+ * Interface representing the options of the keystore encryption.
+ *
+ * @property {string} [kdf='scrypt'] - The key derivation function, either `scrypt` or `pbkdf2`.
+ * @property {Object} [scrypt] - The parameters overriding the default Scrypt ones.
+ * @property {number} [scrypt.N] - CPU/memory cost parameter, power of 2.
+ * @property {number} [scrypt.p] - Parallelization parameter.
+ * @property {number} [scrypt.r] - Block size parameter.
+ * @property {Object} [pbkdf2] - The parameters overriding the default PBKDF2 ones.
+ * @property {number} [pbkdf2.c] - The number of iterations, at most 2^20 = 1048576.
+ *
+ * @remarks PBKDF2 encryption is supported only by the experimental cryptography.
+ */
+interface KeystoreEncryptOptions {
+    kdf?: 'scrypt' | 'pbkdf2';
+    scrypt?: {
+        N?: number;
+        p?: number;
+        r?: number;
+    };
+    pbkdf2?: {
+        c?: number;
+    };
+}
+
+export {
+    type Keystore,
+    type KeystoreAccount,
+    type KeystoreEncryptOptions,
+    type Pbkdf2KdfParams,
+    type ScryptKdfParams
+};
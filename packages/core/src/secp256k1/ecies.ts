@@ -0,0 +1,218 @@
+/**
+ * Implements the
+ * [Elliptic Curve Integrated Encryption Scheme](https://en.wikipedia.org/wiki/Integrated_Encryption_Scheme)
+ * on the secp256k1 keys of VeChain accounts.
+ *
+ * The encrypted data is serialized as
+ * ```
+ * +---------+----------------------+----------+-----------------------+----------+
+ * | version | ephemeral public key | nonce    | ciphertext            | tag      |
+ * | 1 byte  | 33 bytes, compressed | 12 bytes | plaintext length      | 16 bytes |
+ * +---------+----------------------+----------+-----------------------+----------+
+ * ```
+ * where
+ * - `version` is {@link ECIES_VERSION};
+ * - `ephemeral public key` is the compressed public key of a random key pair generated for each encryption;
+ * - the symmetric key is derived with [HKDF](https://en.wikipedia.org/wiki/HKDF) SHA-256 from the
+ *   [ECDH](https://en.wikipedia.org/wiki/Elliptic-curve_Diffie%E2%80%93Hellman) shared secret
+ *   (X coordinate) between the ephemeral private key and the recipient public key,
+ *   with salt `ephemeral public key || recipient public key` (both compressed) and info {@link ECIES_INFO};
+ * - `ciphertext` and `tag` are the output of
+ *   [AES-256-GCM](https://en.wikipedia.org/wiki/Galois/Counter_Mode) with the given `nonce`,
+ *   authenticating `version || ephemeral public key` as additional data.
+ *
+ * Only [noble](https://paulmillr.com/noble/) libraries are used, hence it works
+ * in browsers and any JS runtime without the Node `crypto` module.
+ */
+import { gcm } from '@noble/ciphers/aes';
+import * as n_utils from '@noble/curves/abstract/utils';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import {
+    InvalidSecp256k1EncryptedData,
+    InvalidSecp256k1PublicKey
+} from '@vechain/sdk-errors';
+import { secp256k1 } from './secp256k1';
+
+/**
+ * The version of the wire format of the encrypted data.
+ */
+const ECIES_VERSION = 1;
+
+/**
+ * The info parameter of the HKDF key derivation, it binds the key to this scheme.
+ */
+const ECIES_INFO = n_utils.utf8ToBytes('VeChain ECIES v1 AES-256-GCM');
+
+/**
+ * Length in bytes of the compressed ephemeral public key.
+ */
+const ECIES_PUBLIC_KEY_LENGTH = 33;
+
+/**
+ * Length in bytes of the AES-GCM nonce.
+ */
+const ECIES_NONCE_LENGTH = 12;
+
+/**
+ * Length in bytes of the AES-GCM authentication tag.
+ */
+const ECIES_TAG_LENGTH = 16;
+
+/**
+ * Length in bytes of the header: version, ephemeral public key and nonce.
+ */
+const ECIES_HEADER_LENGTH = 1 + ECIES_PUBLIC_KEY_LENGTH + ECIES_NONCE_LENGTH;
+
+/**
+ * Derives the AES-256 key from the ECDH shared secret.
+ *
+ * Security audit function.
+ * * [hkdf](https://github.com/paulmillr/noble-hashes?tab=readme-ov-file#hkdf)
+ * * `sharedSecret` wiped after use.
+ *
+ * @param {Uint8Array} sharedSecret - The ECDH shared secret, wiped after use.
+ * @param {Uint8Array} ephemeralPublicKey - The compressed ephemeral public key.
+ * @param {Uint8Array} recipientPublicKey - The compressed public key of the recipient.
+ * @returns {Uint8Array} - The 32 bytes symmetric key.
+ */
+function deriveKey(
+    sharedSecret: Uint8Array,
+    ephemeralPublicKey: Uint8Array,
+    recipientPublicKey: Uint8Array
+): Uint8Array {
+    try {
+        return hkdf(
+            sha256,
+            sharedSecret,
+            n_utils.concatBytes(ephemeralPublicKey, recipientPublicKey),
+            ECIES_INFO,
+            32
+        );
+    } finally {
+        sharedSecret.fill(0); // Clear the shared secret from memory.
+    }
+}
+
+/**
+ * Encrypts `plaintext` for the owner of `publicKey`, only the owner
+ * of the corresponding private key can decrypt it.
+ *
+ * Security audit function.
+ * * [gcm](https://github.com/paulmillr/noble-ciphers?tab=readme-ov-file#aes)
+ * * {@link secp256k1.deriveSharedSecret}
+ * * {@link secp256k1.randomBytes}
+ * * ephemeral private key wiped after use.
+ *
+ * @param {Uint8Array} plaintext - The data to encrypt.
+ * @param {Uint8Array} publicKey - The compressed or uncompressed public key of the recipient.
+ * @returns {Uint8Array} - The encrypted data serialized as described in the module documentation.
+ * @throws {InvalidSecp256k1PublicKey}
+ *
+ * @see decrypt
+ */
+function encrypt(plaintext: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    if (!secp256k1.isValidPublicKey(publicKey)) {
+        throw new InvalidSecp256k1PublicKey(
+            'ecies.encrypt()',
+            'Invalid public key given as input. Ensure it is a compressed or uncompressed secp256k1 public key.',
+            { publicKey }
+        );
+    }
+    const recipientPublicKey = secp256k1.compressPublicKey(publicKey);
+    let ephemeralPrivateKey = secp256k1.randomBytes(32);
+    while (!secp256k1.isValidPrivateKey(ephemeralPrivateKey)) {
+        ephemeralPrivateKey = secp256k1.randomBytes(32);
+    }
+    try {
+        const ephemeralPublicKey =
+            secp256k1.derivePublicKey(ephemeralPrivateKey);
+        const key = deriveKey(
+            secp256k1.deriveSharedSecret(
+                ephemeralPrivateKey,
+                recipientPublicKey
+            ),
+            ephemeralPublicKey,
+            recipientPublicKey
+        );
+        const header = n_utils.concatBytes(
+            Uint8Array.of(ECIES_VERSION),
+            ephemeralPublicKey
+        );
+        const nonce = secp256k1.randomBytes(ECIES_NONCE_LENGTH);
+        try {
+            return n_utils.concatBytes(
+                header,
+                nonce,
+                gcm(key, nonce, header).encrypt(plaintext)
+            );
+        } finally {
+            key.fill(0); // Clear the symmetric key from memory.
+        }
+    } finally {
+        ephemeralPrivateKey.fill(0); // Clear the ephemeral private key from memory.
+    }
+}
+
+/**
+ * Decrypts the data encrypted with {@link encrypt} for the owner of `privateKey`.
+ *
+ * Security audit function.
+ * * [gcm](https://github.com/paulmillr/noble-ciphers?tab=readme-ov-file#aes)
+ * * {@link secp256k1.deriveSharedSecret}
+ *
+ * @param {Uint8Array} encrypted - The encrypted data serialized as described in the module documentation.
+ * @param {Uint8Array} privateKey - The private key of the recipient.
+ * @returns {Uint8Array} - The decrypted data.
+ * @throws {InvalidSecp256k1EncryptedData, InvalidSecp256k1PrivateKey}
+ *
+ * @see encrypt
+ */
+function decrypt(encrypted: Uint8Array, privateKey: Uint8Array): Uint8Array {
+    if (encrypted.length < ECIES_HEADER_LENGTH + ECIES_TAG_LENGTH) {
+        throw new InvalidSecp256k1EncryptedData(
+            'ecies.decrypt()',
+            'Invalid encrypted data given as input. Too short to hold header and tag.',
+            { length: encrypted.length }
+        );
+    }
+    const version = encrypted[0];
+    if (version !== ECIES_VERSION) {
+        throw new InvalidSecp256k1EncryptedData(
+            'ecies.decrypt()',
+            'Invalid encrypted data given as input. Unsupported version.',
+            { length: encrypted.length, version }
+        );
+    }
+    const header = encrypted.subarray(0, 1 + ECIES_PUBLIC_KEY_LENGTH);
+    const ephemeralPublicKey = header.subarray(1);
+    const nonce = encrypted.subarray(header.length, ECIES_HEADER_LENGTH);
+    if (!secp256k1.isValidPublicKey(ephemeralPublicKey)) {
+        throw new InvalidSecp256k1EncryptedData(
+            'ecies.decrypt()',
+            'Invalid encrypted data given as input. Invalid ephemeral public key.',
+            { length: encrypted.length, version }
+        );
+    }
+    const key = deriveKey(
+        secp256k1.deriveSharedSecret(privateKey, ephemeralPublicKey),
+        ephemeralPublicKey,
+        secp256k1.derivePublicKey(privateKey)
+    );
+    try {
+        return gcm(key, nonce, header).decrypt(
+            encrypted.subarray(ECIES_HEADER_LENGTH)
+        );
+    } catch (error) {
+        throw new InvalidSecp256k1EncryptedData(
+            'ecies.decrypt()',
+            'Decryption failed: the data is not encrypted for the given private key or it has been tampered.',
+            { length: encrypted.length, version },
+            error
+        );
+    } finally {
+        key.fill(0); // Clear the symmetric key from memory.
+    }
+}
+
+export const ecies = { decrypt, encrypt };
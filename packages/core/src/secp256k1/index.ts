@@ -1 +1,2 @@
+export * from './ecies';
 export * from './secp256k1';
@@ -6,6 +6,7 @@ import { secp256k1 as n_secp256k1 } from '@noble/curves/secp256k1';
 import {
     InvalidSecp256k1MessageHash,
     InvalidSecp256k1PrivateKey,
+    InvalidSecp256k1PublicKey,
     InvalidSecp256k1Signature
 } from '@vechain/sdk-errors';
 
@@ -66,6 +67,53 @@ function derivePublicKey(
     return n_secp256k1.getPublicKey(privateKey, isCompressed);
 }
 
+/**
+ * Derives the [ECDH](https://en.wikipedia.org/wiki/Elliptic-curve_Diffie%E2%80%93Hellman)
+ * shared secret between the owner of `privateKey` and the owner of `publicKey`.
+ *
+ * Both parties derive the same secret: the owner of `privateKey` with the public key of the other party,
+ * the other party with its own private key and the public key derived from `privateKey`.
+ *
+ * **WARNING:** the shared secret is not a symmetric key, derive the key with a
+ * [KDF](https://en.wikipedia.org/wiki/Key_derivation_function) as {@link ecies} does,
+ * and call
+ * ```javascript
+ * sharedSecret.fill(0)
+ * ```
+ * after use.
+ *
+ * Security audit function.
+ * * [`ec` for elliptic curve](https://github.com/paulmillr/noble-curves)
+ *
+ * @param {Uint8Array} privateKey - The private key of this party.
+ * @param {Uint8Array} publicKey - The compressed or uncompressed public key of the other party.
+ * @returns {Uint8Array} - The 32 bytes X coordinate of the shared point.
+ * @throws {InvalidSecp256k1PrivateKey, InvalidSecp256k1PublicKey}
+ */
+function deriveSharedSecret(
+    privateKey: Uint8Array,
+    publicKey: Uint8Array
+): Uint8Array {
+    // Check if the private key is valid.
+    if (!isValidPrivateKey(privateKey)) {
+        throw new InvalidSecp256k1PrivateKey(
+            'secp256k1.deriveSharedSecret()',
+            'Invalid private key given as input. Ensure it is a valid 32-byte secp256k1 private key.',
+            undefined
+        );
+    }
+    // Check if the public key is valid.
+    if (!isValidPublicKey(publicKey)) {
+        throw new InvalidSecp256k1PublicKey(
+            'secp256k1.deriveSharedSecret()',
+            'Invalid public key given as input. Ensure it is a compressed or uncompressed secp256k1 public key.',
+            { publicKey }
+        );
+    }
+    // Drop the prefix of the compressed shared point.
+    return n_secp256k1.getSharedSecret(privateKey, publicKey, true).slice(1);
+}
+
 /**
  * Generates a new private key.
  *
@@ -153,6 +201,25 @@ function isValidPrivateKey(privateKey: Uint8Array): boolean {
     return n_secp256k1.utils.isValidPrivateKey(privateKey);
 }
 
+/**
+ * Checks if the given public key is a valid point of the secp256k1 curve.
+ *
+ * Security audit function.
+ * * [`ec` for elliptic curve](https://github.com/paulmillr/noble-curves)
+ *
+ * @param {Uint8Array} publicKey - The compressed (33 bytes) or uncompressed (65 bytes) public key.
+ * @return {boolean} - Returns `true` if the public key is a point of the curve,
+ * otherwise `false`.
+ */
+function isValidPublicKey(publicKey: Uint8Array): boolean {
+    try {
+        n_secp256k1.ProjectivePoint.fromHex(publicKey).assertValidity();
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
 /**
  * Generates random bytes of specified length.
  *
@@ -265,10 +332,12 @@ function sign(messageHash: Uint8Array, privateKey: Uint8Array): Uint8Array {
 export const secp256k1 = {
     compressPublicKey,
     derivePublicKey,
+    deriveSharedSecret,
     generatePrivateKey,
     inflatePublicKey,
     isValidMessageHash,
     isValidPrivateKey,
+    isValidPublicKey,
     recover,
     randomBytes,
     sign
@@ -1,7 +1,10 @@
 import { type RLPValidObject } from '../../encoding';
 import {
+    SIGNED_DYNAMIC_FEE_TRANSACTION_RLP,
     SIGNED_TRANSACTION_RLP,
     TRANSACTION_FEATURES_KIND,
+    TransactionType,
+    UNSIGNED_DYNAMIC_FEE_TRANSACTION_RLP,
     UNSIGNED_TRANSACTION_RLP
 } from '../../utils';
 import { Transaction } from '../transaction';
@@ -10,23 +13,40 @@ import { InvalidTransactionField } from '@vechain/sdk-errors';
 
 /**
  * Decode a raw transaction.
- * It can be signed or unsigned.
+ * It can be signed or unsigned, legacy or dynamic-fee.
  *
- * @param rawTransaction - Raw transaction to decode
+ * @param rawTransaction - Raw transaction to decode, dynamic-fee transactions start with the type byte `0x51`
  * @param isSigned - If the transaction is signed or not
  * @returns Decoded transaction (signed or unsigned)
  */
 function decode(rawTransaction: Buffer, isSigned: boolean): Transaction {
+    // Legacy transactions start with the RLP list prefix, never with the type byte
+    const isDynamicFee =
+        rawTransaction[0] === (TransactionType.DynamicFee as number);
+
     // Get correct decoder profiler
-    const decoder = isSigned
-        ? SIGNED_TRANSACTION_RLP
-        : UNSIGNED_TRANSACTION_RLP;
+    let decoder = isSigned ? SIGNED_TRANSACTION_RLP : UNSIGNED_TRANSACTION_RLP;
+    if (isDynamicFee) {
+        decoder = isSigned
+            ? SIGNED_DYNAMIC_FEE_TRANSACTION_RLP
+            : UNSIGNED_DYNAMIC_FEE_TRANSACTION_RLP;
+    }
 
-    // Get decoded body
-    const decodedRLPBody = decoder.decodeObject(
-        rawTransaction
+    // Get decoded body, decoded from the raw transaction without copying it
+    const decodedRLPBody = decoder.decodeView(
+        isDynamicFee ? rawTransaction.subarray(1) : rawTransaction
     ) as RLPValidObject;
 
+    // Fee fields of the type of the transaction
+    const fees = isDynamicFee
+        ? {
+              maxPriorityFeePerGas: decodedRLPBody.maxPriorityFeePerGas as
+                  | string
+                  | number,
+              maxFeePerGas: decodedRLPBody.maxFeePerGas as string | number
+          }
+        : { gasPriceCoef: decodedRLPBody.gasPriceCoef as number };
+
     // Create correct transaction body without reserved field
     const bodyWithoutReservedField: TransactionBody = {
         blockRef: decodedRLPBody.blockRef as string,
@@ -35,7 +55,7 @@ function decode(rawTransaction: Buffer, isSigned: boolean): Transaction {
         dependsOn: decodedRLPBody.dependsOn as string | null,
         expiration: decodedRLPBody.expiration as number,
         gas: decodedRLPBody.gas as number,
-        gasPriceCoef: decodedRLPBody.gasPriceCoef as number,
+        ...fees,
         nonce: decodedRLPBody.nonce as number
     };
 
@@ -54,7 +74,8 @@ function decode(rawTransaction: Buffer, isSigned: boolean): Transaction {
     return decodedRLPBody.signature !== undefined
         ? new Transaction(
               correctTransactionBody,
-              decodedRLPBody.signature as Buffer
+              // Copy the signature, not to share the memory of the raw transaction
+              Buffer.from(decodedRLPBody.signature as Buffer)
           )
         : new Transaction(correctTransactionBody);
 }
@@ -92,7 +113,7 @@ function _decodeReservedField(reserved: Buffer[]): {
     return reserved.length > 1
         ? {
               features: featuresField,
-              unused: reserved.slice(1)
+              unused: reserved.slice(1).map((unused) => Buffer.from(unused))
           }
         : { features: featuresField };
 }
@@ -1,4 +1,7 @@
+export * from './partially-signed-transaction';
 export * from './transaction';
+export * from './transaction-builder';
+export * from './transaction-explainer';
 export * from './transaction-handler';
 export * from './types.d';
 export * from '../utils/const/network';
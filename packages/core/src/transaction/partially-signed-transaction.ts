@@ -0,0 +1,401 @@
+import {
+    InvalidSecp256k1PrivateKey,
+    InvalidSecp256k1Signature,
+    InvalidTransactionField,
+    NotDelegatedTransaction
+} from '@vechain/sdk-errors';
+import { secp256k1 } from '../secp256k1';
+import { SIGNATURE_LENGTH } from '../utils';
+import { Address, Hex } from '../vcdm';
+import { Transaction } from './transaction';
+import {
+    type PartiallySignedTransactionJSON,
+    type TransactionBody
+} from './types';
+
+/**
+ * Represents an immutable envelope collecting the signatures of a delegated transaction,
+ * see [VIP-191](https://github.com/vechain/VIPs/blob/master/vips/VIP-191.md).
+ *
+ * The origin signs the signature hash of the body, the delegator signs the signature hash
+ * of the body for the origin address, hence both can sign on different machines in any order,
+ * exchanging the envelope as JSON, see {@link toJSON} and {@link fromJSON}.
+ * Once both signatures are collected, {@link finalize} returns the signed {@link Transaction}.
+ *
+ * @example
+ * ```typescript
+ * // Origin side.
+ * const envelope = PartiallySignedTransaction.of(body, originAddress).signAsOrigin(originPrivateKey);
+ * const json = JSON.stringify(envelope);
+ * // Delegator side.
+ * const signed = PartiallySignedTransaction.fromJSON(JSON.parse(json)).signAsDelegator(delegatorPrivateKey);
+ * const transaction = signed.finalize();
+ * ```
+ */
+class PartiallySignedTransaction {
+    /**
+     * The body of the delegated transaction.
+     */
+    public readonly body: TransactionBody;
+
+    /**
+     * The checksum address of the origin.
+     */
+    public readonly origin: string;
+
+    /**
+     * The signature of the origin, if the origin signed.
+     */
+    public readonly originSignature?: Buffer;
+
+    /**
+     * The signature of the delegator, if the delegator signed.
+     */
+    public readonly delegatorSignature?: Buffer;
+
+    /**
+     * The unsigned transaction of the body, computing the signature hashes.
+     */
+    private readonly _transaction: Transaction;
+
+    /**
+     * Creates the envelope, the signatures are checked with {@link verify}.
+     *
+     * @param body - The body of the delegated transaction.
+     * @param origin - The address of the origin.
+     * @param signatures - The signatures collected so far.
+     * @throws {InvalidTransactionField, NotDelegatedTransaction, InvalidSecp256k1Signature}
+     */
+    constructor(
+        body: TransactionBody,
+        origin: string,
+        signatures: { origin?: Uint8Array; delegator?: Uint8Array } = {}
+    ) {
+        // The constructor of the transaction checks the body.
+        this._transaction = new Transaction(body);
+        if (!this._transaction.isDelegated) {
+            throw new NotDelegatedTransaction(
+                'PartiallySignedTransaction constructor',
+                'Transaction is not delegated. Sign it with TransactionHandler.sign() instead.',
+                undefined
+            );
+        }
+        if (!Address.isValid(origin)) {
+            throw new InvalidTransactionField(
+                'PartiallySignedTransaction constructor',
+                'Invalid origin. It must be a valid address.',
+                { fieldName: 'origin', origin }
+            );
+        }
+        this.body = body;
+        this.origin = Address.of(origin).toString();
+        this.originSignature =
+            signatures.origin === undefined
+                ? undefined
+                : Buffer.from(signatures.origin);
+        this.delegatorSignature =
+            signatures.delegator === undefined
+                ? undefined
+                : Buffer.from(signatures.delegator);
+        this.verify();
+    }
+
+    /**
+     * Get the address of the delegator from its signature.
+     *
+     * @returns The checksum address of the delegator, `undefined` if the delegator didn't sign.
+     */
+    public get delegator(): string | undefined {
+        if (this.delegatorSignature === undefined) {
+            return undefined;
+        }
+        return Address.ofPublicKey(
+            Buffer.from(
+                secp256k1.recover(
+                    this._transaction.getSignatureHash(this.origin),
+                    this.delegatorSignature
+                )
+            )
+        ).toString();
+    }
+
+    /**
+     * Determines whether both the origin and the delegator signed.
+     *
+     * @returns If the envelope can be finalized.
+     */
+    public get isComplete(): boolean {
+        return (
+            this.originSignature !== undefined &&
+            this.delegatorSignature !== undefined
+        );
+    }
+
+    /**
+     * Creates an envelope without signatures.
+     *
+     * @param body - The body of the delegated transaction.
+     * @param origin - The address of the origin.
+     * @returns The envelope.
+     * @throws {InvalidTransactionField, NotDelegatedTransaction}
+     */
+    public static of(
+        body: TransactionBody,
+        origin: string
+    ): PartiallySignedTransaction {
+        return new PartiallySignedTransaction(body, origin);
+    }
+
+    /**
+     * Signs the envelope as the origin.
+     *
+     * @param privateKey - The private key of the origin.
+     * @returns A new envelope having the signature of the origin.
+     * @throws {InvalidSecp256k1PrivateKey} If the key is invalid or it is not the key of the origin.
+     */
+    public signAsOrigin(privateKey: Uint8Array): PartiallySignedTransaction {
+        if (
+            !secp256k1.isValidPrivateKey(privateKey) ||
+            Address.ofPrivateKey(privateKey).toString() !== this.origin
+        ) {
+            throw new InvalidSecp256k1PrivateKey(
+                'PartiallySignedTransaction.signAsOrigin()',
+                "Invalid origin private key. Ensure it's the secp256k1 private key of the origin.",
+                undefined
+            );
+        }
+        return new PartiallySignedTransaction(this.body, this.origin, {
+            origin: secp256k1.sign(
+                this._transaction.getSignatureHash(),
+                privateKey
+            ),
+            delegator: this.delegatorSignature
+        });
+    }
+
+    /**
+     * Signs the envelope as the delegator, for the origin of the envelope.
+     *
+     * @param privateKey - The private key of the delegator.
+     * @returns A new envelope having the signature of the delegator.
+     * @throws {InvalidSecp256k1PrivateKey}
+     */
+    public signAsDelegator(privateKey: Uint8Array): PartiallySignedTransaction {
+        if (!secp256k1.isValidPrivateKey(privateKey)) {
+            throw new InvalidSecp256k1PrivateKey(
+                'PartiallySignedTransaction.signAsDelegator()',
+                "Invalid delegator private key. Ensure it's a valid secp256k1 private key.",
+                undefined
+            );
+        }
+        return new PartiallySignedTransaction(this.body, this.origin, {
+            origin: this.originSignature,
+            delegator: secp256k1.sign(
+                this._transaction.getSignatureHash(this.origin),
+                privateKey
+            )
+        });
+    }
+
+    /**
+     * Merges the signatures of envelopes signed separately from the same body and origin,
+     * e.g. one signed by the origin and one signed by the delegator.
+     *
+     * @param envelopes - The envelopes to merge, at least one.
+     * @returns The envelope having all the signatures.
+     * @throws {InvalidTransactionField} If the bodies, the origins or the signatures of the same party differ.
+     */
+    public static combine(
+        ...envelopes: PartiallySignedTransaction[]
+    ): PartiallySignedTransaction {
+        if (envelopes.length === 0) {
+            throw new InvalidTransactionField(
+                'PartiallySignedTransaction.combine()',
+                'No envelopes to combine.',
+                { fieldName: 'envelopes' }
+            );
+        }
+        const [first] = envelopes;
+        const signatures: { origin?: Buffer; delegator?: Buffer } = {};
+        envelopes.forEach((envelope) => {
+            if (
+                !envelope._transaction.encoded.equals(
+                    first._transaction.encoded
+                ) ||
+                envelope.origin !== first.origin
+            ) {
+                throw new InvalidTransactionField(
+                    'PartiallySignedTransaction.combine()',
+                    'Envelopes do not share the same body and origin.',
+                    { fieldName: 'body', origin: envelope.origin }
+                );
+            }
+            (
+                [
+                    ['origin', envelope.originSignature],
+                    ['delegator', envelope.delegatorSignature]
+                ] as const
+            ).forEach(([party, signature]) => {
+                if (signature === undefined) {
+                    return;
+                }
+                const known = signatures[party];
+                // Signatures are deterministic, different signatures come from different keys.
+                if (known !== undefined && !known.equals(signature)) {
+                    throw new InvalidTransactionField(
+                        'PartiallySignedTransaction.combine()',
+                        `Conflicting ${party} signatures.`,
+                        { fieldName: 'signature', party }
+                    );
+                }
+                signatures[party] = signature;
+            });
+        });
+        return new PartiallySignedTransaction(
+            first.body,
+            first.origin,
+            signatures
+        );
+    }
+
+    /**
+     * Checks the signatures collected so far:
+     * the signature of the origin must be signed by the origin,
+     * the signature of the delegator must be signed by `delegator`, if given.
+     *
+     * @param delegator - The address of the expected delegator.
+     * @throws {InvalidSecp256k1Signature}
+     */
+    public verify(delegator?: string): void {
+        [this.originSignature, this.delegatorSignature].forEach((signature) => {
+            if (
+                signature !== undefined &&
+                signature.length !== SIGNATURE_LENGTH
+            ) {
+                throw new InvalidSecp256k1Signature(
+                    'PartiallySignedTransaction.verify()',
+                    'Invalid signature. Length must be exactly 65 bytes.',
+                    { signature }
+                );
+            }
+        });
+        if (
+            this.originSignature !== undefined &&
+            Address.ofPublicKey(
+                Buffer.from(
+                    secp256k1.recover(
+                        this._transaction.getSignatureHash(),
+                        this.originSignature
+                    )
+                )
+            ).toString() !== this.origin
+        ) {
+            throw new InvalidSecp256k1Signature(
+                'PartiallySignedTransaction.verify()',
+                'Invalid origin signature. It is not signed by the origin.',
+                { signature: this.originSignature }
+            );
+        }
+        // The getter recovers the delegator, throwing if the signature is malformed.
+        const signer = this.delegator;
+        if (
+            delegator !== undefined &&
+            this.delegatorSignature !== undefined &&
+            signer?.toLowerCase() !== delegator.toLowerCase()
+        ) {
+            throw new InvalidSecp256k1Signature(
+                'PartiallySignedTransaction.verify()',
+                'Invalid delegator signature. It is not signed by the expected delegator.',
+                { signature: this.delegatorSignature }
+            );
+        }
+    }
+
+    /**
+     * Returns the signed transaction, once both the origin and the delegator signed.
+     *
+     * @returns The signed transaction, its `origin` is the origin of the envelope.
+     * @throws {InvalidTransactionField} If a signature is missing.
+     */
+    public finalize(): Transaction {
+        if (
+            this.originSignature === undefined ||
+            this.delegatorSignature === undefined
+        ) {
+            throw new InvalidTransactionField(
+                'PartiallySignedTransaction.finalize()',
+                `Missing ${this.originSignature === undefined ? 'origin' : 'delegator'} signature.`,
+                { fieldName: 'signature' }
+            );
+        }
+        return new Transaction(
+            this.body,
+            Buffer.concat([this.originSignature, this.delegatorSignature])
+        );
+    }
+
+    /**
+     * Return the JSON representation of this envelope, see {@link PartiallySignedTransactionJSON}.
+     *
+     * @returns The JSON representation of this envelope.
+     */
+    public toJSON(): PartiallySignedTransactionJSON {
+        const json: PartiallySignedTransactionJSON = {
+            body: this._transaction.toJSON().body,
+            origin: this.origin,
+            signature: {}
+        };
+        if (this.originSignature !== undefined) {
+            json.signature.origin = Hex.of(this.originSignature).toString();
+        }
+        if (this.delegatorSignature !== undefined) {
+            json.signature.delegator = Hex.of(
+                this.delegatorSignature
+            ).toString();
+            json.delegator = this.delegator;
+        }
+        return json;
+    }
+
+    /**
+     * Creates an envelope from its JSON representation, see {@link PartiallySignedTransactionJSON}.
+     *
+     * The optional `delegator` must match the one derived from the signature of the delegator.
+     *
+     * @param json - JSON representation of the envelope, as returned by {@link toJSON}.
+     * @returns The envelope.
+     * @throws {InvalidTransactionField, NotDelegatedTransaction, InvalidSecp256k1Signature}
+     */
+    public static fromJSON(
+        json: PartiallySignedTransactionJSON
+    ): PartiallySignedTransaction {
+        const signature = json.signature ?? {};
+        const parts = [signature.origin, signature.delegator];
+        if (
+            !parts.every(
+                (part) =>
+                    part === undefined ||
+                    (typeof part === 'string' && Hex.isValid0x(part))
+            )
+        ) {
+            throw new InvalidTransactionField(
+                'PartiallySignedTransaction.fromJSON()',
+                'Invalid signature. Ensure origin and delegator signatures are hexadecimal expressions.',
+                { fieldName: 'signature', json }
+            );
+        }
+        const [origin, delegator] = parts.map((part) =>
+            part === undefined ? undefined : Hex.of(part).bytes
+        );
+        // The body is restored and checked as the body of an unsigned transaction.
+        const envelope = new PartiallySignedTransaction(
+            Transaction.fromJSON({ body: json.body, isDelegated: true }).body,
+            json.origin,
+            { origin, delegator }
+        );
+        envelope.verify(json.delegator);
+        return envelope;
+    }
+}
+
+export { PartiallySignedTransaction };
@@ -0,0 +1,486 @@
+import { InvalidTransactionField } from '@vechain/sdk-errors';
+import { type FunctionFragment } from '../abi';
+import { clauseBuilder, type DeployParams } from '../clause';
+import { TransactionUtils } from '../utils';
+import { Address, BlockRef, Hex, type HexUInt, ThorId } from '../vcdm';
+import { Transaction } from './transaction';
+import {
+    type DynamicFeeTransactionBody,
+    type LegacyTransactionBody,
+    type TransactionBody,
+    type TransactionClause
+} from './types';
+
+/**
+ * Builds transaction bodies without any access to the network, hence suitable
+ * to prepare transactions to sign in air-gapped environments.
+ *
+ * The builder needs only the chain tag and the block reference,
+ * the other fields of the body default to
+ * * `expiration`: 32 blocks;
+ * * `gasPriceCoef`: 0, the transaction is a legacy one unless {@link TransactionBuilder.dynamicFee} is set;
+ * * `gas`: the intrinsic gas of the clauses, see {@link TransactionUtils.intrinsicGas}, only if no clause
+ *   calls or deploys a contract, otherwise the gas must be set because the intrinsic gas doesn't pay
+ *   for the execution, estimate it e.g. with `GasModule.estimateGas` when online;
+ * * `dependsOn`: `null`;
+ * * `nonce`: 8 random bytes, generated at each {@link TransactionBuilder.buildBody} call;
+ * * not delegated.
+ *
+ * Each field is checked when set, the whole body is checked when built,
+ * throwing {@link InvalidTransactionField} naming the invalid field.
+ *
+ * @example
+ * ```typescript
+ * const transaction = new TransactionBuilder()
+ *     .chainTag(networkInfo.mainnet.chainTag)
+ *     .blockRef(bestBlockId)
+ *     .clause(clauseBuilder.transferVET(recipient, unitsUtils.parseVET('1')))
+ *     .delegated()
+ *     .build();
+ * ```
+ */
+class TransactionBuilder {
+    /**
+     * The default number of blocks after the block reference the transaction expires in.
+     */
+    public static readonly DEFAULT_EXPIRATION = 32;
+
+    /**
+     * The number of bytes of the random nonce.
+     */
+    private static readonly NONCE_BYTES = 8;
+
+    /**
+     * Matches 0x prefixed hexadecimal expressions of whole bytes, as clause data.
+     */
+    private static readonly REGEX_DATA = /^0x([0-9a-f]{2})*$/i;
+
+    /**
+     * Matches 0x prefixed hexadecimal expressions up to 8 bytes, as nonce.
+     */
+    private static readonly REGEX_NONCE = /^0x[0-9a-f]{1,16}$/i;
+
+    /**
+     * Matches positive integers expressed as decimal or 0x prefixed hexadecimal strings, as clause value.
+     */
+    private static readonly REGEX_VALUE = /^(\d+|0x[0-9a-f]+)$/i;
+
+    /**
+     * The fields of the body set so far, but the fee ones.
+     */
+    private readonly _body: Pick<
+        TransactionBody,
+        'expiration' | 'dependsOn' | 'clauses'
+    > &
+        Partial<
+            Pick<TransactionBody, 'chainTag' | 'blockRef' | 'gas' | 'nonce'>
+        > = {
+        expiration: TransactionBuilder.DEFAULT_EXPIRATION,
+        dependsOn: null,
+        clauses: []
+    };
+
+    /**
+     * The fee fields of the body, either the gas price coefficient of a legacy transaction
+     * or the maximum fees per gas of a dynamic-fee transaction.
+     */
+    private _fee:
+        | Pick<LegacyTransactionBody, 'gasPriceCoef'>
+        | Pick<
+              DynamicFeeTransactionBody,
+              'maxFeePerGas' | 'maxPriorityFeePerGas'
+          > = { gasPriceCoef: 0 };
+
+    /**
+     * `true` if the transaction is delegated.
+     */
+    private _isDelegated = false;
+
+    /**
+     * Sets the chain tag, the last byte of the genesis block ID of the network.
+     *
+     * @param chainTag - The chain tag, e.g. `networkInfo.mainnet.chainTag`.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public chainTag(chainTag: number): this {
+        this._assert(
+            Number.isInteger(chainTag) && chainTag >= 0 && chainTag <= 0xff,
+            'chainTag',
+            'Chain tag must be an integer between 0 and 255.',
+            chainTag
+        );
+        this._body.chainTag = chainTag;
+        return this;
+    }
+
+    /**
+     * Sets the block reference, the first 8 bytes of the ID of the block the expiration counts from.
+     *
+     * @param blockRef - The block reference, or the ID of the referenced block.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public blockRef(blockRef: string | HexUInt): this {
+        let ref: string | undefined;
+        try {
+            ref = BlockRef.of(
+                typeof blockRef === 'string' && ThorId.isValid0x(blockRef)
+                    ? ThorId.of(blockRef)
+                    : blockRef
+            ).toString();
+        } catch {
+            ref = undefined;
+        }
+        this._assert(
+            ref !== undefined,
+            'blockRef',
+            'Block reference must be 8 bytes or a block ID.',
+            blockRef
+        );
+        this._body.blockRef = ref;
+        return this;
+    }
+
+    /**
+     * Sets the number of blocks after the block reference the transaction expires in.
+     *
+     * @param expiration - The number of blocks.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public expiration(expiration: number): this {
+        this._assert(
+            Number.isInteger(expiration) &&
+                expiration > 0 &&
+                expiration <= 0xffffffff,
+            'expiration',
+            'Expiration must be a positive 32 bits integer.',
+            expiration
+        );
+        this._body.expiration = expiration;
+        return this;
+    }
+
+    /**
+     * Sets the coefficient applied to the base gas price.
+     *
+     * @param gasPriceCoef - The coefficient in the range [0, 255].
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public gasPriceCoef(gasPriceCoef: number): this {
+        this._assert(
+            Number.isInteger(gasPriceCoef) &&
+                gasPriceCoef >= 0 &&
+                gasPriceCoef <= 0xff,
+            'gasPriceCoef',
+            'Gas price coefficient must be an integer between 0 and 255.',
+            gasPriceCoef
+        );
+        this._fee = { gasPriceCoef };
+        return this;
+    }
+
+    /**
+     * Prices the transaction as a dynamic-fee transaction (type `0x51`) instead of
+     * with the gas price coefficient, the last of this method and {@link gasPriceCoef} called wins.
+     *
+     * @param maxFeePerGas - The maximum fee per gas in wei, base fee and priority fee included.
+     * @param maxPriorityFeePerGas - The maximum priority fee per gas in wei paid to the block proposer,
+     * not greater than `maxFeePerGas`.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public dynamicFee(
+        maxFeePerGas: bigint | number | string,
+        maxPriorityFeePerGas: bigint | number | string = 0
+    ): this {
+        const feeOf = (fee: bigint | number | string): bigint | undefined => {
+            try {
+                const value = BigInt(fee);
+                return value >= 0n ? value : undefined;
+            } catch {
+                return undefined;
+            }
+        };
+        const maxFee = feeOf(maxFeePerGas);
+        const maxPriorityFee = feeOf(maxPriorityFeePerGas);
+        this._assert(
+            maxFee !== undefined,
+            'maxFeePerGas',
+            'Max fee per gas must be a positive integer.',
+            String(maxFeePerGas) // Needed to serialize bigint values.
+        );
+        this._assert(
+            maxPriorityFee !== undefined && maxPriorityFee <= maxFee,
+            'maxPriorityFeePerGas',
+            'Max priority fee per gas must be a positive integer not greater than the max fee per gas.',
+            String(maxPriorityFeePerGas) // Needed to serialize bigint values.
+        );
+        this._fee = {
+            maxFeePerGas: Hex.of(maxFee).toString(),
+            maxPriorityFeePerGas: Hex.of(maxPriorityFee).toString()
+        };
+        return this;
+    }
+
+    /**
+     * Sets the maximum gas the transaction can use, it must not be less than the intrinsic gas of the clauses.
+     *
+     * @param gas - The maximum gas.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public gas(gas: number): this {
+        this._assert(
+            Number.isSafeInteger(gas) && gas > 0,
+            'gas',
+            'Gas must be a positive integer.',
+            gas
+        );
+        this._body.gas = gas;
+        return this;
+    }
+
+    /**
+     * Sets the ID of the transaction this transaction depends on.
+     *
+     * @param dependsOn - The transaction ID, `null` if the transaction depends on none.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public dependsOn(dependsOn: string | null): this {
+        this._assert(
+            dependsOn === null || ThorId.isValid0x(dependsOn),
+            'dependsOn',
+            'Depends on must be a 0x prefixed 32 bytes transaction ID or null.',
+            dependsOn
+        );
+        this._body.dependsOn = dependsOn;
+        return this;
+    }
+
+    /**
+     * Sets the nonce making the transaction unique.
+     *
+     * @param nonce - The nonce, a positive integer or a 0x prefixed hexadecimal expression up to 8 bytes.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public nonce(nonce: number | string): this {
+        this._assert(
+            typeof nonce === 'number'
+                ? Number.isSafeInteger(nonce) && nonce >= 0
+                : TransactionBuilder.REGEX_NONCE.test(nonce),
+            'nonce',
+            'Nonce must be a positive integer or a 0x prefixed hexadecimal expression up to 8 bytes.',
+            nonce
+        );
+        this._body.nonce = nonce;
+        return this;
+    }
+
+    /**
+     * Appends clauses, e.g. built with {@link clauseBuilder}.
+     *
+     * Only the `to`, `value` and `data` properties of the clauses are part of the transaction.
+     *
+     * @param clauses - The clauses to append.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     */
+    public clause(...clauses: TransactionClause[]): this {
+        clauses.forEach((clause) => {
+            this._assert(
+                clause.to === null || Address.isValid(clause.to),
+                'clauses',
+                "Clause 'to' must be an address or null, names can't be resolved offline.",
+                clause
+            );
+            this._assert(
+                (typeof clause.value === 'number' &&
+                    Number.isSafeInteger(clause.value) &&
+                    clause.value >= 0) ||
+                    (typeof clause.value === 'string' &&
+                        TransactionBuilder.REGEX_VALUE.test(clause.value)),
+                'clauses',
+                "Clause 'value' must be a positive integer, as number, decimal or 0x prefixed hexadecimal string.",
+                clause
+            );
+            this._assert(
+                TransactionBuilder.REGEX_DATA.test(clause.data),
+                'clauses',
+                "Clause 'data' must be a 0x prefixed hexadecimal expression of whole bytes.",
+                clause
+            );
+            this._body.clauses.push({
+                to: clause.to,
+                value: clause.value,
+                data: clause.data
+            });
+        });
+        return this;
+    }
+
+    /**
+     * Appends a clause calling a contract function.
+     *
+     * @param contractAddress - The address of the contract.
+     * @param functionFragment - The fragment of the function to call.
+     * @param args - The arguments of the function.
+     * @param value - The amount of wei to send with the call.
+     * @returns This builder.
+     * @throws {InvalidTransactionField, InvalidAbiDataToEncodeOrDecode}
+     *
+     * @see clauseBuilder.functionInteraction
+     */
+    public functionInteraction(
+        contractAddress: string,
+        functionFragment: FunctionFragment,
+        args: unknown[],
+        value: number = 0
+    ): this {
+        return this.clause(
+            clauseBuilder.functionInteraction(
+                contractAddress,
+                functionFragment,
+                args,
+                value
+            )
+        );
+    }
+
+    /**
+     * Appends a clause deploying a contract.
+     *
+     * @param contractBytecode - The bytecode of the contract, 0x prefixed or not.
+     * @param deployParams - The parameters of the constructor.
+     * @returns This builder.
+     * @throws {InvalidTransactionField}
+     *
+     * @see clauseBuilder.deployContract
+     */
+    public deployContract(
+        contractBytecode: string,
+        deployParams?: DeployParams
+    ): this {
+        return this.clause(
+            clauseBuilder.deployContract(
+                contractBytecode.startsWith('0x')
+                    ? contractBytecode
+                    : `0x${contractBytecode}`,
+                deployParams
+            )
+        );
+    }
+
+    /**
+     * Marks the transaction as delegated according
+     * [VIP-191](https://github.com/vechain/VIPs/blob/master/vips/VIP-191.md),
+     * it must be signed with {@link TransactionHandler.signWithDelegator}.
+     *
+     * @param isDelegated - `true` to delegate the transaction fee.
+     * @returns This builder.
+     */
+    public delegated(isDelegated: boolean = true): this {
+        this._isDelegated = isDelegated;
+        return this;
+    }
+
+    /**
+     * Builds the transaction body.
+     *
+     * @returns The transaction body.
+     * @throws {InvalidTransactionField} If the chain tag or the block reference are not set,
+     * if the gas is not set and a clause has data or deploys a contract,
+     * or if the gas is less than the intrinsic gas of the clauses.
+     */
+    public buildBody(): TransactionBody {
+        this._assert(
+            this._body.chainTag !== undefined,
+            'chainTag',
+            'Chain tag is not set.',
+            undefined
+        );
+        this._assert(
+            this._body.blockRef !== undefined,
+            'blockRef',
+            'Block reference is not set.',
+            undefined
+        );
+        const clauses = [...this._body.clauses];
+        this._assert(
+            this._body.gas !== undefined ||
+                clauses.every(
+                    (clause) => clause.to !== null && clause.data === '0x'
+                ),
+            'gas',
+            'Gas is not set, it is required if a clause has data or deploys a contract because the intrinsic gas does not pay for the execution.',
+            undefined
+        );
+        // The intrinsic gas is only the lower bound of the gas set for contract clauses.
+        const intrinsicGas = TransactionUtils.intrinsicGas(clauses);
+        const gas = this._body.gas ?? intrinsicGas;
+        this._assert(
+            Number(gas) >= intrinsicGas,
+            'gas',
+            `Gas must not be less than the intrinsic gas ${intrinsicGas} of the clauses.`,
+            gas
+        );
+        const body: TransactionBody = {
+            chainTag: this._body.chainTag,
+            blockRef: this._body.blockRef,
+            expiration: this._body.expiration,
+            clauses,
+            ...this._fee,
+            gas,
+            dependsOn: this._body.dependsOn,
+            nonce:
+                this._body.nonce ??
+                Hex.random(TransactionBuilder.NONCE_BYTES).toString()
+        };
+        if (this._isDelegated) {
+            body.reserved = { features: 1 };
+        }
+        return body;
+    }
+
+    /**
+     * Builds the unsigned transaction.
+     *
+     * @returns The unsigned transaction.
+     * @throws {InvalidTransactionField}
+     *
+     * @see buildBody
+     */
+    public build(): Transaction {
+        return new Transaction(this.buildBody());
+    }
+
+    /**
+     * Throws {@link InvalidTransactionField} for `fieldName` if `condition` is false.
+     * @private
+     *
+     * @param condition - The condition to assert.
+     * @param fieldName - The name of the field.
+     * @param message - The description of the error.
+     * @param value - The invalid value.
+     * @throws {InvalidTransactionField}
+     */
+    private _assert(
+        condition: boolean,
+        fieldName: string,
+        message: string,
+        value: unknown
+    ): asserts condition {
+        if (!condition) {
+            throw new InvalidTransactionField('TransactionBuilder', message, {
+                fieldName,
+                value
+            });
+        }
+    }
+}
+
+export { TransactionBuilder };
@@ -0,0 +1,300 @@
+import { type AbiFunction } from 'abitype';
+import { type AbiItem } from '../abi';
+import { codec } from '../abi/codec';
+import { itemsOf } from '../abi/helpers/interface';
+import { render } from '../abi/helpers/values';
+import { signature } from '../abi/signature';
+import { unitsUtils } from '../utils';
+import { VTHO_ADDRESS } from '../utils/const/network';
+import { Address } from '../vcdm';
+import { Transaction } from './transaction';
+import {
+    type ClauseExplanation,
+    type ExtendedTransactionClause,
+    type TransactionBody,
+    type TransactionClause,
+    type TransactionExplainerOptions,
+    type TransactionExplanation
+} from './types';
+
+/**
+ * The decoded call of a contract function.
+ */
+interface DecodedCall {
+    fragment: AbiFunction;
+    args: Record<string, unknown>;
+}
+
+/**
+ * A well-known function, decoded without a user-supplied ABI.
+ */
+interface WellKnownFunction {
+    /**
+     * The human-readable fragment of the function.
+     */
+    fragment: string;
+
+    /**
+     * Renders the sentence describing the call of the function on the `token` contract.
+     */
+    render: (token: string, args: Record<string, unknown>) => string;
+}
+
+/**
+ * The well-known functions of the ERC-20, ERC-721, ERC-1155 and VTHO `Energy` contracts.
+ *
+ * @remarks ERC-20 and ERC-721 `approve` and `transferFrom` share the same selector,
+ * hence their sentences don't tell amounts from token IDs.
+ * ERC-721 and ERC-1155 share `setApprovalForAll`.
+ */
+const WELL_KNOWN_FUNCTIONS: WellKnownFunction[] = [
+    {
+        fragment: 'function transfer(address to, uint256 value)',
+        render: (token, { to, value }) =>
+            `Transfer ${amountOf(token, value)} to ${String(to)}`
+    },
+    {
+        fragment: 'function approve(address spender, uint256 value)',
+        render: (token, { spender, value }) =>
+            `Approve ${String(spender)} to spend ${amountOf(token, value)}`
+    },
+    {
+        fragment:
+            'function transferFrom(address from, address to, uint256 value)',
+        render: (token, { from, to, value }) =>
+            `Transfer ${amountOf(token, value)} from ${String(from)} to ${String(to)}`
+    },
+    {
+        fragment:
+            'function safeTransferFrom(address from, address to, uint256 tokenId)',
+        render: (token, { from, to, tokenId }) =>
+            `Transfer token ID ${String(tokenId)} of ${token} from ${String(from)} to ${String(to)}`
+    },
+    {
+        fragment:
+            'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+        render: (token, { from, to, tokenId }) =>
+            `Transfer token ID ${String(tokenId)} of ${token} from ${String(from)} to ${String(to)}`
+    },
+    {
+        fragment:
+            'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)',
+        render: (token, { from, to, id, value }) =>
+            `Transfer ${String(value)} of token ID ${String(id)} of ${token} from ${String(from)} to ${String(to)}`
+    },
+    {
+        fragment:
+            'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)',
+        render: (token, { from, to, ids, values }) =>
+            `Transfer ${(ids as unknown[])
+                .map(
+                    (id, index) =>
+                        `${String((values as unknown[])[index])} of token ID ${String(id)}`
+                )
+                .join(', ')} of ${token} from ${String(from)} to ${String(to)}`
+    },
+    {
+        fragment: 'function setApprovalForAll(address operator, bool approved)',
+        render: (token, { operator, approved }) =>
+            approved === true
+                ? `Approve ${String(operator)} to manage all tokens of ${token}`
+                : `Revoke the approval of ${String(operator)} to manage all tokens of ${token}`
+    },
+    {
+        fragment: 'function move(address from, address to, uint256 value)',
+        render: (token, { from, to, value }) =>
+            `Move ${amountOf(token, value)} from ${String(from)} to ${String(to)}`
+    }
+];
+
+/**
+ * The JSON ABIs of the {@link WELL_KNOWN_FUNCTIONS}, in the same order.
+ */
+const WELL_KNOWN_ITEMS = WELL_KNOWN_FUNCTIONS.map(({ fragment }) =>
+    signature.parseSignature(fragment)
+);
+
+/**
+ * Returns the description of `value` units of the `token` contract,
+ * VTHO amounts are expressed with their 18 decimals.
+ *
+ * @param token - The checksum address of the token contract.
+ * @param value - The decoded amount.
+ * @returns The description of the amount.
+ */
+function amountOf(token: string, value: unknown): string {
+    return token.toLowerCase() === VTHO_ADDRESS
+        ? `${unitsUtils.formatVET(value as bigint)} VTHO`
+        : `${String(value)} of token ${token}`;
+}
+
+/**
+ * Decodes `data` against the function of `items` having the selector of `data`.
+ *
+ * @param items - The ABI items to decode against.
+ * @param data - The call data.
+ * @returns The decoded call, or `undefined` if no function matches the selector or the arguments.
+ */
+function decodeCall(items: AbiItem[], data: string): DecodedCall | undefined {
+    const selector = data.slice(0, 10).toLowerCase();
+    const fragment = items.find(
+        (item): item is AbiFunction =>
+            item.type === 'function' &&
+            signature.signatureHash(item) === selector
+    );
+    if (fragment === undefined) {
+        return undefined;
+    }
+    try {
+        const values = codec.decodeParameters(
+            fragment.inputs,
+            '0x' + data.slice(10)
+        ) as unknown[];
+        const args: Record<string, unknown> = {};
+        fragment.inputs.forEach((input, index) => {
+            args[
+                input.name !== undefined && input.name !== ''
+                    ? input.name
+                    : String(index)
+            ] = values[index];
+        });
+        return { fragment, args };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Describes what `clause` does.
+ *
+ * Calls are decoded against, in order,
+ * 1. the `abi` of the clause, if it is an {@link ExtendedTransactionClause};
+ * 2. the {@link TransactionExplainerOptions.abis};
+ * 3. the well-known ERC-20, ERC-721, ERC-1155 and VTHO `Energy` functions.
+ *
+ * @param clause - The clause to describe.
+ * @param options - The ABIs to decode the calls against.
+ * @returns The description of the clause.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+ *
+ * @example
+ * ```typescript
+ * transactionExplainer.explainClause(
+ *     clauseBuilder.transferVET('0x7567d83b7b8d80addcb281a71d54fc7b3364ffed', 10n ** 18n)
+ * ).sentence; // Transfer 1.0 VET to 0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed
+ * ```
+ */
+function explainClause(
+    clause: TransactionClause | ExtendedTransactionClause,
+    options: TransactionExplainerOptions = {}
+): ClauseExplanation {
+    // A VNS name, e.g. `vtho.vet`, is not resolved and kept as it is.
+    const to =
+        clause.to === null || !Address.isValid(clause.to)
+            ? clause.to
+            : Address.of(clause.to).toString();
+    const value = BigInt(clause.value);
+    const comment = 'comment' in clause ? clause.comment : undefined;
+    const sending =
+        value > 0n ? ` sending ${unitsUtils.formatVET(value)} VET` : '';
+    if (to === null) {
+        return {
+            kind: 'deploy',
+            to,
+            value,
+            comment,
+            sentence: `Deploy a contract${sending}`
+        };
+    }
+    if (clause.data.length < 10) {
+        return {
+            kind: 'transfer',
+            to,
+            value,
+            comment,
+            sentence: `Transfer ${unitsUtils.formatVET(value)} VET to ${to}`
+        };
+    }
+    const selector = clause.data.slice(0, 10).toLowerCase();
+    const abis = [
+        ...('abi' in clause && clause.abi !== undefined ? [clause.abi] : []),
+        ...(options.abis ?? [])
+    ];
+    for (const abi of abis) {
+        const call = decodeCall(
+            itemsOf(abi, 'transactionExplainer.explainClause()'),
+            clause.data
+        );
+        if (call !== undefined) {
+            const args = Object.entries(call.args)
+                .map(([name, arg]) => `${name}: ${render(arg)}`)
+                .join(', ');
+            return {
+                kind: 'call',
+                to,
+                value,
+                comment,
+                selector,
+                functionName: call.fragment.name,
+                signature: signature.formatSignature(call.fragment),
+                args: call.args,
+                sentence: `Call ${call.fragment.name}(${args}) on ${to}${sending}`
+            };
+        }
+    }
+    const call = decodeCall(WELL_KNOWN_ITEMS, clause.data);
+    if (call !== undefined) {
+        const wellKnown =
+            WELL_KNOWN_FUNCTIONS[WELL_KNOWN_ITEMS.indexOf(call.fragment)];
+        return {
+            kind: 'call',
+            to,
+            value,
+            comment,
+            selector,
+            functionName: call.fragment.name,
+            signature: signature.formatSignature(call.fragment),
+            args: call.args,
+            sentence: `${wellKnown.render(to, call.args)}${sending}`
+        };
+    }
+    return {
+        kind: 'call',
+        to,
+        value,
+        comment,
+        selector,
+        sentence: `Call function ${selector} on ${to}${sending}`
+    };
+}
+
+/**
+ * Describes what `transaction` does, clause by clause, see {@link explainClause}.
+ *
+ * @param transaction - The transaction or its body.
+ * @param options - The ABIs to decode the calls against.
+ * @returns The description of the transaction.
+ * @throws {InvalidAbiDataToEncodeOrDecode} If an ABI is malformed.
+ */
+function explain(
+    transaction: Transaction | TransactionBody,
+    options: TransactionExplainerOptions = {}
+): TransactionExplanation {
+    const body =
+        transaction instanceof Transaction ? transaction.body : transaction;
+    const clauses = body.clauses.map((clause) =>
+        explainClause(clause, options)
+    );
+    return {
+        clauses,
+        sentence: clauses.map(({ sentence }) => sentence).join('; ')
+    };
+}
+
+/**
+ * Describes transactions and clauses in human-readable form, for wallets and review screens.
+ */
+export const transactionExplainer = {
+    explain,
+    explainClause
+};
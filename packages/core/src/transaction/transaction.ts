@@ -10,13 +10,20 @@ import { secp256k1 } from '../secp256k1';
 import {
     BLOCK_REF_LENGTH,
     SIGNATURE_LENGTH,
+    SIGNED_DYNAMIC_FEE_TRANSACTION_RLP,
     SIGNED_TRANSACTION_RLP,
     TRANSACTION_FEATURES_KIND,
+    TransactionType,
     TransactionUtils,
+    UNSIGNED_DYNAMIC_FEE_TRANSACTION_RLP,
     UNSIGNED_TRANSACTION_RLP
 } from '../utils';
 import { Address, Hex } from '../vcdm';
-import { type TransactionBody } from './types';
+import {
+    type TransactionBody,
+    type TransactionBodyJSON,
+    type TransactionJSON
+} from './types';
 
 /**
  * Represents an immutable transaction entity.
@@ -82,7 +89,17 @@ class Transaction {
      * @returns Intrinsic gas required for this transaction
      */
     public get intrinsicGas(): number {
-        return TransactionUtils.intrinsicGas(this.body.clauses);
+        return TransactionUtils.intrinsicGas(this.body);
+    }
+
+    /**
+     * Get the type of the transaction, derived from the fee fields of the body.
+     *
+     * @returns {@link TransactionType.DynamicFee} if the body has the `maxFeePerGas`
+     * and `maxPriorityFeePerGas` fields, else {@link TransactionType.Legacy}.
+     */
+    public get type(): TransactionType {
+        return Transaction.typeOf(this.body);
     }
 
     /**
@@ -223,7 +240,7 @@ class Transaction {
     /**
      * Encode a transaction
      *
-     * @returns The transaction encoded
+     * @returns The transaction encoded, prefixed with the type byte if the transaction is a dynamic-fee one
      */
     public get encoded(): Buffer {
         return this._encode(this.isSigned);
@@ -282,6 +299,51 @@ class Transaction {
         ).toString();
     }
 
+    /**
+     * Return the JSON representation of this transaction, see {@link TransactionJSON}.
+     *
+     * The method is called by `JSON.stringify`, the transaction is restored with {@link Transaction.fromJSON}.
+     *
+     * @returns The JSON representation of this transaction.
+     */
+    public toJSON(): TransactionJSON {
+        const { reserved, ...body } = this.body;
+        const json: TransactionJSON = {
+            body:
+                reserved === undefined
+                    ? body
+                    : {
+                          ...body,
+                          reserved: {
+                              ...reserved,
+                              unused: reserved.unused?.map((unused) =>
+                                  Hex.of(unused).toString()
+                              )
+                          }
+                      },
+            isDelegated: this.isDelegated
+        };
+        if (json.body.reserved?.unused === undefined) {
+            delete json.body.reserved?.unused;
+        }
+        if (this.signature !== undefined) {
+            json.signature = {
+                origin: Hex.of(
+                    this.signature.subarray(0, SIGNATURE_LENGTH)
+                ).toString()
+            };
+            json.id = this.id;
+            json.origin = this.origin;
+            if (this.isDelegated) {
+                json.signature.delegator = Hex.of(
+                    this.signature.subarray(SIGNATURE_LENGTH)
+                ).toString();
+                json.delegator = this.delegator;
+            }
+        }
+        return json;
+    }
+
     // ********** INTERNAL PRIVATE FUNCTIONS **********
 
     /**
@@ -362,12 +424,25 @@ class Transaction {
      *
      * @param body Body to encode
      * @param isSigned If transaction is signed or not
-     * @returns RLP encoding of transaction body
+     * @returns RLP encoding of transaction body, prefixed with the type byte for dynamic-fee transactions
      */
     private _lowLevelEncodeTransactionBodyWithRLP(
         body: RLPValidObject,
         isSigned: boolean
     ): Buffer {
+        // Encode dynamic-fee transaction object, the type byte comes first
+        if (this.type === TransactionType.DynamicFee) {
+            return Buffer.concat([
+                Buffer.from([TransactionType.DynamicFee]),
+                isSigned
+                    ? SIGNED_DYNAMIC_FEE_TRANSACTION_RLP.encodeObject({
+                          ...body,
+                          signature: this.signature
+                      })
+                    : UNSIGNED_DYNAMIC_FEE_TRANSACTION_RLP.encodeObject(body)
+            ]);
+        }
+
         // Encode transaction object - SIGNED
         if (isSigned) {
             return SIGNED_TRANSACTION_RLP.encodeObject({
@@ -412,9 +487,147 @@ class Transaction {
         );
     }
 
+    /**
+     * Creates a transaction from its JSON representation, see {@link TransactionJSON}.
+     *
+     * The body is checked with {@link Transaction.isValidBody}, the derived fields
+     * `isDelegated`, `id`, `origin` and `delegator` are optional, if present they must
+     * match the ones derived from the body and the signature.
+     *
+     * @param json - JSON representation of the transaction, as returned by {@link Transaction.toJSON}.
+     * @returns The transaction.
+     * @throws {InvalidTransactionField, InvalidSecp256k1Signature}
+     */
+    public static fromJSON(json: TransactionJSON): Transaction {
+        const fail = (fieldName: string, message: string): never => {
+            throw new InvalidTransactionField(
+                'Transaction.fromJSON()',
+                message,
+                {
+                    fieldName,
+                    json
+                }
+            );
+        };
+        const body =
+            Transaction._bodyOfJSON(json.body) ??
+            fail(
+                'body',
+                'Invalid transaction body. Ensure all required fields are correctly formatted and present.'
+            );
+        let signature: Buffer | undefined;
+        if (json.signature !== undefined) {
+            if (
+                json.signature.delegator !== undefined &&
+                json.signature.origin === undefined
+            ) {
+                fail(
+                    'signature',
+                    'Invalid transaction signature. The delegator signature requires the origin signature.'
+                );
+            }
+            const parts = [
+                json.signature.origin,
+                json.signature.delegator
+            ].filter((part) => part !== undefined);
+            if (
+                !parts.every(
+                    (part) => typeof part === 'string' && Hex.isValid0x(part)
+                )
+            ) {
+                fail(
+                    'signature',
+                    'Invalid transaction signature. Ensure origin and delegator signatures are hexadecimal expressions.'
+                );
+            }
+            signature = Buffer.concat(parts.map((part) => Hex.of(part).bytes));
+        }
+        const transaction = new Transaction(body, signature);
+        if (
+            json.signature?.delegator !== undefined &&
+            !transaction.isDelegated
+        ) {
+            fail(
+                'signature',
+                'Invalid transaction signature. A transaction not delegated has no delegator signature.'
+            );
+        }
+        if (
+            json.isDelegated !== undefined &&
+            json.isDelegated !== transaction.isDelegated
+        ) {
+            fail(
+                'isDelegated',
+                'Invalid delegation flag. It does not match the features of the body.'
+            );
+        }
+        // Derived fields not available, e.g. the delegator of a not delegated transaction, are undefined.
+        const derived = transaction.toJSON();
+        (['id', 'origin', 'delegator'] as const).forEach((fieldName) => {
+            const value: unknown = json[fieldName];
+            if (
+                value !== undefined &&
+                (typeof value !== 'string' ||
+                    value.toLowerCase() !== derived[fieldName]?.toLowerCase())
+            ) {
+                fail(
+                    fieldName,
+                    `Invalid ${fieldName}. It does not match the one derived from the signature.`
+                );
+            }
+        });
+        return transaction;
+    }
+
+    /**
+     * Restores the transaction body from its JSON representation.
+     * @private
+     *
+     * @param json - JSON representation of the transaction body.
+     * @returns The transaction body, `undefined` if `json` is not a valid transaction body.
+     */
+    private static _bodyOfJSON(
+        json: TransactionBodyJSON | undefined
+    ): TransactionBody | undefined {
+        if (json === undefined || json === null || typeof json !== 'object') {
+            return undefined;
+        }
+        const { reserved, ...rest } = json;
+        const unused = reserved?.unused;
+        if (
+            unused !== undefined &&
+            !(
+                Array.isArray(unused) &&
+                unused.every((u) => typeof u === 'string' && Hex.isValid0x(u))
+            )
+        ) {
+            return undefined;
+        }
+        const body: TransactionBody =
+            reserved === undefined
+                ? rest
+                : {
+                      ...rest,
+                      reserved: {
+                          ...reserved,
+                          unused: unused?.map((u) =>
+                              Buffer.from(Hex.of(u).bytes)
+                          )
+                      }
+                  };
+        if (body.reserved?.unused === undefined) {
+            delete body.reserved?.unused;
+        }
+        return Transaction.isValidBody(body) ? body : undefined;
+    }
+
     /**
      * utility function to check transaction body validity.
      *
+     * Legacy bodies must have the `gasPriceCoef` field, dynamic-fee bodies must have
+     * the `maxFeePerGas` and `maxPriorityFeePerGas` fields instead,
+     * with `maxPriorityFeePerGas` not greater than `maxFeePerGas`.
+     *
      * @param body Transaction body to check
      */
     public static isValidBody(body: TransactionBody): boolean {
@@ -433,8 +646,8 @@ class Transaction {
             body.expiration !== undefined &&
             // Clauses
             body.clauses !== undefined &&
-            // Gas price coef
-            body.gasPriceCoef !== undefined &&
+            // Fee fields of the type of the transaction
+            Transaction._isValidFee(body) &&
             // Gas
             body.gas !== undefined &&
             // Depends on
@@ -443,6 +656,64 @@ class Transaction {
             body.nonce !== undefined
         );
     }
+
+    /**
+     * Returns the type of the transaction having `body`.
+     *
+     * @param body Transaction body, legacy or dynamic-fee
+     * @returns {@link TransactionType.DynamicFee} if any of the `maxFeePerGas` and `maxPriorityFeePerGas`
+     * fields is present, else {@link TransactionType.Legacy}
+     */
+    public static typeOf(body: TransactionBody): TransactionType {
+        return body.maxFeePerGas !== undefined ||
+            body.maxPriorityFeePerGas !== undefined
+            ? TransactionType.DynamicFee
+            : TransactionType.Legacy;
+    }
+
+    /**
+     * Internal function to check the fee fields of the body match its type.
+     * @private
+     *
+     * @param body Transaction body to check
+     * @returns Whether the fee fields are valid or not
+     */
+    private static _isValidFee(body: TransactionBody): boolean {
+        if (Transaction.typeOf(body) === TransactionType.Legacy) {
+            return body.gasPriceCoef !== undefined;
+        }
+        const maxFeePerGas = Transaction._feeOf(body.maxFeePerGas);
+        const maxPriorityFeePerGas = Transaction._feeOf(
+            body.maxPriorityFeePerGas
+        );
+        return (
+            body.gasPriceCoef === undefined &&
+            maxFeePerGas !== undefined &&
+            maxPriorityFeePerGas !== undefined &&
+            maxPriorityFeePerGas <= maxFeePerGas
+        );
+    }
+
+    /**
+     * Internal function to parse a fee per gas field.
+     * @private
+     *
+     * @param fee Fee per gas, as number, decimal or `0x` prefixed hexadecimal string
+     * @returns The fee per gas, `undefined` if missing or not a positive integer
+     */
+    private static _feeOf(
+        fee: string | number | undefined
+    ): bigint | undefined {
+        if (
+            (typeof fee === 'number' &&
+                Number.isSafeInteger(fee) &&
+                fee >= 0) ||
+            (typeof fee === 'string' && /^(\d+|0x[0-9a-f]+)$/i.test(fee))
+        ) {
+            return BigInt(fee);
+        }
+        return undefined;
+    }
 }
 
 export { Transaction };
@@ -1,3 +1,5 @@
+import { type InterfaceAbi } from '../abi';
+
 /**
  * Simple type for transaction clause.
  */
@@ -53,9 +55,9 @@ interface ClauseOptions {
 }
 
 /**
- * Type for transaction body.
+ * Fields shared by the legacy and the dynamic-fee transaction bodies, see {@link TransactionBody}.
  */
-interface TransactionBody {
+interface TransactionBodyFields {
     /**
      * Last byte of genesis block ID
      */
@@ -76,11 +78,6 @@ interface TransactionBody {
      */
     clauses: TransactionClause[];
 
-    /**
-     * Coefficient applied to base gas price [0,255]
-     */
-    gasPriceCoef: number;
-
     /**
      * Max gas provided for execution
      */
@@ -140,8 +137,327 @@ interface TransactionBody {
     };
 }
 
+/**
+ * Type for legacy transaction body, priced with the gas price coefficient.
+ */
+interface LegacyTransactionBody extends TransactionBodyFields {
+    /**
+     * Coefficient applied to base gas price [0,255]
+     */
+    gasPriceCoef: number;
+
+    /**
+     * Not part of legacy transactions, see {@link DynamicFeeTransactionBody}.
+     */
+    maxFeePerGas?: never;
+
+    /**
+     * Not part of legacy transactions, see {@link DynamicFeeTransactionBody}.
+     */
+    maxPriorityFeePerGas?: never;
+}
+
+/**
+ * Type for dynamic-fee transaction body (type `0x51`), priced with the maximum fees per gas.
+ */
+interface DynamicFeeTransactionBody extends TransactionBodyFields {
+    /**
+     * Not part of dynamic-fee transactions, see {@link LegacyTransactionBody}.
+     */
+    gasPriceCoef?: never;
+
+    /**
+     * Max fee per gas in wei, base fee and priority fee included
+     */
+    maxFeePerGas: string | number;
+
+    /**
+     * Max priority fee per gas in wei paid to the block proposer
+     */
+    maxPriorityFeePerGas: string | number;
+}
+
+/**
+ * Type for transaction body.
+ *
+ * The body is either
+ * * a {@link LegacyTransactionBody}, having the `gasPriceCoef` field, or
+ * * a {@link DynamicFeeTransactionBody} (type `0x51`), having the `maxFeePerGas`
+ *   and `maxPriorityFeePerGas` fields instead of `gasPriceCoef`,
+ *
+ * hence the fee fields present narrow the body, e.g. `body.gasPriceCoef !== undefined`.
+ */
+type TransactionBody = LegacyTransactionBody | DynamicFeeTransactionBody;
+
+/**
+ * The `reserved` field of {@link TransactionBodyJSON}, having the `unused` buffers
+ * expressed as `0x` prefixed hexadecimal strings.
+ */
+interface TransactionBodyReservedJSON {
+    /**
+     * Tx feature bits
+     */
+    features?: number;
+    /**
+     * Unused, expressed as `0x` prefixed hexadecimal strings.
+     */
+    unused?: string[];
+}
+
+/**
+ * JSON representation of a {@link TransactionBody}.
+ *
+ * It is the transaction body having the `reserved.unused` buffers expressed
+ * as `0x` prefixed hexadecimal strings, all the other fields are kept as they are.
+ */
+type TransactionBodyJSON =
+    | (Omit<LegacyTransactionBody, 'reserved'> & {
+          reserved?: TransactionBodyReservedJSON;
+      })
+    | (Omit<DynamicFeeTransactionBody, 'reserved'> & {
+          reserved?: TransactionBodyReservedJSON;
+      });
+
+/**
+ * JSON representation of a {@link Transaction}, as returned by `Transaction.toJSON`
+ * and accepted by `Transaction.fromJSON`.
+ *
+ * @example
+ * ```json
+ * {
+ *     "body": {
+ *         "chainTag": 39,
+ *         "blockRef": "0x00000000aabbccdd",
+ *         "expiration": 32,
+ *         "clauses": [{ "to": "0x7567d83b7b8d80addcb281a71d54fc7b3364ffed", "value": 10000, "data": "0x" }],
+ *         "gasPriceCoef": 128,
+ *         "gas": 21000,
+ *         "dependsOn": null,
+ *         "nonce": 12345678,
+ *         "reserved": { "features": 1 }
+ *     },
+ *     "isDelegated": true,
+ *     "signature": { "origin": "0x…65 bytes…", "delegator": "0x…65 bytes…" },
+ *     "id": "0x…",
+ *     "origin": "0x…",
+ *     "delegator": "0x…"
+ * }
+ * ```
+ */
+interface TransactionJSON {
+    /**
+     * The transaction body.
+     */
+    body: TransactionBodyJSON;
+
+    /**
+     * `true` if the transaction is delegated according [VIP-191](https://github.com/vechain/VIPs/blob/master/vips/VIP-191.md),
+     * always set by `Transaction.toJSON`, optional for `Transaction.fromJSON`,
+     * if present it must match the `reserved.features` of the body.
+     */
+    isDelegated?: boolean;
+
+    /**
+     * The signature of the transaction, missing if the transaction is not signed, split in
+     * * `origin`: the 65 bytes signature of the origin, `0x` prefixed hexadecimal;
+     * * `delegator`: the 65 bytes signature of the delegator, `0x` prefixed hexadecimal,
+     *   only for delegated transactions.
+     */
+    signature?: {
+        origin: string;
+        delegator?: string;
+    };
+
+    /**
+     * The ID of the transaction, derived from the signature, only for signed transactions.
+     */
+    id?: string;
+
+    /**
+     * The address of the origin, derived from the signature, only for signed transactions.
+     */
+    origin?: string;
+
+    /**
+     * The address of the delegator, derived from the signature, only for signed delegated transactions.
+     */
+    delegator?: string;
+}
+
+/**
+ * JSON representation of a {@link PartiallySignedTransaction}, as returned by
+ * `PartiallySignedTransaction.toJSON` and accepted by `PartiallySignedTransaction.fromJSON`.
+ *
+ * It is the envelope exchanged between the origin and the delegator of a
+ * [VIP-191](https://github.com/vechain/VIPs/blob/master/vips/VIP-191.md) transaction
+ * to collect their signatures in any order.
+ *
+ * @example
+ * ```json
+ * {
+ *     "body": { "chainTag": 39, "…": "…", "reserved": { "features": 1 } },
+ *     "origin": "0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed",
+ *     "signature": { "delegator": "0x…65 bytes…" },
+ *     "delegator": "0x…"
+ * }
+ * ```
+ */
+interface PartiallySignedTransactionJSON {
+    /**
+     * The body of the delegated transaction.
+     */
+    body: TransactionBodyJSON;
+
+    /**
+     * The address of the origin, the delegator signs for it before the origin signs.
+     */
+    origin: string;
+
+    /**
+     * The signatures collected so far, each the 65 bytes signature `0x` prefixed hexadecimal.
+     */
+    signature: {
+        origin?: string;
+        delegator?: string;
+    };
+
+    /**
+     * The address of the delegator, derived from its signature, only if the delegator signed.
+     */
+    delegator?: string;
+}
+
+/**
+ * The fields of a transaction receipt hashed in the `receiptsRoot` of a block.
+ *
+ * The transactions of an expanded block returned by the `/blocks` endpoint of Thor have these fields.
+ */
+interface TransactionReceiptBody {
+    /**
+     * The gas used by the transaction.
+     */
+    gasUsed: number;
+
+    /**
+     * The address paying the gas, the delegator of delegated transactions.
+     */
+    gasPayer: string;
+
+    /**
+     * The VTHO paid for the transaction in wei, `0x` prefixed hexadecimal.
+     */
+    paid: string;
+
+    /**
+     * The VTHO rewarded to the block proposer in wei, `0x` prefixed hexadecimal.
+     */
+    reward: string;
+
+    /**
+     * `true` if the transaction reverted.
+     */
+    reverted: boolean;
+
+    /**
+     * The events and transfers of each clause.
+     */
+    outputs: Array<{
+        events: Array<{ address: string; topics: string[]; data: string }>;
+        transfers: Array<{ sender: string; recipient: string; amount: string }>;
+    }>;
+}
+
+/**
+ * The description of what a clause does, see `transactionExplainer.explainClause`.
+ */
+interface ClauseExplanation {
+    /**
+     * What the clause does:
+     * * `transfer`: it transfers VET to an account without data;
+     * * `deploy`: it deploys a contract;
+     * * `call`: it calls a contract function.
+     */
+    kind: 'transfer' | 'deploy' | 'call';
+
+    /**
+     * The checksum address of the target account, `null` for deployments.
+     */
+    to: string | null;
+
+    /**
+     * The amount of VET sent, expressed in wei.
+     */
+    value: bigint;
+
+    /**
+     * The comment of the clause, if the clause is an {@link ExtendedTransactionClause}.
+     */
+    comment?: string;
+
+    /**
+     * The 4 bytes selector of the function called, `0x` prefixed hexadecimal, only for calls.
+     */
+    selector?: string;
+
+    /**
+     * The name of the function called, only for calls decoded against an ABI.
+     */
+    functionName?: string;
+
+    /**
+     * The signature of the function called, e.g. `transfer(address,uint256)`,
+     * only for calls decoded against an ABI.
+     */
+    signature?: string;
+
+    /**
+     * The arguments of the function called, by name or by position if the input is unnamed,
+     * only for calls decoded against an ABI.
+     */
+    args?: Record<string, unknown>;
+
+    /**
+     * The English sentence describing the clause, e.g. `Transfer 1.0 VET to 0x…`.
+     */
+    sentence: string;
+}
+
+/**
+ * The description of what a transaction does, see `transactionExplainer.explain`.
+ */
+interface TransactionExplanation {
+    /**
+     * The description of each clause, in the order of the transaction.
+     */
+    clauses: ClauseExplanation[];
+
+    /**
+     * The sentences of the clauses, joined.
+     */
+    sentence: string;
+}
+
+/**
+ * Options of the `transactionExplainer`.
+ */
+interface TransactionExplainerOptions {
+    /**
+     * The ABIs to decode the calls against, before the well-known ones.
+     */
+    abis?: InterfaceAbi[];
+}
+
 export type {
+    ClauseExplanation,
+    TransactionExplanation,
+    TransactionExplainerOptions,
+    DynamicFeeTransactionBody,
+    LegacyTransactionBody,
     TransactionBody,
+    TransactionBodyJSON,
+    TransactionJSON,
+    PartiallySignedTransactionJSON,
+    TransactionReceiptBody,
     TransactionClause,
     ExtendedTransactionClause,
     ClauseOptions
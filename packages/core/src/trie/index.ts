@@ -0,0 +1,2 @@
+export * from './merkle-patricia-trie';
+export * from './types.d';
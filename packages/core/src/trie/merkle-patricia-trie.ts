@@ -0,0 +1,487 @@
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { Blake2b256 } from '../hash';
+import { RLP_CODER, type RLPInput, type RLPOutput } from '../encoding';
+import { Transaction, type TransactionReceiptBody } from '../transaction';
+import { TRANSACTION_RECEIPT_RLP } from '../utils';
+import { Hex } from '../vcdm';
+import { type TrieProof } from './types';
+
+/**
+ * A leaf node, holding the value of the key ending with `path`.
+ */
+interface LeafNode {
+    type: 'leaf';
+    path: number[];
+    value: Uint8Array;
+}
+
+/**
+ * An extension node, sharing `path` among the keys of its child.
+ */
+interface ExtensionNode {
+    type: 'extension';
+    path: number[];
+    child: TrieNode;
+}
+
+/**
+ * A branch node, having a child for each nibble and the value of the key ending here.
+ */
+interface BranchNode {
+    type: 'branch';
+    children: Array<TrieNode | null>;
+    value: Uint8Array | null;
+}
+
+/**
+ * A node of the trie.
+ */
+type TrieNode = LeafNode | ExtensionNode | BranchNode;
+
+/**
+ * The number of children of a branch node, one per nibble.
+ */
+const BRANCH_WIDTH = 16;
+
+/**
+ * The encodings shorter than the hash length are embedded in their parent node.
+ */
+const HASH_LENGTH = 32;
+
+/**
+ * Returns the nibbles of `bytes`, the most significant first.
+ *
+ * @param bytes - The bytes to split.
+ * @returns The nibbles.
+ */
+function nibblesOf(bytes: Uint8Array): number[] {
+    return Array.from(bytes).flatMap((byte) => [byte >> 4, byte & 0x0f]);
+}
+
+/**
+ * Returns the length of the common prefix of `a` and `b`.
+ *
+ * @param a - The first list of nibbles.
+ * @param b - The second list of nibbles.
+ * @returns The number of leading nibbles in common.
+ */
+function commonPrefixLength(a: number[], b: number[]): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) {
+        length++;
+    }
+    return length;
+}
+
+/**
+ * Encodes the path of a leaf or extension node with the hex-prefix encoding:
+ * the first nibble flags the node kind and the parity of the path.
+ *
+ * @param path - The nibbles of the path.
+ * @param isLeaf - `true` for leaf nodes.
+ * @returns The encoded path.
+ */
+function hexPrefixOf(path: number[], isLeaf: boolean): Uint8Array {
+    const flag = (isLeaf ? 2 : 0) + (path.length % 2);
+    const nibbles =
+        path.length % 2 === 1 ? [flag, ...path] : [flag, 0, ...path];
+    const bytes = new Uint8Array(nibbles.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = (nibbles[2 * i] << 4) | nibbles[2 * i + 1];
+    }
+    return bytes;
+}
+
+/**
+ * Decodes a hex-prefix encoded path, see {@link hexPrefixOf}.
+ *
+ * @param bytes - The encoded path.
+ * @returns The nibbles of the path and `true` for leaf nodes.
+ */
+function pathOfHexPrefix(bytes: Uint8Array): {
+    path: number[];
+    isLeaf: boolean;
+} {
+    const nibbles = nibblesOf(bytes);
+    const flag = nibbles[0];
+    return {
+        path: nibbles.slice(flag % 2 === 1 ? 1 : 2),
+        isLeaf: flag >= 2
+    };
+}
+
+/**
+ * Returns the RLP structure of `node`, its children referenced by {@link referenceOf}.
+ *
+ * @param node - The node.
+ * @returns The structure to RLP encode.
+ */
+function structureOf(node: TrieNode): RLPInput {
+    switch (node.type) {
+        case 'leaf':
+            return [hexPrefixOf(node.path, true), node.value];
+        case 'extension':
+            return [hexPrefixOf(node.path, false), referenceOf(node.child)];
+        case 'branch':
+            return [
+                ...node.children.map((child) =>
+                    child === null ? new Uint8Array() : referenceOf(child)
+                ),
+                node.value ?? new Uint8Array()
+            ];
+    }
+}
+
+/**
+ * Returns the reference of `node` in its parent: the node itself if its encoding
+ * is shorter than 32 bytes, else the hash of the encoding.
+ *
+ * @param node - The child node.
+ * @returns The reference.
+ */
+function referenceOf(node: TrieNode): RLPInput {
+    const structure = structureOf(node);
+    const encoded = RLP_CODER.encode(structure);
+    return encoded.length < HASH_LENGTH
+        ? structure
+        : Blake2b256.of(encoded).bytes;
+}
+
+/**
+ * Inserts `value` at `path` under `node`.
+ *
+ * @param node - The node to insert under, `null` if empty.
+ * @param path - The remaining nibbles of the key.
+ * @param value - The value.
+ * @returns The node replacing `node`.
+ */
+function insert(
+    node: TrieNode | null,
+    path: number[],
+    value: Uint8Array
+): TrieNode {
+    if (node === null) {
+        return { type: 'leaf', path, value };
+    }
+    if (node.type === 'branch') {
+        if (path.length === 0) {
+            return { ...node, value };
+        }
+        const children = [...node.children];
+        children[path[0]] = insert(children[path[0]], path.slice(1), value);
+        return { ...node, children };
+    }
+    const common = commonPrefixLength(node.path, path);
+    if (
+        node.type === 'leaf' &&
+        common === node.path.length &&
+        common === path.length
+    ) {
+        return { ...node, value };
+    }
+    if (node.type === 'extension' && common === node.path.length) {
+        return {
+            ...node,
+            child: insert(node.child, path.slice(common), value)
+        };
+    }
+    // The paths diverge: split at the first different nibble.
+    let branch: BranchNode = {
+        type: 'branch',
+        children: new Array<TrieNode | null>(BRANCH_WIDTH).fill(null),
+        value: null
+    };
+    const rest = node.path.slice(common + 1);
+    if (node.type === 'leaf') {
+        if (common === node.path.length) {
+            branch.value = node.value;
+        } else {
+            branch.children[node.path[common]] = {
+                type: 'leaf',
+                path: rest,
+                value: node.value
+            };
+        }
+    } else {
+        branch.children[node.path[common]] =
+            rest.length === 0
+                ? node.child
+                : { type: 'extension', path: rest, child: node.child };
+    }
+    branch = insert(branch, path.slice(common), value) as BranchNode;
+    return common === 0
+        ? branch
+        : { type: 'extension', path: path.slice(0, common), child: branch };
+}
+
+/**
+ * Represents a Merkle Patricia trie hashing its nodes with BLAKE2b-256, as Thor does
+ * to compute the `txsRoot` and `receiptsRoot` of the blocks.
+ *
+ * The trie proves the inclusion of a value with the list of the nodes from the root
+ * to the value, see {@link prove} and {@link verifyProof}, hence a transaction or a receipt
+ * can be checked against the header of a block without trusting the node returning it.
+ *
+ * @remarks The node encoding is the one of the
+ * [Ethereum Merkle Patricia trie](https://ethereum.org/en/developers/docs/data-structures-and-encoding/patricia-merkle-trie/),
+ * hashed with BLAKE2b-256 instead of Keccak-256.
+ *
+ * @example
+ * ```typescript
+ * const block = await thorClient.blocks.getBlockExpanded(number);
+ * const trie = MerklePatriciaTrie.ofReceipts(block.transactions);
+ * trie.root.toString() === block.receiptsRoot; // true
+ * const proof = trie.prove(MerklePatriciaTrie.keyOfIndex(0));
+ * MerklePatriciaTrie.verifyProof(block.receiptsRoot, MerklePatriciaTrie.keyOfIndex(0), proof); // The encoded receipt.
+ * ```
+ */
+class MerklePatriciaTrie {
+    /**
+     * The root node, `null` if the trie is empty.
+     */
+    private _root: TrieNode | null = null;
+
+    /**
+     * Get the root hash of the trie, the hash of the encoding of the empty string for the empty trie.
+     *
+     * @returns The root hash.
+     */
+    public get root(): Blake2b256 {
+        return Blake2b256.of(
+            RLP_CODER.encode(
+                this._root === null ? new Uint8Array() : structureOf(this._root)
+            )
+        );
+    }
+
+    /**
+     * Sets the value of `key`.
+     *
+     * @param key - The key.
+     * @param value - The value, not empty.
+     * @returns This trie.
+     * @throws {InvalidDataType} If the value is empty.
+     */
+    public put(key: Uint8Array, value: Uint8Array): this {
+        if (value.length === 0) {
+            throw new InvalidDataType(
+                'MerklePatriciaTrie.put()',
+                'Invalid value. It must not be empty.',
+                { key: Hex.of(key).toString() }
+            );
+        }
+        this._root = insert(this._root, nibblesOf(key), Uint8Array.from(value));
+        return this;
+    }
+
+    /**
+     * Gets the value of `key`.
+     *
+     * @param key - The key.
+     * @returns The value, `null` if the key is not in the trie.
+     */
+    public get(key: Uint8Array): Uint8Array | null {
+        let node = this._root;
+        let path = nibblesOf(key);
+        while (node !== null) {
+            if (node.type === 'branch') {
+                if (path.length === 0) {
+                    return node.value;
+                }
+                node = node.children[path[0]];
+                path = path.slice(1);
+            } else {
+                const common = commonPrefixLength(node.path, path);
+                if (common !== node.path.length) {
+                    return null;
+                }
+                path = path.slice(common);
+                if (node.type === 'leaf') {
+                    return path.length === 0 ? node.value : null;
+                }
+                node = node.child;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Returns the proof of the inclusion of `key` in the trie, or of its absence.
+     *
+     * @param key - The key.
+     * @returns The encoded nodes from the root towards the key, the nodes embedded in their parent excluded.
+     */
+    public prove(key: Uint8Array): TrieProof {
+        const proof: TrieProof = [];
+        let node = this._root;
+        let path = nibblesOf(key);
+        while (node !== null) {
+            const encoded = RLP_CODER.encode(structureOf(node));
+            if (proof.length === 0 || encoded.length >= HASH_LENGTH) {
+                proof.push(encoded);
+            }
+            if (node.type === 'branch') {
+                if (path.length === 0) {
+                    break;
+                }
+                node = node.children[path[0]];
+                path = path.slice(1);
+            } else {
+                const common = commonPrefixLength(node.path, path);
+                if (node.type === 'leaf' || common !== node.path.length) {
+                    break;
+                }
+                path = path.slice(common);
+                node = node.child;
+            }
+        }
+        return proof;
+    }
+
+    /**
+     * Returns the key of the item at `index` of a list, the RLP encoding of the index.
+     *
+     * @param index - The index of the item.
+     * @returns The key.
+     */
+    public static keyOfIndex(index: number): Uint8Array {
+        return RLP_CODER.encode(index);
+    }
+
+    /**
+     * Returns the trie of a list, keyed by {@link keyOfIndex}.
+     *
+     * @param items - The encoded items.
+     * @returns The trie.
+     */
+    public static ofList(items: Uint8Array[]): MerklePatriciaTrie {
+        return items.reduce(
+            (trie, item, index) =>
+                trie.put(MerklePatriciaTrie.keyOfIndex(index), item),
+            new MerklePatriciaTrie()
+        );
+    }
+
+    /**
+     * Returns the trie of the transactions of a block, its root is the `txsRoot` of the block.
+     *
+     * @param transactions - The signed transactions in the order of the block, or their raw encodings,
+     * e.g. as returned by `TransactionsModule.getTransactionRaw`.
+     * @returns The trie.
+     * @throws {InvalidDataType} If a raw encoding is not hexadecimal.
+     */
+    public static ofTransactions(
+        transactions: Array<Transaction | Uint8Array | string>
+    ): MerklePatriciaTrie {
+        return MerklePatriciaTrie.ofList(
+            transactions.map((transaction) => {
+                if (transaction instanceof Transaction) {
+                    return transaction.encoded;
+                }
+                return typeof transaction === 'string'
+                    ? Hex.of(transaction).bytes
+                    : transaction;
+            })
+        );
+    }
+
+    /**
+     * Returns the trie of the receipts of the transactions of a block, its root is the `receiptsRoot` of the block.
+     *
+     * @param receipts - The receipts in the order of the block,
+     * e.g. the transactions of an expanded block returned by `BlocksModule.getBlockExpanded`.
+     * @returns The trie.
+     * @throws {InvalidRLP} If a receipt is malformed.
+     */
+    public static ofReceipts(
+        receipts: TransactionReceiptBody[]
+    ): MerklePatriciaTrie {
+        return MerklePatriciaTrie.ofList(
+            receipts.map((receipt) =>
+                TRANSACTION_RECEIPT_RLP.encodeObject({
+                    gasUsed: receipt.gasUsed,
+                    gasPayer: receipt.gasPayer,
+                    paid: receipt.paid,
+                    reward: receipt.reward,
+                    reverted: receipt.reverted ? 1 : 0,
+                    outputs: receipt.outputs.map(({ events, transfers }) => ({
+                        events,
+                        transfers
+                    }))
+                })
+            )
+        );
+    }
+
+    /**
+     * Verifies the proof of `key` against `root`, see {@link prove}.
+     *
+     * @param root - The root hash, e.g. the `txsRoot` or `receiptsRoot` of a block header.
+     * @param key - The key.
+     * @param proof - The encoded nodes from the root towards the key.
+     * @returns The value of the key, `null` if the proof proves the key is not in the trie.
+     * @throws {InvalidDataType} If the proof is incomplete or doesn't match the root.
+     */
+    public static verifyProof(
+        root: Uint8Array | string,
+        key: Uint8Array,
+        proof: TrieProof
+    ): Uint8Array | null {
+        const fail = (message: string): never => {
+            throw new InvalidDataType(
+                'MerklePatriciaTrie.verifyProof()',
+                message,
+                { root: Hex.of(root).toString(), key: Hex.of(key).toString() }
+            );
+        };
+        // The empty trie has no node to prove, its root is the hash of the empty string.
+        const nodes = new Map(
+            [RLP_CODER.encode(new Uint8Array()), ...proof].map((encoded) => [
+                Blake2b256.of(encoded).toString(),
+                encoded
+            ])
+        );
+        let reference: RLPOutput = Hex.of(root).bytes;
+        let path = nibblesOf(key);
+        for (;;) {
+            let node: RLPOutput = reference;
+            // A 32 bytes reference is the hash of a node, shorter nodes are embedded.
+            if (!Array.isArray(node) && node.length === HASH_LENGTH) {
+                const encoded =
+                    nodes.get(Hex.of(node).toString()) ??
+                    fail('Invalid proof. A node is missing.');
+                node = RLP_CODER.decode(Buffer.from(encoded));
+            }
+            if (!Array.isArray(node)) {
+                return node.length === 0
+                    ? null
+                    : fail('Invalid proof. A node is malformed.');
+            }
+            if (node.length === BRANCH_WIDTH + 1) {
+                if (path.length === 0) {
+                    const value = node[BRANCH_WIDTH] as Uint8Array;
+                    return value.length === 0 ? null : Uint8Array.from(value);
+                }
+                reference = node[path[0]];
+                path = path.slice(1);
+            } else if (node.length === 2 && !Array.isArray(node[0])) {
+                const { path: nodePath, isLeaf } = pathOfHexPrefix(node[0]);
+                const common = commonPrefixLength(nodePath, path);
+                if (common !== nodePath.length) {
+                    return null;
+                }
+                path = path.slice(common);
+                if (isLeaf) {
+                    return path.length === 0
+                        ? Uint8Array.from(node[1] as Uint8Array)
+                        : null;
+                }
+                reference = node[1];
+            } else {
+                return fail('Invalid proof. A node is malformed.');
+            }
+        }
+    }
+}
+
+export { MerklePatriciaTrie };
@@ -0,0 +1,7 @@
+/**
+ * The proof of the inclusion of a key in a Merkle Patricia trie, or of its absence:
+ * the RLP encoded nodes from the root towards the key, see `MerklePatriciaTrie.prove`.
+ */
+type TrieProof = Uint8Array[];
+
+export type { TrieProof };
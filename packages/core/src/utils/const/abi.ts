@@ -981,11 +981,81 @@ const VIP181_ABI = ERC721_ABI;
  */
 const VIP210_ABI = ERC1155_ABI;
 
+/**
+ * Human-readable fragments of the functions and events of the Thor built-in contracts:
+ * `Params`, `Energy` (beside its VIP180 interface), `Authority`, `Extension`, `Executor` and `Prototype`.
+ *
+ * @see [Built-in contracts](https://docs.vechain.org/developer-resources/built-in-contracts)
+ */
+const THOR_BUILT_IN_SIGNATURES = [
+    // Params
+    'function set(bytes32 _key, uint256 _value)',
+    'function get(bytes32 _key) view returns (uint256)',
+    'function executor() view returns (address)',
+    'event Set(bytes32 indexed key, uint256 value)',
+    // Energy
+    'function move(address _from, address _to, uint256 _amount) returns (bool success)',
+    'function totalBurned() view returns (uint256)',
+    // Authority
+    'function add(address _nodeMaster, address _endorsor, bytes32 _identity)',
+    'function revoke(address _nodeMaster)',
+    'function get(address _nodeMaster) view returns (bool listed, address endorsor, bytes32 identity, bool active)',
+    'function first() view returns (address)',
+    'function next(address _nodeMaster) view returns (address)',
+    'event Candidate(address indexed nodeMaster, bytes32 action)',
+    // Extension
+    'function blake2b256(bytes _value) view returns (bytes32)',
+    'function blockID(uint256 num) view returns (bytes32)',
+    'function blockTotalScore(uint256 num) view returns (uint64)',
+    'function blockTime(uint256 num) view returns (uint256)',
+    'function blockSigner(uint256 num) view returns (address)',
+    'function totalSupply() view returns (uint256)',
+    'function txProvedWork() view returns (uint256)',
+    'function txID() view returns (bytes32)',
+    'function txBlockRef() view returns (bytes8)',
+    'function txExpiration() view returns (uint256)',
+    'function txGasPayer() view returns (address)',
+    // Executor
+    'function propose(address _target, bytes _data) returns (bytes32)',
+    'function approve(bytes32 _proposalID)',
+    'function execute(bytes32 _proposalID)',
+    'function addApprover(address _approver, bytes32 _identity)',
+    'function revokeApprover(address _approver)',
+    'function attachVotingContract(address _contract)',
+    'function detachVotingContract(address _contract)',
+    'event Proposal(bytes32 indexed proposalID, bytes32 action)',
+    'event Approver(address indexed approver, bytes32 action)',
+    'event VotingContract(address indexed contractAddr, bytes32 action)',
+    // Prototype
+    'function master(address _self) view returns (address)',
+    'function setMaster(address _self, address _newMaster)',
+    'function balance(address _self, uint256 _blockNumber) view returns (uint256)',
+    'function energy(address _self, uint256 _blockNumber) view returns (uint256)',
+    'function hasCode(address _self) view returns (bool)',
+    'function storageFor(address _self, bytes32 _key) view returns (bytes32)',
+    'function creditPlan(address _self) view returns (uint256 credit, uint256 recoveryRate)',
+    'function setCreditPlan(address _self, uint256 _credit, uint256 _recoveryRate)',
+    'function isUser(address _self, address _user) view returns (bool)',
+    'function userCredit(address _self, address _user) view returns (uint256)',
+    'function addUser(address _self, address _user)',
+    'function removeUser(address _self, address _user)',
+    'function sponsor(address _self)',
+    'function unsponsor(address _self)',
+    'function isSponsor(address _self, address _sponsor) view returns (bool)',
+    'function selectSponsor(address _self, address _sponsor)',
+    'function currentSponsor(address _self) view returns (address)',
+    'event $Master(address newMaster)',
+    'event $CreditPlan(uint256 credit, uint256 recoveryRate)',
+    'event $User(address indexed user, bytes32 action)',
+    'event $Sponsor(address indexed sponsor, bytes32 action)'
+];
+
 export {
     VIP180_ABI,
     VIP181_ABI,
     VIP210_ABI,
     ERC20_ABI,
     ERC721_ABI,
-    ERC1155_ABI
+    ERC1155_ABI,
+    THOR_BUILT_IN_SIGNATURES
 };
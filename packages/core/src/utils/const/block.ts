@@ -0,0 +1,127 @@
+import { RLP_CODER } from '../../encoding';
+
+/**
+ * Fields of the transactions root of the block header, the features are encoded only if not zero
+ * @internal
+ */
+const BLOCK_HEADER_TXS_ROOT_FIELDS = [
+    /**
+     * Transactions root. It represents the root of the trie of the transactions of the block.
+     */
+    { name: 'txsRoot', kind: new RLP_CODER.FixedHexBlobKind(32) },
+
+    /**
+     * Transactions features. It represents the features supported by the transactions of the block.
+     */
+    { name: 'txsFeatures', kind: new RLP_CODER.NumericKind(4) }
+];
+
+/**
+ * Fields of the extension of the block header, trailing empty fields are not encoded
+ * @internal
+ */
+const BLOCK_HEADER_EXTENSION_FIELDS = [
+    /**
+     * Alpha. It represents the input of the VRF proof of the proposer, see VIP-214.
+     */
+    { name: 'alpha', kind: new RLP_CODER.BufferKind() },
+
+    /**
+     * COM. It represents the commitment of the proposer to the finality of the chain, see VIP-220.
+     */
+    { name: 'com', kind: new RLP_CODER.NumericKind(1) },
+
+    /**
+     * Base fee per gas. It represents the base fee of dynamic-fee transactions.
+     */
+    { name: 'baseFeePerGas', kind: new RLP_CODER.NumericKind(32) }
+];
+
+/**
+ * Block header fields signed by the proposer, the signing hash is the hash of their encoding
+ * @internal
+ */
+const BLOCK_HEADER_SIGNED_FIELDS = [
+    /**
+     * Parent ID. It represents the ID of the parent block.
+     */
+    { name: 'parentID', kind: new RLP_CODER.FixedHexBlobKind(32) },
+
+    /**
+     * Timestamp. It represents the time the block was proposed, in seconds.
+     */
+    { name: 'timestamp', kind: new RLP_CODER.NumericKind(8) },
+
+    /**
+     * Gas limit. It represents the maximum gas the transactions of the block can use.
+     */
+    { name: 'gasLimit', kind: new RLP_CODER.NumericKind(8) },
+
+    /**
+     * Beneficiary. It represents the address receiving the rewards of the block.
+     */
+    { name: 'beneficiary', kind: new RLP_CODER.FixedHexBlobKind(20) },
+
+    /**
+     * Gas used. It represents the gas used by the transactions of the block.
+     */
+    { name: 'gasUsed', kind: new RLP_CODER.NumericKind(8) },
+
+    /**
+     * Total score. It represents the accumulated witness number of the chain up to the block.
+     */
+    { name: 'totalScore', kind: new RLP_CODER.NumericKind(8) },
+
+    /**
+     * Transactions root and features.
+     */
+    { name: 'txsRootFeatures', kind: BLOCK_HEADER_TXS_ROOT_FIELDS },
+
+    /**
+     * State root. It represents the root of the trie of the accounts after the block.
+     */
+    { name: 'stateRoot', kind: new RLP_CODER.FixedHexBlobKind(32) },
+
+    /**
+     * Receipts root. It represents the root of the trie of the receipts of the transactions of the block.
+     */
+    { name: 'receiptsRoot', kind: new RLP_CODER.FixedHexBlobKind(32) }
+];
+
+/**
+ * Block header fields
+ * @internal
+ */
+const BLOCK_HEADER_FIELDS = [
+    ...BLOCK_HEADER_SIGNED_FIELDS,
+
+    /**
+     * Signature. It represents the signature of the proposer, followed by its VRF proof since VIP-214.
+     */
+    { name: 'signature', kind: new RLP_CODER.BufferKind() },
+
+    /**
+     * Extension of the block header.
+     */
+    { name: 'extension', kind: BLOCK_HEADER_EXTENSION_FIELDS }
+];
+
+/**
+ * RLP_CODER profiler for block headers, having all the fields of the header.
+ *
+ * @remarks Thor omits from the encoding the transactions features if zero and the trailing empty
+ * fields of the extension, see `BlockHeader` for the encoding of the raw header.
+ * @internal
+ */
+const BLOCK_HEADER_RLP = new RLP_CODER.Profiler({
+    name: 'header',
+    kind: BLOCK_HEADER_FIELDS
+});
+
+export {
+    BLOCK_HEADER_EXTENSION_FIELDS,
+    BLOCK_HEADER_FIELDS,
+    BLOCK_HEADER_RLP,
+    BLOCK_HEADER_SIGNED_FIELDS,
+    BLOCK_HEADER_TXS_ROOT_FIELDS
+};
@@ -15,4 +15,24 @@ const X_PUB_PREFIX = Buffer.from('0488b21e000000000000000000', 'hex');
  */
 const X_PRIV_PREFIX = Buffer.from('0488ade4000000000000000000', 'hex');
 
-export { VET_DERIVATION_PATH, X_PUB_PREFIX, X_PRIV_PREFIX };
+/**
+ * Version bytes of a serialized extended public key (`xpub`).
+ *
+ * See https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki#serialization-format for more info.
+ */
+const X_PUB_VERSION = 0x0488b21e;
+
+/**
+ * Version bytes of a serialized extended private key (`xprv`).
+ *
+ * See https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki#serialization-format for more info.
+ */
+const X_PRIV_VERSION = 0x0488ade4;
+
+export {
+    VET_DERIVATION_PATH,
+    X_PUB_PREFIX,
+    X_PRIV_PREFIX,
+    X_PUB_VERSION,
+    X_PRIV_VERSION
+};
@@ -1,5 +1,7 @@
 export * from './abi';
+export * from './block';
 export * from './data';
 export * from './hdnode';
+export * from './keystore';
 export * from './secp256k1';
 export * from './transaction';
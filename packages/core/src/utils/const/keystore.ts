@@ -0,0 +1,9 @@
+/**
+ * The maximum number of iterations of the [PBKDF2](https://en.wikipedia.org/wiki/PBKDF2)
+ * key derivation function = 2^20 = 1048576, greater counts are rejected because
+ * a crafted keystore could block the caller for an unbounded time.
+ * @internal
+ */
+const PBKDF2_MAX_ITERATIONS = 1048576;
+
+export { PBKDF2_MAX_ITERATIONS };
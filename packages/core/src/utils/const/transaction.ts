@@ -101,6 +101,45 @@ const TRANSACTION_FIELDS = [
     { name: 'reserved', kind: { item: new RLP_CODER.BufferKind() } }
 ];
 
+/**
+ * Fee fields of dynamic-fee transactions, replacing the `gasPriceCoef` field of legacy transactions
+ * @internal
+ */
+const DYNAMIC_FEE_FIELDS = [
+    /**
+     * Max priority fee per gas. It represents the maximum tip per gas paid to the block proposer.
+     */
+    { name: 'maxPriorityFeePerGas', kind: new RLP_CODER.NumericKind(32) },
+
+    /**
+     * Max fee per gas. It represents the maximum total fee per gas, base fee included.
+     */
+    { name: 'maxFeePerGas', kind: new RLP_CODER.NumericKind(32) }
+];
+
+/**
+ * Dynamic-fee transaction fields
+ * @internal
+ */
+const DYNAMIC_FEE_TRANSACTION_FIELDS = TRANSACTION_FIELDS.flatMap((field) =>
+    field.name === 'gasPriceCoef' ? DYNAMIC_FEE_FIELDS : [field]
+);
+
+/**
+ * Types of transaction, the type is the first byte of the encoding of typed transactions.
+ */
+enum TransactionType {
+    /**
+     * Legacy transactions, priced with the `gasPriceCoef` field, encoded without type byte.
+     */
+    Legacy = 0x00,
+
+    /**
+     * Dynamic-fee transactions, priced with the `maxFeePerGas` and `maxPriorityFeePerGas` fields.
+     */
+    DynamicFee = 0x51
+}
+
 /**
  * Kind for transaction features
  * @internal
@@ -139,6 +178,26 @@ const SIGNED_TRANSACTION_RLP = new RLP_CODER.Profiler({
     kind: TRANSACTION_FIELDS.concat([TRANSACTION_SIGNATURE_KIND])
 });
 
+/**
+ * RLP_CODER profiler for unsigned dynamic-fee transactions, the encoding follows the type byte
+ * @internal
+ */
+const UNSIGNED_DYNAMIC_FEE_TRANSACTION_RLP = new RLP_CODER.Profiler({
+    name: 'tx',
+    kind: DYNAMIC_FEE_TRANSACTION_FIELDS
+});
+
+/**
+ * RLP_CODER profiler for signed dynamic-fee transactions, the encoding follows the type byte
+ * @internal
+ */
+const SIGNED_DYNAMIC_FEE_TRANSACTION_RLP = new RLP_CODER.Profiler({
+    name: 'tx',
+
+    // Add signature to the transaction fields
+    kind: DYNAMIC_FEE_TRANSACTION_FIELDS.concat([TRANSACTION_SIGNATURE_KIND])
+});
+
 /**
  * Signature length
  * @internal
@@ -151,12 +210,104 @@ const SIGNATURE_LENGTH = 65;
  */
 const BLOCK_REF_LENGTH = 8;
 
+/**
+ * Transaction receipt fields, the outputs list the events and transfers of each clause
+ * @internal
+ */
+const TRANSACTION_RECEIPT_FIELDS = [
+    /**
+     * Gas used. It represents the gas used by the transaction.
+     */
+    { name: 'gasUsed', kind: new RLP_CODER.NumericKind(8) },
+
+    /**
+     * Gas payer. It represents the address paying the gas, the delegator of delegated transactions.
+     */
+    { name: 'gasPayer', kind: new RLP_CODER.FixedHexBlobKind(20) },
+
+    /**
+     * Paid. It represents the VTHO paid for the transaction.
+     */
+    { name: 'paid', kind: new RLP_CODER.NumericKind(32) },
+
+    /**
+     * Reward. It represents the VTHO rewarded to the block proposer.
+     */
+    { name: 'reward', kind: new RLP_CODER.NumericKind(32) },
+
+    /**
+     * Reverted. It represents whether the transaction reverted.
+     */
+    { name: 'reverted', kind: new RLP_CODER.NumericKind(1) },
+
+    /**
+     * Outputs. They represent the events and transfers of each clause.
+     */
+    {
+        name: 'outputs',
+        kind: {
+            item: [
+                {
+                    name: 'events',
+                    kind: {
+                        item: [
+                            {
+                                name: 'address',
+                                kind: new RLP_CODER.FixedHexBlobKind(20)
+                            },
+                            {
+                                name: 'topics',
+                                kind: {
+                                    item: new RLP_CODER.FixedHexBlobKind(32)
+                                }
+                            },
+                            { name: 'data', kind: new RLP_CODER.HexBlobKind() }
+                        ]
+                    }
+                },
+                {
+                    name: 'transfers',
+                    kind: {
+                        item: [
+                            {
+                                name: 'sender',
+                                kind: new RLP_CODER.FixedHexBlobKind(20)
+                            },
+                            {
+                                name: 'recipient',
+                                kind: new RLP_CODER.FixedHexBlobKind(20)
+                            },
+                            {
+                                name: 'amount',
+                                kind: new RLP_CODER.NumericKind(32)
+                            }
+                        ]
+                    }
+                }
+            ]
+        }
+    }
+];
+
+/**
+ * RLP_CODER profiler for transaction receipts, the items of the receipts trie of a block
+ * @internal
+ */
+const TRANSACTION_RECEIPT_RLP = new RLP_CODER.Profiler({
+    name: 'receipt',
+    kind: TRANSACTION_RECEIPT_FIELDS
+});
+
 export {
     TRANSACTIONS_GAS_CONSTANTS,
     UNSIGNED_TRANSACTION_RLP,
     SIGNED_TRANSACTION_RLP,
+    UNSIGNED_DYNAMIC_FEE_TRANSACTION_RLP,
+    SIGNED_DYNAMIC_FEE_TRANSACTION_RLP,
+    TRANSACTION_RECEIPT_RLP,
     TRANSACTION_FEATURES_KIND,
     TRANSACTION_SIGNATURE_KIND,
     SIGNATURE_LENGTH,
-    BLOCK_REF_LENGTH
+    BLOCK_REF_LENGTH,
+    TransactionType
 };
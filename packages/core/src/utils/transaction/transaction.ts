@@ -1,5 +1,8 @@
 import { InvalidDataType } from '@vechain/sdk-errors';
-import { type TransactionClause } from '../../transaction';
+import {
+    type TransactionBody,
+    type TransactionClause
+} from '../../transaction';
 import { Address } from '../../vcdm';
 import { Hex } from '../../vcdm/Hex';
 import { TRANSACTIONS_GAS_CONSTANTS } from '../const';
@@ -9,11 +12,19 @@ import { TRANSACTIONS_GAS_CONSTANTS } from '../const';
  *
  * @note see the following link for more details: https://docs.vechain.org/core-concepts/transactions/transaction-calculation
  *
- * @param clauses - Transaction clauses
+ * @param clausesOrBody - Transaction clauses, or the body of a legacy or dynamic-fee transaction.
+ * The intrinsic gas depends only on the clauses, whatever the type of the transaction:
+ * the fee fields price the gas, they don't change the amount of it.
  * @returns Intrinsic gas of a set of clauses
  * @throws {InvalidDataType}
  */
-function intrinsicGas(clauses: TransactionClause[]): number {
+function intrinsicGas(
+    clausesOrBody: TransactionClause[] | TransactionBody
+): number {
+    const clauses = Array.isArray(clausesOrBody)
+        ? clausesOrBody
+        : clausesOrBody.clauses;
+
     // No clauses
     if (clauses.length === 0) {
         return (
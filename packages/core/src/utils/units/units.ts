@@ -1,12 +1,11 @@
-import { BigNumber } from 'bignumber.js';
-import { Hex } from '../../vcdm/Hex';
+import { FixedPointNumber, RoundingMode } from '../../vcdm/FixedPointNumber';
 import { InvalidDataType } from '@vechain/sdk-errors';
 import { type WEI_UNITS } from './types';
 
 /**
- * Precision of big numbers.
+ * Maximum number of decimal digits supported by {@link formatUnits} and {@link parseUnits}.
  */
-const BIG_NUMBER_PRECISION = 80;
+const MAX_DIGITS = 80;
 
 /**
  * One VET is 10^18.
@@ -33,70 +32,24 @@ const WEI_UNIT_NAMES: WEI_UNITS[] = [
 ];
 
 /**
- * Converts the given value to a BigNumber.
+ * Converts the given value to a FixedPointNumber.
  *
- * @param {bigint | number | string} value - The value to be converted to BigNumber,
+ * @param {bigint | number | string} value - The value to be converted to FixedPointNumber,
  * decimal or hexadecimal prefixed with `0x`.
- * @returns {BigNumber} - The converted value as a BigNumber.
+ * @returns {FixedPointNumber} - The converted value as a FixedPointNumber.
  * @throws {InvalidDataType}
  */
-function bigNumberOf(value: bigint | number | string): BigNumber {
-    let bn: BigNumber;
-    switch (typeof value) {
-        case 'bigint':
-            bn = BigNumber(value.toString());
-            break;
-        case 'number':
-            bn = BigNumber(value);
-            break;
-        case 'string': {
-            if (Hex.isValid0x(value)) {
-                bn = BigNumber(Hex.of(value).bi.toString());
-            } else {
-                bn = BigNumber(value);
-            }
-        }
-    }
-    if (bn.isNaN())
-        throw new InvalidDataType('unitUtils.bigNumberOf()', 'Not a number.', {
-            value: value.toString()
-        });
-
-    return bn;
-}
-
-/**
- * Calculates the number of digits in the fractional part of a given value.
- *
- * @param {BigNumber} value - The value to calculate the number of digits.
- * @return {number} - The number of digits in the fractional part.
- */
-function digitsOfFractionalPart(value: BigNumber): number {
-    let d = 0; // Digits of the fractional part.
-    const i = value.abs().integerValue(BigNumber.ROUND_FLOOR); // Integer part, no sign.
-    let f = value.abs().minus(i); // Fractional part, no sign.
-    while (!f.isInteger()) {
-        ++d;
-        f = f.times(10);
-    }
-    return d;
-}
-
-/**
- * Calculates the number of digits in the integer part of a given BigNumber.
- *
- * @param {BigNumber} value - The BigNumber to calculate the number of digits for.
- *
- * @return {number} - The number of digits in the integer part of the BigNumber.
- */
-function digitsOfIntegerPart(value: BigNumber): number {
-    let d = 0; // Digits of the integer part.
-    let i = value.abs().integerValue(BigNumber.ROUND_FLOOR); // Integer part, no sign.
-    while (i.gte(1)) {
-        d++;
-        i = i.div(10);
+function fixedPointNumberOf(value: bigint | number | string): FixedPointNumber {
+    try {
+        return FixedPointNumber.of(value);
+    } catch (e) {
+        throw new InvalidDataType(
+            'unitUtils.fixedPointNumberOf()',
+            'Not a number.',
+            { value: value.toString() },
+            e
+        );
     }
-    return d;
 }
 
 /**
@@ -135,7 +88,7 @@ function digitsOfUnit(digitsOrUnit: bigint | number | WEI_UNITS): number {
         }
     }
 
-    if (digits > BIG_NUMBER_PRECISION)
+    if (digits > MAX_DIGITS)
         throw new InvalidDataType(
             'unitsUtils.digitOfUnit()',
             'Precision overflow (digits or unit name).',
@@ -177,21 +130,17 @@ function formatUnits(
     value: bigint | number | string,
     decimalsOrUnit: bigint | number | WEI_UNITS = VET_DECIMAL_EXPONENT
 ): string {
-    const bnConfig = BigNumber.config();
-    BigNumber.set({
-        DECIMAL_PLACES: BIG_NUMBER_PRECISION,
-        ROUNDING_MODE: BigNumber.ROUND_HALF_UP
-    });
     try {
-        const bn = bigNumberOf(value);
+        const fpn = fixedPointNumberOf(value);
         const powerOfTen = digitsOfUnit(decimalsOrUnit);
-        const divisor = BigNumber(10).pow(powerOfTen);
-        const result = bn.div(divisor);
-        let fixedDecimals: number = digitsOfFractionalPart(result);
-        if (fixedDecimals === 0 && decimalsOrUnit !== WEI_UNIT_NAMES[0]) {
-            fixedDecimals = 1;
-        }
-        return result.toFixed(fixedDecimals);
+        const result = fpn.div(
+            FixedPointNumber.of(10n ** BigInt(powerOfTen)),
+            fpn.fractionalDigits + powerOfTen,
+            RoundingMode.UNNECESSARY
+        );
+        return result.isInteger() && decimalsOrUnit !== WEI_UNIT_NAMES[0]
+            ? result.toString(1)
+            : result.toString();
     } catch (e) {
         throw new InvalidDataType(
             'unitsUtils.formatUnits()',
@@ -199,8 +148,6 @@ function formatUnits(
             { value, digitsOrUnit: decimalsOrUnit },
             e
         );
-    } finally {
-        BigNumber.set(bnConfig);
     }
 }
 
@@ -244,19 +191,10 @@ function parseUnits(
     value: bigint | number | string,
     digitsOrUnit: bigint | number | WEI_UNITS = VET_DECIMAL_EXPONENT
 ): bigint {
-    const bnConfig = BigNumber.config();
-    BigNumber.set({
-        DECIMAL_PLACES: BIG_NUMBER_PRECISION,
-        ROUNDING_MODE: BigNumber.ROUND_HALF_UP
-    });
     try {
-        const bn = bigNumberOf(value);
+        const fpn = fixedPointNumberOf(value);
         const powerOfTen = digitsOfUnit(digitsOrUnit);
-        const multiplier = BigNumber(10).pow(powerOfTen);
-        const result = bn.times(multiplier);
-        const fractionDigits = digitsOfFractionalPart(result);
-        const integerDigits = digitsOfIntegerPart(result);
-        return BigInt(result.toPrecision(fractionDigits + integerDigits));
+        return fpn.mul(FixedPointNumber.of(10n ** BigInt(powerOfTen))).bi;
     } catch (e) {
         throw new InvalidDataType(
             'unitsUtils.parseUnits()',
@@ -264,8 +202,6 @@ function parseUnits(
             { value, decimalsOrUnit: digitsOrUnit },
             e
         );
-    } finally {
-        BigNumber.set(bnConfig);
     }
 }
 
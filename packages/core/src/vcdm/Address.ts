@@ -9,6 +9,7 @@ import { secp256k1 } from '../secp256k1';
 import { Hex } from './Hex';
 import { HexUInt } from './HexUInt';
 import { Txt } from './Txt';
+import { VET_DERIVATION_PATH } from '../utils/const/hdnode';
 
 /**
  * Represents a VeChain Address as unsigned integer.
@@ -161,15 +162,21 @@ class Address extends HexUInt {
      *
      * @param {string[]} mnemonic - Mnemonic used to generate the HD node.
      * @param {string} [path='m/0'] - The derivation path from the current node.
+     * @param {string} [passphrase=''] - The optional BIP39 passphrase.
      * @return {Address} - The derived address.
      * @throws {InvalidHDNode}
      *
      */
     public static ofMnemonic(
         mnemonic: string[],
-        path: string = 'm/0'
+        path: string = 'm/0',
+        passphrase: string = ''
     ): Address {
-        const root = HDNode.fromMnemonic(mnemonic);
+        const root = HDNode.fromMnemonic(
+            mnemonic,
+            VET_DERIVATION_PATH,
+            passphrase
+        );
         try {
             // Public key is always available.
             return Address.ofPublicKey(
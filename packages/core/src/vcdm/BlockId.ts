@@ -0,0 +1,81 @@
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { BlockRef } from './BlockRef';
+import { type Hex } from './Hex';
+import { type HexUInt } from './HexUInt';
+import { ThorId } from './ThorId';
+
+/**
+ * The BlockId class represents the ID of a Thor block, a {@link ThorId}
+ * having the block number embedded in its first 4 bytes.
+ *
+ * @remarks The first 4 bytes express the block number as big-endian unsigned integer,
+ * hence the lexicographic order of BlockId values is the order of the height of the blocks.
+ *
+ * @extends ThorId
+ */
+class BlockId extends ThorId {
+    /**
+     * Number of digits expressing the block number.
+     *
+     * @type {number}
+     */
+    private static readonly NUMBER_DIGITS = 8;
+
+    /**
+     * Return the BlockRef referencing this block, the first 8 bytes of this ID.
+     *
+     * @return {BlockRef} The BlockRef of this block.
+     */
+    public get blockRef(): BlockRef {
+        return BlockRef.of(this);
+    }
+
+    /**
+     * Return the number of this block.
+     *
+     * @return {number} The block number expressed by the first 4 bytes.
+     */
+    public get number(): number {
+        return parseInt(this.digits.slice(0, BlockId.NUMBER_DIGITS), 16);
+    }
+
+    /**
+     * Compare this BlockId with `that`, ordering by the height of the blocks.
+     *
+     * @param {Hex} that - The object to compare, a {@link BlockRef} is compared with the BlockRef of this block.
+     *
+     * @return {number} A negative number if `this` < `that`, zero if `this` = `that`, a positive number if `this` > that`.
+     */
+    public override compareTo(that: Hex): number {
+        return that instanceof BlockRef
+            ? this.blockRef.compareTo(that)
+            : super.compareTo(that);
+    }
+
+    /**
+     * Creates a new BlockId object from the given expression.
+     *
+     * @param {bigint | number | string | Uint8Array | HexUInt} exp - The expression to create the BlockId from,
+     * see {@link ThorId.of}.
+     *
+     * @returns {BlockId} - A new BlockId object created from the given expression.
+     *
+     * @throws {InvalidDataType} If the given expression is not a valid ThorId expression.
+     */
+    public static of(
+        exp: bigint | number | string | Uint8Array | HexUInt
+    ): BlockId {
+        try {
+            return new BlockId(ThorId.of(exp));
+        } catch (e) {
+            throw new InvalidDataType(
+                'BlockId.of',
+                'not a BlockId expression',
+                { exp: `${exp}` }, // Needed to serialize bigint values.
+                e
+            );
+        }
+    }
+}
+
+export { BlockId };
@@ -0,0 +1,159 @@
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { Hex } from './Hex';
+import { HexUInt } from './HexUInt';
+import { ThorId } from './ThorId';
+
+/**
+ * The BlockRef class represents the reference to a Thor block used by transactions,
+ * a hexadecimal positive integer having 16 digits: the first 8 bytes of the block ID.
+ *
+ * @remarks The first 4 bytes express the block number as big-endian unsigned integer,
+ * hence the lexicographic order of BlockRef values is the order of the height
+ * of the referenced blocks.
+ *
+ * @extends HexUInt
+ */
+class BlockRef extends HexUInt {
+    /**
+     * Number of digits to represent a BlockRef value.
+     *
+     * @remarks The `0x` prefix is excluded.
+     *
+     * @type {number}
+     */
+    private static readonly DIGITS = 16;
+
+    /**
+     * Number of digits expressing the block number.
+     *
+     * @type {number}
+     */
+    protected static readonly NUMBER_DIGITS = 8;
+
+    /**
+     * Constructs a BlockRef object with the provided hexadecimal value.
+     *
+     * @param {Hex} hex - The hexadecimal value representing the BlockRef.
+     *
+     * @throws {InvalidDataType} - If the provided value is not a valid BlockRef expression.
+     */
+    protected constructor(hex: Hex) {
+        if (BlockRef.isValid(hex.digits)) {
+            super(Hex.POSITIVE, hex.digits);
+        } else {
+            throw new InvalidDataType(
+                'BlockRef.constructor',
+                'not a BlockRef expression',
+                { hex }
+            );
+        }
+    }
+
+    /**
+     * Return the number of the referenced block.
+     *
+     * @return {number} The block number expressed by the first 4 bytes.
+     */
+    public get number(): number {
+        return parseInt(this.digits.slice(0, BlockRef.NUMBER_DIGITS), 16);
+    }
+
+    /**
+     * Compare this BlockRef with `that`, ordering by the height of the referenced blocks.
+     *
+     * @param {Hex} that - The object to compare, a {@link ThorId} is compared by its BlockRef.
+     *
+     * @return {number} A negative number if `this` < `that`, zero if `this` = `that`, a positive number if `this` > that`.
+     */
+    public override compareTo(that: Hex): number {
+        return super.compareTo(
+            that instanceof ThorId ? BlockRef.of(that) : that
+        );
+    }
+
+    /**
+     * Check if the given expression is a valid BlockRef.
+     *
+     * @param {string} exp - The expression to be validated.
+     *
+     * @return {boolean} Returns true if the expression is a valid BlockRef, false otherwise.
+     */
+    public static isValid(exp: string): boolean {
+        return (
+            Hex.isValid(exp) &&
+            (HexUInt.REGEX_HEXUINT_PREFIX.test(exp)
+                ? exp.length === BlockRef.DIGITS + 2
+                : exp.length === BlockRef.DIGITS)
+        );
+    }
+
+    /**
+     * Determines whether the given string is a valid BlockRef prefixed with '0x'.
+     *
+     * @param {string} exp - The expression to be checked.
+     *
+     * @returns {boolean} - True if the expression is valid, false otherwise.
+     */
+    public static isValid0x(exp: string): boolean {
+        return HexUInt.REGEX_HEXUINT_PREFIX.test(exp) && BlockRef.isValid(exp);
+    }
+
+    /**
+     * Creates a new BlockRef object from the given expression.
+     *
+     * @param {bigint | number | string | Uint8Array | HexUInt} exp - The expression to create the BlockRef from:
+     * * {@link ThorId}, e.g. a {@link BlockId}, is the block ID: its first 8 bytes are the BlockRef;
+     * * any other expression is interpreted as the BlockRef value, see {@link HexUInt.of}.
+     *
+     * @returns {BlockRef} - A new BlockRef object created from the given expression.
+     *
+     * @throws {InvalidDataType} If the given expression is not a valid BlockRef expression.
+     */
+    public static of(
+        exp: bigint | number | string | Uint8Array | HexUInt
+    ): BlockRef {
+        try {
+            if (exp instanceof ThorId) {
+                return new BlockRef(
+                    HexUInt.of(exp.digits.slice(0, BlockRef.DIGITS))
+                );
+            }
+            if (exp instanceof Hex) {
+                return new BlockRef(exp.fit(BlockRef.DIGITS));
+            }
+            return new BlockRef(HexUInt.of(exp).fit(BlockRef.DIGITS));
+        } catch (e) {
+            throw new InvalidDataType(
+                'BlockRef.of',
+                'not a BlockRef expression',
+                { exp: `${exp}` }, // Needed to serialize bigint values.
+                e
+            );
+        }
+    }
+
+    /**
+     * Creates a new BlockRef object referencing the given block number,
+     * the bytes following the block number are zero.
+     *
+     * @param {number} blockNumber - The block number, an unsigned 32 bits integer.
+     *
+     * @returns {BlockRef} - A new BlockRef object referencing `blockNumber`.
+     *
+     * @throws {InvalidDataType} If `blockNumber` is not an unsigned 32 bits integer.
+     */
+    public static ofNumber(blockNumber: number): BlockRef {
+        if (
+            Number.isInteger(blockNumber) &&
+            blockNumber >= 0 &&
+            blockNumber <= 0xffffffff
+        ) {
+            return BlockRef.of(BigInt(blockNumber) << 32n);
+        }
+        throw new InvalidDataType('BlockRef.ofNumber', 'not a block number', {
+            blockNumber
+        });
+    }
+}
+
+export { BlockRef };
@@ -0,0 +1,259 @@
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
+import { unitsUtils } from '../utils/units/units';
+import { type WEI_UNITS } from '../utils/units/types';
+import { type Currency } from './Currency';
+import { Hex } from './Hex';
+
+/**
+ * Abstract class for the native currencies of the VeChainThor blockchain.
+ *
+ * The amount is held as a bigint expressing the `wei`, the smallest unit
+ * of the currency: 1 coin is 10^18 wei, hence every amount expressed with
+ * up to 18 decimal digits is represented exactly.
+ *
+ * @remarks Amounts can be negative, e.g. as the result of {@link sub}.
+ *
+ * @implements {Currency}
+ */
+abstract class Coin implements Currency {
+    /**
+     * The number of decimal digits of the currency: 1 coin is 10^18 wei.
+     *
+     * @type {number}
+     */
+    public static readonly DECIMALS: number = 18;
+
+    /**
+     * The code of the currency, e.g. `VET`.
+     *
+     * @type {string}
+     */
+    public readonly code: string;
+
+    /**
+     * The amount expressed in wei.
+     *
+     * @type {bigint}
+     */
+    public readonly wei: bigint;
+
+    /**
+     * Creates a new instance of this class representing `wei` amount
+     * of the currency identified by `code`.
+     *
+     * @param {string} code - The code of the currency.
+     * @param {bigint} wei - The amount expressed in wei.
+     */
+    protected constructor(code: string, wei: bigint) {
+        this.code = code;
+        this.wei = wei;
+    }
+
+    /**
+     * Return the amount expressed in wei.
+     *
+     * @return {bigint} The amount in wei.
+     */
+    public get bi(): bigint {
+        return this.wei;
+    }
+
+    /**
+     * Return the bytes of the absolute amount expressed in wei.
+     *
+     * @return {Uint8Array} The big-endian bytes of the absolute amount in wei.
+     */
+    public get bytes(): Uint8Array {
+        return Hex.of(this.wei).bytes;
+    }
+
+    /**
+     * Return the amount expressed in coins, e.g. `1.5` for 1.5 VET.
+     *
+     * @return {number} The amount in coins.
+     *
+     * @remarks The result is approximated if the amount can't be expressed
+     * exactly as an IEEE 754 double precision number: use {@link wei} or
+     * {@link toUnits} for exact values.
+     */
+    public get n(): number {
+        return Number(this.toUnits());
+    }
+
+    /**
+     * Return a new instance of the same class of this object representing the given amount.
+     *
+     * @param {bigint} wei - The amount expressed in wei.
+     *
+     * @return {this} The new instance.
+     */
+    protected abstract withWei(wei: bigint): this;
+
+    /**
+     * Return the sum of this amount and `that` amount.
+     *
+     * @param {Currency} that - The amount to add, it must be of the same currency.
+     *
+     * @return {this} The sum.
+     *
+     * @throws {InvalidOperation} If `that` is a different currency.
+     */
+    public add(that: Currency): this {
+        this.assertSameCurrency('Coin.add', that);
+        return this.withWei(this.wei + that.bi);
+    }
+
+    /**
+     * Compare this amount with `that` amount.
+     *
+     * @param {Currency} that - The amount to compare, it must be of the same currency.
+     *
+     * @return {number} A negative number if `this` < `that`, zero if `this` = `that`, a positive number if `this` > that`.
+     *
+     * @throws {InvalidOperation} If `that` is a different currency.
+     */
+    public compareTo(that: Currency): number {
+        this.assertSameCurrency('Coin.compareTo', that);
+        if (this.wei < that.bi) {
+            return -1;
+        }
+        return this.wei === that.bi ? 0 : 1;
+    }
+
+    /**
+     * Checks if `that` is the same amount of the same currency.
+     *
+     * @param {Currency} that - The amount to compare.
+     *
+     * @return {boolean} True if both the currency and the amount are equal, false otherwise.
+     */
+    public isEqual(that: Currency): boolean {
+        return this.code === that.code && this.wei === that.bi;
+    }
+
+    /**
+     * Return the difference between this amount and `that` amount.
+     *
+     * @param {Currency} that - The amount to subtract, it must be of the same currency.
+     *
+     * @return {this} The difference.
+     *
+     * @throws {InvalidOperation} If `that` is a different currency.
+     */
+    public sub(that: Currency): this {
+        this.assertSameCurrency('Coin.sub', that);
+        return this.withWei(this.wei - that.bi);
+    }
+
+    /**
+     * Return the amount as decimal string expressed in the given unit,
+     * formatted as {@link unitsUtils.formatUnits} does.
+     *
+     * @param {bigint | number | WEI_UNITS} digitsOrUnit - The decimals or the unit name,
+     * default `ether`, i.e. 18 decimals.
+     *
+     * @return {string} The formatted amount, e.g. `1.5`.
+     */
+    public toUnits(
+        digitsOrUnit: bigint | number | WEI_UNITS = 'ether'
+    ): string {
+        return unitsUtils.formatUnits(this.wei, digitsOrUnit);
+    }
+
+    /**
+     * Return the amount expressed in coins followed by the currency code, e.g. `1.5 VET`.
+     *
+     * @return {string} The string representation of the amount.
+     */
+    public toString(): string {
+        return `${this.toUnits()} ${this.code}`;
+    }
+
+    /**
+     * Parse the given expression as an amount in wei.
+     *
+     * @param {string} methodName - The name of the calling method, used for errors.
+     * @param {bigint | number | string} wei - The amount in wei:
+     * * bigint is taken as is;
+     * * number must be a safe integer;
+     * * string is a decimal integer or a `0x` prefixed hexadecimal expression.
+     *
+     * @return {bigint} The amount in wei.
+     *
+     * @throws {InvalidDataType} If `wei` is not an integer expression.
+     */
+    protected static parseWei(
+        methodName: string,
+        wei: bigint | number | string
+    ): bigint {
+        if (typeof wei === 'bigint') {
+            return wei;
+        }
+        if (typeof wei === 'number') {
+            if (Number.isSafeInteger(wei)) {
+                return BigInt(wei);
+            }
+            throw new InvalidDataType(methodName, 'not a safe integer', {
+                wei
+            });
+        }
+        if (Hex.isValid0x(wei)) {
+            return Hex.of(wei).bi;
+        }
+        if (/^-?\d+$/.test(wei)) {
+            return BigInt(wei);
+        }
+        throw new InvalidDataType(methodName, 'not an integer expression', {
+            wei
+        });
+    }
+
+    /**
+     * Parse the given expression as an amount in the given unit and return it in wei.
+     *
+     * @param {string} methodName - The name of the calling method, used for errors.
+     * @param {bigint | number | string} value - The amount, decimal or `0x` prefixed hexadecimal,
+     * as accepted by {@link unitsUtils.parseUnits}.
+     * @param {bigint | number | WEI_UNITS} digitsOrUnit - The decimals or the unit name of `value`.
+     *
+     * @return {bigint} The amount in wei.
+     *
+     * @throws {InvalidDataType} If `value` is not a valid amount expression or if it has more
+     * decimal digits than the currency can represent.
+     */
+    protected static parseUnits(
+        methodName: string,
+        value: bigint | number | string,
+        digitsOrUnit: bigint | number | WEI_UNITS
+    ): bigint {
+        try {
+            return unitsUtils.parseUnits(value, digitsOrUnit);
+        } catch (e) {
+            throw new InvalidDataType(
+                methodName,
+                'not a valid amount expression',
+                { value: `${value}`, digitsOrUnit: `${digitsOrUnit}` }, // Needed to serialize bigint values.
+                e
+            );
+        }
+    }
+
+    /**
+     * Throw an error if `that` is not of the same currency of this object.
+     *
+     * @param {string} methodName - The name of the calling method.
+     * @param {Currency} that - The amount to check.
+     *
+     * @throws {InvalidOperation} If `that` is a different currency.
+     */
+    private assertSameCurrency(methodName: string, that: Currency): void {
+        if (this.code !== that.code) {
+            throw new InvalidOperation(methodName, 'different currencies', {
+                this: this.code,
+                that: that.code
+            });
+        }
+    }
+}
+
+export { Coin };
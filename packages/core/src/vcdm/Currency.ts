@@ -1,21 +1,21 @@
 import { type VeChainDataModel } from './VeChainDataModel';
 
+/**
+ * Represents an amount of a currency of the VeChainThor blockchain.
+ *
+ * @remarks The {@link bi} property expresses the amount in the smallest
+ * indivisible unit of the currency (the `wei` for VET and VTHO).
+ *
+ * @interface
+ */
 export interface Currency extends VeChainDataModel<Currency> {
+    /**
+     * Return the amount expressed in the smallest unit of the currency.
+     */
     get bi(): bigint;
 
+    /**
+     * Return the code of the currency, e.g. `VET` or `VTHO`.
+     */
     get code(): string;
 }
-
-// class Wei<Digits> implements Currency<Digits.wei> {
-// }
-
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-enum Digits {
-    wei,
-    kwei = 3,
-    mwei = 6,
-    gwei = 9,
-    szabo = 12,
-    finney = 15,
-    ether = 18
-}
@@ -0,0 +1,619 @@
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
+import { Hex } from './Hex';
+import { Txt } from './Txt';
+import { type VeChainDataModel } from './VeChainDataModel';
+
+/**
+ * Rounding modes applied when a {@link FixedPointNumber} operation
+ * can't represent its result with the requested fractional digits.
+ */
+enum RoundingMode {
+    /**
+     * Round away from zero.
+     */
+    UP,
+
+    /**
+     * Round towards zero (truncate).
+     */
+    DOWN,
+
+    /**
+     * Round towards positive infinity.
+     */
+    CEILING,
+
+    /**
+     * Round towards negative infinity.
+     */
+    FLOOR,
+
+    /**
+     * Round towards the nearest neighbor, away from zero if equidistant.
+     */
+    HALF_UP,
+
+    /**
+     * Round towards the nearest neighbor, towards zero if equidistant.
+     */
+    HALF_DOWN,
+
+    /**
+     * Round towards the nearest neighbor, towards the even neighbor if equidistant
+     * (banker's rounding).
+     */
+    HALF_EVEN,
+
+    /**
+     * Assert no rounding is necessary: throw an error if the result is not exact.
+     */
+    UNNECESSARY
+}
+
+/**
+ * Represents a decimal number with a fixed number of fractional digits.
+ *
+ * The value is held as the bigint {@link scaledValue} equal to the value
+ * multiplied by 10 powered to {@link fractionalDigits}: this makes additions,
+ * subtractions, multiplications and comparisons exact for any number of digits.
+ * Divisions and reductions of the fractional digits need an explicit {@link RoundingMode},
+ * by default {@link RoundingMode.UNNECESSARY} rejects any result that isn't exact,
+ * hence no value is silently rounded.
+ *
+ * @implements {VeChainDataModel<FixedPointNumber>}
+ */
+class FixedPointNumber implements VeChainDataModel<FixedPointNumber> {
+    /**
+     * Regular expression matching a decimal number, optionally signed,
+     * optionally expressed in scientific notation, e.g. `-1.5e-3`.
+     *
+     * @type {RegExp}
+     */
+    private static readonly REGEX_DECIMAL: RegExp =
+        /^([-+]?)(\d*)(?:\.(\d*))?(?:e([-+]?\d+))?$/i;
+
+    /**
+     * The greatest absolute exponent accepted in scientific notation,
+     * enough for any finite number, it bounds the size of the parsed scaled value.
+     *
+     * @type {number}
+     */
+    private static readonly MAX_EXPONENT: number = 1000;
+
+    /**
+     * The zero value.
+     *
+     * @type {FixedPointNumber}
+     */
+    public static readonly ZERO: FixedPointNumber = new FixedPointNumber(0n, 0);
+
+    /**
+     * The number of fractional digits of this value.
+     *
+     * @type {number}
+     */
+    public readonly fractionalDigits: number;
+
+    /**
+     * This value multiplied by 10 powered to {@link fractionalDigits}.
+     *
+     * @type {bigint}
+     */
+    public readonly scaledValue: bigint;
+
+    /**
+     * Creates a new instance of this class representing
+     * `scaledValue` divided by 10 powered to `fractionalDigits`.
+     *
+     * @param {bigint} scaledValue - The value multiplied by 10 powered to `fractionalDigits`.
+     * @param {number} fractionalDigits - The number of fractional digits.
+     */
+    protected constructor(scaledValue: bigint, fractionalDigits: number) {
+        this.scaledValue = scaledValue;
+        this.fractionalDigits = fractionalDigits;
+    }
+
+    /**
+     * Return this value cast to bigint.
+     *
+     * @return {bigint} The integer value.
+     *
+     * @throws {InvalidOperation} If this value has a not zero fractional part.
+     */
+    public get bi(): bigint {
+        if (this.isInteger()) {
+            return (
+                this.scaledValue /
+                FixedPointNumber.powerOfTen(this.fractionalDigits)
+            );
+        }
+        throw new InvalidOperation('FixedPointNumber.bi', 'not an integer', {
+            value: this.toString()
+        });
+    }
+
+    /**
+     * Return the bytes of the UTF-8 encoding of the decimal expression of this value.
+     *
+     * @return {Uint8Array} The bytes of {@link toString}.
+     */
+    public get bytes(): Uint8Array {
+        return Txt.of(this.toString()).bytes;
+    }
+
+    /**
+     * Return this value cast to number.
+     *
+     * @return {number} The closest IEEE 754 double precision number to this value.
+     *
+     * @remarks The result is approximated if this value can't be represented
+     * exactly as an IEEE 754 double precision number.
+     */
+    public get n(): number {
+        return Number(this.toString());
+    }
+
+    /**
+     * Return the absolute value of this value.
+     *
+     * @return {FixedPointNumber} The absolute value.
+     */
+    public abs(): FixedPointNumber {
+        return this.isNegative() ? this.negated() : this;
+    }
+
+    /**
+     * Return the exact sum of this value and `that`.
+     *
+     * @param {FixedPointNumber} that - The value to add.
+     *
+     * @return {FixedPointNumber} The sum, having the greatest fractional digits of the operands.
+     */
+    public add(that: FixedPointNumber): FixedPointNumber {
+        const fd = Math.max(this.fractionalDigits, that.fractionalDigits);
+        return new FixedPointNumber(this.scaleTo(fd) + that.scaleTo(fd), fd);
+    }
+
+    /**
+     * Compare this value with `that`.
+     *
+     * @param {FixedPointNumber} that - The value to compare.
+     *
+     * @return {number} A negative number if `this` < `that`, zero if `this` = `that`, a positive number if `this` > that`.
+     *
+     * @remarks The fractional digits are not meaningful: `1.0` is equal to `1.00`.
+     */
+    public compareTo(that: FixedPointNumber): number {
+        const fd = Math.max(this.fractionalDigits, that.fractionalDigits);
+        const delta = this.scaleTo(fd) - that.scaleTo(fd);
+        if (delta < 0n) {
+            return -1;
+        }
+        return delta === 0n ? 0 : 1;
+    }
+
+    /**
+     * Return this value divided by `that`, rounded to `fractionalDigits` according `roundingMode`.
+     *
+     * @param {FixedPointNumber} that - The divisor.
+     * @param {number} fractionalDigits - The fractional digits of the quotient.
+     * @param {RoundingMode} roundingMode - The rounding applied to the quotient.
+     *
+     * @return {FixedPointNumber} The quotient.
+     *
+     * @throws {InvalidOperation} If `that` is zero, or if the `roundingMode` is {@link RoundingMode.UNNECESSARY}
+     * and the quotient can't be expressed exactly with `fractionalDigits`.
+     * @throws {InvalidDataType} If `fractionalDigits` is not a positive integer.
+     */
+    public div(
+        that: FixedPointNumber,
+        fractionalDigits: number,
+        roundingMode: RoundingMode
+    ): FixedPointNumber {
+        FixedPointNumber.assertFractionalDigits(
+            'FixedPointNumber.div',
+            fractionalDigits
+        );
+        if (that.isZero()) {
+            throw new InvalidOperation(
+                'FixedPointNumber.div',
+                'division by zero',
+                { dividend: this.toString() }
+            );
+        }
+        const exponent =
+            fractionalDigits + that.fractionalDigits - this.fractionalDigits;
+        const dividend =
+            exponent > 0
+                ? this.scaledValue * FixedPointNumber.powerOfTen(exponent)
+                : this.scaledValue;
+        const divisor =
+            exponent < 0
+                ? that.scaledValue * FixedPointNumber.powerOfTen(-exponent)
+                : that.scaledValue;
+        return new FixedPointNumber(
+            FixedPointNumber.divRound(
+                'FixedPointNumber.div',
+                dividend,
+                divisor,
+                roundingMode
+            ),
+            fractionalDigits
+        );
+    }
+
+    /**
+     * Checks if this value is numerically equal to `that`.
+     *
+     * @param {FixedPointNumber} that - The value to compare.
+     *
+     * @return {boolean} True if the values are equal, false otherwise.
+     *
+     * @remarks The fractional digits are not meaningful: `1.0` is equal to `1.00`.
+     */
+    public isEqual(that: FixedPointNumber): boolean {
+        return this.compareTo(that) === 0;
+    }
+
+    /**
+     * Checks if this value has no fractional part.
+     *
+     * @return {boolean} True if this value is an integer, false otherwise.
+     */
+    public isInteger(): boolean {
+        return (
+            this.scaledValue %
+                FixedPointNumber.powerOfTen(this.fractionalDigits) ===
+            0n
+        );
+    }
+
+    /**
+     * Checks if this value is less than zero.
+     *
+     * @return {boolean} True if this value is negative, false otherwise.
+     */
+    public isNegative(): boolean {
+        return this.scaledValue < 0n;
+    }
+
+    /**
+     * Checks if this value is zero.
+     *
+     * @return {boolean} True if this value is zero, false otherwise.
+     */
+    public isZero(): boolean {
+        return this.scaledValue === 0n;
+    }
+
+    /**
+     * Return the exact product of this value and `that`.
+     *
+     * @param {FixedPointNumber} that - The multiplier.
+     *
+     * @return {FixedPointNumber} The product, having the sum of the fractional digits of the operands.
+     */
+    public mul(that: FixedPointNumber): FixedPointNumber {
+        return new FixedPointNumber(
+            this.scaledValue * that.scaledValue,
+            this.fractionalDigits + that.fractionalDigits
+        );
+    }
+
+    /**
+     * Return the opposite of this value.
+     *
+     * @return {FixedPointNumber} The value multiplied by -1.
+     */
+    public negated(): FixedPointNumber {
+        return new FixedPointNumber(-this.scaledValue, this.fractionalDigits);
+    }
+
+    /**
+     * Return this value expressed with `fractionalDigits`, rounded according `roundingMode`.
+     *
+     * @param {number} fractionalDigits - The fractional digits of the result.
+     * @param {RoundingMode} roundingMode - The rounding applied if the digits are reduced.
+     *
+     * @return {FixedPointNumber} The rounded value.
+     *
+     * @throws {InvalidOperation} If the `roundingMode` is {@link RoundingMode.UNNECESSARY}
+     * and this value can't be expressed exactly with `fractionalDigits`.
+     * @throws {InvalidDataType} If `fractionalDigits` is not a positive integer.
+     */
+    public round(
+        fractionalDigits: number,
+        roundingMode: RoundingMode
+    ): FixedPointNumber {
+        FixedPointNumber.assertFractionalDigits(
+            'FixedPointNumber.round',
+            fractionalDigits
+        );
+        if (fractionalDigits >= this.fractionalDigits) {
+            return new FixedPointNumber(
+                this.scaleTo(fractionalDigits),
+                fractionalDigits
+            );
+        }
+        return new FixedPointNumber(
+            FixedPointNumber.divRound(
+                'FixedPointNumber.round',
+                this.scaledValue,
+                FixedPointNumber.powerOfTen(
+                    this.fractionalDigits - fractionalDigits
+                ),
+                roundingMode
+            ),
+            fractionalDigits
+        );
+    }
+
+    /**
+     * Return the exact difference between this value and `that`.
+     *
+     * @param {FixedPointNumber} that - The value to subtract.
+     *
+     * @return {FixedPointNumber} The difference, having the greatest fractional digits of the operands.
+     */
+    public sub(that: FixedPointNumber): FixedPointNumber {
+        return this.add(that.negated());
+    }
+
+    /**
+     * Return the decimal expression of this value.
+     *
+     * @param {number} [fractionalDigits] - The fractional digits of the result,
+     * if omitted the minimum digits needed to express this value exactly are used,
+     * no decimal point is written for integer values.
+     * @param {RoundingMode} [roundingMode] - The rounding applied if `fractionalDigits`
+     * is less than the digits of this value, default {@link RoundingMode.UNNECESSARY}.
+     *
+     * @return {string} The decimal expression, e.g. `-1.05`.
+     *
+     * @throws {InvalidOperation} If the `roundingMode` is {@link RoundingMode.UNNECESSARY}
+     * and this value can't be expressed exactly with `fractionalDigits`.
+     * @throws {InvalidDataType} If `fractionalDigits` is not a positive integer.
+     */
+    public toString(
+        fractionalDigits?: number,
+        roundingMode: RoundingMode = RoundingMode.UNNECESSARY
+    ): string {
+        const fpn =
+            fractionalDigits === undefined
+                ? this.trim()
+                : this.round(fractionalDigits, roundingMode);
+        const digits = (fpn.isNegative() ? -fpn.scaledValue : fpn.scaledValue)
+            .toString()
+            .padStart(fpn.fractionalDigits + 1, '0');
+        const cue = digits.length - fpn.fractionalDigits;
+        return (
+            (fpn.isNegative() ? '-' : '') +
+            digits.slice(0, cue) +
+            (fpn.fractionalDigits > 0 ? '.' + digits.slice(cue) : '')
+        );
+    }
+
+    /**
+     * Checks if the given string expression is a valid decimal number,
+     * optionally signed and expressed in scientific notation
+     * with an absolute exponent not greater than {@link MAX_EXPONENT}.
+     *
+     * @param {string} exp - The expression to check.
+     *
+     * @return {boolean} True if `exp` is a decimal number, false otherwise.
+     */
+    public static isValid(exp: string): boolean {
+        const match = FixedPointNumber.REGEX_DECIMAL.exec(exp);
+        return (
+            match !== null &&
+            (match[2].length > 0 || (match[3] ?? '').length > 0) &&
+            Math.abs(Number(match[4] ?? 0)) <= FixedPointNumber.MAX_EXPONENT
+        );
+    }
+
+    /**
+     * Create a new FixedPointNumber from the given expression.
+     *
+     * @param {bigint | number | string | FixedPointNumber} exp - The value to represent:
+     * * bigint is an integer value;
+     * * number must be finite, it's represented by the shortest decimal expression
+     *   identifying it, e.g. `0.1` is exactly one tenth;
+     * * string is a decimal expression, see {@link isValid}, or a `0x` prefixed hexadecimal integer;
+     * * FixedPointNumber is copied.
+     * @param {number} [fractionalDigits] - The fractional digits of the result, if omitted
+     * the digits needed to express `exp` exactly are used.
+     *
+     * @return {FixedPointNumber} The new instance.
+     *
+     * @throws {InvalidDataType} If `exp` is not a valid decimal expression or
+     * it can't be represented exactly with `fractionalDigits`.
+     */
+    public static of(
+        exp: bigint | number | string | FixedPointNumber,
+        fractionalDigits?: number
+    ): FixedPointNumber {
+        try {
+            let fpn: FixedPointNumber;
+            if (exp instanceof FixedPointNumber) {
+                fpn = exp;
+            } else if (typeof exp === 'bigint') {
+                fpn = new FixedPointNumber(exp, 0);
+            } else if (typeof exp === 'number') {
+                if (!Number.isFinite(exp)) {
+                    // noinspection ExceptionCaughtLocallyJS
+                    throw new InvalidDataType(
+                        'FixedPointNumber.of',
+                        'not a finite number',
+                        { exp }
+                    );
+                }
+                fpn = FixedPointNumber.parse(exp.toString());
+            } else if (Hex.isValid0x(exp)) {
+                fpn = new FixedPointNumber(Hex.of(exp).bi, 0);
+            } else {
+                fpn = FixedPointNumber.parse(exp);
+            }
+            return fractionalDigits === undefined
+                ? fpn
+                : fpn.round(fractionalDigits, RoundingMode.UNNECESSARY);
+        } catch (e) {
+            throw new InvalidDataType(
+                'FixedPointNumber.of',
+                'not a fixed point number expression',
+                { exp: `${exp}`, fractionalDigits }, // Needed to serialize bigint values.
+                e
+            );
+        }
+    }
+
+    /**
+     * Throw an error if `fractionalDigits` is not a positive integer.
+     *
+     * @param {string} methodName - The name of the calling method.
+     * @param {number} fractionalDigits - The value to check.
+     *
+     * @throws {InvalidDataType} If `fractionalDigits` is not a positive integer.
+     */
+    private static assertFractionalDigits(
+        methodName: string,
+        fractionalDigits: number
+    ): void {
+        if (!Number.isSafeInteger(fractionalDigits) || fractionalDigits < 0) {
+            throw new InvalidDataType(
+                methodName,
+                'fractional digits not a positive integer',
+                { fractionalDigits }
+            );
+        }
+    }
+
+    /**
+     * Return `dividend` divided by `divisor` rounded to an integer according `roundingMode`.
+     *
+     * @param {string} methodName - The name of the calling method.
+     * @param {bigint} dividend - The dividend.
+     * @param {bigint} divisor - The divisor, not zero.
+     * @param {RoundingMode} roundingMode - The rounding applied to the quotient.
+     *
+     * @return {bigint} The rounded quotient.
+     *
+     * @throws {InvalidOperation} If the `roundingMode` is {@link RoundingMode.UNNECESSARY} and
+     * the quotient is not an integer.
+     */
+    private static divRound(
+        methodName: string,
+        dividend: bigint,
+        divisor: bigint,
+        roundingMode: RoundingMode
+    ): bigint {
+        const quotient = dividend / divisor; // Truncated towards zero.
+        const remainder = dividend % divisor;
+        if (remainder === 0n) {
+            return quotient;
+        }
+        const sign = dividend < 0n !== divisor < 0n ? -1n : 1n;
+        const absRemainder = remainder < 0n ? -remainder : remainder;
+        const absDivisor = divisor < 0n ? -divisor : divisor;
+        const half = 2n * absRemainder - absDivisor; // Sign of the distance from the middle.
+        switch (roundingMode) {
+            case RoundingMode.UP:
+                return quotient + sign;
+            case RoundingMode.DOWN:
+                return quotient;
+            case RoundingMode.CEILING:
+                return sign > 0n ? quotient + 1n : quotient;
+            case RoundingMode.FLOOR:
+                return sign < 0n ? quotient - 1n : quotient;
+            case RoundingMode.HALF_UP:
+                return half >= 0n ? quotient + sign : quotient;
+            case RoundingMode.HALF_DOWN:
+                return half > 0n ? quotient + sign : quotient;
+            case RoundingMode.HALF_EVEN:
+                return half > 0n || (half === 0n && quotient % 2n !== 0n)
+                    ? quotient + sign
+                    : quotient;
+            default:
+                throw new InvalidOperation(methodName, 'rounding necessary', {
+                    dividend: `${dividend}`, // Needed to serialize bigint values.
+                    divisor: `${divisor}`
+                });
+        }
+    }
+
+    /**
+     * Parse the decimal expression `exp`.
+     *
+     * @param {string} exp - A decimal expression, see {@link isValid}.
+     *
+     * @return {FixedPointNumber} The parsed value with the minimum fractional digits expressing it.
+     *
+     * @throws {InvalidDataType} If `exp` is not a valid decimal expression.
+     */
+    private static parse(exp: string): FixedPointNumber {
+        const match = FixedPointNumber.REGEX_DECIMAL.exec(exp);
+        if (match === null || !FixedPointNumber.isValid(exp)) {
+            throw new InvalidDataType(
+                'FixedPointNumber.parse',
+                'not a decimal expression',
+                { exp }
+            );
+        }
+        const fraction = match[3] ?? '';
+        const fractionalDigits = fraction.length - Number(match[4] ?? 0);
+        let scaledValue = BigInt((match[2] === '' ? '0' : match[2]) + fraction);
+        if (match[1] === '-') {
+            scaledValue = -scaledValue;
+        }
+        return fractionalDigits < 0
+            ? new FixedPointNumber(
+                  scaledValue * FixedPointNumber.powerOfTen(-fractionalDigits),
+                  0
+              )
+            : new FixedPointNumber(scaledValue, fractionalDigits);
+    }
+
+    /**
+     * Return 10 powered to `exponent`.
+     *
+     * @param {number} exponent - A positive integer.
+     *
+     * @return {bigint} 10^exponent.
+     */
+    private static powerOfTen(exponent: number): bigint {
+        return 10n ** BigInt(exponent);
+    }
+
+    /**
+     * Return the scaled value of this number expressed with `fractionalDigits`,
+     * not less than the {@link fractionalDigits} of this number.
+     *
+     * @param {number} fractionalDigits - The fractional digits to scale to.
+     *
+     * @return {bigint} The scaled value.
+     */
+    private scaleTo(fractionalDigits: number): bigint {
+        return (
+            this.scaledValue *
+            FixedPointNumber.powerOfTen(
+                fractionalDigits - this.fractionalDigits
+            )
+        );
+    }
+
+    /**
+     * Return this value expressed with the minimum fractional digits.
+     *
+     * @return {FixedPointNumber} The same value without trailing fractional zeros.
+     */
+    private trim(): FixedPointNumber {
+        let scaledValue = this.scaledValue;
+        let fractionalDigits = this.fractionalDigits;
+        while (fractionalDigits > 0 && scaledValue % 10n === 0n) {
+            scaledValue /= 10n;
+            fractionalDigits--;
+        }
+        return new FixedPointNumber(scaledValue, fractionalDigits);
+    }
+}
+
+export { FixedPointNumber, RoundingMode };
@@ -1,10 +1,12 @@
 import { Hex } from './Hex';
-import { InvalidDataType } from '@vechain/sdk-errors';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
 
 /**
  * Represents a hexadecimal signed integer value.
  *
  * @remarks This class makes equal instances created from the same value as number or as bigint.
+ * @remarks Arithmetic and bitwise operations return values expressed with at least the digits
+ * of the widest operand, bitwise operations follow the two's complement semantic of bigint.
  *
  * @extends {Hex}
  */
@@ -30,6 +32,254 @@ class HexInt extends Hex {
         });
     }
 
+    /**
+     * Return the sum of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to add.
+     *
+     * @return {HexInt} The sum.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    public add(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.add', that);
+        return HexInt.ofWidth(this.bi + hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return the bitwise AND of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to AND.
+     *
+     * @return {HexInt} The bitwise AND.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    public and(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.and', that);
+        return HexInt.ofWidth(this.bi & hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return the concatenation of the bytes of this value followed by the bytes of `that`.
+     *
+     * @param {Hex} that - The value to append, its bytes are aligned, see {@link Hex.alignToBytes}.
+     *
+     * @return {HexInt} The concatenated value.
+     *
+     * @throws {InvalidOperation} If this value or `that` is negative.
+     */
+    public concat(that: Hex): HexInt {
+        if (this.sign < Hex.POSITIVE || that.sign < Hex.POSITIVE) {
+            throw new InvalidOperation(
+                'HexInt.concat',
+                'negative values have no bytes to concatenate',
+                { this: this.toString(), that: that.toString() }
+            );
+        }
+        return new HexInt(
+            Hex.POSITIVE,
+            this.alignToBytes().digits + that.alignToBytes().digits
+        );
+    }
+
+    /**
+     * Return the remainder of the division of this value by `that`,
+     * having the sign of this value as the `%` operator of bigint.
+     *
+     * @param {bigint | number | Hex} that - The integer divisor.
+     *
+     * @return {HexInt} The remainder.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     * @throws {InvalidOperation} If `that` is zero.
+     */
+    public mod(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.mod', that);
+        if (hint.bi === 0n) {
+            throw new InvalidOperation('HexInt.mod', 'division by zero', {
+                this: this.toString()
+            });
+        }
+        return HexInt.ofWidth(this.bi % hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return the product of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to multiply by.
+     *
+     * @return {HexInt} The product.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    public mul(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.mul', that);
+        return HexInt.ofWidth(this.bi * hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return the bitwise OR of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to OR.
+     *
+     * @return {HexInt} The bitwise OR.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    public or(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.or', that);
+        return HexInt.ofWidth(this.bi | hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return this value padded on the left with zeros to be expressed by `bytes` bytes.
+     *
+     * @param {number} bytes - The number of bytes of the result.
+     *
+     * @return {HexInt} The padded value.
+     *
+     * @throws {InvalidDataType} If this value doesn't fit in `bytes` bytes.
+     */
+    public pad(bytes: number): HexInt {
+        const hex = this.fit(bytes * 2);
+        return new HexInt(hex.sign, hex.digits);
+    }
+
+    /**
+     * Return this value shifted left by `bits` bits.
+     *
+     * @param {number} bits - The number of bits to shift.
+     *
+     * @return {HexInt} The shifted value.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     */
+    public shl(bits: number): HexInt {
+        return HexInt.ofWidth(
+            this.bi << HexInt.bits('HexInt.shl', bits),
+            this.digits.length
+        );
+    }
+
+    /**
+     * Return this value shifted right by `bits` bits, preserving the sign.
+     *
+     * @param {number} bits - The number of bits to shift.
+     *
+     * @return {HexInt} The shifted value.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     */
+    public shr(bits: number): HexInt {
+        return HexInt.ofWidth(
+            this.bi >> HexInt.bits('HexInt.shr', bits),
+            this.digits.length
+        );
+    }
+
+    /**
+     * Return the difference between this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to subtract.
+     *
+     * @return {HexInt} The difference.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    public sub(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.sub', that);
+        return HexInt.ofWidth(this.bi - hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return the bitwise XOR of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to XOR.
+     *
+     * @return {HexInt} The bitwise XOR.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    public xor(that: bigint | number | Hex): HexInt {
+        const hint = HexInt.operand('HexInt.xor', that);
+        return HexInt.ofWidth(this.bi ^ hint.bi, this.width(hint));
+    }
+
+    /**
+     * Return the given number of bits to shift as bigint.
+     *
+     * @param {string} methodName - The name of the calling method.
+     * @param {number} bits - The number of bits.
+     *
+     * @return {bigint} The number of bits.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     */
+    private static bits(methodName: string, bits: number): bigint {
+        if (Number.isSafeInteger(bits) && bits >= 0) {
+            return BigInt(bits);
+        }
+        throw new InvalidDataType(methodName, 'bits not a positive integer', {
+            bits
+        });
+    }
+
+    /**
+     * Create a HexInt instance representing `bi` expressed with at least `digits` digits.
+     *
+     * @param {bigint} bi - The value.
+     * @param {number} digits - The minimum number of digits.
+     *
+     * @return {HexInt} The new HexInt instance.
+     */
+    private static ofWidth(bi: bigint, digits: number): HexInt {
+        const hex = Hex.of(bi);
+        return new HexInt(
+            hex.sign,
+            hex.digits.length < digits
+                ? hex.digits.padStart(digits, '0')
+                : hex.digits
+        );
+    }
+
+    /**
+     * Return the operand of an arithmetic or bitwise operation as HexInt.
+     *
+     * @param {string} methodName - The name of the calling method.
+     * @param {bigint | number | Hex} that - The operand.
+     *
+     * @return {HexInt} The operand as HexInt.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     */
+    private static operand(
+        methodName: string,
+        that: bigint | number | Hex
+    ): HexInt {
+        try {
+            return HexInt.of(that);
+        } catch (e) {
+            throw new InvalidDataType(
+                methodName,
+                'operand not an integer expression',
+                { that: `${that}` }, // Needed to serialize bigint values.
+                e
+            );
+        }
+    }
+
+    /**
+     * Return the digits of the widest between this value and `that`.
+     *
+     * @param {Hex} that - The other operand.
+     *
+     * @return {number} The number of digits of the widest operand.
+     */
+    private width(that: Hex): number {
+        return Math.max(this.digits.length, that.digits.length);
+    }
+
     /**
      * Create a HexInt instance from a bigint, number, string, Uint8Array, or {@link Hex}.
      *
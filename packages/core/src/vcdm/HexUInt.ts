@@ -1,10 +1,13 @@
 import { HexInt } from './HexInt';
 import { Hex } from './Hex';
-import { InvalidDataType } from '@vechain/sdk-errors';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
 
 /**
  * Represents a hexadecimal unsigned integer value.
  *
+ * @remarks Arithmetic and bitwise operations return HexUInt values,
+ * an operation resulting in a negative value throws {@link InvalidOperation}.
+ *
  * @extends HexInt
  */
 class HexUInt extends HexInt {
@@ -23,6 +26,171 @@ class HexUInt extends HexInt {
      */
     protected static readonly REGEX_HEXUINT_PREFIX: RegExp = /^0x/i;
 
+    /**
+     * Return the sum of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to add.
+     *
+     * @return {HexUInt} The sum.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.add}
+     */
+    public override add(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.add', super.add(that));
+    }
+
+    /**
+     * Return the bitwise AND of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to AND.
+     *
+     * @return {HexUInt} The bitwise AND.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     *
+     * @see {HexInt.and}
+     */
+    public override and(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.and', super.and(that));
+    }
+
+    /**
+     * Return the concatenation of the bytes of this value followed by the bytes of `that`.
+     *
+     * @param {Hex} that - The value to append.
+     *
+     * @return {HexUInt} The concatenated value.
+     *
+     * @throws {InvalidOperation} If `that` is negative.
+     *
+     * @see {HexInt.concat}
+     */
+    public override concat(that: Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.concat', super.concat(that));
+    }
+
+    /**
+     * Return the remainder of the division of this value by `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer divisor.
+     *
+     * @return {HexUInt} The remainder.
+     *
+     * @throws {InvalidOperation} If `that` is zero or if the result is negative.
+     *
+     * @see {HexInt.mod}
+     */
+    public override mod(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.mod', super.mod(that));
+    }
+
+    /**
+     * Return the product of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to multiply by.
+     *
+     * @return {HexUInt} The product.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.mul}
+     */
+    public override mul(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.mul', super.mul(that));
+    }
+
+    /**
+     * Return the bitwise OR of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to OR.
+     *
+     * @return {HexUInt} The bitwise OR.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.or}
+     */
+    public override or(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.or', super.or(that));
+    }
+
+    /**
+     * Return this value padded on the left with zeros to be expressed by `bytes` bytes.
+     *
+     * @param {number} bytes - The number of bytes of the result.
+     *
+     * @return {HexUInt} The padded value.
+     *
+     * @throws {InvalidDataType} If this value doesn't fit in `bytes` bytes.
+     *
+     * @see {HexInt.pad}
+     */
+    public override pad(bytes: number): HexUInt {
+        return HexUInt.ofResult('HexUInt.pad', super.pad(bytes));
+    }
+
+    /**
+     * Return this value shifted left by `bits` bits.
+     *
+     * @param {number} bits - The number of bits to shift.
+     *
+     * @return {HexUInt} The shifted value.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     *
+     * @see {HexInt.shl}
+     */
+    public override shl(bits: number): HexUInt {
+        return HexUInt.ofResult('HexUInt.shl', super.shl(bits));
+    }
+
+    /**
+     * Return this value shifted right by `bits` bits.
+     *
+     * @param {number} bits - The number of bits to shift.
+     *
+     * @return {HexUInt} The shifted value.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     *
+     * @see {HexInt.shr}
+     */
+    public override shr(bits: number): HexUInt {
+        return HexUInt.ofResult('HexUInt.shr', super.shr(bits));
+    }
+
+    /**
+     * Return the difference between this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to subtract.
+     *
+     * @return {HexUInt} The difference.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.sub}
+     */
+    public override sub(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.sub', super.sub(that));
+    }
+
+    /**
+     * Return the bitwise XOR of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to XOR.
+     *
+     * @return {HexUInt} The bitwise XOR.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.xor}
+     */
+    public override xor(that: bigint | number | Hex): HexUInt {
+        return HexUInt.ofResult('HexUInt.xor', super.xor(that));
+    }
+
     /**
      * Checks if the given string expression is a valid unsigned hexadecimal value.
      *
@@ -46,9 +214,9 @@ class HexUInt extends HexInt {
     }
 
     /**
-     * Create a HexUInt instance from a bigint, number, string, Uint8Array, or {@link HexInt}.
+     * Create a HexUInt instance from a bigint, number, string, Uint8Array, or {@link Hex}.
      *
-     * @param {bigint | number | string | Uint8Array | HexInt} exp - The expression to be interpreted as an unsigned integer:
+     * @param {bigint | number | string | Uint8Array | Hex} exp - The expression to be interpreted as an unsigned integer:
      * * bigint is always representable in hexadecimal base notation,
      *   it throws {@link InvalidDataType} if not positive;
      * * number is converted to a bigint then represented in hexadecimal base notation,
@@ -56,7 +224,7 @@ class HexUInt extends HexInt {
      * * string is parsed as the hexadecimal expression of a bigint value, optionally tagged with `0x`;
      *   it throws {@link InvalidDataType} if not positive;
      * * Uint8Array is interpreted as the sequence of bytes expressing a positive bigint value;
-     * * {@link HexInt} is interpreted as expressing a bigint value,
+     * * {@link Hex} is interpreted as expressing a bigint value,
      *   it throws {@link InvalidDataType} if not positive.
      *
      * @returns {HexUInt} he new HexInt object representing the given `exp`.
@@ -64,7 +232,7 @@ class HexUInt extends HexInt {
      * @throws {InvalidDataType} If the given expression is not a valid hexadecimal positive integer expression.
      */
     public static of(
-        exp: bigint | number | string | Uint8Array | HexInt
+        exp: bigint | number | string | Uint8Array | Hex
     ): HexUInt {
         try {
             const hint = HexInt.of(exp);
@@ -85,6 +253,25 @@ class HexUInt extends HexInt {
             );
         }
     }
+
+    /**
+     * Create a HexUInt instance from the result of an operation.
+     *
+     * @param {string} methodName - The name of the operation.
+     * @param {HexInt} hint - The result of the operation.
+     *
+     * @return {HexUInt} The result as HexUInt.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     */
+    private static ofResult(methodName: string, hint: HexInt): HexUInt {
+        if (hint.sign < Hex.POSITIVE) {
+            throw new InvalidOperation(methodName, 'negative result', {
+                result: hint.toString()
+            });
+        }
+        return new HexUInt(hint.sign, hint.digits);
+    }
 }
 
 export { HexUInt };
@@ -3,7 +3,16 @@ import {
     generateMnemonic,
     validateMnemonic
 } from '@scure/bip39';
-import { wordlist } from '@scure/bip39/wordlists/english';
+import { wordlist as czech } from '@scure/bip39/wordlists/czech';
+import { wordlist as english } from '@scure/bip39/wordlists/english';
+import { wordlist as french } from '@scure/bip39/wordlists/french';
+import { wordlist as italian } from '@scure/bip39/wordlists/italian';
+import { wordlist as japanese } from '@scure/bip39/wordlists/japanese';
+import { wordlist as korean } from '@scure/bip39/wordlists/korean';
+import { wordlist as portuguese } from '@scure/bip39/wordlists/portuguese';
+import { wordlist as simplifiedChinese } from '@scure/bip39/wordlists/simplified-chinese';
+import { wordlist as spanish } from '@scure/bip39/wordlists/spanish';
+import { wordlist as traditionalChinese } from '@scure/bip39/wordlists/traditional-chinese';
 import {
     InvalidDataType,
     InvalidHDNode,
@@ -12,6 +21,7 @@ import {
 } from '@vechain/sdk-errors';
 import { HDNode } from '../hdnode';
 import { Address } from './Address';
+import { VET_DERIVATION_PATH } from '../utils/const/hdnode';
 import { type VeChainDataModel } from './VeChainDataModel';
 
 /**
@@ -25,6 +35,22 @@ type WordlistSizeType = 12 | 15 | 18 | 21 | 24;
  */
 type WordListRandomGeneratorSizeInBytes = 16 | 20 | 24 | 28 | 32;
 
+/**
+ * Languages of the
+ * [BIP39 wordlists](https://github.com/bitcoin/bips/blob/master/bip-0039/bip-0039-wordlists.md).
+ */
+type MnemonicLanguage =
+    | 'czech'
+    | 'english'
+    | 'french'
+    | 'italian'
+    | 'japanese'
+    | 'korean'
+    | 'portuguese'
+    | 'simplified-chinese'
+    | 'spanish'
+    | 'traditional-chinese';
+
 class Mnemonic implements VeChainDataModel<Mnemonic> {
     /**
      * A TextEncoder instance used for encoding text to bytes.
@@ -33,6 +59,36 @@ class Mnemonic implements VeChainDataModel<Mnemonic> {
      */
     private static readonly ENCODER = new TextEncoder();
 
+    /**
+     * The BIP39 wordlists by language.
+     *
+     * @remarks The order matters when the language is detected from the words:
+     * the first wordlist containing all the words wins,
+     * e.g. most Chinese words belong to both simplified and traditional wordlists.
+     *
+     * @type {Record<MnemonicLanguage, string[]>}
+     */
+    private static readonly WORDLISTS: Record<MnemonicLanguage, string[]> = {
+        english,
+        czech,
+        french,
+        italian,
+        japanese,
+        korean,
+        portuguese,
+        'simplified-chinese': simplifiedChinese,
+        spanish,
+        'traditional-chinese': traditionalChinese
+    };
+
+    /**
+     * Regular expression matching the separators between words,
+     * Japanese mnemonics are separated by the ideographic space `U+3000`.
+     *
+     * @type {RegExp}
+     */
+    private static readonly REGEX_SEPARATOR: RegExp = /[\s\u3000]+/;
+
     /**
      * Throws an exception because the mnemonic cannot be represented as a big integer.
      * @returns {bigint} The BigInt representation of the mnemonic.
@@ -132,8 +188,9 @@ class Mnemonic implements VeChainDataModel<Mnemonic> {
      * @example `m/0/2`
      * @example `m/0/2/4/6`
      *
-     * @param {string[]} words - The set of words used for mnemonic generation.
+     * @param {string[]} words - The set of words used for mnemonic generation, in any BIP39 language.
      * @param {string} [path='m/0'] - The derivation path from the current node.
+     * @param {string} [passphrase=''] - The optional BIP39 passphrase, also known as the "25th word".
      *
      * @returns {Uint8Array} - The derived private key as a Uint8Array.
      *
@@ -144,9 +201,14 @@ class Mnemonic implements VeChainDataModel<Mnemonic> {
      */
     public static toPrivateKey(
         words: string[],
-        path: string = 'm/0'
+        path: string = 'm/0',
+        passphrase: string = ''
     ): Uint8Array {
-        const root = HDNode.fromMnemonic(words);
+        const root = HDNode.fromMnemonic(
+            words,
+            VET_DERIVATION_PATH,
+            passphrase
+        );
         // Any exception involving mnemonic words is thrown before this point: words are not leaked next.
         try {
             // Derived from root, private key is always available.
@@ -164,10 +226,11 @@ class Mnemonic implements VeChainDataModel<Mnemonic> {
     /**
      * Generates a
      * [BIP39 Mnemonic Words](https://github.com/bitcoin/bips/blob/master/bip-0039.mediawiki)
-     * phrase using the specified wordlist size and random generator.
+     * phrase using the specified wordlist size, random generator and language.
      *
      * @param {WordlistSizeType} wordlistSize The number of words to generate the mnemonic.
      * @param {function} [randomGenerator] The random generator function used to generate the entropy.
+     * @param {MnemonicLanguage} [language='english'] The language of the wordlist.
      *
      * @returns {Mnemonic} The generated mnemonic.
      *
@@ -183,24 +246,28 @@ class Mnemonic implements VeChainDataModel<Mnemonic> {
         wordlistSize: WordlistSizeType = 12,
         randomGenerator?: (
             numberOfBytes: WordListRandomGeneratorSizeInBytes
-        ) => Uint8Array
+        ) => Uint8Array,
+        language: MnemonicLanguage = 'english'
     ): string[] {
         try {
             const strength: number = Mnemonic.wordsNoToStrength(wordlistSize);
+            const wordlist = Mnemonic.wordlistOf('Mnemonic.of', language);
             if (randomGenerator != null) {
                 const numberOfBytes = (strength /
                     8) as WordListRandomGeneratorSizeInBytes;
                 return entropyToMnemonic(
                     randomGenerator(numberOfBytes),
                     wordlist
-                ).split(' ');
+                ).split(Mnemonic.REGEX_SEPARATOR);
             }
-            return generateMnemonic(wordlist, strength).split(' ');
+            return generateMnemonic(wordlist, strength).split(
+                Mnemonic.REGEX_SEPARATOR
+            );
         } catch (error) {
             throw new InvalidHDNodeMnemonic(
                 'Mnemonic.of',
                 'error while generating mnemonic',
-                { wordlistSize },
+                { wordlistSize, language },
                 error
             );
         }
@@ -210,15 +277,94 @@ class Mnemonic implements VeChainDataModel<Mnemonic> {
      * Check if the given mnemonic words are valid.
      *
      * @param {string | string[]} words The mnemonic words to check.
+     * @param {MnemonicLanguage} [language] The language of the wordlist,
+     * if omitted the words are valid if they are valid in any language.
      *
      * @returns {boolean} true if the words are valid, false otherwise.
      *
+     * @remarks Words are NFKD normalized and case-insensitive.
+     *
      * @remarks Security auditable method, depends on
      * * [validateMnemonic](https://github.com/paulmillr/scure-bip39).
      */
-    public static isValid(words: string | string[]): boolean {
-        const wordsToValidate = Array.isArray(words) ? words.join(' ') : words;
-        return validateMnemonic(wordsToValidate, wordlist);
+    public static isValid(
+        words: string | string[],
+        language?: MnemonicLanguage
+    ): boolean {
+        if (language === undefined) {
+            return Mnemonic.languageOf(words) !== null;
+        }
+        const wordlist = Mnemonic.WORDLISTS[language];
+        return (
+            wordlist !== undefined &&
+            validateMnemonic(Mnemonic.normalize(words), wordlist)
+        );
+    }
+
+    /**
+     * Detect the language of the given mnemonic words.
+     *
+     * @param {string | string[]} words The mnemonic words.
+     *
+     * @returns {MnemonicLanguage | null} The language of the wordlist the words are valid for,
+     * `null` if the words are not valid in any language.
+     *
+     * @remarks Words valid for both the simplified and the traditional Chinese wordlists
+     * are detected as `simplified-chinese`.
+     */
+    public static languageOf(
+        words: string | string[]
+    ): MnemonicLanguage | null {
+        const normalized = Mnemonic.normalize(words);
+        for (const language of Object.keys(
+            Mnemonic.WORDLISTS
+        ) as MnemonicLanguage[]) {
+            if (validateMnemonic(normalized, Mnemonic.WORDLISTS[language])) {
+                return language;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Normalize the given mnemonic words as a NFKD lower case phrase
+     * separated by single spaces.
+     *
+     * @param {string | string[]} words The mnemonic words.
+     *
+     * @returns {string} The normalized phrase.
+     */
+    private static normalize(words: string | string[]): string {
+        const phrase = Array.isArray(words) ? words.join(' ') : words;
+        return phrase
+            .normalize('NFKD')
+            .toLowerCase()
+            .trim()
+            .split(Mnemonic.REGEX_SEPARATOR)
+            .join(' ');
+    }
+
+    /**
+     * Return the wordlist of the given language.
+     *
+     * @param {string} methodName - The name of the calling method, used for errors.
+     * @param {MnemonicLanguage} language - The language of the wordlist.
+     *
+     * @returns {string[]} The wordlist.
+     *
+     * @throws {InvalidDataType} If the language is not supported.
+     */
+    private static wordlistOf(
+        methodName: string,
+        language: MnemonicLanguage
+    ): string[] {
+        const wordlist = Mnemonic.WORDLISTS[language];
+        if (wordlist === undefined) {
+            throw new InvalidDataType(methodName, 'not a supported language', {
+                language
+            });
+        }
+        return wordlist;
     }
 }
 
@@ -239,4 +385,8 @@ const mnemonic = {
 };
 
 export { Mnemonic, mnemonic };
-export type { WordListRandomGeneratorSizeInBytes, WordlistSizeType };
+export type {
+    MnemonicLanguage,
+    WordListRandomGeneratorSizeInBytes,
+    WordlistSizeType
+};
@@ -1,5 +1,6 @@
 import { HexUInt } from './HexUInt';
 import { InvalidDataType } from '@vechain/sdk-errors';
+import { type Hex } from './Hex';
 
 /**
  * Represents a hexadecimal numeric value compatible with the result of
@@ -12,9 +13,177 @@ import { InvalidDataType } from '@vechain/sdk-errors';
  * * the hexadecimal representation removes any not meaningful zero on the left side of the expression,
  * * represents only positive integers.
  *
+ * @remarks Arithmetic, bitwise and padding operations return Quantity values,
+ * hence expressed with the minimum digits.
+ *
  * @extends HexUInt
  */
 class Quantity extends HexUInt {
+    /**
+     * Return the sum of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to add.
+     *
+     * @return {Quantity} The sum.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.add}
+     */
+    public override add(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.add(that).bi);
+    }
+
+    /**
+     * Return the bitwise AND of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to AND.
+     *
+     * @return {Quantity} The bitwise AND.
+     *
+     * @throws {InvalidDataType} If `that` is not an integer expression.
+     *
+     * @see {HexInt.and}
+     */
+    public override and(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.and(that).bi);
+    }
+
+    /**
+     * Return the concatenation of the bytes of this value followed by the bytes of `that`.
+     *
+     * @param {Hex} that - The value to append.
+     *
+     * @return {Quantity} The concatenated value.
+     *
+     * @throws {InvalidOperation} If `that` is negative.
+     *
+     * @see {HexInt.concat}
+     */
+    public override concat(that: Hex): Quantity {
+        return Quantity.of(super.concat(that).bi);
+    }
+
+    /**
+     * Return the remainder of the division of this value by `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer divisor.
+     *
+     * @return {Quantity} The remainder.
+     *
+     * @throws {InvalidOperation} If `that` is zero or if the result is negative.
+     *
+     * @see {HexInt.mod}
+     */
+    public override mod(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.mod(that).bi);
+    }
+
+    /**
+     * Return the product of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to multiply by.
+     *
+     * @return {Quantity} The product.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.mul}
+     */
+    public override mul(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.mul(that).bi);
+    }
+
+    /**
+     * Return the bitwise OR of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to OR.
+     *
+     * @return {Quantity} The bitwise OR.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.or}
+     */
+    public override or(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.or(that).bi);
+    }
+
+    /**
+     * Check this value fits in `bytes` bytes.
+     *
+     * @param {number} bytes - The number of bytes the value must fit in.
+     *
+     * @return {Quantity} The same value, a Quantity is never padded.
+     *
+     * @throws {InvalidDataType} If this value doesn't fit in `bytes` bytes.
+     *
+     * @see {HexInt.pad}
+     */
+    public override pad(bytes: number): Quantity {
+        return Quantity.of(super.pad(bytes).bi);
+    }
+
+    /**
+     * Return this value shifted left by `bits` bits.
+     *
+     * @param {number} bits - The number of bits to shift.
+     *
+     * @return {Quantity} The shifted value.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     *
+     * @see {HexInt.shl}
+     */
+    public override shl(bits: number): Quantity {
+        return Quantity.of(super.shl(bits).bi);
+    }
+
+    /**
+     * Return this value shifted right by `bits` bits.
+     *
+     * @param {number} bits - The number of bits to shift.
+     *
+     * @return {Quantity} The shifted value.
+     *
+     * @throws {InvalidDataType} If `bits` is not a positive integer.
+     *
+     * @see {HexInt.shr}
+     */
+    public override shr(bits: number): Quantity {
+        return Quantity.of(super.shr(bits).bi);
+    }
+
+    /**
+     * Return the difference between this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to subtract.
+     *
+     * @return {Quantity} The difference.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.sub}
+     */
+    public override sub(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.sub(that).bi);
+    }
+
+    /**
+     * Return the bitwise XOR of this value and `that`.
+     *
+     * @param {bigint | number | Hex} that - The integer value to XOR.
+     *
+     * @return {Quantity} The bitwise XOR.
+     *
+     * @throws {InvalidOperation} If the result is negative.
+     *
+     * @see {HexInt.xor}
+     */
+    public override xor(that: bigint | number | Hex): Quantity {
+        return Quantity.of(super.xor(that).bi);
+    }
+
     /**
      * Creates a Quantity instance from a bigint or number given expression
      *
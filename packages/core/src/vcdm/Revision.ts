@@ -2,11 +2,14 @@ import { Txt } from './Txt';
 import { Hex } from './Hex';
 import { InvalidDataType } from '@vechain/sdk-errors';
 import { HexUInt } from './HexUInt';
+import { BlockId } from './BlockId';
+import { BlockRef } from './BlockRef';
 
 /**
  * Represents a revision for a Thor transaction or block.
  *
- * @remarks The string representation of the revision is always expressed as a number in base 10.
+ * @remarks The string representation of the revision is always expressed as a number in base 10,
+ * but for revisions created from a {@link BlockId}, expressed as the `0x` prefixed block ID.
  *
  * @extends Txt
  */
@@ -47,6 +50,8 @@ class Revision extends Txt {
      * Creates a new Revision object from the given value.
      *
      * @param {bigint | number | string | Uint8Array | Hex } value - The value to create the Revision from:
+     * * {@link BlockId} identifies the block by its ID;
+     * * {@link BlockRef} identifies the block by its number;
      * * {@link Hex} must be positive;
      * * {@link Uint8Array} is decoded as a string: see {@link Txt.of}.
      *
@@ -54,13 +59,18 @@ class Revision extends Txt {
      *
      *  @throws {InvalidDataType} if the given value is not a valid revision: see {@link isValid}.
      *
-     * @remarks The string representation of the revision is always expressed as a number in base 10.
+     * @remarks The string representation of the revision is always expressed as a number in base 10,
+     * but for {@link BlockId} values, expressed as the `0x` prefixed block ID.
      * @remarks The {@link Uint8Array} value is decoded as a string content: see {@link Txt.of}.
      */
     public static of(value: bigint | number | string | Uint8Array | Hex): Txt {
         try {
             let txt: string;
-            if (value instanceof Hex) {
+            if (value instanceof BlockId) {
+                txt = value.toString();
+            } else if (value instanceof BlockRef) {
+                txt = value.number.toString();
+            } else if (value instanceof Hex) {
                 txt = value.bi.toString();
             } else if (value instanceof Uint8Array) {
                 txt = Txt.of(value).toString();
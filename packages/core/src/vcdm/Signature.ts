@@ -0,0 +1,382 @@
+import * as n_utils from '@noble/curves/abstract/utils';
+import { secp256k1 as n_secp256k1 } from '@noble/curves/secp256k1';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
+import { Hex } from './Hex';
+import { type VeChainDataModel } from './VeChainDataModel';
+
+/**
+ * Represents a [secp256k1](https://en.bitcoin.it/wiki/Secp256k1) ECDSA signature
+ * as the `r`, `s` and `yParity` components.
+ *
+ * A signature can be serialized as
+ * * {@link bytes}: 65 bytes `r || s || yParity`, the form returned by {@link secp256k1.sign}
+ *   and expected by {@link secp256k1.recover} and by Thor transactions;
+ * * {@link legacyBytes}: 65 bytes `r || s || v`, where `v = 27 + yParity`, the form expected by
+ *   [EIP-191](https://eips.ethereum.org/EIPS/eip-191) and [EIP-712](https://eips.ethereum.org/EIPS/eip-712)
+ *   signatures and by the `ecrecover` precompiled contract;
+ * * {@link compactBytes}: 64 bytes `r || yParityAndS` as defined by
+ *   [EIP-2098](https://eips.ethereum.org/EIPS/eip-2098).
+ *
+ * @remarks The `s` component is kept as given: call {@link normalize} to get the
+ * equivalent signature with low `s`, as required by
+ * [EIP-2](https://eips.ethereum.org/EIPS/eip-2) and by the compact form.
+ *
+ * @implements {VeChainDataModel<Signature>}
+ */
+class Signature implements VeChainDataModel<Signature> {
+    /**
+     * Length in bytes of the `r` and `s` components.
+     *
+     * @type {number}
+     */
+    private static readonly COMPONENT_LENGTH = 32;
+
+    /**
+     * Length in bytes of the EIP-2098 compact form.
+     *
+     * @type {number}
+     */
+    public static readonly COMPACT_LENGTH = 2 * Signature.COMPONENT_LENGTH;
+
+    /**
+     * Length in bytes of the `r || s || v` form.
+     *
+     * @type {number}
+     */
+    public static readonly LENGTH = Signature.COMPACT_LENGTH + 1;
+
+    /**
+     * The `v` value of a signature having `yParity = 0` in the legacy form.
+     *
+     * @type {number}
+     */
+    private static readonly LEGACY_V_OFFSET = 27;
+
+    /**
+     * The order of the secp256k1 curve.
+     *
+     * @type {bigint}
+     */
+    private static readonly N = n_secp256k1.CURVE.n;
+
+    /**
+     * The highest `s` value of a low-s signature.
+     *
+     * @type {bigint}
+     */
+    private static readonly N_HALF = Signature.N >> 1n;
+
+    /**
+     * The `r` component of the signature.
+     *
+     * @type {bigint}
+     */
+    public readonly r: bigint;
+
+    /**
+     * The `s` component of the signature.
+     *
+     * @type {bigint}
+     */
+    public readonly s: bigint;
+
+    /**
+     * The parity of the Y coordinate of the curve point `r`, needed to recover the public key.
+     *
+     * @type {number}
+     */
+    public readonly yParity: 0 | 1;
+
+    /**
+     * Creates a new instance of this class.
+     *
+     * @param {bigint} r - The `r` component.
+     * @param {bigint} s - The `s` component.
+     * @param {number} yParity - The recovery bit.
+     */
+    protected constructor(r: bigint, s: bigint, yParity: 0 | 1) {
+        this.r = r;
+        this.s = s;
+        this.yParity = yParity;
+    }
+
+    /**
+     * Return the `r || s || yParity` form of this signature as a {@link bigint} value.
+     *
+     * @return {bigint} The value of {@link bytes} as unsigned big-endian integer.
+     */
+    get bi(): bigint {
+        return n_utils.bytesToNumberBE(this.bytes);
+    }
+
+    /**
+     * Return the 65 bytes `r || s || yParity` form of this signature,
+     * as returned by {@link secp256k1.sign}.
+     *
+     * @return {Uint8Array} The signature bytes.
+     */
+    get bytes(): Uint8Array {
+        return n_utils.concatBytes(
+            this.rBytes,
+            this.sBytes,
+            Uint8Array.of(this.yParity)
+        );
+    }
+
+    /**
+     * Return the 64 bytes [EIP-2098](https://eips.ethereum.org/EIPS/eip-2098) compact form of this signature,
+     * where the highest bit of `s` encodes {@link yParity}.
+     *
+     * @return {Uint8Array} The compact signature bytes.
+     *
+     * @throws {InvalidOperation} If this signature has a high `s`: call {@link normalize} first.
+     */
+    get compactBytes(): Uint8Array {
+        if (!this.isLowS) {
+            throw new InvalidOperation(
+                'Signature.compactBytes',
+                'high s value can not be encoded in compact form, normalize the signature first',
+                { signature: this.toString() }
+            );
+        }
+        const yParityAndS = this.sBytes;
+        yParityAndS[0] |= this.yParity << 7;
+        return n_utils.concatBytes(this.rBytes, yParityAndS);
+    }
+
+    /**
+     * Return `true` if {@link s} is in the lower half of the curve order, as required by
+     * [EIP-2](https://eips.ethereum.org/EIPS/eip-2).
+     *
+     * @return {boolean} `true` if this signature has low `s`.
+     */
+    get isLowS(): boolean {
+        return this.s <= Signature.N_HALF;
+    }
+
+    /**
+     * Return the 65 bytes `r || s || v` form of this signature, where `v` is {@link v}.
+     *
+     * @return {Uint8Array} The signature bytes as expected by EIP-191 and EIP-712 verifiers.
+     */
+    get legacyBytes(): Uint8Array {
+        return n_utils.concatBytes(
+            this.rBytes,
+            this.sBytes,
+            Uint8Array.of(this.v)
+        );
+    }
+
+    /**
+     * A signature can't be represented as a number.
+     *
+     * @throws {InvalidOperation} Always, use {@link bi}.
+     */
+    get n(): number {
+        throw new InvalidOperation('Signature.n', 'not a number', {
+            signature: this.toString()
+        });
+    }
+
+    /**
+     * Return the recovery value in the legacy form, `27` or `28`.
+     *
+     * @return {number} `27 + yParity`.
+     */
+    get v(): 27 | 28 {
+        return (Signature.LEGACY_V_OFFSET + this.yParity) as 27 | 28;
+    }
+
+    /**
+     * Return the `r` component as 32 bytes big-endian.
+     *
+     * @return {Uint8Array} The `r` bytes.
+     */
+    private get rBytes(): Uint8Array {
+        return n_utils.numberToBytesBE(this.r, Signature.COMPONENT_LENGTH);
+    }
+
+    /**
+     * Return the `s` component as 32 bytes big-endian.
+     *
+     * @return {Uint8Array} The `s` bytes.
+     */
+    private get sBytes(): Uint8Array {
+        return n_utils.numberToBytesBE(this.s, Signature.COMPONENT_LENGTH);
+    }
+
+    /**
+     * Compare this signature with `that` by their {@link bytes} form.
+     *
+     * @param {Signature} that - The signature to compare with.
+     *
+     * @return {number} A negative number if `this` < `that`, zero if `this` = `that`, a positive number if `this` > that`.
+     */
+    public compareTo(that: Signature): number {
+        const delta = this.bi - that.bi;
+        return delta < 0n ? -1 : delta === 0n ? 0 : 1;
+    }
+
+    /**
+     * Checks if this signature has the same components of `that`.
+     *
+     * @param {Signature} that - The signature to compare with.
+     *
+     * @return {boolean} `true` if the signatures are equal, `false` otherwise.
+     *
+     * @remarks A signature is not equal to its {@link normalize}d form.
+     */
+    public isEqual(that: Signature): boolean {
+        return (
+            this.r === that.r &&
+            this.s === that.s &&
+            this.yParity === that.yParity
+        );
+    }
+
+    /**
+     * Return the equivalent signature having low `s`.
+     *
+     * A secp256k1 signature `(r, s, yParity)` is valid as `(r, N - s, 1 - yParity)` too,
+     * where `N` is the order of the curve:
+     * [EIP-2](https://eips.ethereum.org/EIPS/eip-2) accepts only the `s <= N / 2` form
+     * to prevent signature malleability.
+     *
+     * @return {Signature} This signature if it has low `s` already, the equivalent low-s signature otherwise.
+     */
+    public normalize(): Signature {
+        return this.isLowS
+            ? this
+            : new Signature(
+                  this.r,
+                  Signature.N - this.s,
+                  (1 - this.yParity) as 0 | 1
+              );
+    }
+
+    /**
+     * Return the `0x` prefixed hexadecimal expression of the {@link bytes} form.
+     *
+     * @return {string} The hexadecimal expression of this signature.
+     */
+    public toString(): string {
+        return Hex.of(this.bytes).toString();
+    }
+
+    /**
+     * Checks if `exp` is a valid signature expression for {@link of}.
+     *
+     * @param {Hex | Uint8Array | string} exp - The expression to check.
+     *
+     * @return {boolean} `true` if `exp` can be parsed as a signature.
+     */
+    public static isValid(exp: Hex | Uint8Array | string): boolean {
+        try {
+            Signature.of(exp);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Creates a new Signature instance parsing `exp`.
+     *
+     * @param {Hex | Uint8Array | string} exp - The signature expression, either
+     * * 65 bytes `r || s || v`, where `v` is `0`, `1`, `27` or `28`, or
+     * * 64 bytes [EIP-2098](https://eips.ethereum.org/EIPS/eip-2098) compact form `r || yParityAndS`;
+     *
+     * if a string is given, it must be an hexadecimal expression, optionally `0x` prefixed.
+     *
+     * @return {Signature} The signature.
+     *
+     * @throws {InvalidDataType} If `exp` is not a valid signature expression.
+     */
+    public static of(exp: Hex | Uint8Array | string): Signature {
+        try {
+            const bytes =
+                exp instanceof Uint8Array
+                    ? exp
+                    : exp instanceof Hex
+                      ? exp.bytes
+                      : Hex.of(exp).bytes;
+            const r = n_utils.bytesToNumberBE(
+                bytes.slice(0, Signature.COMPONENT_LENGTH)
+            );
+            const sBytes = bytes.slice(
+                Signature.COMPONENT_LENGTH,
+                Signature.COMPACT_LENGTH
+            );
+            if (bytes.length === Signature.LENGTH) {
+                return Signature.ofRSV(
+                    r,
+                    n_utils.bytesToNumberBE(sBytes),
+                    bytes[Signature.COMPACT_LENGTH]
+                );
+            }
+            if (bytes.length === Signature.COMPACT_LENGTH) {
+                const yParity = sBytes[0] >> 7;
+                sBytes[0] &= 0x7f;
+                return Signature.ofRSV(
+                    r,
+                    n_utils.bytesToNumberBE(sBytes),
+                    yParity
+                );
+            }
+            throw new InvalidDataType(
+                'Signature.of',
+                `length must be ${Signature.LENGTH} or ${Signature.COMPACT_LENGTH} bytes`,
+                { length: bytes.length }
+            );
+        } catch (e) {
+            throw new InvalidDataType(
+                'Signature.of',
+                'not a signature expression',
+                {
+                    exp:
+                        exp instanceof Uint8Array
+                            ? Hex.of(exp).toString()
+                            : `${exp}`
+                },
+                e
+            );
+        }
+    }
+
+    /**
+     * Creates a new Signature instance from its components.
+     *
+     * @param {bigint} r - The `r` component, in the range `[1, N - 1]` where `N` is the order of the curve.
+     * @param {bigint} s - The `s` component, in the range `[1, N - 1]`.
+     * @param {number} v - The recovery value, either the `yParity` value `0` or `1`,
+     * or its legacy form `27` or `28`.
+     *
+     * @return {Signature} The signature.
+     *
+     * @throws {InvalidDataType} If any component is out of range.
+     */
+    public static ofRSV(r: bigint, s: bigint, v: number): Signature {
+        if (r < 1n || r >= Signature.N) {
+            throw new InvalidDataType('Signature.ofRSV', 'r out of range', {
+                r: `${r}` // Needed to serialize bigint values.
+            });
+        }
+        if (s < 1n || s >= Signature.N) {
+            throw new InvalidDataType('Signature.ofRSV', 's out of range', {
+                s: `${s}` // Needed to serialize bigint values.
+            });
+        }
+        const yParity =
+            v >= Signature.LEGACY_V_OFFSET ? v - Signature.LEGACY_V_OFFSET : v;
+        if (yParity !== 0 && yParity !== 1) {
+            throw new InvalidDataType(
+                'Signature.ofRSV',
+                'v must be 0, 1, 27 or 28',
+                { v }
+            );
+        }
+        return new Signature(r, s, yParity);
+    }
+}
+
+export { Signature };
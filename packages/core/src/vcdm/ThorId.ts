@@ -20,18 +20,18 @@ class ThorId extends HexUInt {
     /**
      * Constructs a ThorId object with the provided hexadecimal value.
      *
-     * @param {HexUInt} huint - The hexadecimal value representing the ThorId.
+     * @param {Hex} hex - The hexadecimal value representing the ThorId.
      *
      * @throws {InvalidDataType} - If the provided value is not a valid ThorId expression.
      */
-    protected constructor(huint: HexUInt) {
-        if (ThorId.isValid(huint.digits)) {
-            super(Hex.POSITIVE, huint.digits);
+    protected constructor(hex: Hex) {
+        if (ThorId.isValid(hex.digits)) {
+            super(Hex.POSITIVE, hex.digits);
         } else {
             throw new InvalidDataType(
                 'ThorId.constructor',
                 'not a ThorId expression',
-                { hex: huint }
+                { hex }
             );
         }
     }
@@ -0,0 +1,74 @@
+import { type WEI_UNITS } from '../utils/units/types';
+import { Coin } from './Coin';
+
+/**
+ * Represents an amount of VET, the native token of the VeChainThor blockchain.
+ *
+ * @extends {Coin}
+ */
+class VET extends Coin {
+    /**
+     * The code of the VET currency.
+     *
+     * @type {string}
+     */
+    public static readonly CODE: string = 'VET';
+
+    /**
+     * Creates a new instance of this class representing `wei` amount of VET.
+     *
+     * @param {bigint} wei - The amount expressed in wei.
+     */
+    protected constructor(wei: bigint) {
+        super(VET.CODE, wei);
+    }
+
+    /**
+     * Return a new VET instance representing the given amount in wei.
+     *
+     * @param {bigint} wei - The amount expressed in wei.
+     *
+     * @return {this} The new VET instance.
+     */
+    protected withWei(wei: bigint): this {
+        return new VET(wei) as this;
+    }
+
+    /**
+     * Creates a VET instance from an amount expressed in the given unit.
+     *
+     * @param {bigint | number | string} value - The amount, as a decimal number or string,
+     * a `0x` prefixed hexadecimal string is accepted too (e.g. `1.5` or `'1.5'` for 1.5 VET).
+     * @param {bigint | number | WEI_UNITS} digitsOrUnit - The decimals or the unit name of `value`,
+     * default `ether`, i.e. `value` is expressed in VET.
+     *
+     * @return {VET} The new VET instance.
+     *
+     * @throws {InvalidDataType} If `value` is not a valid amount expression or if it's finer than 1 wei.
+     *
+     * @see {unitsUtils.parseUnits}
+     */
+    public static of(
+        value: bigint | number | string,
+        digitsOrUnit: bigint | number | WEI_UNITS = 'ether'
+    ): VET {
+        return new VET(Coin.parseUnits('VET.of', value, digitsOrUnit));
+    }
+
+    /**
+     * Creates a VET instance from an amount expressed in wei.
+     *
+     * @param {bigint | number | string} wei - The amount in wei, a string can be a decimal integer
+     * or a `0x` prefixed hexadecimal expression, as the `balance` property returned by
+     * the Thor `GET /accounts/{address}` endpoint.
+     *
+     * @return {VET} The new VET instance.
+     *
+     * @throws {InvalidDataType} If `wei` is not an integer expression.
+     */
+    public static ofWei(wei: bigint | number | string): VET {
+        return new VET(Coin.parseWei('VET.ofWei', wei));
+    }
+}
+
+export { VET };
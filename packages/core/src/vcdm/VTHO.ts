@@ -0,0 +1,74 @@
+import { type WEI_UNITS } from '../utils/units/types';
+import { Coin } from './Coin';
+
+/**
+ * Represents an amount of VTHO, the energy token of the VeChainThor blockchain paying for the gas.
+ *
+ * @extends {Coin}
+ */
+class VTHO extends Coin {
+    /**
+     * The code of the VTHO currency.
+     *
+     * @type {string}
+     */
+    public static readonly CODE: string = 'VTHO';
+
+    /**
+     * Creates a new instance of this class representing `wei` amount of VTHO.
+     *
+     * @param {bigint} wei - The amount expressed in wei.
+     */
+    protected constructor(wei: bigint) {
+        super(VTHO.CODE, wei);
+    }
+
+    /**
+     * Return a new VTHO instance representing the given amount in wei.
+     *
+     * @param {bigint} wei - The amount expressed in wei.
+     *
+     * @return {this} The new VTHO instance.
+     */
+    protected withWei(wei: bigint): this {
+        return new VTHO(wei) as this;
+    }
+
+    /**
+     * Creates a VTHO instance from an amount expressed in the given unit.
+     *
+     * @param {bigint | number | string} value - The amount, as a decimal number or string,
+     * a `0x` prefixed hexadecimal string is accepted too (e.g. `1.5` or `'1.5'` for 1.5 VTHO).
+     * @param {bigint | number | WEI_UNITS} digitsOrUnit - The decimals or the unit name of `value`,
+     * default `ether`, i.e. `value` is expressed in VTHO.
+     *
+     * @return {VTHO} The new VTHO instance.
+     *
+     * @throws {InvalidDataType} If `value` is not a valid amount expression or if it's finer than 1 wei.
+     *
+     * @see {unitsUtils.parseUnits}
+     */
+    public static of(
+        value: bigint | number | string,
+        digitsOrUnit: bigint | number | WEI_UNITS = 'ether'
+    ): VTHO {
+        return new VTHO(Coin.parseUnits('VTHO.of', value, digitsOrUnit));
+    }
+
+    /**
+     * Creates a VTHO instance from an amount expressed in wei.
+     *
+     * @param {bigint | number | string} wei - The amount in wei, a string can be a decimal integer
+     * or a `0x` prefixed hexadecimal expression, as the `energy` property returned by
+     * the Thor `GET /accounts/{address}` endpoint.
+     *
+     * @return {VTHO} The new VTHO instance.
+     *
+     * @throws {InvalidDataType} If `wei` is not an integer expression.
+     */
+    public static ofWei(wei: bigint | number | string): VTHO {
+        return new VTHO(Coin.parseWei('VTHO.ofWei', wei));
+    }
+}
+
+export { VTHO };
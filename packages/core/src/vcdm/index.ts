@@ -1,7 +1,11 @@
 export * from './account';
 export * from './Address';
+export * from './BlockId';
+export * from './BlockRef';
 export * from './BloomFilter';
+export * from './Coin';
 export * from './Currency';
+export * from './FixedPointNumber';
 export * from './Hash';
 export * from './Hex';
 export * from './HexInt';
@@ -9,6 +13,9 @@ export * from './HexUInt';
 export * from './Mnemonic';
 export * from './Quantity';
 export * from './Revision';
+export * from './Signature';
 export * from './ThorId';
 export * from './Txt';
+export * from './VET';
+export * from './VTHO';
 export * from './VeChainDataModel';
@@ -10,7 +10,7 @@ import {
     topicsEventTestCases
 } from './fixture';
 import { abi, type FormatType } from '../../src';
-import { type ethers, ParamType } from 'ethers';
+import { ethers, ParamType } from 'ethers';
 import {
     InvalidAbiDataToEncodeOrDecode,
     InvalidAbiFragment,
@@ -223,6 +223,46 @@ describe('Abi - Function & Event', () => {
                 });
         });
 
+        /**
+         * Decoded as ethers does, tuples and arrays as Result readable by name.
+         */
+        test('Decode input and output as ethers', () => {
+            const signature =
+                'function f((address a, uint8[] b)[] list, string s) returns ((bool ok, bytes data) r, bytes4[2] tags)';
+            const myFunction = new abi.Function(signature);
+            const iface = new ethers.Interface([signature]);
+            const input = myFunction.encodeInput([
+                [
+                    ['0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed', [1, 2]],
+                    ['0x0000000000000000000000000000456E65726779', []]
+                ],
+                'café'
+            ]);
+            const output = iface.encodeFunctionResult('f', [
+                [true, '0x0102'],
+                ['0x01020304', '0x05060708']
+            ]);
+            [
+                {
+                    decoded: myFunction.decodeInput(input),
+                    expected: iface.decodeFunctionData('f', input)
+                },
+                {
+                    decoded: myFunction.decodeOutput(output),
+                    expected: iface.decodeFunctionResult('f', output)
+                }
+            ].forEach(({ decoded, expected }) => {
+                expect(decoded).toEqual(expected);
+                expect(decoded.toObject(true)).toEqual(expected.toObject(true));
+            });
+            const [list] = myFunction.decodeInput(input) as unknown as [
+                Array<{ a: string }>
+            ];
+            expect(list[0].a).toBe(
+                '0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed'
+            );
+        });
+
         /**
          * Test case for parameters encoding.
          *
@@ -282,6 +322,12 @@ describe('Abi - Function & Event', () => {
             expect(() => myFunction.decodeInput('INVALID')).toThrowError(
                 InvalidAbiDataToEncodeOrDecode
             );
+            expect(() =>
+                myFunction.decodeInput('0x00000000' + '00'.repeat(96))
+            ).toThrowError(InvalidAbiDataToEncodeOrDecode);
+            expect(() => myFunction.decodeOutput('0x08c379a0')).toThrowError(
+                InvalidAbiDataToEncodeOrDecode
+            );
         });
 
         /**
@@ -385,6 +431,39 @@ describe('Abi - Function & Event', () => {
                 });
         });
 
+        /**
+         * Decoded as ethers does, the indexed strings, byte sequences, tuples and arrays as Indexed.
+         */
+        test('Decode event log as ethers', () => {
+            const signature =
+                'event E(address indexed from, string indexed note, (uint8 a, bool b) indexed t, int16 indexed n, uint256[] values, (string c, bytes d) info)';
+            const myEvent = new abi.Event(signature);
+            const log = myEvent.encodeEventLog([
+                '0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed',
+                'note',
+                [1, true],
+                -2,
+                [3, 4],
+                ['c', '0x0d']
+            ]);
+            const decoded = myEvent.decodeEventLog(log);
+            const expected = new ethers.Interface([signature]).decodeEventLog(
+                'E',
+                log.data,
+                log.topics
+            );
+            expect(decoded).toEqual(expected);
+            expect(decoded.toObject(true)).toEqual(expected.toObject(true));
+            expect(decoded.note).toBeInstanceOf(ethers.Indexed);
+            expect(decoded.n).toBe(-2n);
+            expect(() =>
+                myEvent.decodeEventLog({
+                    data: log.data,
+                    topics: [ethers.ZeroHash, ...log.topics.slice(1)]
+                })
+            ).toThrowError(InvalidAbiDataToEncodeOrDecode);
+        });
+
         /**
          * Invalid event
          */
@@ -456,5 +535,55 @@ describe('Abi - Function & Event', () => {
                 });
             }
         );
+
+        /**
+         * Event topics matching any of the values, as ethers does
+         */
+        test('Encode Event topics - any of the values', () => {
+            const ev = new abi.Event(
+                'event Transfer(address indexed from, address indexed to, uint256 value)'
+            );
+            const addresses = [
+                '0x0000000000000000000000000000000000000001',
+                '0x0000000000000000000000000000000000000002'
+            ];
+            expect(ev.encodeFilterTopics([null, addresses])).toStrictEqual(
+                ev.iface
+                    .encodeFilterTopics(ev.fragment, [null, addresses])
+                    .map((topic) => topic ?? undefined)
+            );
+        });
+
+        /**
+         * Fragment and interface of ethers built when first read
+         */
+        test('ethers fragment and interface built when first read', () => {
+            const ev = new abi.Event(events[0].full);
+            const fn = new abi.Function(functions[0].objectAbi);
+            expect(ev.fragment).toBe(ev.fragment);
+            expect(ev.iface).toBe(ev.iface);
+            expect(ev.fragment.topicHash).toBe(ev.signatureHash());
+            expect(fn.fragment).toBe(fn.fragment);
+            expect(fn.iface).toBe(fn.iface);
+            expect(fn.fragment.selector).toBe(fn.signatureHash());
+        });
+
+        /**
+         * JSON fragment with invalid parameter types
+         */
+        test('Invalid JSON fragment', () => {
+            [
+                { type: 'event', inputs: [] },
+                {
+                    type: 'event',
+                    name: 'Transfer',
+                    inputs: [{ name: 'from', type: 'address[' }]
+                }
+            ].forEach((fragment) => {
+                expect(() => new abi.Event(fragment)).toThrowError(
+                    InvalidAbiFragment
+                );
+            });
+        });
     });
 });
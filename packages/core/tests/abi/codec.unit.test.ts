@@ -0,0 +1,410 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { ethers } from 'ethers';
+import { abi } from '../../src';
+import { encodedDecodedValues, functions } from './fixture';
+
+/**
+ * The addresses of the fixture.
+ */
+const owner = '0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed';
+const energy = '0x0000000000000000000000000000456E65726779';
+
+/**
+ * Values of tuples, dynamic arrays, fixed bytes and signed integers, encoded the same way by ethers.
+ */
+const fixture = [
+    {
+        types: 'address to, uint256 value',
+        values: [owner, 10n ** 18n]
+    },
+    {
+        types: 'int8, int64, int256, uint8',
+        values: [-1, -(2n ** 63n), 2n ** 255n - 1n, 255]
+    },
+    {
+        types: 'bytes1, bytes4, bytes32, bool, bool',
+        values: ['0x42', '0xa9059cbb', '0x' + 'ab'.repeat(32), true, false]
+    },
+    {
+        types: 'string, bytes, string, bytes',
+        values: ['café', '0x010203', '', '0x']
+    },
+    {
+        types: 'uint16[], address[2], string[], bytes[1]',
+        values: [
+            [1, 2, 3],
+            [owner, energy],
+            ['a', 'bc'],
+            ['0x' + 'ff'.repeat(33)]
+        ]
+    },
+    {
+        types: '(address token, uint256 amount)[] legs, (string,(bool,bytes4)[2])',
+        values: [
+            [
+                [energy, 1],
+                [owner, 2]
+            ],
+            [
+                'note',
+                [
+                    [true, '0x01020304'],
+                    [false, '0x05060708']
+                ]
+            ]
+        ]
+    },
+    {
+        types: 'uint8[2][], (uint8[],string)[3]',
+        values: [
+            [
+                [1, 2],
+                [3, 4]
+            ],
+            [
+                [[], ''],
+                [[5], 'six'],
+                [[7, 8], 'nine']
+            ]
+        ]
+    },
+    {
+        types: '',
+        values: []
+    }
+];
+
+/**
+ * Returns the values decoded by ethers as plain arrays.
+ */
+function arraysOf(value: unknown): unknown {
+    return Array.isArray(value) ? value.map(arraysOf) : value;
+}
+
+/**
+ * Unit tests of the native ABI codec.
+ *
+ * @group unit/encode-decode
+ */
+describe('abi.encodeParameters and abi.decodeParameters', () => {
+    fixture.forEach(({ types, values }) => {
+        test(`Ok <- same encoding as ethers for ${types}`, () => {
+            const parameters = abi.parseParameters(types);
+            const encoded = abi.encodeParameters(parameters, values);
+            const ethersParameters = parameters.map((parameter) =>
+                ethers.ParamType.from(parameter)
+            );
+            expect(encoded).toBe(
+                ethers.AbiCoder.defaultAbiCoder().encode(
+                    ethersParameters,
+                    values
+                )
+            );
+            expect(abi.decodeParameters(parameters, encoded)).toEqual(
+                arraysOf(
+                    ethers.AbiCoder.defaultAbiCoder().decode(
+                        ethersParameters,
+                        encoded
+                    )
+                )
+            );
+        });
+    });
+
+    test('Ok <- vectors of the fixture', () => {
+        encodedDecodedValues.forEach(({ type, value, encoded }) => {
+            const parameters = abi.parseParameters(type);
+            expect(abi.encodeParameters(parameters, [value])).toBe(encoded);
+            expect(
+                abi.decodeParameters(parameters, ethers.getBytes(encoded))
+            ).toEqual([type === 'uint256' ? BigInt(value as string) : value]);
+        });
+        functions.forEach(({ objectAbi, encodingTestsInputs }) => {
+            const fragment = ethers.FunctionFragment.from(objectAbi);
+            encodingTestsInputs.forEach((inputs) => {
+                expect(abi.encodeParameters(objectAbi.inputs, inputs)).toBe(
+                    '0x' +
+                        new ethers.Interface([fragment])
+                            .encodeFunctionData(fragment, inputs)
+                            .slice(10)
+                );
+            });
+        });
+    });
+
+    test('Ok <- tuples as objects, decoded values readable by name', () => {
+        const parameters = abi.parseParameters(
+            '(address master, bytes32 identity, bool active)[] list, uint8'
+        );
+        const list = [
+            { master: owner, identity: '0x' + '01'.repeat(32), active: true }
+        ];
+        const encoded = abi.encodeParameters(parameters, [list, 7]);
+        const decoded = abi.decodeParameters(parameters, encoded) as unknown[] &
+            Record<string, Array<unknown[] & Record<string, unknown>>>;
+        expect(decoded).toEqual([[[owner, list[0].identity, true]], 7n]);
+        expect(decoded.list[0].master).toBe(owner);
+        expect(decoded.list[0].active).toBe(true);
+        expect(Object.keys(decoded.list[0])).toEqual(['0', '1', '2']);
+    });
+
+    test('Ok <- values typed after the parameters declared as const', () => {
+        const parameters = [
+            { name: 'to', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'flags', type: 'uint8[]' },
+            {
+                name: 'info',
+                type: 'tuple',
+                components: [
+                    { name: 'active', type: 'bool' },
+                    { name: 'tag', type: 'bytes4' }
+                ]
+            }
+        ] as const;
+        const encoded = abi.encodeParameters(parameters, [
+            owner,
+            1n,
+            [1, 2],
+            { active: true, tag: '0x01020304' }
+        ]);
+        const [to, value, flags, info] = abi.decodeParameters(
+            parameters,
+            encoded
+        );
+        // Every integer is typed and decoded as bigint, uint8 included.
+        const typed: [string, bigint, readonly bigint[], boolean, string] = [
+            to,
+            value,
+            flags,
+            info.active,
+            info.tag
+        ];
+        expect(typed).toEqual([owner, 1n, [1n, 2n], true, '0x01020304']);
+        expect(() =>
+            abi.encodeParameters(
+                [{ name: 'value', type: 'uint256' }],
+                [
+                    // @ts-expect-error - a boolean is not a uint256 value.
+                    true
+                ]
+            )
+        ).toThrowError(InvalidAbiDataToEncodeOrDecode);
+    });
+
+    test('Ok <- addresses lowercase or uppercase, decoded checksummed', () => {
+        const parameters = abi.parseParameters('address, address');
+        const encoded = abi.encodeParameters(parameters, [
+            owner.toLowerCase(),
+            '0x' + energy.slice(2).toUpperCase()
+        ]);
+        expect(abi.decodeParameters(parameters, encoded)).toEqual([
+            owner,
+            energy
+        ]);
+    });
+
+    [
+        {
+            types: 'uint8',
+            values: [1, 2],
+            error: 'values must have 1 elements, one for each parameter'
+        },
+        {
+            types: 'uint8 value',
+            values: [256],
+            error: 'values[0] is out of the range of uint8'
+        },
+        {
+            types: 'int8',
+            values: [-129],
+            error: 'values[0] is out of the range of int8'
+        },
+        {
+            types: 'uint256',
+            values: ['1.5'],
+            error: 'values[0] is not an integer'
+        },
+        {
+            types: 'address',
+            values: [owner.replace('D83', 'd83')],
+            error: 'values[0] has an invalid checksum'
+        },
+        {
+            types: 'address',
+            values: ['0x1234'],
+            error: 'values[0] is not an address'
+        },
+        {
+            types: 'bool',
+            values: [1],
+            error: 'values[0] is not a boolean'
+        },
+        {
+            types: 'bytes4',
+            values: ['0x010203'],
+            error: 'values[0] is not a sequence of 4 bytes'
+        },
+        {
+            types: 'bytes',
+            values: ['0x123'],
+            error: 'values[0] is not a byte sequence'
+        },
+        {
+            types: 'string',
+            values: [1],
+            error: 'values[0] is not a string'
+        },
+        {
+            types: 'uint8[2]',
+            values: [[1]],
+            error: 'values[0] must have 2 elements'
+        },
+        {
+            types: '(uint8 a, (bool b, string c)[] d)',
+            values: [{ a: 1, d: [{ b: true }] }],
+            error: "values[0].d[0] is missing the component 'c'"
+        },
+        {
+            types: '(uint8,bool)',
+            values: [{ a: 1 }],
+            error: 'values[0] has unnamed components, it must be an array'
+        },
+        {
+            types: '(uint8,bool)',
+            values: [[1]],
+            error: 'values[0] must have 2 components'
+        }
+    ].forEach(({ types, values, error }) => {
+        test(`Exception <- encoding, ${error}`, () => {
+            const parameters = abi.parseParameters(types);
+            expect(() => abi.encodeParameters(parameters, values)).toThrowError(
+                InvalidAbiDataToEncodeOrDecode
+            );
+            expect(() => abi.encodeParameters(parameters, values)).toThrowError(
+                error
+            );
+        });
+    });
+
+    test('Exception <- encoding, type not valid', () => {
+        expect(() =>
+            abi.encodeParameters([{ type: 'uint7' }], [1])
+        ).toThrowError("type 'uint7' is not a valid ABI type");
+        expect(() =>
+            abi.encodeParameters([{ type: 'tuple' }], [[1]])
+        ).toThrowError("type 'tuple' is not a valid ABI type");
+    });
+
+    [
+        {
+            types: 'uint256',
+            data: '0x' + '00'.repeat(31),
+            error: 'values[0] is out of the bounds of the data'
+        },
+        {
+            types: 'string',
+            data: '0x' + '00'.repeat(31) + '40',
+            error: 'values[0] is out of the bounds of the data'
+        },
+        {
+            types: 'bytes',
+            data:
+                '0x' +
+                '00'.repeat(31) +
+                '20' +
+                '00'.repeat(31) +
+                '21' +
+                'ff'.repeat(32),
+            error: 'values[0] is out of the bounds of the data'
+        },
+        {
+            types: 'uint8[]',
+            data: '0x' + '00'.repeat(31) + '20' + 'ff'.repeat(32),
+            error: 'values[0] is out of the bounds of the data'
+        },
+        {
+            types: 'address',
+            data: '0x' + '00'.repeat(11) + '01' + 'ff'.repeat(20),
+            error: 'values[0] is not an address'
+        },
+        {
+            types: 'string',
+            data:
+                '0x' +
+                '00'.repeat(31) +
+                '20' +
+                '00'.repeat(31) +
+                '01' +
+                'ff' +
+                '00'.repeat(31),
+            error: 'values[0] is not a valid UTF-8 string'
+        },
+        {
+            types: 'uint256',
+            data: '0x123',
+            error: 'data is not a byte sequence'
+        }
+    ].forEach(({ types, data, error }) => {
+        test(`Exception <- decoding, ${error}`, () => {
+            const parameters = abi.parseParameters(types);
+            expect(() => abi.decodeParameters(parameters, data)).toThrowError(
+                InvalidAbiDataToEncodeOrDecode
+            );
+            expect(() => abi.decodeParameters(parameters, data)).toThrowError(
+                error
+            );
+        });
+    });
+});
+
+/**
+ * Unit tests of the topics of the indexed parameters.
+ *
+ * @group unit/encode-decode
+ */
+describe('abi.encodeTopic', () => {
+    test('Ok <- same topics as ethers for elementary values, strings and bytes', () => {
+        const event = ethers.EventFragment.from(
+            'event E(address indexed a, int8 indexed b, string indexed c, bytes indexed d)'
+        );
+        const values = [owner, -1, 'café', '0x010203'];
+        expect(
+            event.inputs.map((input, index) =>
+                abi.encodeTopic(
+                    { type: input.type, name: input.name },
+                    values[index]
+                )
+            )
+        ).toEqual(
+            new ethers.Interface([event])
+                .encodeEventLog(event, values)
+                .topics.slice(1)
+        );
+    });
+
+    test('Ok <- tuples and arrays hashed in place', () => {
+        const [tuple, array] = abi.parseParameters(
+            '(uint8, string, bytes2[]) a, string[2] b'
+        );
+        const word = (hex: string): string => hex.padStart(64, '0');
+        expect(abi.encodeTopic(tuple, [1, 'a', ['0x0102']])).toBe(
+            ethers.keccak256(
+                '0x' + word('1') + '61'.padEnd(64, '0') + '0102'.padEnd(64, '0')
+            )
+        );
+        expect(abi.encodeTopic(array, ['', 'b'])).toBe(
+            ethers.keccak256('0x' + '62'.padEnd(64, '0'))
+        );
+    });
+
+    test('Exception <- value not matching its type', () => {
+        expect(() => abi.encodeTopic({ type: 'string' }, 1)).toThrowError(
+            'value is not a string'
+        );
+        expect(() => abi.encodeTopic({ type: 'uint8[2]' }, [1])).toThrowError(
+            'value must have 2 elements'
+        );
+    });
+});
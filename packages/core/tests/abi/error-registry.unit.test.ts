@@ -0,0 +1,192 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { ethers } from 'ethers';
+import { ErrorRegistry } from '../../src';
+
+/**
+ * The ABI of a vault, declaring custom errors.
+ */
+const vaultAbi = [
+    {
+        type: 'error',
+        name: 'InsufficientBalance',
+        inputs: [
+            { name: 'available', type: 'uint256' },
+            { name: 'required', type: 'uint256' }
+        ]
+    },
+    { type: 'error', name: 'Unauthorized', inputs: [] },
+    {
+        type: 'function',
+        name: 'withdraw',
+        inputs: [{ name: 'amount', type: 'uint256' }],
+        outputs: [],
+        stateMutability: 'nonpayable'
+    }
+];
+
+/**
+ * The ABI of a token, as human-readable fragments.
+ */
+const tokenAbi = [
+    'error SimpleSolidityError(string message)',
+    'error Blacklisted(address, uint8[] codes)'
+];
+
+/**
+ * Returns the revert data of `error` with `args`.
+ */
+function revertDataOf(error: string, args: unknown[] = []): string {
+    const contractInterface = new ethers.Interface([`error ${error}`]);
+    return contractInterface.encodeErrorResult(
+        contractInterface.fragments[0] as ethers.ErrorFragment,
+        args
+    );
+}
+
+/**
+ * Unit tests for the ErrorRegistry class.
+ *
+ * @group unit/encode-decode
+ */
+describe('ErrorRegistry', () => {
+    describe('decode', () => {
+        test('Ok <- built-in errors', () => {
+            const errors = new ErrorRegistry();
+            expect(errors.errors).toHaveLength(2);
+            expect(errors.get('0x08C379A0')).toEqual({
+                type: 'error',
+                name: 'Error',
+                inputs: [{ type: 'string', name: 'message' }]
+            });
+            const error = errors.decode(
+                revertDataOf('Error(string)', ['SUBMISSION_ALREADY_MADE'])
+            );
+            expect(error).toEqual({
+                name: 'Error',
+                signature: 'Error(string)',
+                args: { message: 'SUBMISSION_ALREADY_MADE' }
+            });
+            expect(
+                errors.decode(revertDataOf('Panic(uint256)', [0x12]))?.args
+            ).toEqual({ code: 0x12n });
+        });
+
+        test('Ok <- custom errors of several ABIs', () => {
+            const errors = ErrorRegistry.of(vaultAbi, tokenAbi);
+            expect(errors.errors).toHaveLength(6);
+            expect(
+                errors.decode(
+                    revertDataOf(
+                        'InsufficientBalance(uint256 available, uint256 required)',
+                        [1, 2]
+                    )
+                )
+            ).toEqual({
+                name: 'InsufficientBalance',
+                signature: 'InsufficientBalance(uint256,uint256)',
+                args: { available: 1n, required: 2n }
+            });
+            expect(errors.decode(revertDataOf('Unauthorized()'))?.args).toEqual(
+                {}
+            );
+            const blacklisted = errors.decode(
+                revertDataOf('Blacklisted(address, uint8[] codes)', [
+                    '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed',
+                    [1, 2]
+                ])
+            );
+            expect(blacklisted?.signature).toBe('Blacklisted(address,uint8[])');
+            expect(Object.keys(blacklisted?.args ?? {})).toEqual([
+                '0',
+                'codes'
+            ]);
+        });
+
+        test('Ok <- unknown selector or no data', () => {
+            const errors = ErrorRegistry.of(vaultAbi);
+            expect(
+                errors.decode(revertDataOf('SimpleSolidityError(string)', ['']))
+            ).toBeNull();
+            expect(errors.decode('0x')).toBeNull();
+        });
+
+        test('Ok <- registry extended, the original not modified', () => {
+            const errors = ErrorRegistry.of(vaultAbi);
+            const data = revertDataOf('SimpleSolidityError(string message)', [
+                '0 input is not allowed'
+            ]);
+            expect(
+                errors.extend(JSON.stringify(vaultAbi), tokenAbi).decode(data)
+                    ?.name
+            ).toBe('SimpleSolidityError');
+            expect(errors.decode(data)).toBeNull();
+            expect(errors.register(tokenAbi).decode(data)?.name).toBe(
+                'SimpleSolidityError'
+            );
+        });
+
+        test('Exception <- data not matching the error', () => {
+            expect(() =>
+                ErrorRegistry.of(vaultAbi).decode(
+                    revertDataOf(
+                        'InsufficientBalance(uint256,uint256)',
+                        [1, 2]
+                    ).slice(0, 74)
+                )
+            ).toThrowError(InvalidAbiDataToEncodeOrDecode);
+        });
+
+        test('Exception <- invalid ABI', () => {
+            expect(() => ErrorRegistry.of('[{"type": "error"')).toThrowError(
+                InvalidAbiDataToEncodeOrDecode
+            );
+        });
+    });
+
+    describe('reasonOf', () => {
+        const errors = ErrorRegistry.of(vaultAbi, tokenAbi);
+        [
+            {
+                data: revertDataOf('Error(string)', [
+                    'SUBMISSION_ALREADY_MADE'
+                ]),
+                reason: 'SUBMISSION_ALREADY_MADE'
+            },
+            {
+                data: revertDataOf('Panic(uint256)', [0x12]),
+                reason: 'Panic(0x12)'
+            },
+            {
+                data: revertDataOf('SimpleSolidityError(string)', [
+                    '0 input is not allowed'
+                ]),
+                reason: '0 input is not allowed'
+            },
+            {
+                data: revertDataOf(
+                    'InsufficientBalance(uint256,uint256)',
+                    [1, 2]
+                ),
+                reason: 'InsufficientBalance(1, 2)'
+            },
+            {
+                data: revertDataOf('Blacklisted(address,uint8[])', [
+                    '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed',
+                    [1, 2]
+                ]),
+                reason: 'Blacklisted(0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed, [1, 2])'
+            }
+        ].forEach(({ data, reason }) => {
+            test(`Ok <- ${reason}`, () => {
+                const decoded = errors.decode(data);
+                expect(decoded).not.toBeNull();
+                expect(
+                    ErrorRegistry.reasonOf(
+                        decoded as NonNullable<typeof decoded>
+                    )
+                ).toBe(reason);
+            });
+        });
+    });
+});
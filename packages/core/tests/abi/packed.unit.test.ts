@@ -0,0 +1,169 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { ethers } from 'ethers';
+import { abi, Blake2b256, Hex } from '../../src';
+
+/**
+ * The addresses of the fixture.
+ */
+const owner = '0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed';
+const energy = '0x0000000000000000000000000000456E65726779';
+
+/**
+ * Values of every kind of type, packed the same way by ethers.
+ */
+const fixture = [
+    { types: ['address', 'bool'], values: [owner, true] },
+    { types: ['uint8', 'uint16', 'uint256'], values: [1, 0x0102, 10n ** 18n] },
+    { types: ['int8', 'int32', 'int'], values: [-1, -2, -3n] },
+    { types: ['bytes1', 'bytes32'], values: ['0x42', '0x' + 'ab'.repeat(32)] },
+    { types: ['string', 'bytes'], values: ['café', '0x010203'] },
+    { types: ['string', 'bytes'], values: ['', '0x'] },
+    {
+        types: ['address[]', 'bool[2]'],
+        values: [
+            [owner, energy],
+            [true, false]
+        ]
+    },
+    { types: ['uint16[]', 'int8[]'], values: [[1, 2], [-1]] },
+    { types: ['bytes4[]', 'uint8[]'], values: [['0xa9059cbb'], []] }
+];
+
+/**
+ * Unit tests of the packed encoding.
+ *
+ * @group unit/encode-decode
+ */
+describe('abi.encodePacked', () => {
+    test('Ok <- example of the Solidity documentation', () => {
+        expect(
+            abi.encodePacked(
+                ['int16', 'bytes1', 'uint16', 'string'],
+                [-1, '0x42', 3, 'Hello, world!']
+            )
+        ).toBe('0xffff42000348656c6c6f2c20776f726c6421');
+    });
+
+    fixture.forEach(({ types, values }) => {
+        test(`Ok <- same encoding as ethers for ${types.join(', ')}`, () => {
+            expect(abi.encodePacked(types, values)).toBe(
+                ethers.solidityPacked(types, values)
+            );
+            expect(abi.solidityKeccak256(types, values).toString()).toBe(
+                ethers.solidityPackedKeccak256(types, values)
+            );
+        });
+    });
+
+    test('Ok <- integers as strings and bytes as byte arrays', () => {
+        expect(
+            abi.encodePacked(
+                ['uint16', 'int16', 'bytes2', 'bytes'],
+                ['0x0102', '-2', Uint8Array.of(1, 2), Uint8Array.of(3)]
+            )
+        ).toBe('0x0102fffe010203');
+    });
+
+    test('Ok <- solidityBlake2b256 hashes the packed encoding', () => {
+        const types = ['address', 'uint256'];
+        const values = [owner, 1];
+        expect(abi.solidityBlake2b256(types, values).toString()).toBe(
+            Blake2b256.of(
+                Hex.of(abi.encodePacked(types, values)).bytes
+            ).toString()
+        );
+    });
+
+    [
+        {
+            types: ['uint8'],
+            values: [1, 2],
+            error: '1 types but 2 values given'
+        },
+        {
+            types: ['uint8'],
+            values: [256],
+            error: 'value 0 of type uint8 is out of the range of uint8'
+        },
+        {
+            types: ['bool', 'uint'],
+            values: [true, -1],
+            error: 'value 1 of type uint is out of the range of uint'
+        },
+        {
+            types: ['int8'],
+            values: [1.5],
+            error: 'value 0 of type int8 is not an integer'
+        },
+        {
+            types: ['uint7'],
+            values: [1],
+            error: 'value 0 of type uint7 is not a supported type'
+        },
+        {
+            types: ['bytes33'],
+            values: ['0x' + '00'.repeat(33)],
+            error: 'value 0 of type bytes33 is not a supported type'
+        },
+        {
+            types: ['bytes2'],
+            values: ['0x01'],
+            error: 'value 0 of type bytes2 is not a sequence of 2 bytes'
+        },
+        {
+            types: ['address'],
+            values: ['0x1234'],
+            error: 'value 0 of type address is not an address'
+        },
+        {
+            types: ['bool'],
+            values: [1],
+            error: 'value 0 of type bool is not a boolean'
+        },
+        {
+            types: ['string'],
+            values: [1],
+            error: 'value 0 of type string is not a string'
+        },
+        {
+            types: ['bytes'],
+            values: ['abc'],
+            error: 'value 0 of type bytes is not a byte sequence'
+        },
+        {
+            types: ['uint8[2]'],
+            values: [[1]],
+            error: 'value 0 of type uint8[2] must have 2 elements'
+        },
+        {
+            types: ['uint8[]'],
+            values: [1],
+            error: 'value 0 of type uint8[] is not an array'
+        },
+        {
+            types: ['uint8[][]'],
+            values: [[[1]]],
+            error: "value 0 of type uint8[][] is a nested array, it can't be packed"
+        },
+        {
+            types: ['string[]'],
+            values: [['a']],
+            error: "value 0 of type string[] has string elements, they can't be packed"
+        },
+        {
+            types: ['tuple(uint8)'],
+            values: [[1]],
+            error: 'value 0 of type tuple(uint8) is not a supported type'
+        }
+    ].forEach(({ types, values, error }) => {
+        test(`Exception <- ${error}`, () => {
+            expect(() => abi.encodePacked(types, values)).toThrowError(
+                InvalidAbiDataToEncodeOrDecode
+            );
+            expect(() => abi.solidityKeccak256(types, values)).toThrowError(
+                error
+            );
+        });
+    });
+});
@@ -0,0 +1,237 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    InvalidAbiDataToEncodeOrDecode,
+    InvalidAbiFragment
+} from '@vechain/sdk-errors';
+import { ethers } from 'ethers';
+import { SignatureDatabase } from '../../src';
+
+/**
+ * The addresses of the fixture.
+ */
+const from = '0x7567D83b7b8d80ADdCb281A71d54Fc7B3364ffed';
+const to = '0x9E7911de289c3c856ce7f421034F66b6Cde49C39';
+
+/**
+ * A signature file, listing two functions sharing the selector `0x42966c68` and an event.
+ */
+const signatureFile = `
+# Functions
+burn(uint256)
+function collate_propagate_storage(bytes16 data) # Same selector as burn(uint256)
+
+event Deposit(address indexed owner, string indexed tag, uint256 amount)
+`;
+
+/**
+ * Returns the calldata of `fragment` with `args`.
+ */
+function calldataOf(fragment: string, args: unknown[]): string {
+    const contractInterface = new ethers.Interface([fragment]);
+    return contractInterface.encodeFunctionData(
+        contractInterface.fragments[0] as ethers.FunctionFragment,
+        args
+    );
+}
+
+/**
+ * Returns the topics and the data of the log of `fragment` with `args`.
+ */
+function logOf(
+    fragment: string,
+    args: unknown[]
+): { topics: string[]; data: string } {
+    const contractInterface = new ethers.Interface([fragment]);
+    return contractInterface.encodeEventLog(
+        contractInterface.fragments[0] as ethers.EventFragment,
+        args
+    );
+}
+
+/**
+ * Unit tests for the SignatureDatabase class.
+ *
+ * @group unit/encode-decode
+ */
+describe('SignatureDatabase', () => {
+    describe('lookup', () => {
+        test('Ok <- bundled signatures', () => {
+            const signatures = new SignatureDatabase();
+            expect(signatures.lookupFunction('0xa9059cbb')).toEqual([
+                'transfer(address,uint256)'
+            ]);
+            expect(
+                signatures.lookupEvent(
+                    ethers.id('Transfer(address,address,uint256)')
+                )
+            ).toEqual(['Transfer(address,address,uint256)']);
+            expect(
+                signatures.lookupFunction(
+                    ethers.id('move(address,address,uint256)').slice(0, 10)
+                )
+            ).toEqual(['move(address,address,uint256)']);
+            expect(
+                signatures.lookupEvent(ethers.id('$Master(address)'))
+            ).toEqual(['$Master(address)']);
+            expect(signatures.lookupFunction('0x42966c68')).toEqual([]);
+        });
+
+        test('Ok <- signatures of a signature file', () => {
+            const signatures = new SignatureDatabase().registerText(
+                signatureFile
+            );
+            expect(signatures.lookupFunction('0x42966C68')).toEqual([
+                'burn(uint256)',
+                'collate_propagate_storage(bytes16)'
+            ]);
+            expect(
+                signatures.lookupEvent(
+                    ethers.id('Deposit(address,string,uint256)')
+                )
+            ).toEqual(['Deposit(address,string,uint256)']);
+        });
+
+        test('Ok <- database extended, the original not modified', () => {
+            const signatures = new SignatureDatabase([], false);
+            expect(signatures.functions).toHaveLength(0);
+            expect(signatures.events).toHaveLength(0);
+            const extended = signatures.extend(['function burn(uint256)']);
+            expect(extended.lookupFunction('0x42966c68')).toEqual([
+                'burn(uint256)'
+            ]);
+            expect(signatures.lookupFunction('0x42966c68')).toEqual([]);
+            expect(SignatureDatabase.of().extend().events).toEqual(
+                SignatureDatabase.of().events
+            );
+        });
+
+        test('Exception <- invalid ABI or signature file', () => {
+            expect(() =>
+                SignatureDatabase.of('[{"type": "function"')
+            ).toThrowError(InvalidAbiDataToEncodeOrDecode);
+            expect(() =>
+                new SignatureDatabase().registerText(
+                    'burn(uint256)\nburn(uint256'
+                )
+            ).toThrowError(InvalidAbiFragment);
+            expect(() =>
+                new SignatureDatabase().registerText(
+                    'burn(uint256)\nburn(uint256'
+                )
+            ).toThrowError('at line 2.');
+        });
+    });
+
+    describe('decodeFunction', () => {
+        const signatures = new SignatureDatabase().registerText(signatureFile);
+
+        test('Ok <- bundled function', () => {
+            expect(
+                signatures.decodeFunction(
+                    calldataOf('function transfer(address, uint256)', [to, 1])
+                )
+            ).toEqual([
+                {
+                    name: 'transfer',
+                    signature: 'transfer(address,uint256)',
+                    args: { to, value: 1n }
+                }
+            ]);
+        });
+
+        test('Ok <- candidates trial-decoded', () => {
+            const bytes16 = '0x' + 'ab'.repeat(16);
+            expect(
+                signatures.decodeFunction(
+                    calldataOf('function burn(uint256)', [1])
+                )
+            ).toEqual([
+                { name: 'burn', signature: 'burn(uint256)', args: { '0': 1n } }
+            ]);
+            expect(
+                signatures
+                    .decodeFunction(
+                        calldataOf(
+                            'function collate_propagate_storage(bytes16)',
+                            [bytes16]
+                        )
+                    )
+                    .map(({ signature }) => signature)
+            ).toEqual(['burn(uint256)', 'collate_propagate_storage(bytes16)']);
+        });
+
+        test('Ok <- unknown selector or malformed data', () => {
+            expect(signatures.decodeFunction('0x12345678')).toEqual([]);
+            expect(
+                signatures.decodeFunction(
+                    calldataOf('function transfer(address, uint256)', [
+                        to,
+                        1
+                    ]).slice(0, 70)
+                )
+            ).toEqual([]);
+            expect(signatures.decodeFunction('0x')).toEqual([]);
+        });
+    });
+
+    describe('decodeEvent', () => {
+        const signatures = new SignatureDatabase().registerText(signatureFile);
+
+        test('Ok <- ERC-20 and ERC-721 Transfer told apart by their topics', () => {
+            const erc20 = logOf(
+                'event Transfer(address indexed, address indexed, uint256)',
+                [from, to, 1]
+            );
+            expect(signatures.decodeEvent(erc20.topics, erc20.data)).toEqual([
+                {
+                    name: 'Transfer',
+                    signature: 'Transfer(address,address,uint256)',
+                    args: { from, to, value: 1n }
+                }
+            ]);
+            const erc721 = logOf(
+                'event Transfer(address indexed, address indexed, uint256 indexed)',
+                [from, to, 1]
+            );
+            expect(signatures.decodeEvent(erc721.topics, erc721.data)).toEqual([
+                {
+                    name: 'Transfer',
+                    signature: 'Transfer(address,address,uint256)',
+                    args: { from, to, tokenId: 1n }
+                }
+            ]);
+        });
+
+        test('Ok <- indexed string returned as its hash', () => {
+            const log = logOf(
+                'event Deposit(address indexed, string indexed, uint256)',
+                [from, 'savings', 1]
+            );
+            expect(signatures.decodeEvent(log.topics, log.data)).toEqual([
+                {
+                    name: 'Deposit',
+                    signature: 'Deposit(address,string,uint256)',
+                    args: { owner: from, tag: ethers.id('savings'), amount: 1n }
+                }
+            ]);
+        });
+
+        test('Ok <- unknown topic, topics or data not matching', () => {
+            const log = logOf(
+                'event Transfer(address indexed, address indexed, uint256)',
+                [from, to, 1]
+            );
+            expect(signatures.decodeEvent([], log.data)).toEqual([]);
+            expect(
+                signatures.decodeEvent([ethers.id('Unknown()')], '0x')
+            ).toEqual([]);
+            expect(signatures.decodeEvent(log.topics, '0x')).toEqual([]);
+            expect(
+                signatures.decodeEvent(
+                    [log.topics[0], log.topics[1], '0x' + 'ff'.repeat(32)],
+                    log.data
+                )
+            ).toEqual([]);
+        });
+    });
+});
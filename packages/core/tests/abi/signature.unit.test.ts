@@ -0,0 +1,193 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidAbiFragment } from '@vechain/sdk-errors';
+import { type AbiEvent, type AbiFunction, type AbiParameter } from 'abitype';
+import { ethers } from 'ethers';
+import { abi } from '../../src';
+import { events, functions } from './fixture';
+
+/**
+ * Signatures of every kind, hashed the same way by ethers.
+ */
+const signatures = [
+    'function transfer(address to, uint256 value) returns (bool)',
+    'function balanceOf(address) view returns (uint)',
+    'function swap((address token, uint amount)[] memory legs, bytes calldata data) payable',
+    'function set(tuple(uint8,bool[2])[3][] matrix, bytes32 key, int) external',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Log(string indexed message, (address,bytes4) data)',
+    'error InsufficientBalance(uint256 available, uint256 required)'
+];
+
+/**
+ * Unit tests of the human-readable signatures.
+ *
+ * @group unit/encode-decode
+ */
+describe('abi.parseSignature', () => {
+    test('Ok <- function with tuples, arrays and modifiers', () => {
+        expect(
+            abi.parseSignature(
+                'function swap((address token, uint amount)[] memory legs, bytes4 tag) view returns (int8[2])'
+            )
+        ).toEqual({
+            type: 'function',
+            name: 'swap',
+            inputs: [
+                {
+                    type: 'tuple[]',
+                    name: 'legs',
+                    components: [
+                        { type: 'address', name: 'token' },
+                        { type: 'uint256', name: 'amount' }
+                    ]
+                },
+                { type: 'bytes4', name: 'tag' }
+            ],
+            outputs: [{ type: 'int8[2]' }],
+            stateMutability: 'view'
+        } satisfies AbiFunction);
+        expect(
+            abi.parseSignature('balanceOf(address) view returns (uint)')
+        ).toEqual(
+            abi.parseSignature(
+                'function balanceOf(address) view returns (uint256)'
+            )
+        );
+    });
+
+    test('Ok <- event, error and constructor', () => {
+        expect(
+            abi.parseSignature(
+                'event Transfer(address indexed from, address to, uint256)'
+            )
+        ).toEqual({
+            type: 'event',
+            name: 'Transfer',
+            inputs: [
+                { type: 'address', name: 'from', indexed: true },
+                { type: 'address', name: 'to', indexed: false },
+                { type: 'uint256', indexed: false }
+            ]
+        } satisfies AbiEvent);
+        expect(abi.parseSignature('event Ping() anonymous')).toEqual({
+            type: 'event',
+            name: 'Ping',
+            inputs: [],
+            anonymous: true
+        });
+        expect(abi.parseSignature('error Unauthorized(address)')).toEqual({
+            type: 'error',
+            name: 'Unauthorized',
+            inputs: [{ type: 'address' }]
+        });
+        expect(
+            abi.parseSignature('constructor(address payable owner) payable')
+        ).toEqual({
+            type: 'constructor',
+            inputs: [{ type: 'address', name: 'owner' }],
+            stateMutability: 'payable'
+        });
+    });
+
+    test('Ok <- signatures of the fixture', () => {
+        [...functions, ...events].forEach((fixture) => {
+            [fixture.full, fixture.minimal].forEach((signature) => {
+                const item = abi.parseSignature(signature) as
+                    | AbiEvent
+                    | AbiFunction;
+                expect(abi.formatSignature(item)).toBe(fixture.sighash);
+                expect(abi.signatureHash(item)).toBe(fixture.signatureHash);
+            });
+        });
+    });
+
+    signatures.forEach((signature) => {
+        test(`Ok <- same signature hash as ethers for ${signature}`, () => {
+            const item = abi.parseSignature(signature) as AbiFunction;
+            const fragment = ethers.Fragment.from(signature) as
+                | ethers.EventFragment
+                | ethers.FunctionFragment;
+            expect(abi.formatSignature(item)).toBe(fragment.format('sighash'));
+            expect(abi.signatureHash(item)).toBe(
+                fragment instanceof ethers.EventFragment
+                    ? fragment.topicHash
+                    : fragment.selector
+            );
+        });
+    });
+
+    [
+        {
+            signature: 'function transfer(address to, uint256 value',
+            error: "unexpected end of signature, expected ')'"
+        },
+        {
+            signature: 'function transfer(address to, uint7 value)',
+            error: "unexpected 'uint7', expected a type"
+        },
+        {
+            signature: 'function (address)',
+            error: "unexpected '(', expected a name"
+        },
+        {
+            signature: 'function f(uint256[0])',
+            error: "unexpected '0', expected an array length"
+        },
+        {
+            signature: 'function f(address indexed to)',
+            error: "unexpected 'to', expected ')'"
+        },
+        {
+            signature: 'constructor() view',
+            error: "unexpected 'view', a constructor is payable or nonpayable"
+        },
+        {
+            signature: 'event E(uint256) returns (bool)',
+            error: "unexpected 'returns'."
+        }
+    ].forEach(({ signature, error }) => {
+        test(`Exception <- ${signature}`, () => {
+            expect(() => abi.parseSignature(signature)).toThrowError(
+                InvalidAbiFragment
+            );
+            expect(() => abi.parseSignature(signature)).toThrowError(error);
+        });
+    });
+});
+
+/**
+ * Unit tests of the human-readable parameters.
+ *
+ * @group unit/encode-decode
+ */
+describe('abi.parseParameters', () => {
+    test('Ok <- parameters and their canonical types', () => {
+        const parameters = abi.parseParameters(
+            'address to, (uint8,(bool,string)[])[2] flags, bytes'
+        );
+        expect(parameters.map((parameter) => parameter.name)).toEqual([
+            'to',
+            'flags',
+            undefined
+        ]);
+        expect(parameters.map(abi.formatParameter)).toEqual([
+            'address',
+            '(uint8,(bool,string)[])[2]',
+            'bytes'
+        ]);
+        expect(abi.parseParameters('')).toEqual([]);
+    });
+
+    test('Exception <- invalid parameters or tuple without components', () => {
+        expect(() => abi.parseParameters('address,')).toThrowError(
+            InvalidAbiFragment
+        );
+        expect(() => abi.parseParameters('address) (')).toThrowError(
+            "unexpected '('"
+        );
+        const tuple: AbiParameter = { type: 'tuple' };
+        expect(() => abi.formatParameter(tuple)).toThrowError(
+            'The tuple parameter has no components'
+        );
+    });
+});
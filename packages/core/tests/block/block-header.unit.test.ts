@@ -0,0 +1,303 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType, InvalidRLP } from '@vechain/sdk-errors';
+import {
+    Address,
+    Blake2b256,
+    BlockHeader,
+    type BlockHeaderBody,
+    BlockId,
+    Hex,
+    RLP_CODER,
+    secp256k1
+} from '../../src';
+
+/**
+ * Real testnet blocks before VIP-214, as returned by the `/blocks` endpoint.
+ *
+ * The endpoint doesn't return the signature, the headers are checked against the ID, the signer
+ * and the size the node derived from the raw header.
+ */
+const testnetBlocks = [
+    {
+        number: 1,
+        id: '0x000000019015bbd98fc1c9088d793ba9add53896a29cd9aa3a4dcabd1f561c38',
+        size: 236,
+        parentID:
+            '0x000000000b2bce3c70bc649a02749e8687721b09ed2e15997f466536b20bb127',
+        timestamp: 1530014410,
+        totalScore: 1,
+        signer: '0x25ae0ef84da4a76d5a1dfe80d3789c2c46fee30a'
+    },
+    {
+        number: 2,
+        id: '0x00000002e6922bf34b716c736cd95b6602d8255d0c57f975abbe0d4ec34c06c4',
+        size: 236,
+        parentID:
+            '0x000000019015bbd98fc1c9088d793ba9add53896a29cd9aa3a4dcabd1f561c38',
+        timestamp: 1530014420,
+        totalScore: 2,
+        signer: '0x25ae0ef84da4a76d5a1dfe80d3789c2c46fee30a'
+    }
+].map(({ parentID, timestamp, totalScore, ...block }) => ({
+    ...block,
+    body: {
+        parentID,
+        timestamp,
+        gasLimit: 10000000,
+        beneficiary: '0xb4094c25f86d628fdd571afc4077f0d0196afb48',
+        gasUsed: 0,
+        totalScore,
+        txsRoot:
+            '0x45b0cfc220ceec5b7c1c62c4d4193d38e4eba48e8815729ce75f9c0ab0e4c1c0',
+        txsFeatures: 0,
+        stateRoot:
+            '0x4ec3af0acbad1ae467ad569337d2fe8576fe303928d35b8cdd91de47e9ac84bb',
+        receiptsRoot:
+            '0x45b0cfc220ceec5b7c1c62c4d4193d38e4eba48e8815729ce75f9c0ab0e4c1c0',
+        signature: new Uint8Array(65)
+    }
+}));
+
+/**
+ * Returns the ID of the block signed by `signer`, derived from `signingHash` as Thor does.
+ */
+function idOf(header: BlockHeader, signer: string): string {
+    const id = Buffer.from(
+        Blake2b256.of(Buffer.concat([header.signingHash, Hex.of(signer).bytes]))
+            .bytes
+    );
+    id.writeUInt32BE(header.number);
+    return Hex.of(id).toString();
+}
+
+/**
+ * The private key of the proposer of the fixture.
+ *
+ * The other headers of the fixture are synthetic, signed with this key: the `/blocks` endpoint
+ * doesn't return the signature nor the VRF `alpha` the ID of the headers after VIP-214 depends on.
+ */
+const proposerPrivateKey = Hex.of(
+    '7582be841ca040aa940fff6c05773129e135623e41acce3e0b8ba520dc1ae26a'
+).bytes;
+
+/**
+ * The address of the proposer of the fixture.
+ */
+const proposer = Address.ofPrivateKey(proposerPrivateKey).toString();
+
+/**
+ * Returns the body of `fields` signed by the proposer, followed by `proof` if given.
+ */
+function signed(
+    fields: Omit<BlockHeaderBody, 'signature'>,
+    proof: Uint8Array = new Uint8Array()
+): BlockHeaderBody {
+    const unsigned = new BlockHeader({
+        ...fields,
+        signature: new Uint8Array(65)
+    });
+    return {
+        ...fields,
+        signature: Buffer.concat([
+            secp256k1.sign(unsigned.signingHash, proposerPrivateKey),
+            proof
+        ])
+    };
+}
+
+/**
+ * The body of a synthetic header before VIP-214, the extension not encoded.
+ */
+const legacyBody = signed({
+    parentID:
+        '0x0000000a26f1e9d8fbb8e2b1cdbbd5e7e00ba9d6b3a0dc3f1cf6d1a1f4cfb0c1',
+    timestamp: 1530014410,
+    gasLimit: 10000000,
+    beneficiary: '0xb4094c25f86d628fdd571afc4077f0d0196afb48',
+    gasUsed: 0,
+    totalScore: 11,
+    txsRoot:
+        '0x45b0cfc220ceec5b7c1c62c4d4193d38e4eba48e8815729ce75f9c0ab0e4c1c0',
+    txsFeatures: 0,
+    stateRoot:
+        '0x93de0ffb1f33bc0af053abc2a87c4af44594f5dcb1cb879dd823686a15d68550',
+    receiptsRoot:
+        '0x45b0cfc220ceec5b7c1c62c4d4193d38e4eba48e8815729ce75f9c0ab0e4c1c0'
+});
+
+/**
+ * The body of a synthetic header after VIP-214, VIP-220 and dynamic fees.
+ */
+const body = signed(
+    {
+        ...legacyBody,
+        parentID:
+            '0x012c4f1f5b0c7b2ef6e1c6b7bd0a5c6b4f2d3a1e0c9b8a7f6e5d4c3b2a190807',
+        txsFeatures: 1,
+        alpha: Hex.of('0x11223344').bytes,
+        com: true,
+        baseFeePerGas: 10000000000000n
+    },
+    new Uint8Array(81).fill(7)
+);
+
+/**
+ * Unit tests for the BlockHeader class.
+ *
+ * @group unit/block
+ */
+describe('BlockHeader', () => {
+    describe('derived fields', () => {
+        test('Ok <- number, signer and ID', () => {
+            const header = new BlockHeader(body);
+            expect(header.number).toBe(BlockId.of(body.parentID).number + 1);
+            expect(header.signer).toBe(proposer);
+            const id = BlockId.of(header.id);
+            expect(id.number).toBe(header.number);
+            expect(header.id).not.toBe(new BlockHeader(legacyBody).id);
+        });
+
+        test('Ok <- signing hash and ID of real testnet blocks', () => {
+            testnetBlocks.forEach(({ number, id, signer, body }) => {
+                const header = new BlockHeader(body);
+                expect(header.number).toBe(number);
+                expect(idOf(header, signer)).toBe(id);
+            });
+            // The ID getter derives the ID the same way from the recovered signer.
+            const header = new BlockHeader(body);
+            expect(header.id).toBe(idOf(header, proposer));
+        });
+
+        test('Ok <- signature excluded from the signing hash', () => {
+            expect(new BlockHeader(body).signingHash).toEqual(
+                new BlockHeader({ ...body, signature: new Uint8Array(65) })
+                    .signingHash
+            );
+        });
+
+        test('Exception <- invalid body', () => {
+            expect(
+                () => new BlockHeader({ ...body, beneficiary: '0x1234' })
+            ).toThrowError(InvalidDataType);
+            expect(
+                () =>
+                    new BlockHeader({
+                        ...body,
+                        signature: new Uint8Array(64)
+                    })
+            ).toThrowError(InvalidDataType);
+        });
+    });
+
+    describe('encode and decode', () => {
+        test('Ok <- header before VIP-214', () => {
+            const header = new BlockHeader(legacyBody);
+            const packed = RLP_CODER.decode(header.encoded) as Uint8Array[];
+            // Features zero: the transactions root alone, no extension.
+            expect(packed).toHaveLength(10);
+            expect(Hex.of(packed[6]).toString()).toBe(legacyBody.txsRoot);
+            const decoded = BlockHeader.decode(header.encoded);
+            expect(decoded.toJSON()).toEqual(header.toJSON());
+            expect(decoded.body.com).toBe(false);
+            expect(decoded.body.baseFeePerGas).toBeUndefined();
+            expect(decoded.encoded).toEqual(header.encoded);
+        });
+
+        test('Ok <- size of real testnet blocks', () => {
+            testnetBlocks.forEach(({ size, body }) => {
+                const packed = RLP_CODER.decode(
+                    new BlockHeader(body).encoded
+                ) as Uint8Array[];
+                // The block without transactions, the header followed by an empty list.
+                expect(RLP_CODER.encode([packed, []])).toHaveLength(size);
+            });
+        });
+
+        test('Ok <- header with extension', () => {
+            const header = new BlockHeader(body);
+            const packed = RLP_CODER.decode(header.encoded) as Uint8Array[][];
+            expect(packed).toHaveLength(11);
+            expect(packed[6]).toHaveLength(2);
+            expect(packed[10]).toHaveLength(3);
+            const decoded = BlockHeader.decode(
+                Hex.of(header.encoded).toString()
+            );
+            expect(decoded.body.signature).toHaveLength(65 + 81);
+            expect(decoded.body.com).toBe(true);
+            expect(decoded.body.baseFeePerGas).toBe(10000000000000n);
+            expect(decoded.signer).toBe(proposer);
+            expect(decoded.id).toBe(header.id);
+            expect(decoded.encoded).toEqual(header.encoded);
+        });
+
+        test('Ok <- extension trailing empty fields trimmed', () => {
+            const header = new BlockHeader({
+                ...body,
+                com: false,
+                baseFeePerGas: undefined
+            });
+            const packed = RLP_CODER.decode(header.encoded) as Uint8Array[][];
+            expect(packed[10]).toHaveLength(1);
+            expect(BlockHeader.decode(header.encoded).toJSON()).toEqual(
+                header.toJSON()
+            );
+        });
+
+        test('Exception <- not a header', () => {
+            [
+                '0xzz',
+                Hex.of(RLP_CODER.encode([1, 2, 3])).toString(),
+                RLP_CODER.encode([
+                    ...(RLP_CODER.decode(
+                        new BlockHeader(legacyBody).encoded
+                    ) as Uint8Array[]),
+                    [1, 2, 3, 4]
+                ])
+            ].forEach((raw) => {
+                expect(() => BlockHeader.decode(raw)).toThrowError(InvalidRLP);
+            });
+        });
+    });
+
+    describe('verify', () => {
+        test('Ok <- block matching the raw header', () => {
+            const header = new BlockHeader(body);
+            const json = header.toJSON();
+            expect(json.signer).toBe(proposer.toLowerCase());
+            expect(json.baseFeePerGas).toBe('0x9184e72a000');
+            expect(() => {
+                header.verify({
+                    ...json,
+                    signer: proposer,
+                    // Fields not in the header are ignored.
+                    ...{ size: 1000, isTrunk: true }
+                });
+            }).not.toThrow();
+        });
+
+        [
+            { field: 'id', value: BlockId.of(1).toString() },
+            {
+                field: 'signer',
+                value: '0x0000000000000000000000000000000000000001'
+            },
+            { field: 'gasUsed', value: 1 },
+            { field: 'com', value: false },
+            { field: 'stateRoot', value: legacyBody.txsRoot }
+        ].forEach(({ field, value }) => {
+            test(`Exception <- ${field} not matching`, () => {
+                expect(() => {
+                    new BlockHeader(body).verify({ [field]: value });
+                }).toThrowError(InvalidDataType);
+            });
+        });
+
+        test('Exception <- base fee missing in the raw header', () => {
+            expect(() => {
+                new BlockHeader(legacyBody).verify({
+                    baseFeePerGas: '0x9184e72a000'
+                });
+            }).toThrowError(InvalidDataType);
+        });
+    });
+});
@@ -0,0 +1,334 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    CertificateSignature,
+    CertificateVerification,
+    InvalidSessionToken,
+    UnsupportedOperation
+} from '@vechain/sdk-errors';
+import {
+    Address,
+    CertificateVerifier,
+    InMemoryNonceStore,
+    Txt,
+    certificate,
+    type CertificateVerifierOptions
+} from '../../src';
+import { cert, certPrivateKey } from './fixture';
+
+/**
+ * The fixture certificate signed.
+ */
+const signedCert = certificate.sign(cert, certPrivateKey);
+
+/**
+ * A clock ticking 10 seconds after the certificate timestamp.
+ */
+const now = (): number => (cert.timestamp + 10) * 1000;
+
+/**
+ * The session token keys.
+ */
+const secret = Txt.of('a secret of at least 32 bytes long!').bytes;
+const issuerPrivateKey = new Uint8Array(32).fill(7);
+
+/**
+ * Returns a verifier of the fixture domain.
+ */
+function verifierOf(
+    options: Partial<CertificateVerifierOptions> = {}
+): CertificateVerifier {
+    return new CertificateVerifier({
+        domains: [cert.domain],
+        now,
+        ...options
+    });
+}
+
+/**
+ * Unit tests for the CertificateVerifier class.
+ *
+ * @group unit/certificate
+ */
+describe('CertificateVerifier', () => {
+    describe('verify', () => {
+        test('Ok <- valid certificate', async () => {
+            await expect(verifierOf().verify(signedCert)).resolves.toBe(
+                undefined
+            );
+        });
+
+        test('Ok <- clock skew', async () => {
+            await expect(
+                verifierOf({
+                    now: () => (cert.timestamp - 30) * 1000
+                }).verify(signedCert)
+            ).resolves.toBe(undefined);
+        });
+
+        test('Ok <- defaults', () => {
+            const verifier = verifierOf();
+            expect(verifier.purposes).toEqual(['identification']);
+            expect(verifier.maxAge).toBe(300);
+            expect(verifier.clockSkew).toBe(30);
+            expect(verifier.sessionTokenTTL).toBe(3600);
+        });
+
+        [
+            { reason: 'purpose', options: { purposes: ['agreement'] } },
+            { reason: 'domain', options: { domains: ['example.com'] } },
+            {
+                reason: 'expired',
+                options: { now: () => (cert.timestamp + 301) * 1000 }
+            },
+            {
+                reason: 'future',
+                options: { now: () => (cert.timestamp - 31) * 1000 }
+            }
+        ].forEach(({ reason, options }) => {
+            test(`Exception <- ${reason}`, async () => {
+                await expect(
+                    verifierOf(options).verify(signedCert)
+                ).rejects.toThrowError(CertificateVerification);
+            });
+        });
+
+        [undefined, 'never', 1.5].forEach((timestamp) => {
+            test(`Exception <- timestamp ${String(timestamp)}`, async () => {
+                await expect(
+                    verifierOf().verify(
+                        certificate.sign(
+                            { ...cert, timestamp: timestamp as number },
+                            certPrivateKey
+                        )
+                    )
+                ).rejects.toThrowError(CertificateVerification);
+            });
+        });
+
+        test('Exception <- not signed by signer', async () => {
+            await expect(
+                verifierOf().verify({
+                    ...signedCert,
+                    signer: Address.ofPrivateKey(issuerPrivateKey).toString()
+                })
+            ).rejects.toThrowError(CertificateSignature);
+        });
+
+        test('Exception <- replay', async () => {
+            const verifier = verifierOf();
+            await verifier.verify(signedCert);
+            await expect(verifier.verify(signedCert)).rejects.toThrowError(
+                CertificateVerification
+            );
+        });
+
+        test('Exception <- replay with a shared store', async () => {
+            const nonceStore = new InMemoryNonceStore(now);
+            await verifierOf({ nonceStore }).verify(signedCert);
+            await expect(
+                verifierOf({ nonceStore }).verify(signedCert)
+            ).rejects.toThrowError(CertificateVerification);
+        });
+
+        test('Ok <- failed verification not recorded', async () => {
+            const nonceStore = new InMemoryNonceStore(now);
+            await expect(
+                verifierOf({ nonceStore }).verify({
+                    ...signedCert,
+                    signature: undefined
+                })
+            ).rejects.toThrowError(CertificateSignature);
+            expect(nonceStore.size).toBe(0);
+            await verifierOf({ nonceStore }).verify(signedCert);
+            expect(nonceStore.size).toBe(1);
+        });
+    });
+
+    describe('InMemoryNonceStore', () => {
+        test('Ok <- expired keys discarded', async () => {
+            let time = 0;
+            const store = new InMemoryNonceStore(() => time);
+            expect(await store.add('a', 1000)).toBe(true);
+            expect(await store.add('a', 1000)).toBe(false);
+            time = 1000;
+            expect(await store.add('b', 2000)).toBe(true);
+            expect(store.size).toBe(1);
+            expect(await store.add('a', 2000)).toBe(true);
+        });
+    });
+
+    describe('session token', () => {
+        test('Ok <- HS256', async () => {
+            const verifier = verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            });
+            const token = await verifier.issueSessionToken(signedCert);
+            expect(token.split('.')).toHaveLength(3);
+            expect(verifier.verifySessionToken(token)).toEqual({
+                sub: Address.of(cert.signer).toString(),
+                aud: cert.domain,
+                purpose: cert.purpose,
+                iat: cert.timestamp + 10,
+                exp: cert.timestamp + 10 + 3600
+            });
+        });
+
+        test('Ok <- ES256K-R verified by issuer address', async () => {
+            const token = await verifierOf({
+                sessionTokenKey: {
+                    alg: 'ES256K-R',
+                    privateKey: issuerPrivateKey
+                },
+                sessionTokenTTL: 60
+            }).issueSessionToken(signedCert);
+            const claims = verifierOf({
+                sessionTokenKey: {
+                    alg: 'ES256K-R',
+                    issuer: Address.ofPrivateKey(issuerPrivateKey).toString()
+                }
+            }).verifySessionToken(token);
+            expect(claims.iss).toBe(
+                Address.ofPrivateKey(issuerPrivateKey).toString()
+            );
+            expect(claims.exp - claims.iat).toBe(60);
+        });
+
+        test('Exception <- issued for a not verified certificate', async () => {
+            const verifier = verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            });
+            await expect(
+                verifier.issueSessionToken({ ...signedCert, domain: 'evil' })
+            ).rejects.toThrowError(CertificateVerification);
+        });
+
+        test('Exception <- key not set', async () => {
+            await expect(
+                verifierOf().issueSessionToken(signedCert)
+            ).rejects.toThrowError(UnsupportedOperation);
+            expect(() => verifierOf().verifySessionToken('a.b.c')).toThrowError(
+                UnsupportedOperation
+            );
+        });
+
+        test('Exception <- issued by a verify only key', async () => {
+            await expect(
+                verifierOf({
+                    sessionTokenKey: {
+                        alg: 'ES256K-R',
+                        issuer: Address.ofPrivateKey(
+                            issuerPrivateKey
+                        ).toString()
+                    }
+                }).issueSessionToken(signedCert)
+            ).rejects.toThrowError(UnsupportedOperation);
+        });
+
+        test('Exception <- expired', async () => {
+            const token = await verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            }).issueSessionToken(signedCert);
+            expect(() =>
+                verifierOf({
+                    sessionTokenKey: { alg: 'HS256', secret },
+                    now: () => now() + 3600 * 1000
+                }).verifySessionToken(token)
+            ).toThrowError(InvalidSessionToken);
+        });
+
+        test('Exception <- other domain', async () => {
+            const token = await verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            }).issueSessionToken(signedCert);
+            expect(() =>
+                verifierOf({
+                    domains: ['example.com'],
+                    sessionTokenKey: { alg: 'HS256', secret }
+                }).verifySessionToken(token)
+            ).toThrowError(InvalidSessionToken);
+        });
+
+        test('Exception <- other secret', async () => {
+            const token = await verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            }).issueSessionToken(signedCert);
+            expect(() =>
+                verifierOf({
+                    sessionTokenKey: {
+                        alg: 'HS256',
+                        secret: Txt.of('another secret').bytes
+                    }
+                }).verifySessionToken(token)
+            ).toThrowError(InvalidSessionToken);
+        });
+
+        test('Exception <- other issuer', async () => {
+            const token = await verifierOf({
+                sessionTokenKey: {
+                    alg: 'ES256K-R',
+                    privateKey: certPrivateKey
+                }
+            }).issueSessionToken(signedCert);
+            expect(() =>
+                verifierOf({
+                    sessionTokenKey: {
+                        alg: 'ES256K-R',
+                        privateKey: issuerPrivateKey
+                    }
+                }).verifySessionToken(token)
+            ).toThrowError(InvalidSessionToken);
+        });
+
+        test('Exception <- algorithm confusion', async () => {
+            const token = await verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            }).issueSessionToken(signedCert);
+            expect(() =>
+                verifierOf({
+                    sessionTokenKey: {
+                        alg: 'ES256K-R',
+                        privateKey: issuerPrivateKey
+                    }
+                }).verifySessionToken(token)
+            ).toThrowError(InvalidSessionToken);
+        });
+
+        test('Exception <- tampered claims', async () => {
+            const verifier = verifierOf({
+                sessionTokenKey: { alg: 'HS256', secret }
+            });
+            const [header, , signature] = (
+                await verifier.issueSessionToken(signedCert)
+            ).split('.');
+            const claims = Buffer.from(
+                JSON.stringify({
+                    sub: Address.ofPrivateKey(issuerPrivateKey).toString(),
+                    aud: cert.domain,
+                    purpose: cert.purpose,
+                    iat: cert.timestamp,
+                    exp: cert.timestamp + 3600
+                })
+            ).toString('base64url');
+            expect(() =>
+                verifier.verifySessionToken(`${header}.${claims}.${signature}`)
+            ).toThrowError(InvalidSessionToken);
+        });
+
+        [
+            '',
+            'a.b',
+            'a.b.c',
+            '!!.!!.!!',
+            `${Buffer.from('{"alg":"HS256"}').toString('base64url')}.${Buffer.from('null').toString('base64url')}.c2ln`,
+            `${Buffer.from('null').toString('base64url')}.${Buffer.from('{}').toString('base64url')}.c2ln`
+        ].forEach((token) => {
+            test(`Exception <- malformed '${token}'`, () => {
+                expect(() =>
+                    verifierOf({
+                        sessionTokenKey: { alg: 'HS256', secret }
+                    }).verifySessionToken(token)
+                ).toThrowError(InvalidSessionToken);
+            });
+        });
+    });
+});
@@ -29,4 +29,76 @@ const cert = {
     ).toString()
 };
 
-export { certPrivateKey, cert };
+/**
+ * Sign-In with VeChain message signed with `certPrivateKey`, having all the optional fields set.
+ */
+const siwvMessage = {
+    domain: 'example.com',
+    address: Address.ofPublicKey(
+        secp256k1.derivePublicKey(certPrivateKey)
+    ).toString(),
+    statement: 'I accept the Terms of Service: https://example.com/tos',
+    uri: 'https://example.com/login',
+    chainTag: 0x27,
+    genesisId:
+        '0x000000000b2bce3c70bc649a02749e8687721b09ed2e15997f466536b20bb127',
+    nonce: 'Xt5Hn3b9kPq2RwZm',
+    issuedAt: '2024-06-01T10:00:00.000Z',
+    expirationTime: '2024-06-01T10:05:00.000Z',
+    resources: [
+        'ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/',
+        'https://example.com/profile'
+    ]
+};
+
+/**
+ * The canonical text of `siwvMessage`.
+ */
+const siwvText = `example.com wants you to sign in with your VeChain account:
+${siwvMessage.address}
+
+I accept the Terms of Service: https://example.com/tos
+
+URI: https://example.com/login
+Version: 1
+Chain Tag: 0x27
+Genesis ID: 0x000000000b2bce3c70bc649a02749e8687721b09ed2e15997f466536b20bb127
+Nonce: Xt5Hn3b9kPq2RwZm
+Issued At: 2024-06-01T10:00:00.000Z
+Expiration Time: 2024-06-01T10:05:00.000Z
+Resources:
+- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/
+- https://example.com/profile`;
+
+/**
+ * Sign-In with VeChain message having only the mandatory fields set.
+ */
+const siwvMinimalMessage = {
+    domain: 'localhost:3000',
+    address: siwvMessage.address,
+    uri: 'http://localhost:3000',
+    chainTag: 0x4a,
+    nonce: '12345678',
+    issuedAt: '2024-06-01T10:00:00Z'
+};
+
+/**
+ * The canonical text of `siwvMinimalMessage`.
+ */
+const siwvMinimalText = `localhost:3000 wants you to sign in with your VeChain account:
+${siwvMessage.address}
+
+URI: http://localhost:3000
+Version: 1
+Chain Tag: 0x4a
+Nonce: 12345678
+Issued At: 2024-06-01T10:00:00Z`;
+
+export {
+    certPrivateKey,
+    cert,
+    siwvMessage,
+    siwvMinimalMessage,
+    siwvMinimalText,
+    siwvText
+};
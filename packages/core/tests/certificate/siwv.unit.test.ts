@@ -0,0 +1,297 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    CertificateSignature,
+    InvalidSIWVMessage,
+    SIWVVerification
+} from '@vechain/sdk-errors';
+import { certificate, secp256k1, siwv, type SIWVMessage } from '../../src';
+import {
+    certPrivateKey,
+    siwvMessage,
+    siwvMinimalMessage,
+    siwvMinimalText,
+    siwvText
+} from './fixture';
+
+/**
+ * Options verifying `siwvMessage` within its validity window.
+ */
+const verifyOptions = {
+    domain: siwvMessage.domain,
+    nonce: siwvMessage.nonce,
+    chainTag: siwvMessage.chainTag,
+    time: Date.parse('2024-06-01T10:01:00.000Z')
+};
+
+/**
+ * Unit tests for the Sign-In with VeChain module.
+ *
+ * @group unit/certificate
+ */
+describe('siwv', () => {
+    describe('build', () => {
+        test('Ok <- all fields', () => {
+            expect(siwv.build(siwvMessage)).toBe(siwvText);
+        });
+
+        test('Ok <- mandatory fields', () => {
+            expect(siwv.build(siwvMinimalMessage)).toBe(siwvMinimalText);
+        });
+
+        test('Ok <- address checksum', () => {
+            expect(
+                siwv.build({
+                    ...siwvMinimalMessage,
+                    address: siwvMinimalMessage.address.toLowerCase()
+                })
+            ).toBe(siwvMinimalText);
+        });
+
+        (
+            [
+                { domain: 'https://example.com' },
+                { address: '0x1234' },
+                { statement: 'multi\nline' },
+                { uri: 'not a uri' },
+                { chainTag: 256 },
+                { chainTag: 1.5 },
+                { genesisId: '0x00' },
+                {
+                    genesisId:
+                        '0x00000000851caf3cfdb6e41f9b8ae8ae7e2b13b37a1d7fe1f7ae31e0f3a56e4a'
+                },
+                { nonce: 'short' },
+                { nonce: 'not-alphanumeric' },
+                { issuedAt: '2024-06-01' },
+                { expirationTime: 'tomorrow' },
+                { expirationTime: '2024-06-01T09:00:00.000Z' },
+                { resources: ['not a uri'] }
+            ] as Array<Partial<SIWVMessage>>
+        ).forEach((invalid) => {
+            test(`Exception <- invalid ${Object.keys(invalid)[0]}: ${JSON.stringify(Object.values(invalid)[0])}`, () => {
+                expect(() =>
+                    siwv.build({ ...siwvMessage, ...invalid })
+                ).toThrowError(InvalidSIWVMessage);
+            });
+        });
+    });
+
+    describe('parse', () => {
+        test('Ok <- all fields', () => {
+            expect(siwv.parse(siwvText)).toEqual(siwvMessage);
+        });
+
+        test('Ok <- mandatory fields', () => {
+            expect(siwv.parse(siwvMinimalText)).toEqual(siwvMinimalMessage);
+        });
+
+        test('Ok <- empty statement', () => {
+            const message = { ...siwvMinimalMessage, statement: '' };
+            expect(siwv.parse(siwv.build(message))).toEqual(message);
+        });
+
+        [
+            { reason: 'empty text', text: '' },
+            {
+                reason: 'missing header',
+                text: siwvText.replace(' wants you to sign in', ' signs in')
+            },
+            {
+                reason: 'missing blank line',
+                text: siwvMinimalText.replace('\n\nURI', '\nURI')
+            },
+            {
+                reason: 'unsupported version',
+                text: siwvText.replace('Version: 1', 'Version: 2')
+            },
+            {
+                reason: 'decimal chain tag',
+                text: siwvText.replace('Chain Tag: 0x27', 'Chain Tag: 39')
+            },
+            {
+                reason: 'lines out of order',
+                text: siwvMinimalText.replace(
+                    'Nonce: 12345678\nIssued At: 2024-06-01T10:00:00Z',
+                    'Issued At: 2024-06-01T10:00:00Z\nNonce: 12345678'
+                )
+            },
+            {
+                reason: 'missing nonce',
+                text: siwvMinimalText.replace('Nonce: 12345678\n', '')
+            },
+            { reason: 'trailing line', text: siwvMinimalText + '\n' },
+            {
+                reason: 'invalid resource',
+                text: siwvText + '\nhttps://example.com'
+            },
+            {
+                reason: 'invalid address',
+                text: siwvMinimalText.replace(
+                    siwvMinimalMessage.address,
+                    '0xInvalidAddress'
+                )
+            }
+        ].forEach(({ reason, text }) => {
+            test(`Exception <- ${reason}`, () => {
+                expect(() => siwv.parse(text)).toThrowError(InvalidSIWVMessage);
+            });
+        });
+    });
+
+    describe('generateNonce', () => {
+        test('Ok <- alphanumeric and random', () => {
+            const nonces = Array.from({ length: 16 }, () =>
+                siwv.generateNonce()
+            );
+            nonces.forEach((nonce) => {
+                expect(nonce).toMatch(/^[0-9A-Za-z]{17}$/);
+            });
+            expect(new Set(nonces).size).toBe(nonces.length);
+        });
+
+        test('Ok <- accepted by build', () => {
+            expect(() =>
+                siwv.build({
+                    ...siwvMinimalMessage,
+                    nonce: siwv.generateNonce()
+                })
+            ).not.toThrow();
+        });
+    });
+
+    describe('toCertificate and fromCertificate', () => {
+        test('Ok <- mapping', () => {
+            const cert = siwv.toCertificate(siwvMessage);
+            expect(cert).toEqual({
+                purpose: 'identification',
+                payload: { type: 'text', content: siwvText },
+                domain: siwvMessage.domain,
+                timestamp: Date.parse(siwvMessage.issuedAt) / 1000,
+                signer: siwvMessage.address
+            });
+            expect(siwv.fromCertificate(cert)).toEqual(siwvMessage);
+        });
+
+        test('Ok <- lowercase signer', () => {
+            const cert = siwv.toCertificate(siwvMessage);
+            expect(
+                siwv.fromCertificate({
+                    ...cert,
+                    signer: cert.signer.toLowerCase()
+                })
+            ).toEqual(siwvMessage);
+        });
+
+        [
+            { purpose: 'agreement' },
+            { domain: 'evil.com' },
+            { timestamp: 1545035330 },
+            { signer: '0x0000000000000000000000000000456E65726779' }
+        ].forEach((mismatch) => {
+            test(`Exception <- ${Object.keys(mismatch)[0]} mismatch`, () => {
+                expect(() =>
+                    siwv.fromCertificate({
+                        ...siwv.toCertificate(siwvMessage),
+                        ...mismatch
+                    })
+                ).toThrowError(InvalidSIWVMessage);
+            });
+        });
+
+        test('Exception <- payload type mismatch', () => {
+            const cert = siwv.toCertificate(siwvMessage);
+            expect(() =>
+                siwv.fromCertificate({
+                    ...cert,
+                    payload: { ...cert.payload, type: 'image' }
+                })
+            ).toThrowError(InvalidSIWVMessage);
+        });
+    });
+
+    describe('sign and verify', () => {
+        const signature = siwv.sign(siwvMessage, certPrivateKey);
+
+        test('Ok <- signature of the certificate', () => {
+            expect(signature).toBe(
+                certificate.sign(
+                    siwv.toCertificate(siwvMessage),
+                    certPrivateKey
+                ).signature
+            );
+        });
+
+        test('Ok <- verify text', () => {
+            expect(siwv.verify(siwvText, signature, verifyOptions)).toEqual(
+                siwvMessage
+            );
+        });
+
+        test('Ok <- verify certificate signed by a wallet', () => {
+            const cert = certificate.sign(
+                siwv.toCertificate(siwvMinimalMessage),
+                certPrivateKey
+            );
+            expect(
+                siwv.verifyCertificate(cert, {
+                    domain: siwvMinimalMessage.domain,
+                    nonce: siwvMinimalMessage.nonce,
+                    time: Date.parse(siwvMinimalMessage.issuedAt)
+                })
+            ).toEqual(siwvMinimalMessage);
+        });
+
+        [
+            { domain: 'evil.com' },
+            { nonce: 'AnotherNonce' },
+            { chainTag: 0x4a },
+            { time: Date.parse('2024-06-01T09:59:59.999Z') },
+            { time: Date.parse(siwvMessage.expirationTime) }
+        ].forEach((option) => {
+            test(`Exception <- ${Object.keys(option)[0]}: ${Object.values(option)[0]}`, () => {
+                expect(() =>
+                    siwv.verify(siwvText, signature, {
+                        ...verifyOptions,
+                        ...option
+                    })
+                ).toThrowError(SIWVVerification);
+            });
+        });
+
+        test('Exception <- expired at current time', () => {
+            expect(() =>
+                siwv.verify(siwvText, signature, {
+                    ...verifyOptions,
+                    time: undefined
+                })
+            ).toThrowError(SIWVVerification);
+        });
+
+        test('Exception <- signed by another account', async () => {
+            const otherPrivateKey = await secp256k1.generatePrivateKey();
+            expect(() =>
+                siwv.verify(
+                    siwvText,
+                    siwv.sign(siwvMessage, otherPrivateKey),
+                    verifyOptions
+                )
+            ).toThrowError(CertificateSignature);
+        });
+
+        test('Exception <- tampered text', () => {
+            expect(() =>
+                siwv.verify(
+                    siwvText.replace('profile', 'wallet'),
+                    signature,
+                    verifyOptions
+                )
+            ).toThrowError(CertificateSignature);
+        });
+
+        test('Exception <- malformed signature', () => {
+            expect(() =>
+                siwv.verify(siwvText, '0xInvalid', verifyOptions)
+            ).toThrowError(CertificateSignature);
+        });
+    });
+});
@@ -0,0 +1,399 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidTypedData } from '@vechain/sdk-errors';
+import { ethers } from 'ethers';
+import {
+    Hex,
+    Keccak256,
+    Signature,
+    Txt,
+    eip712,
+    type TypedDataDomain,
+    type TypedDataTypes
+} from '../../src';
+
+/**
+ * The example of EIP-712, see [Example.js](https://github.com/ethereum/EIPs/blob/master/assets/eip-712/Example.js).
+ */
+const mail = {
+    domain: {
+        name: 'Ether Mail',
+        version: '1',
+        chainId: 1,
+        verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC'
+    },
+    types: {
+        Person: [
+            { name: 'name', type: 'string' },
+            { name: 'wallet', type: 'address' }
+        ],
+        Mail: [
+            { name: 'from', type: 'Person' },
+            { name: 'to', type: 'Person' },
+            { name: 'contents', type: 'string' }
+        ]
+    },
+    message: {
+        from: {
+            name: 'Cow',
+            wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826'
+        },
+        to: {
+            name: 'Bob',
+            wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB'
+        },
+        contents: 'Hello, Bob!'
+    },
+    privateKey: Keccak256.of(Txt.of('cow').bytes).bytes,
+    signer: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826',
+    domainSeparator:
+        '0xf2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f',
+    hashStruct:
+        '0xc52c0ee5d84264471806290a3f2c4cecfc5490626bf912d01f240d7a274b371e',
+    hash: '0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2',
+    signature:
+        '0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d' +
+        '07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b91562' +
+        '1c'
+};
+
+/**
+ * A permit-like order on a VeChain network, the chain ID being the genesis block ID of the mainnet,
+ * made of every kind of type.
+ */
+const order = {
+    domain: {
+        name: 'VeChain Exchange',
+        version: '2',
+        chainId:
+            '0x00000000851caf3cfdb6e899cf5958bfb1ac3413d346d43539627e6be7ec1b4a',
+        verifyingContract: '0x0000000000000000000000000000456E65726779',
+        salt: '0x' + '01'.repeat(32)
+    },
+    types: {
+        Order: [
+            { name: 'maker', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+            { name: 'delta', type: 'int64' },
+            { name: 'active', type: 'bool' },
+            { name: 'tag', type: 'bytes4' },
+            { name: 'payload', type: 'bytes' },
+            { name: 'note', type: 'string' },
+            { name: 'legs', type: 'Leg[]' },
+            { name: 'matrix', type: 'uint8[2][]' },
+            { name: 'fees', type: 'uint16[3]' }
+        ],
+        Leg: [
+            { name: 'token', type: 'address' },
+            { name: 'path', type: 'address[]' }
+        ]
+    },
+    message: {
+        maker: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed',
+        amount: 10n ** 18n,
+        delta: -42,
+        active: true,
+        tag: '0xa9059cbb',
+        payload: new Uint8Array([1, 2, 3]),
+        note: 'café',
+        legs: [
+            {
+                token: '0x0000000000000000000000000000456E65726779',
+                path: ['0x7567d83b7b8d80addcb281a71d54fc7b3364ffed']
+            }
+        ],
+        matrix: [
+            [1, 2],
+            [3, 4]
+        ],
+        fees: ['0x0a', '20', 30]
+    }
+};
+
+/**
+ * Unit tests of EIP-712 typed data.
+ *
+ * @group unit/eip712
+ */
+describe('eip712', () => {
+    describe('hash', () => {
+        test('Ok <- example of EIP-712', () => {
+            expect(eip712.encodeType(mail.types, 'Mail')).toBe(
+                'Mail(Person from,Person to,string contents)Person(string name,address wallet)'
+            );
+            expect(eip712.hashDomain(mail.domain).toString()).toBe(
+                mail.domainSeparator
+            );
+            expect(
+                eip712.hashStruct(mail.types, 'Mail', mail.message).toString()
+            ).toBe(mail.hashStruct);
+            expect(
+                eip712.hash(mail.domain, mail.types, mail.message).toString()
+            ).toBe(mail.hash);
+        });
+
+        test('Ok <- same hash as ethers, VeChain chain ID and every type', () => {
+            expect(
+                eip712.hash(order.domain, order.types, order.message).toString()
+            ).toBe(
+                ethers.TypedDataEncoder.hash(
+                    order.domain,
+                    order.types,
+                    order.message
+                )
+            );
+            const empty = { ...order.message, payload: '0x', note: '' };
+            expect(
+                eip712.hash(order.domain, order.types, empty).toString()
+            ).toBe(
+                ethers.TypedDataEncoder.hash(order.domain, order.types, empty)
+            );
+            const domain: TypedDataDomain = { chainId: 0x4a, salt: null };
+            expect(eip712.hashDomain(domain).toString()).toBe(
+                ethers.TypedDataEncoder.hashDomain({ chainId: 0x4a })
+            );
+        });
+
+        test('Ok <- EIP712Domain type ignored', () => {
+            const types: TypedDataTypes = {
+                EIP712Domain: [{ name: 'name', type: 'string' }],
+                ...mail.types
+            };
+            expect(eip712.primaryTypeOf(types)).toBe('Mail');
+            expect(
+                eip712.hash(mail.domain, types, mail.message).toString()
+            ).toBe(mail.hash);
+        });
+    });
+
+    describe('sign, recover and verify', () => {
+        test('Ok <- example of EIP-712', () => {
+            expect(
+                eip712.sign(
+                    mail.domain,
+                    mail.types,
+                    mail.message,
+                    mail.privateKey
+                )
+            ).toBe(mail.signature);
+            expect(
+                eip712.recover(
+                    mail.domain,
+                    mail.types,
+                    mail.message,
+                    mail.signature
+                )
+            ).toBe(mail.signer);
+            expect(
+                eip712.verify(
+                    mail.domain,
+                    mail.types,
+                    mail.message,
+                    Signature.of(mail.signature).compactBytes,
+                    mail.signer.toLowerCase()
+                )
+            ).toBe(true);
+        });
+
+        test('Ok <- signature of another message or signer', () => {
+            const signature = eip712.sign(
+                order.domain,
+                order.types,
+                order.message,
+                mail.privateKey
+            );
+            expect(
+                eip712.verify(
+                    order.domain,
+                    order.types,
+                    { ...order.message, amount: 1 },
+                    signature,
+                    mail.signer
+                )
+            ).toBe(false);
+            expect(
+                eip712.verify(
+                    order.domain,
+                    order.types,
+                    order.message,
+                    signature,
+                    order.message.maker
+                )
+            ).toBe(false);
+            expect(
+                eip712.verify(
+                    mail.domain,
+                    mail.types,
+                    mail.message,
+                    '0x1234',
+                    mail.signer
+                )
+            ).toBe(false);
+        });
+
+        test('Exception <- malformed typed data', () => {
+            expect(() =>
+                eip712.verify(
+                    mail.domain,
+                    mail.types,
+                    { ...mail.message, contents: 1 },
+                    mail.signature,
+                    mail.signer
+                )
+            ).toThrowError(InvalidTypedData);
+        });
+    });
+
+    describe('validate', () => {
+        test('Ok <- valid domain and types', () => {
+            expect(() => {
+                eip712.validate(order.domain, order.types);
+            }).not.toThrow();
+        });
+
+        (
+            [
+                {
+                    domain: {
+                        ...mail.domain,
+                        chain: 1
+                    },
+                    types: mail.types,
+                    error: "domain member 'chain' is not defined"
+                },
+                {
+                    domain: { ...mail.domain, chainId: '0xg' },
+                    types: mail.types,
+                    error: 'domain.chainId is not an integer'
+                },
+                {
+                    domain: { ...mail.domain, salt: '0x01' },
+                    types: mail.types,
+                    error: 'domain.salt is not a sequence of 32 bytes'
+                },
+                {
+                    domain: mail.domain,
+                    types: {
+                        ...mail.types,
+                        Person: [{ name: 'age', type: 'uint7' }]
+                    },
+                    error: "type 'uint7' of 'Person.age' is not defined"
+                },
+                {
+                    domain: mail.domain,
+                    types: {
+                        Person: [
+                            { name: 'name', type: 'string' },
+                            { name: 'name', type: 'address' }
+                        ]
+                    },
+                    error: "member 'name' of 'Person' is not a valid or distinct name"
+                },
+                {
+                    domain: mail.domain,
+                    types: {
+                        ...mail.types,
+                        Group: [{ name: 'members', type: 'Person[]' }]
+                    },
+                    error: 'ambiguous primary type, one of Mail, Group'
+                },
+                {
+                    domain: mail.domain,
+                    types: {
+                        A: [{ name: 'b', type: 'B' }],
+                        B: [{ name: 'a', type: 'A' }]
+                    },
+                    error: 'no primary type'
+                }
+            ] as Array<{
+                domain: TypedDataDomain;
+                types: TypedDataTypes;
+                error: string;
+            }>
+        ).forEach(({ domain, types, error }) => {
+            test(`Exception <- ${error}`, () => {
+                expect(() => {
+                    eip712.validate(domain, types);
+                }).toThrowError(error);
+            });
+        });
+    });
+
+    describe('encodeData', () => {
+        [
+            {
+                message: { ...order.message, legs: undefined },
+                error: 'Order.legs is missing'
+            },
+            {
+                message: { ...order.message, amount: -1n },
+                error: 'Order.amount is out of the range of uint256'
+            },
+            {
+                message: { ...order.message, delta: 2n ** 63n },
+                error: 'Order.delta is out of the range of int64'
+            },
+            {
+                message: { ...order.message, delta: 1.5 },
+                error: 'Order.delta is not an integer'
+            },
+            {
+                message: { ...order.message, active: 1 },
+                error: 'Order.active is not a boolean'
+            },
+            {
+                message: { ...order.message, maker: '0x1234' },
+                error: 'Order.maker is not an address'
+            },
+            {
+                message: { ...order.message, payload: 'abc' },
+                error: 'Order.payload is not a byte sequence'
+            },
+            {
+                message: { ...order.message, fees: [1, 2] },
+                error: 'Order.fees must have 3 items'
+            },
+            {
+                message: { ...order.message, matrix: [[1, 256]] },
+                error: 'Order.matrix[0][1] is out of the range of uint8'
+            },
+            {
+                message: {
+                    ...order.message,
+                    legs: [null]
+                },
+                error: 'Order.legs[0] is not a struct'
+            }
+        ].forEach(({ message, error }) => {
+            test(`Exception <- ${error}`, () => {
+                expect(() =>
+                    eip712.encodeData(order.types, 'Order', message)
+                ).toThrowError(InvalidTypedData);
+                expect(() =>
+                    eip712.encodeData(order.types, 'Order', message)
+                ).toThrowError(error);
+            });
+        });
+
+        test('Exception <- primary type not defined', () => {
+            expect(() =>
+                eip712.encodeData(order.types, 'Trade', order.message)
+            ).toThrowError("struct type 'Trade' is not defined");
+        });
+
+        test('Ok <- members not defined by the type ignored', () => {
+            expect(
+                Hex.of(
+                    eip712.encodeData(order.types, 'Order', {
+                        ...order.message,
+                        extra: 1
+                    })
+                ).toString()
+            ).toBe(
+                ethers.TypedDataEncoder.from(order.types).encodeData(
+                    'Order',
+                    order.message
+                )
+            );
+        });
+    });
+});
@@ -30,4 +30,48 @@ const wrongWords =
  */
 const wrongDerivationPath = '0/1/4/2/4/h';
 
-export { addresses, words, wrongDerivationPath, wrongWords };
+/**
+ * BIP39 test vectors with passphrase, the expected value is the extended private key of the master node.
+ *
+ * See https://github.com/trezor/python-mnemonic/blob/master/vectors.json
+ * and https://github.com/bip32JP/bip32JP.github.io/blob/master/test_JP_BIP39.json
+ */
+const passphraseVectors = [
+    {
+        words: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'.split(
+            ' '
+        ),
+        passphrase: 'TREZOR',
+        xprv: 'xprv9s21ZrQH143K3h3fDYiay8mocZ3afhfULfb5GX8kCBdno77K4HiA15Tg23wpbeF1pLfs1c5SPmYHrEpTuuRhxMwvKDwqdKiGJS9XFKzUsAF'
+    },
+    {
+        words: 'あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あいこくしん　あおぞら'.split(
+            '\u3000'
+        ),
+        passphrase: '㍍ガバヴァぱばぐゞちぢ十人十色',
+        xprv: 'xprv9s21ZrQH143K258jAiWPAM6JYT9hLA91MV3AZUKfxmLZJCjCHeSjBvMbDy8C1mJ2FL5ytExyS97FAe6pQ6SD5Jt9SwHaLorA8i5Eojokfo1'
+    }
+];
+
+/**
+ * BIP32 test vector 1, chain `m/0'`.
+ *
+ * See https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki#test-vector-1
+ */
+const extendedKeyVector = {
+    xprv: 'xprv9uHRZZhk6KAJC1avXpDAp4MDc3sQKNxDiPvvkX8Br5ngLNv1TxvUxt4cV1rGL5hj6KCesnDYUhd7oWgT11eZG7XnxHrnYeSvkzY7d2bhkJ7',
+    xpub: 'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw',
+    depth: 1,
+    index: 0x80000000,
+    fingerprint: 0x5c1bd648,
+    parentFingerprint: 0x3442193e
+};
+
+export {
+    addresses,
+    extendedKeyVector,
+    passphraseVectors,
+    words,
+    wrongDerivationPath,
+    wrongWords
+};
@@ -12,7 +12,14 @@ import {
     type WordlistSizeType,
     ZERO_BYTES
 } from '../../src';
-import { addresses, words, wrongDerivationPath, wrongWords } from './fixture';
+import {
+    addresses,
+    extendedKeyVector,
+    passphraseVectors,
+    words,
+    wrongDerivationPath,
+    wrongWords
+} from './fixture';
 
 /**
  * Mnemonic tests
@@ -127,6 +134,24 @@ describe('HDNode', () => {
                 }
             );
         });
+
+        test('fromMnemonic - valid - passphrase - BIP39 vectors', () => {
+            passphraseVectors.forEach((vector) => {
+                expect(
+                    HDNode.fromMnemonic(vector.words, 'm', vector.passphrase)
+                        .privateExtendedKey
+                ).toEqual(vector.xprv);
+            });
+        });
+
+        test('fromMnemonic - valid - passphrase changes the keys', () => {
+            expect(
+                HDNode.fromMnemonic(words, undefined, 'secret').privateKey
+            ).not.toEqual(HDNode.fromMnemonic(words).privateKey);
+            expect(
+                HDNode.fromMnemonic(words, undefined, '').privateKey
+            ).toEqual(HDNode.fromMnemonic(words).privateKey);
+        });
     });
 
     describe('derivePrivateKey', () => {
@@ -211,4 +236,137 @@ describe('HDNode', () => {
             }
         });
     });
+
+    describe('extended keys', () => {
+        test('fromExtendedKey - valid - xprv', () => {
+            const node = HDNode.fromExtendedKey(extendedKeyVector.xprv);
+            expect(node.privateKey).not.toBeNull();
+            expect(HDNode.toExtendedPrivateKey(node)).toEqual(
+                extendedKeyVector.xprv
+            );
+            expect(HDNode.toExtendedPublicKey(node)).toEqual(
+                extendedKeyVector.xpub
+            );
+        });
+
+        test('fromExtendedKey - valid - xpub', () => {
+            const node = HDNode.fromExtendedKey(extendedKeyVector.xpub);
+            expect(node.privateKey).toBeNull();
+            expect(HDNode.toExtendedPublicKey(node)).toEqual(
+                extendedKeyVector.xpub
+            );
+        });
+
+        test('fromExtendedKey - invalid - not base58', () => {
+            expect(() => HDNode.fromExtendedKey('xpub0OIl')).toThrowError(
+                InvalidHDNode
+            );
+        });
+
+        test('fromExtendedKey - invalid - checksum', () => {
+            const tampered = `${extendedKeyVector.xpub.slice(0, -1)}x`;
+            expect(() => HDNode.fromExtendedKey(tampered)).toThrowError(
+                InvalidHDNode
+            );
+        });
+
+        test('fromExtendedKey - invalid - version', () => {
+            // The xpub above serialized with the Litecoin `Ltub` version bytes.
+            const ltub =
+                'Ltub2UhtRiSfp82berwLEKkB34QBEt2TUdCDCu4WNzGumvAMwYsxfWjULKsXhADxqy3cuDu3TnqoKJr1xmB8Wb2qzthWAtbb4CutpXPuSU1YMgG';
+            expect(() => HDNode.fromExtendedKey(ltub)).toThrowError(
+                InvalidHDNode
+            );
+        });
+
+        test('toExtendedPrivateKey - invalid - watch-only node', () => {
+            expect(() =>
+                HDNode.toExtendedPrivateKey(
+                    HDNode.fromExtendedKey(extendedKeyVector.xpub)
+                )
+            ).toThrowError(InvalidHDNode);
+        });
+
+        test('toExtendedPublicKey - round trip - mnemonic', () => {
+            const node = HDNode.fromMnemonic(words);
+            const xpub = HDNode.toExtendedPublicKey(node);
+            expect(xpub.startsWith('xpub')).toBe(true);
+            expect(HDNode.fromExtendedKey(xpub).publicKey).toEqual(
+                node.publicKey
+            );
+            const xprv = HDNode.toExtendedPrivateKey(node);
+            expect(xprv.startsWith('xprv')).toBe(true);
+            expect(HDNode.fromExtendedKey(xprv).privateKey).toEqual(
+                node.privateKey
+            );
+        });
+
+        test('metadataOf - extended key', () => {
+            expect(HDNode.metadataOf(extendedKeyVector.xprv)).toEqual({
+                isPrivate: true,
+                depth: extendedKeyVector.depth,
+                index: extendedKeyVector.index,
+                fingerprint: extendedKeyVector.fingerprint,
+                parentFingerprint: extendedKeyVector.parentFingerprint
+            });
+            expect(HDNode.metadataOf(extendedKeyVector.xpub)).toEqual({
+                isPrivate: false,
+                depth: extendedKeyVector.depth,
+                index: extendedKeyVector.index,
+                fingerprint: extendedKeyVector.fingerprint,
+                parentFingerprint: extendedKeyVector.parentFingerprint
+            });
+        });
+
+        test('metadataOf - node', () => {
+            const metadata = HDNode.metadataOf(HDNode.fromMnemonic(words));
+            expect(metadata.isPrivate).toBe(true);
+            expect(metadata.depth).toEqual(4);
+            expect(metadata.index).toEqual(0);
+        });
+    });
+
+    describe('deriveAddresses', () => {
+        test('deriveAddresses - valid - xpub', () => {
+            const xpub = HDNode.toExtendedPublicKey(HDNode.fromMnemonic(words));
+            expect(
+                HDNode.deriveAddresses(xpub, 0, addresses.length).map(
+                    (address) => address.toString()
+                )
+            ).toEqual(addresses);
+        });
+
+        test('deriveAddresses - valid - range', () => {
+            const node = HDNode.fromExtendedKey(
+                HDNode.toExtendedPublicKey(HDNode.fromMnemonic(words))
+            );
+            expect(
+                HDNode.deriveAddresses(node, 2, 2).map((address) =>
+                    address.toString()
+                )
+            ).toEqual(addresses.slice(2, 4));
+            expect(HDNode.deriveAddresses(node).length).toEqual(10);
+            expect(HDNode.deriveAddresses(node, 0, 0)).toEqual([]);
+        });
+
+        test('deriveAddresses - valid - same addresses of mnemonic', () => {
+            const xpub = HDNode.toExtendedPublicKey(HDNode.fromMnemonic(words));
+            expect(HDNode.deriveAddresses(xpub, 0, 1)[0]).toEqual(
+                Address.ofMnemonic(words)
+            );
+        });
+
+        test('deriveAddresses - invalid - range', () => {
+            const xpub = HDNode.toExtendedPublicKey(HDNode.fromMnemonic(words));
+            expect(() => HDNode.deriveAddresses(xpub, -1, 1)).toThrowError(
+                InvalidHDNode
+            );
+            expect(() => HDNode.deriveAddresses(xpub, 0, 1.5)).toThrowError(
+                InvalidHDNode
+            );
+            expect(() =>
+                HDNode.deriveAddresses(xpub, 0x7fffffff, 2)
+            ).toThrowError(InvalidHDNode);
+        });
+    });
 });
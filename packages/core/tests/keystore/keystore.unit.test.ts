@@ -7,7 +7,7 @@ import {
     type Keystore,
     secp256k1
 } from '../../src';
-import { encryptionPassword } from './fixture';
+import { encryptionPassword, pbkdf2Vector } from './fixture';
 import {
     InvalidKeystore,
     InvalidKeystoreParams,
@@ -170,5 +170,201 @@ import {
                 keystore.isValid(JSON.parse(invalidKeystore) as Keystore)
             ).toBe(false);
         });
+
+        /**
+         * Decrypt PBKDF2 keystore test vector
+         */
+        test('decrypt pbkdf2', async () => {
+            expect(keystore.isValid(pbkdf2Vector.keystore)).toBe(true);
+            const decryptedKeystore = await keystore.decrypt(
+                pbkdf2Vector.keystore,
+                pbkdf2Vector.password
+            );
+            expect(decryptedKeystore.privateKey).toEqual(
+                pbkdf2Vector.privateKey
+            );
+            expect(decryptedKeystore.address).toEqual(
+                Address.checksum(HexUInt.of(pbkdf2Vector.keystore.address))
+            );
+        });
+
+        /**
+         * Encrypt private key to PBKDF2 keystore
+         */
+        test('encrypt pbkdf2', async () => {
+            const privateKey = await secp256k1.generatePrivateKey();
+            if (experimentalCryptography) {
+                const myKeystore = await keystore.encrypt(
+                    Buffer.from(privateKey),
+                    encryptionPassword,
+                    { kdf: 'pbkdf2', pbkdf2: { c: 1024 } }
+                );
+                expect(myKeystore.crypto.kdf).toEqual('pbkdf2');
+                expect(myKeystore.crypto.kdfparams).toEqual({
+                    c: 1024,
+                    dklen: 32,
+                    prf: 'hmac-sha256',
+                    salt: expect.any(String)
+                });
+                expect(keystore.isValid(myKeystore)).toBe(true);
+                const decryptedKeystore = await keystore.decrypt(
+                    myKeystore,
+                    encryptionPassword
+                );
+                expect(decryptedKeystore.privateKey).toEqual(
+                    Hex.of(privateKey).toString()
+                );
+            } else {
+                await expect(
+                    async () =>
+                        await keystore.encrypt(
+                            Buffer.from(privateKey),
+                            encryptionPassword,
+                            { kdf: 'pbkdf2' }
+                        )
+                ).rejects.toThrowError(InvalidKeystoreParams);
+            }
+        });
+
+        /**
+         * Encrypt private key with invalid PBKDF2 parameters
+         */
+        test('encrypt pbkdf2 invalid parameters', async () => {
+            const privateKey = await secp256k1.generatePrivateKey();
+            await expect(
+                async () =>
+                    await keystore.encrypt(
+                        Buffer.from(privateKey),
+                        encryptionPassword,
+                        { kdf: 'pbkdf2', pbkdf2: { c: 0 } }
+                    )
+            ).rejects.toThrowError(InvalidKeystoreParams);
+            await expect(
+                async () =>
+                    await keystore.encrypt(
+                        Buffer.from(privateKey),
+                        encryptionPassword,
+                        { kdf: 'pbkdf2', pbkdf2: { c: 2 ** 20 + 1 } }
+                    )
+            ).rejects.toThrowError(InvalidKeystoreParams);
+        });
+
+        /**
+         * Decrypt PBKDF2 keystore with too many iterations, rejected before deriving the key
+         */
+        test('decrypt pbkdf2 iterations out of range', async () => {
+            const invalidKeystore = {
+                ...pbkdf2Vector.keystore,
+                crypto: {
+                    ...pbkdf2Vector.keystore.crypto,
+                    kdfparams: {
+                        ...pbkdf2Vector.keystore.crypto.kdfparams,
+                        c: Number.MAX_SAFE_INTEGER
+                    }
+                }
+            };
+            await expect(
+                async () =>
+                    await keystore.decrypt(
+                        invalidKeystore,
+                        pbkdf2Vector.password
+                    )
+            ).rejects.toThrowError('must be > 0 and <= 1048576');
+        });
+
+        /**
+         * Decrypt PBKDF2 keystore with unsupported pseudo-random function
+         */
+        test('decrypt pbkdf2 unsupported prf', async () => {
+            const invalidKeystore = {
+                ...pbkdf2Vector.keystore,
+                crypto: {
+                    ...pbkdf2Vector.keystore.crypto,
+                    kdfparams: {
+                        ...pbkdf2Vector.keystore.crypto.kdfparams,
+                        c: 1024,
+                        prf: 'hmac-md5'
+                    }
+                }
+            };
+            await expect(
+                async () =>
+                    await keystore.decrypt(
+                        invalidKeystore,
+                        pbkdf2Vector.password
+                    )
+            ).rejects.toThrowError(InvalidKeystoreParams);
+        });
+
+        /**
+         * Re-encrypt keystore with a new password
+         */
+        test('reencrypt', async () => {
+            const newPassword = `NEW_${encryptionPassword}`;
+            const newKeystore = await keystore.reencrypt(
+                pbkdf2Vector.keystore,
+                pbkdf2Vector.password,
+                newPassword,
+                { scrypt: { N: 1024 } }
+            );
+            expect(newKeystore.id).not.toEqual(pbkdf2Vector.keystore.id);
+            expect(
+                (await keystore.decrypt(newKeystore, newPassword)).privateKey
+            ).toEqual(pbkdf2Vector.privateKey);
+            await expect(
+                async () =>
+                    await keystore.decrypt(newKeystore, pbkdf2Vector.password)
+            ).rejects.toThrowError(InvalidKeystoreParams);
+        });
+
+        /**
+         * Re-encrypt keystore with a new key derivation function
+         */
+        test('reencrypt pbkdf2', async () => {
+            const privateKey = await secp256k1.generatePrivateKey();
+            const myKeystore = await keystore.encrypt(
+                Buffer.from(privateKey),
+                encryptionPassword,
+                { scrypt: { N: 1024 } }
+            );
+            if (experimentalCryptography) {
+                const newKeystore = await keystore.reencrypt(
+                    myKeystore,
+                    encryptionPassword,
+                    encryptionPassword,
+                    { kdf: 'pbkdf2', pbkdf2: { c: 1024 } }
+                );
+                expect(newKeystore.crypto.kdf).toEqual('pbkdf2');
+                expect(newKeystore.address).toEqual(myKeystore.address);
+                expect(
+                    (await keystore.decrypt(newKeystore, encryptionPassword))
+                        .privateKey
+                ).toEqual(Hex.of(privateKey).toString());
+            } else {
+                await expect(
+                    async () =>
+                        await keystore.reencrypt(
+                            myKeystore,
+                            encryptionPassword,
+                            encryptionPassword,
+                            { kdf: 'pbkdf2' }
+                        )
+                ).rejects.toThrowError(InvalidKeystoreParams);
+            }
+        });
+
+        /**
+         * Re-encrypt keystore with invalid password
+         */
+        test('reencrypt with invalid password', async () => {
+            await expect(
+                async () =>
+                    await keystore.reencrypt(
+                        pbkdf2Vector.keystore,
+                        `WRONG_${pbkdf2Vector.password}`,
+                        encryptionPassword
+                    )
+            ).rejects.toThrowError(InvalidKeystoreParams);
+        });
     });
 });
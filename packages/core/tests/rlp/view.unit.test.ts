@@ -0,0 +1,181 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidRLP } from '@vechain/sdk-errors';
+import { Hex, RLP_CODER, RLPView } from '../../src';
+import {
+    bufferProfile,
+    decodeBufferProfileTestCases,
+    decodeMixedKindProfileTestCases,
+    decodeNumericProfileTestCases,
+    decodeTestCases,
+    invalidDecodeObjectTestCases,
+    numericProfile
+} from './rlp.fixture';
+
+/**
+ * A nested item, with a long string and a long list.
+ */
+const nested = RLP_CODER.encode([
+    1,
+    [new Uint8Array(60).fill(7), []],
+    Array.from({ length: 30 }, (_, index) => index + 1000)
+]);
+
+/**
+ * Test suite for RLPView, decoding without copying
+ * @group unit/rlp
+ */
+describe('RLPView', () => {
+    describe('decode without profile', () => {
+        decodeTestCases.forEach(({ input, expected, description }) => {
+            test(description, () => {
+                const bytes = Buffer.from(Hex.of(input).bytes);
+                expect(RLPView.of(bytes).toOutput()).toEqual(expected);
+            });
+        });
+
+        test('nested long items', () => {
+            expect(RLPView.of(nested).toOutput()).toEqual(
+                RLP_CODER.decode(nested)
+            );
+        });
+
+        test('items share the memory of the encoded buffer', () => {
+            const view = RLPView.of(nested);
+            const long = view.at(1).at(0);
+            expect(long.offset).toBe(5);
+            expect(long.bytes.buffer).toBe(nested.buffer);
+            nested[long.offset + 2] = 8;
+            expect(long.bytes[0]).toBe(8);
+            nested[long.offset + 2] = 7;
+        });
+
+        test('items iterated and indexed', () => {
+            const view = RLPView.of(nested);
+            expect(view.items).toHaveLength(3);
+            expect(view.at(2).items.map((item) => item.encoded)).toEqual(
+                Array.from({ length: 30 }, (_, index) =>
+                    RLP_CODER.encode(index + 1000)
+                )
+            );
+            expect(() => view.at(3)).toThrowError(InvalidRLP);
+            expect(() => view.at(0).items).toThrowError(InvalidRLP);
+        });
+    });
+
+    describe('decode with profile', () => {
+        [
+            ...decodeBufferProfileTestCases,
+            ...decodeNumericProfileTestCases,
+            ...decodeMixedKindProfileTestCases
+        ].forEach(({ profile, data, expected, description }) => {
+            test(description, () => {
+                const rlp = new RLP_CODER.Profiler(profile);
+                expect(rlp.decodeView(data)).toEqual(expected);
+                expect(rlp.decodeView(data, true)).toEqual(expected);
+            });
+        });
+
+        test('members decoded when read', () => {
+            // The second member has leading zeros, not a canonical number.
+            const data = RLP_CODER.encode([1, Hex.of('0x0002').bytes, []]);
+            const rlp = new RLP_CODER.Profiler(numericProfile);
+            const decoded = rlp.decodeView(data, true) as Record<
+                string,
+                unknown
+            >;
+            expect(decoded.foo).toBe(1);
+            expect(() => decoded.bar).toThrowError(InvalidRLP);
+            expect(() => rlp.decodeView(data)).toThrowError(InvalidRLP);
+        });
+
+        invalidDecodeObjectTestCases.forEach(
+            ({ profile, data, description }) => {
+                test(description, () => {
+                    const rlp = new RLP_CODER.Profiler(profile);
+                    expect(() => rlp.decodeView(data)).toThrowError(InvalidRLP);
+                    expect(() =>
+                        JSON.stringify(rlp.decodeView(data, true))
+                    ).toThrowError(InvalidRLP);
+                });
+            }
+        );
+    });
+
+    describe('stream', () => {
+        test('concatenated items', () => {
+            const items = [RLP_CODER.encode(1), nested, RLP_CODER.encode([])];
+            const concatenated = Buffer.concat(items);
+            expect(
+                Array.from(RLPView.stream(concatenated)).map(
+                    (view) => view.encoded
+                )
+            ).toEqual(items);
+            expect(() => RLPView.of(concatenated)).toThrowError(InvalidRLP);
+        });
+
+        test('concatenated objects', () => {
+            const { data, expected } = decodeBufferProfileTestCases[0];
+            const rlp = new RLP_CODER.Profiler(bufferProfile);
+            expect(
+                Array.from(rlp.decodeStream(Buffer.concat([data, data])))
+            ).toEqual([expected, expected]);
+            expect(
+                Array.from(
+                    rlp.decodeStream(Buffer.concat([data, data, data]), true)
+                )
+            ).toEqual([expected, expected, expected]);
+        });
+
+        test('Exception <- byte offset of the malformed item', () => {
+            const concatenated = Buffer.concat([
+                RLP_CODER.encode(1),
+                Hex.of('0x83aabb').bytes
+            ]);
+            const stream = RLPView.stream(concatenated);
+            expect(stream.next().value).toBeInstanceOf(RLPView);
+            expect(() => stream.next()).toThrowError(/at byte offset 1\./);
+        });
+    });
+
+    describe('invalid encodings', () => {
+        [
+            { encoded: '0x', offset: 0, description: 'no item' },
+            { encoded: '0x83aabb', offset: 0, description: 'truncated' },
+            {
+                encoded: '0xc283aa',
+                offset: 1,
+                description: 'item exceeding its list'
+            },
+            {
+                encoded: '0xb9',
+                offset: 0,
+                description: 'truncated length'
+            },
+            {
+                encoded: '0xb90038' + '00'.repeat(56),
+                offset: 0,
+                description: 'length with leading zeros'
+            },
+            {
+                encoded: '0xb80a' + '00'.repeat(10),
+                offset: 0,
+                description: 'long length of a short payload'
+            },
+            {
+                encoded: '0xc28101',
+                offset: 1,
+                description: 'single byte not encoded as itself'
+            }
+        ].forEach(({ encoded, offset, description }) => {
+            test(`Exception <- ${description}`, () => {
+                const bytes = Hex.of(encoded).bytes;
+                expect(() => RLPView.of(bytes).toOutput()).toThrowError(
+                    InvalidRLP
+                );
+                expect(() => RLPView.of(bytes).toOutput()).toThrowError(
+                    `at byte offset ${offset}.`
+                );
+            });
+        });
+    });
+});
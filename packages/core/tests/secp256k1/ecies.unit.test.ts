@@ -0,0 +1,111 @@
+import { describe, expect, test } from '@jest/globals';
+import { ecies, Txt, ZERO_BYTES } from '../../src';
+import {
+    invalidPublicKey,
+    otherPrivateKey,
+    privateKey,
+    publicKeyCompressed,
+    publicKeyUncompressed
+} from './fixture';
+import {
+    InvalidSecp256k1EncryptedData,
+    InvalidSecp256k1PrivateKey,
+    InvalidSecp256k1PublicKey
+} from '@vechain/sdk-errors';
+
+/**
+ * ECIES tests
+ * @group unit/secp256k1
+ */
+describe('ecies', () => {
+    const plaintext = Txt.of('Invoice #42: 1000 VET due by 2024-12-31').bytes;
+
+    describe('ecies - encrypt', () => {
+        test('ecies - encrypt - wire format', () => {
+            const encrypted = ecies.encrypt(plaintext, publicKeyCompressed);
+            // Version, ephemeral public key, nonce, ciphertext, tag.
+            expect(encrypted.length).toBe(1 + 33 + 12 + plaintext.length + 16);
+            expect(encrypted[0]).toBe(1);
+            expect([2, 3]).toContain(encrypted[1]);
+        });
+
+        test('ecies - encrypt - random ephemeral key and nonce', () => {
+            expect(
+                ecies.encrypt(plaintext, publicKeyCompressed)
+            ).not.toStrictEqual(ecies.encrypt(plaintext, publicKeyCompressed));
+        });
+
+        test('ecies - encrypt - invalid public key', () => {
+            expect(() =>
+                ecies.encrypt(plaintext, invalidPublicKey)
+            ).toThrowError(InvalidSecp256k1PublicKey);
+        });
+    });
+
+    describe('ecies - decrypt', () => {
+        test('ecies - decrypt - compressed public key', () => {
+            const encrypted = ecies.encrypt(plaintext, publicKeyCompressed);
+            expect(ecies.decrypt(encrypted, privateKey)).toStrictEqual(
+                plaintext
+            );
+        });
+
+        test('ecies - decrypt - uncompressed public key', () => {
+            const encrypted = ecies.encrypt(plaintext, publicKeyUncompressed);
+            expect(ecies.decrypt(encrypted, privateKey)).toStrictEqual(
+                plaintext
+            );
+        });
+
+        test('ecies - decrypt - empty plaintext', () => {
+            const encrypted = ecies.encrypt(
+                new Uint8Array(0),
+                publicKeyCompressed
+            );
+            expect(ecies.decrypt(encrypted, privateKey)).toStrictEqual(
+                new Uint8Array(0)
+            );
+        });
+
+        test('ecies - decrypt - wrong private key', () => {
+            const encrypted = ecies.encrypt(plaintext, publicKeyCompressed);
+            expect(() =>
+                ecies.decrypt(encrypted, otherPrivateKey)
+            ).toThrowError(InvalidSecp256k1EncryptedData);
+        });
+
+        test('ecies - decrypt - invalid private key', () => {
+            const encrypted = ecies.encrypt(plaintext, publicKeyCompressed);
+            expect(() => ecies.decrypt(encrypted, ZERO_BYTES(32))).toThrowError(
+                InvalidSecp256k1PrivateKey
+            );
+        });
+
+        test('ecies - decrypt - tampered data', () => {
+            // Tamper the header, the nonce, the ciphertext and the tag.
+            [1, 34, 50, -1].forEach((position) => {
+                const encrypted = ecies.encrypt(plaintext, publicKeyCompressed);
+                const index =
+                    position < 0 ? encrypted.length + position : position;
+                encrypted[index] ^= 0x01;
+                expect(() => ecies.decrypt(encrypted, privateKey)).toThrowError(
+                    InvalidSecp256k1EncryptedData
+                );
+            });
+        });
+
+        test('ecies - decrypt - unsupported version', () => {
+            const encrypted = ecies.encrypt(plaintext, publicKeyCompressed);
+            encrypted[0] = 2;
+            expect(() => ecies.decrypt(encrypted, privateKey)).toThrowError(
+                InvalidSecp256k1EncryptedData
+            );
+        });
+
+        test('ecies - decrypt - too short', () => {
+            expect(() =>
+                ecies.decrypt(ZERO_BYTES(1 + 33 + 12 + 15), privateKey)
+            ).toThrowError(InvalidSecp256k1EncryptedData);
+        });
+    });
+});
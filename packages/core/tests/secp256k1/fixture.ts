@@ -20,6 +20,28 @@ const signature = n_utils.hexToBytes(
     'f8fe82c74f9e1f5bf443f8a7f8eb968140f554968fdcab0a6ffe904e451c8b9244be44bccb1feb34dd20d9d8943f8c131227e55861736907b02d32c06b934d7200'
 );
 
+/**
+ * Second key pair and the ECDH shared secret with the key pair above.
+ */
+const otherPrivateKey = n_utils.hexToBytes(
+    'ea5383ac1f9e625220039a4afac6a7f868bf1ad4f48ce3a1dd78bd214ee4ace5'
+);
+
+const otherPublicKeyCompressed = n_utils.hexToBytes(
+    '027feef5225d47ffd95c53873fec2585c7c81f8544d45cacc88a08ce6dd9a407de'
+);
+
+const sharedSecret = n_utils.hexToBytes(
+    'ea9b319f1bd2af1575349d87cdc7346dc6bac36ff5b47e64c6062d5bd932184c'
+);
+
+/**
+ * Not a point of the curve: valid prefix, X coordinate with no Y solution.
+ */
+const invalidPublicKey = n_utils.hexToBytes(
+    '020000000000000000000000000000000000000000000000000000000000000005'
+);
+
 /**
  * Simple message hashes
  */
@@ -39,10 +61,14 @@ const validPrivateKeys = [
 
 export {
     invalidMessageHashes,
+    invalidPublicKey,
     messageHashBuffer,
+    otherPrivateKey,
+    otherPublicKeyCompressed,
     privateKey,
     publicKeyCompressed,
     publicKeyUncompressed,
+    sharedSecret,
     signature,
     validMessageHashes,
     validPrivateKeys
@@ -2,10 +2,14 @@ import { describe, expect, test } from '@jest/globals';
 import { secp256k1, ZERO_BYTES } from '../../src';
 import {
     invalidMessageHashes,
+    invalidPublicKey,
     messageHashBuffer,
+    otherPrivateKey,
+    otherPublicKeyCompressed,
     privateKey,
     publicKeyCompressed,
     publicKeyUncompressed,
+    sharedSecret,
     signature,
     validMessageHashes,
     validPrivateKeys
@@ -13,6 +17,7 @@ import {
 import {
     InvalidSecp256k1MessageHash,
     InvalidSecp256k1PrivateKey,
+    InvalidSecp256k1PublicKey,
     InvalidSecp256k1Signature
 } from '@vechain/sdk-errors';
 
@@ -55,6 +60,38 @@ describe('secp256k1', () => {
         });
     });
 
+    describe('secp256k1 - deriveSharedSecret', () => {
+        test('secp256k1 - deriveSharedSecret - both parties', () => {
+            expect(
+                secp256k1.deriveSharedSecret(
+                    privateKey,
+                    otherPublicKeyCompressed
+                )
+            ).toStrictEqual(sharedSecret);
+            expect(
+                secp256k1.deriveSharedSecret(
+                    otherPrivateKey,
+                    publicKeyUncompressed
+                )
+            ).toStrictEqual(sharedSecret);
+        });
+
+        test('secp256k1 - deriveSharedSecret - invalid private key', () => {
+            expect(() =>
+                secp256k1.deriveSharedSecret(
+                    ZERO_BYTES(32),
+                    otherPublicKeyCompressed
+                )
+            ).toThrowError(InvalidSecp256k1PrivateKey);
+        });
+
+        test('secp256k1 - deriveSharedSecret - invalid public key', () => {
+            expect(() =>
+                secp256k1.deriveSharedSecret(privateKey, invalidPublicKey)
+            ).toThrowError(InvalidSecp256k1PublicKey);
+        });
+    });
+
     describe('secp256k1 - generatePublicKey', () => {
         test('secp256k1 - generatePrivateKey', async () => {
             const randomPrivateKey = await secp256k1.generatePrivateKey();
@@ -107,6 +144,23 @@ describe('secp256k1', () => {
         });
     });
 
+    describe('secp256k1 - isValidPublicKey', () => {
+        test('secp256k1 - isValidPublicKey - true', () => {
+            expect(secp256k1.isValidPublicKey(publicKeyCompressed)).toBe(true);
+            expect(secp256k1.isValidPublicKey(publicKeyUncompressed)).toBe(
+                true
+            );
+        });
+
+        test('secp256k1 - isValidPublicKey - false', () => {
+            expect(secp256k1.isValidPublicKey(invalidPublicKey)).toBe(false);
+            expect(secp256k1.isValidPublicKey(ZERO_BYTES(33))).toBe(false);
+            expect(
+                secp256k1.isValidPublicKey(publicKeyCompressed.slice(1))
+            ).toBe(false);
+        });
+    });
+
     describe('secp256k1 - sign', () => {
         test('secp256k1 - sign - success', () => {
             expect(secp256k1.sign(messageHashBuffer, privateKey)).toStrictEqual(
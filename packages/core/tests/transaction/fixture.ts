@@ -26,6 +26,21 @@ const _correctTransactionBody: TransactionBody = {
     nonce: 12345678
 };
 
+/**
+ * Simple correct dynamic-fee transaction body fixture
+ */
+const _correctDynamicFeeTransactionBody: TransactionBody = {
+    chainTag: 1,
+    blockRef: '0x00000000aabbccdd',
+    expiration: 32,
+    clauses: _correctTransactionBody.clauses,
+    maxFeePerGas: 10000000000,
+    maxPriorityFeePerGas: 1000000000,
+    gas: 37432,
+    dependsOn: null,
+    nonce: 12345678
+};
+
 /**
  * Transactions fixture
  */
@@ -92,9 +107,83 @@ const transactions = {
             signedTransactionIdExpected:
                 '0xd244b56d0ac6d05e6bb3c48867d3093e86414392d46e20f04ecaf026b6f8d20d'
         }
+    ],
+    dynamicFee: [
+        {
+            body: _correctDynamicFeeTransactionBody,
+            encodedUnsignedExpected: Buffer.from(
+                '51f85d0184aabbccdd20f840df947567d83b7b8d80addcb281a71d54fc7b3364ffed82271086000000606060df947567d83b7b8d80addcb281a71d54fc7b3364ffed824e2086000000606060843b9aca008502540be4008292388083bc614ec0',
+                'hex'
+            )
+        },
+        // Delegated dynamic-fee transaction
+        {
+            body: {
+                ..._correctDynamicFeeTransactionBody,
+                reserved: {
+                    features: 1
+                }
+            },
+            encodedUnsignedExpected: Buffer.from(
+                '51f85e0184aabbccdd20f840df947567d83b7b8d80addcb281a71d54fc7b3364ffed82271086000000606060df947567d83b7b8d80addcb281a71d54fc7b3364ffed824e2086000000606060843b9aca008502540be4008292388083bc614ec101',
+                'hex'
+            )
+        }
     ]
 };
 
+/**
+ * Dynamic-fee transaction vectors computed independently of this code by
+ * `@vechain/sdk-core@2.1.0`, the reference implementation of the type `0x51` transactions
+ * of the Galactica fork, signed by the {@link signer} and the {@link delegator} fixtures.
+ */
+const dynamicFeeReference = {
+    body: {
+        chainTag: 0x4a,
+        blockRef: '0x0153c4e6d43f2b6a',
+        expiration: 720,
+        clauses: [
+            {
+                to: '0x0000000000000000000000000000456e65726779',
+                value: 0,
+                data: '0xa9059cbb0000000000000000000000007567d83b7b8d80addcb281a71d54fc7b3364ffed0000000000000000000000000000000000000000000000000de0b6b3a7640000'
+            },
+            {
+                to: '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed',
+                value: '0x38d7ea4c68000',
+                data: '0x'
+            }
+        ],
+        maxPriorityFeePerGas: '0x2540be400',
+        maxFeePerGas: '0x9184e72a000',
+        gas: 90000,
+        dependsOn: null,
+        nonce: '0x1a2b3c4d5e6f7081'
+    } satisfies TransactionBody,
+    undelegated: {
+        encodedUnsigned:
+            '0x51f8a84a880153c4e6d43f2b6a8202d0f87df85c940000000000000000000000000000456e6572677980b844a9059cbb0000000000000000000000007567d83b7b8d80addcb281a71d54fc7b3364ffed0000000000000000000000000000000000000000000000000de0b6b3a7640000de947567d83b7b8d80addcb281a71d54fc7b3364ffed87038d7ea4c68000808502540be4008609184e72a00083015f9080881a2b3c4d5e6f7081c0',
+        signatureHash:
+            '0x02bb4f56f71f286378dcd90d5b99e5540ac1698a9192a2db652ae68932cfcd07',
+        signature:
+            '0x5940e2d2d3cb2d5067605dbda4c5e1d7b9467667aba7ef96d4d181cfb45ff94226157c166e3492b3561b0e81bb50705b942407426ae6a4fbca7550925c67649100',
+        encodedSigned:
+            '0x51f8eb4a880153c4e6d43f2b6a8202d0f87df85c940000000000000000000000000000456e6572677980b844a9059cbb0000000000000000000000007567d83b7b8d80addcb281a71d54fc7b3364ffed0000000000000000000000000000000000000000000000000de0b6b3a7640000de947567d83b7b8d80addcb281a71d54fc7b3364ffed87038d7ea4c68000808502540be4008609184e72a00083015f9080881a2b3c4d5e6f7081c0b8415940e2d2d3cb2d5067605dbda4c5e1d7b9467667aba7ef96d4d181cfb45ff94226157c166e3492b3561b0e81bb50705b942407426ae6a4fbca7550925c67649100',
+        id: '0x938d7ed8b67c0615d66365ee991d05eab901426bd9fe8947788406cd2dc1fd94'
+    },
+    delegated: {
+        encodedUnsigned:
+            '0x51f8a94a880153c4e6d43f2b6a8202d0f87df85c940000000000000000000000000000456e6572677980b844a9059cbb0000000000000000000000007567d83b7b8d80addcb281a71d54fc7b3364ffed0000000000000000000000000000000000000000000000000de0b6b3a7640000de947567d83b7b8d80addcb281a71d54fc7b3364ffed87038d7ea4c68000808502540be4008609184e72a00083015f9080881a2b3c4d5e6f7081c101',
+        signatureHash:
+            '0x96de664674cc4cbbedc09fb4e45e164c28e88e9dc38a837523c32cea6bbafc79',
+        signature:
+            '0x077809842597caa5319581a2137cb1375540801597364a8fab51878dde55c7151d33fb18019f688df890326e1259aefa2110b5612ae65a28e81e060bc7794d5c0024394474d24b8c6cc92ece0580eba08a0de81a6b67430265c12a6c70de72e9da48be127763621a1ef8558d710b8b1ef36bae41f163b1ea7b1e5e04cc6e221fbd01',
+        encodedSigned:
+            '0x51f9012d4a880153c4e6d43f2b6a8202d0f87df85c940000000000000000000000000000456e6572677980b844a9059cbb0000000000000000000000007567d83b7b8d80addcb281a71d54fc7b3364ffed0000000000000000000000000000000000000000000000000de0b6b3a7640000de947567d83b7b8d80addcb281a71d54fc7b3364ffed87038d7ea4c68000808502540be4008609184e72a00083015f9080881a2b3c4d5e6f7081c101b882077809842597caa5319581a2137cb1375540801597364a8fab51878dde55c7151d33fb18019f688df890326e1259aefa2110b5612ae65a28e81e060bc7794d5c0024394474d24b8c6cc92ece0580eba08a0de81a6b67430265c12a6c70de72e9da48be127763621a1ef8558d710b8b1ef36bae41f163b1ea7b1e5e04cc6e221fbd01',
+        id: '0x26e4dc00ac6d6722b10b4b44c8ca5501fe342819bbb25d0305123875a95d72f8'
+    }
+};
+
 /**
  * Simple private key fixture
  */
@@ -123,4 +212,10 @@ const invalidDecodedNotTrimmedReserved = Buffer.from(
     'hex'
 );
 
-export { delegator, invalidDecodedNotTrimmedReserved, signer, transactions };
+export {
+    delegator,
+    dynamicFeeReference,
+    invalidDecodedNotTrimmedReserved,
+    signer,
+    transactions
+};
@@ -0,0 +1,230 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    InvalidSecp256k1PrivateKey,
+    InvalidSecp256k1Signature,
+    InvalidTransactionField,
+    NotDelegatedTransaction
+} from '@vechain/sdk-errors';
+import { Hex, PartiallySignedTransaction, TransactionHandler } from '../../src';
+import { delegator, signer, transactions } from './fixture';
+
+/**
+ * The private keys of the fixture.
+ */
+const signerPrivateKey = Hex.of(signer.privateKey).bytes;
+const delegatorPrivateKey = Hex.of(delegator.privateKey).bytes;
+
+/**
+ * The body of the delegated fixture transaction.
+ */
+const { body } = transactions.delegated[0];
+
+/**
+ * The transaction signed in one process, the reference of the envelopes.
+ */
+const expected = TransactionHandler.signWithDelegator(
+    body,
+    Buffer.from(signerPrivateKey),
+    Buffer.from(delegatorPrivateKey)
+);
+
+/**
+ * Unit tests for the PartiallySignedTransaction class.
+ *
+ * @group unit/transaction
+ */
+describe('PartiallySignedTransaction', () => {
+    describe('sign and finalize', () => {
+        test('Ok <- origin first', () => {
+            const envelope = PartiallySignedTransaction.of(body, signer.address)
+                .signAsOrigin(signerPrivateKey)
+                .signAsDelegator(delegatorPrivateKey);
+            expect(envelope.isComplete).toBe(true);
+            expect(envelope.delegator).toBe(delegator.address);
+            expect(envelope.finalize().encoded).toEqual(expected.encoded);
+        });
+
+        test('Ok <- delegator first', () => {
+            const envelope = PartiallySignedTransaction.of(
+                body,
+                signer.address.toLowerCase()
+            ).signAsDelegator(delegatorPrivateKey);
+            expect(envelope.isComplete).toBe(false);
+            expect(envelope.origin).toBe(signer.address);
+            const transaction = envelope
+                .signAsOrigin(signerPrivateKey)
+                .finalize();
+            expect(transaction.origin).toBe(signer.address);
+            expect(transaction.delegator).toBe(delegator.address);
+            expect(transaction.id).toBe(expected.id);
+        });
+
+        test('Exception <- missing signature', () => {
+            expect(() =>
+                PartiallySignedTransaction.of(body, signer.address)
+                    .signAsOrigin(signerPrivateKey)
+                    .finalize()
+            ).toThrowError(InvalidTransactionField);
+        });
+
+        test('Exception <- private key not of the origin', () => {
+            expect(() =>
+                PartiallySignedTransaction.of(
+                    body,
+                    signer.address
+                ).signAsOrigin(delegatorPrivateKey)
+            ).toThrowError(InvalidSecp256k1PrivateKey);
+        });
+
+        test('Exception <- invalid delegator private key', () => {
+            expect(() =>
+                PartiallySignedTransaction.of(
+                    body,
+                    signer.address
+                ).signAsDelegator(new Uint8Array(32))
+            ).toThrowError(InvalidSecp256k1PrivateKey);
+        });
+
+        test('Exception <- not delegated body', () => {
+            expect(() =>
+                PartiallySignedTransaction.of(
+                    transactions.undelegated[0].body,
+                    signer.address
+                )
+            ).toThrowError(NotDelegatedTransaction);
+        });
+
+        test('Exception <- invalid origin', () => {
+            expect(() =>
+                PartiallySignedTransaction.of(body, '0xinvalid')
+            ).toThrowError(InvalidTransactionField);
+        });
+    });
+
+    describe('combine', () => {
+        test('Ok <- envelopes signed separately', () => {
+            const envelope = PartiallySignedTransaction.of(
+                body,
+                signer.address
+            );
+            const combined = PartiallySignedTransaction.combine(
+                envelope.signAsDelegator(delegatorPrivateKey),
+                envelope,
+                envelope.signAsOrigin(signerPrivateKey)
+            );
+            expect(combined.finalize().encoded).toEqual(expected.encoded);
+        });
+
+        test('Exception <- different bodies', () => {
+            expect(() =>
+                PartiallySignedTransaction.combine(
+                    PartiallySignedTransaction.of(body, signer.address),
+                    PartiallySignedTransaction.of(
+                        transactions.delegated[1].body,
+                        signer.address
+                    )
+                )
+            ).toThrowError(InvalidTransactionField);
+        });
+
+        test('Exception <- conflicting delegator signatures', () => {
+            const envelope = PartiallySignedTransaction.of(
+                body,
+                signer.address
+            );
+            expect(() =>
+                PartiallySignedTransaction.combine(
+                    envelope.signAsDelegator(delegatorPrivateKey),
+                    envelope.signAsDelegator(signerPrivateKey)
+                )
+            ).toThrowError(InvalidTransactionField);
+        });
+
+        test('Exception <- no envelopes', () => {
+            expect(() => PartiallySignedTransaction.combine()).toThrowError(
+                InvalidTransactionField
+            );
+        });
+    });
+
+    describe('verify', () => {
+        test('Ok <- expected delegator', () => {
+            const envelope = PartiallySignedTransaction.of(
+                body,
+                signer.address
+            ).signAsDelegator(delegatorPrivateKey);
+            expect(() => {
+                envelope.verify(delegator.address);
+            }).not.toThrow();
+            expect(() => {
+                envelope.verify(signer.address);
+            }).toThrowError(InvalidSecp256k1Signature);
+        });
+
+        test('Exception <- origin signature of another account', () => {
+            const { originSignature } = PartiallySignedTransaction.of(
+                body,
+                delegator.address
+            ).signAsOrigin(delegatorPrivateKey);
+            expect(
+                () =>
+                    new PartiallySignedTransaction(body, signer.address, {
+                        origin: originSignature
+                    })
+            ).toThrowError(InvalidSecp256k1Signature);
+        });
+
+        test('Exception <- signature length', () => {
+            expect(
+                () =>
+                    new PartiallySignedTransaction(body, signer.address, {
+                        delegator: new Uint8Array(64)
+                    })
+            ).toThrowError(InvalidSecp256k1Signature);
+        });
+    });
+
+    describe('JSON', () => {
+        test('Ok <- round trip', () => {
+            const envelope = PartiallySignedTransaction.of(
+                body,
+                signer.address
+            ).signAsDelegator(delegatorPrivateKey);
+            const json = envelope.toJSON();
+            expect(json.origin).toBe(signer.address);
+            expect(json.signature.origin).toBeUndefined();
+            expect(json.delegator).toBe(delegator.address);
+            const restored = PartiallySignedTransaction.fromJSON(
+                JSON.parse(JSON.stringify(envelope)) as typeof json
+            );
+            expect(restored.toJSON()).toEqual(json);
+            expect(
+                restored.signAsOrigin(signerPrivateKey).finalize().encoded
+            ).toEqual(expected.encoded);
+        });
+
+        test('Exception <- delegator not matching the signature', () => {
+            const json = PartiallySignedTransaction.of(body, signer.address)
+                .signAsDelegator(delegatorPrivateKey)
+                .toJSON();
+            expect(() =>
+                PartiallySignedTransaction.fromJSON({
+                    ...json,
+                    delegator: signer.address
+                })
+            ).toThrowError(InvalidSecp256k1Signature);
+        });
+
+        test('Exception <- signature not hexadecimal', () => {
+            expect(() =>
+                PartiallySignedTransaction.fromJSON({
+                    ...PartiallySignedTransaction.of(
+                        body,
+                        signer.address
+                    ).toJSON(),
+                    signature: { origin: 'not hex' }
+                })
+            ).toThrowError(InvalidTransactionField);
+        });
+    });
+});
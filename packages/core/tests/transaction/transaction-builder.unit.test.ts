@@ -0,0 +1,312 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidTransactionField } from '@vechain/sdk-errors';
+import { type FunctionFragment } from 'ethers';
+import {
+    BlockId,
+    clauseBuilder,
+    coder,
+    Hex,
+    HexUInt,
+    TransactionBuilder,
+    TransactionHandler,
+    TransactionType,
+    TransactionUtils,
+    networkInfo
+} from '../../src';
+import { exampleContractAbi, exampleContractBytecode } from '../clause/fixture';
+import { delegator, signer, transactions } from './fixture';
+
+/**
+ * A block ID and its block reference.
+ */
+const blockId =
+    '0x00000000aabbccdd1122334455667788990011223344556677889900aabbccdd';
+const blockRef = '0x00000000aabbccdd';
+
+/**
+ * The body of the undelegated fixture transaction,
+ * its gas raised to the intrinsic gas the builder requires at least.
+ */
+const body = {
+    ...transactions.undelegated[0].body,
+    gas: transactions.undelegated[0].intrinsicGasExpected
+};
+
+/**
+ * Returns a builder of the fixture transaction body.
+ */
+function builderOfFixture(): TransactionBuilder {
+    return new TransactionBuilder()
+        .chainTag(body.chainTag)
+        .blockRef(body.blockRef)
+        .expiration(body.expiration)
+        .clause(...body.clauses)
+        .gasPriceCoef(body.gasPriceCoef)
+        .gas(body.gas)
+        .nonce(body.nonce as number);
+}
+
+/**
+ * Unit tests for the TransactionBuilder class.
+ *
+ * @group unit/transaction
+ */
+describe('TransactionBuilder', () => {
+    describe('build', () => {
+        test('Ok <- fixture body', () => {
+            expect(builderOfFixture().buildBody()).toEqual(body);
+            expect(builderOfFixture().build().body).toEqual(body);
+        });
+
+        test('Ok <- delegated fixture body', () => {
+            const transaction = builderOfFixture().delegated().build();
+            expect(transaction.body).toEqual({
+                ...body,
+                reserved: { features: 1 }
+            });
+            expect(transaction.isDelegated).toBe(true);
+            const signed = TransactionHandler.signWithDelegator(
+                transaction.body,
+                Buffer.from(Hex.of(signer.privateKey).bytes),
+                Buffer.from(Hex.of(delegator.privateKey).bytes)
+            );
+            expect(signed.origin).toBe(signer.address);
+            expect(signed.delegator).toBe(delegator.address);
+        });
+
+        test('Ok <- delegation revoked', () => {
+            expect(
+                builderOfFixture().delegated().delegated(false).build()
+                    .isDelegated
+            ).toBe(false);
+        });
+
+        test('Ok <- gas defaults to intrinsic gas of value transfers', () => {
+            const built = new TransactionBuilder()
+                .chainTag(networkInfo.mainnet.chainTag)
+                .blockRef(blockRef)
+                .clause(
+                    clauseBuilder.transferVET(signer.address, 1n),
+                    clauseBuilder.transferVET(delegator.address, 2n)
+                )
+                .buildBody();
+            expect(built.gas).toBe(37000);
+            expect(built.gas).toBe(
+                TransactionUtils.intrinsicGas(built.clauses)
+            );
+        });
+
+        test('Ok <- defaults', () => {
+            const built = new TransactionBuilder()
+                .chainTag(networkInfo.mainnet.chainTag)
+                .blockRef(blockRef)
+                .clause(clauseBuilder.transferVET(signer.address, 1n))
+                .buildBody();
+            expect(built.chainTag).toBe(networkInfo.mainnet.chainTag);
+            expect(built.expiration).toBe(
+                TransactionBuilder.DEFAULT_EXPIRATION
+            );
+            expect(built.gasPriceCoef).toBe(0);
+            expect(built.gas).toBe(21000);
+            expect(built.dependsOn).toBeNull();
+            expect(Hex.of(built.nonce as string).bytes).toHaveLength(8);
+            expect(built.reserved).toBeUndefined();
+        });
+
+        test('Ok <- random nonce at each build', () => {
+            const builder = new TransactionBuilder()
+                .chainTag(networkInfo.mainnet.chainTag)
+                .blockRef(blockRef);
+            expect(builder.buildBody().nonce).not.toEqual(
+                builder.buildBody().nonce
+            );
+        });
+
+        test('Ok <- block reference of block ID', () => {
+            [blockId, BlockId.of(blockId), HexUInt.of(blockRef)].forEach(
+                (ref) => {
+                    expect(
+                        new TransactionBuilder()
+                            .chainTag(networkInfo.mainnet.chainTag)
+                            .blockRef(ref)
+                            .buildBody().blockRef
+                    ).toBe(blockRef);
+                }
+            );
+        });
+
+        test('Ok <- dependsOn', () => {
+            expect(
+                builderOfFixture().dependsOn(blockId).buildBody().dependsOn
+            ).toBe(blockId);
+        });
+
+        test('Ok <- contract clauses', () => {
+            const fragment = coder
+                .createInterface(exampleContractAbi)
+                .getFunction('set') as FunctionFragment;
+            const built = new TransactionBuilder()
+                .chainTag(networkInfo.mainnet.chainTag)
+                .blockRef(blockRef)
+                .deployContract(exampleContractBytecode, {
+                    types: ['uint256'],
+                    values: ['100']
+                })
+                .functionInteraction(signer.address, fragment, [1])
+                .gas(1000000)
+                .buildBody();
+            expect(built.clauses).toEqual([
+                {
+                    to: null,
+                    value: 0,
+                    data: `0x${exampleContractBytecode}${'0'.repeat(62)}64`
+                },
+                {
+                    to: signer.address,
+                    value: 0,
+                    data: clauseBuilder.functionInteraction(
+                        signer.address,
+                        fragment,
+                        [1]
+                    ).data
+                }
+            ]);
+            expect(built.gas).toBe(1000000);
+        });
+
+        test('Ok <- clause extensions discarded', () => {
+            const built = new TransactionBuilder()
+                .chainTag(networkInfo.mainnet.chainTag)
+                .blockRef(blockRef)
+                .clause(
+                    clauseBuilder.deployContract(
+                        `0x${exampleContractBytecode}`,
+                        undefined,
+                        { comment: 'deploy' }
+                    )
+                )
+                .gas(1000000)
+                .buildBody();
+            expect(built.clauses[0]).not.toHaveProperty('comment');
+        });
+
+        test('Ok <- dynamic fee', () => {
+            const transaction = builderOfFixture()
+                .dynamicFee(10000000000n, '0x3b9aca00')
+                .build();
+            expect(transaction.type).toBe(TransactionType.DynamicFee);
+            expect(transaction.body.gasPriceCoef).toBeUndefined();
+            expect(transaction.encoded).toEqual(
+                transactions.dynamicFee[0].encodedUnsignedExpected
+            );
+            expect(
+                builderOfFixture().dynamicFee(1n).gasPriceCoef(0).build().type
+            ).toBe(TransactionType.Legacy);
+        });
+
+        test('Exception <- chain tag not set', () => {
+            expect(() =>
+                new TransactionBuilder().blockRef(blockRef).build()
+            ).toThrowError(InvalidTransactionField);
+        });
+
+        test('Exception <- block reference not set', () => {
+            expect(() =>
+                new TransactionBuilder()
+                    .chainTag(networkInfo.mainnet.chainTag)
+                    .build()
+            ).toThrowError(InvalidTransactionField);
+        });
+
+        test('Exception <- gas not set for contract calls and deployments', () => {
+            [
+                new TransactionBuilder().clause(...body.clauses),
+                new TransactionBuilder().deployContract(
+                    exampleContractBytecode
+                ),
+                new TransactionBuilder()
+                    .clause(clauseBuilder.transferVET(signer.address, 1n))
+                    .clause({ to: null, value: 0, data: '0x' })
+            ].forEach((builder) => {
+                builder
+                    .chainTag(networkInfo.mainnet.chainTag)
+                    .blockRef(blockRef);
+                expect(() => builder.build()).toThrowError(
+                    InvalidTransactionField
+                );
+                expect(() => builder.build()).toThrowError('Gas is not set');
+            });
+        });
+
+        test('Exception <- gas less than intrinsic gas', () => {
+            expect(() => builderOfFixture().gas(21000).build()).toThrowError(
+                InvalidTransactionField
+            );
+        });
+    });
+
+    describe('fields', () => {
+        [
+            {
+                field: 'chainTag',
+                set: (b: TransactionBuilder) => b.chainTag(256)
+            },
+            {
+                field: 'blockRef',
+                set: (b: TransactionBuilder) => b.blockRef('0xzz')
+            },
+            {
+                field: 'expiration',
+                set: (b: TransactionBuilder) => b.expiration(0)
+            },
+            {
+                field: 'gasPriceCoef',
+                set: (b: TransactionBuilder) => b.gasPriceCoef(1.5)
+            },
+            { field: 'gas', set: (b: TransactionBuilder) => b.gas(-1) },
+            {
+                field: 'maxFeePerGas',
+                set: (b: TransactionBuilder) => b.dynamicFee(-1n)
+            },
+            {
+                field: 'maxPriorityFeePerGas',
+                set: (b: TransactionBuilder) => b.dynamicFee(1n, 2n)
+            },
+            {
+                field: 'dependsOn',
+                set: (b: TransactionBuilder) => b.dependsOn(blockRef)
+            },
+            {
+                field: 'nonce',
+                set: (b: TransactionBuilder) => b.nonce('0x112233445566778899')
+            },
+            {
+                field: 'clauses',
+                set: (b: TransactionBuilder) =>
+                    b.clause({ to: 'vtho.vet', value: 0, data: '0x' })
+            },
+            {
+                field: 'clauses',
+                set: (b: TransactionBuilder) =>
+                    b.clause({ to: null, value: -1, data: '0x' })
+            },
+            {
+                field: 'clauses',
+                set: (b: TransactionBuilder) =>
+                    b.clause({ to: null, value: 0, data: '0x123' })
+            }
+        ].forEach(({ field, set }) => {
+            test(`Exception <- invalid ${field}`, () => {
+                try {
+                    set(new TransactionBuilder());
+                    throw new Error('not thrown');
+                } catch (error) {
+                    expect(error).toBeInstanceOf(InvalidTransactionField);
+                    expect(
+                        (error as InvalidTransactionField).data.fieldName
+                    ).toBe(field);
+                }
+            });
+        });
+    });
+});
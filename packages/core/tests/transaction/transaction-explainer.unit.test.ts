@@ -0,0 +1,305 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidAbiDataToEncodeOrDecode } from '@vechain/sdk-errors';
+import { type FunctionFragment } from 'ethers';
+import {
+    Address,
+    clauseBuilder,
+    coder,
+    Transaction,
+    transactionExplainer,
+    unitsUtils,
+    VTHO_ADDRESS
+} from '../../src';
+import { exampleContractAbi } from '../clause/fixture';
+import { transactions } from './fixture';
+
+/**
+ * The checksum addresses of the fixture.
+ */
+const token = Address.of(
+    '0x0000000000000000000000000000000000001234'
+).toString();
+const alice = Address.of(
+    '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed'
+).toString();
+const bob = Address.of('0x9e7911de289c3c856ce7f421034f66b6cde49c39').toString();
+
+/**
+ * The fragment of the `set` function of the example contract.
+ */
+const setFragment = coder
+    .createInterface(exampleContractAbi)
+    .getFunction('set') as FunctionFragment;
+
+/**
+ * Unit tests for the transactionExplainer module.
+ *
+ * @group unit/transaction
+ */
+describe('transactionExplainer', () => {
+    describe('explainClause', () => {
+        test('Ok <- VET transfer', () => {
+            expect(
+                transactionExplainer.explainClause(
+                    clauseBuilder.transferVET(alice, unitsUtils.parseVET('1.5'))
+                )
+            ).toEqual({
+                kind: 'transfer',
+                to: alice,
+                value: 1500000000000000000n,
+                comment: undefined,
+                sentence: `Transfer 1.5 VET to ${alice}`
+            });
+        });
+
+        test('Ok <- deployment', () => {
+            const explanation = transactionExplainer.explainClause({
+                to: null,
+                value: '0x0de0b6b3a7640000',
+                data: '0x6080'
+            });
+            expect(explanation.kind).toBe('deploy');
+            expect(explanation.sentence).toBe(
+                'Deploy a contract sending 1.0 VET'
+            );
+        });
+
+        test('Ok <- VNS name target kept as it is', () => {
+            expect(
+                transactionExplainer.explainClause({
+                    to: 'vtho.vet',
+                    value: '0x0de0b6b3a7640000',
+                    data: '0x'
+                })
+            ).toEqual({
+                kind: 'transfer',
+                to: 'vtho.vet',
+                value: 1000000000000000000n,
+                comment: undefined,
+                sentence: 'Transfer 1.0 VET to vtho.vet'
+            });
+            expect(
+                transactionExplainer.explainClause(
+                    clauseBuilder.transferToken(token, bob, 1000n),
+                    {}
+                ).to
+            ).toBe(token);
+        });
+
+        test('Ok <- ERC-20 transfer without ABI', () => {
+            const explanation = transactionExplainer.explainClause(
+                clauseBuilder.transferToken(token, bob, 1000n)
+            );
+            expect(explanation).toEqual({
+                kind: 'call',
+                to: token,
+                value: 0n,
+                comment: undefined,
+                selector: '0xa9059cbb',
+                functionName: 'transfer',
+                signature: 'transfer(address,uint256)',
+                args: { to: bob, value: 1000n },
+                sentence: `Transfer 1000 of token ${token} to ${bob}`
+            });
+        });
+
+        test('Ok <- VTHO transfer and move without ABI', () => {
+            expect(
+                transactionExplainer.explainClause(
+                    clauseBuilder.transferToken(
+                        VTHO_ADDRESS,
+                        bob,
+                        unitsUtils.parseVET('2')
+                    )
+                ).sentence
+            ).toBe(`Transfer 2.0 VTHO to ${bob}`);
+            expect(
+                transactionExplainer.explainClause({
+                    to: VTHO_ADDRESS,
+                    value: 0,
+                    data: coder.encodeFunctionInput(
+                        [
+                            'function move(address from, address to, uint256 value)'
+                        ],
+                        'move',
+                        [alice, bob, unitsUtils.parseVET('0.5')]
+                    )
+                }).sentence
+            ).toBe(`Move 0.5 VTHO from ${alice} to ${bob}`);
+        });
+
+        test('Ok <- ERC-20 approval without ABI', () => {
+            expect(
+                transactionExplainer.explainClause({
+                    to: token,
+                    value: 0,
+                    data: coder.encodeFunctionInput(
+                        ['function approve(address spender, uint256 value)'],
+                        'approve',
+                        [bob, 10]
+                    )
+                }).sentence
+            ).toBe(`Approve ${bob} to spend 10 of token ${token}`);
+        });
+
+        test('Ok <- ERC-721 transfers and approvals without ABI', () => {
+            expect(
+                transactionExplainer.explainClause(
+                    clauseBuilder.transferNFT(token, alice, bob, '7')
+                ).sentence
+            ).toBe(`Transfer 7 of token ${token} from ${alice} to ${bob}`);
+            expect(
+                transactionExplainer.explainClause({
+                    to: token,
+                    value: 0,
+                    data: coder.encodeFunctionInput(
+                        [
+                            'function safeTransferFrom(address from, address to, uint256 tokenId)'
+                        ],
+                        'safeTransferFrom',
+                        [alice, bob, 7]
+                    )
+                }).sentence
+            ).toBe(`Transfer token ID 7 of ${token} from ${alice} to ${bob}`);
+            [true, false].forEach((approved) => {
+                expect(
+                    transactionExplainer.explainClause({
+                        to: token,
+                        value: 0,
+                        data: coder.encodeFunctionInput(
+                            [
+                                'function setApprovalForAll(address operator, bool approved)'
+                            ],
+                            'setApprovalForAll',
+                            [bob, approved]
+                        )
+                    }).sentence
+                ).toBe(
+                    approved
+                        ? `Approve ${bob} to manage all tokens of ${token}`
+                        : `Revoke the approval of ${bob} to manage all tokens of ${token}`
+                );
+            });
+        });
+
+        test('Ok <- ERC-1155 transfers without ABI', () => {
+            expect(
+                transactionExplainer.explainClause({
+                    to: token,
+                    value: 0,
+                    data: coder.encodeFunctionInput(
+                        [
+                            'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)'
+                        ],
+                        'safeTransferFrom',
+                        [alice, bob, 7, 100, '0x']
+                    )
+                }).sentence
+            ).toBe(
+                `Transfer 100 of token ID 7 of ${token} from ${alice} to ${bob}`
+            );
+            expect(
+                transactionExplainer.explainClause({
+                    to: token,
+                    value: 0,
+                    data: coder.encodeFunctionInput(
+                        [
+                            'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)'
+                        ],
+                        'safeBatchTransferFrom',
+                        [alice, bob, [7, 8], [100, 1], '0x01']
+                    )
+                }).sentence
+            ).toBe(
+                `Transfer 100 of token ID 7, 1 of token ID 8 of ${token} from ${alice} to ${bob}`
+            );
+        });
+
+        test('Ok <- call decoded with supplied ABI', () => {
+            const explanation = transactionExplainer.explainClause(
+                clauseBuilder.functionInteraction(token, setFragment, [42], 1),
+                { abis: [exampleContractAbi] }
+            );
+            expect(explanation.functionName).toBe('set');
+            expect(explanation.signature).toBe('set(uint256)');
+            expect(explanation.args).toEqual({ x: 42n });
+            expect(explanation.sentence).toBe(
+                `Call set(x: 42) on ${token} sending 0.000000000000000001 VET`
+            );
+        });
+
+        test('Ok <- call decoded with clause ABI and comment', () => {
+            const explanation = transactionExplainer.explainClause(
+                clauseBuilder.functionInteraction(token, setFragment, [42], 0, {
+                    comment: 'Set x',
+                    includeABI: true
+                })
+            );
+            expect(explanation.comment).toBe('Set x');
+            expect(explanation.sentence).toBe(`Call set(x: 42) on ${token}`);
+        });
+
+        test('Ok <- supplied ABI before well-known functions', () => {
+            expect(
+                transactionExplainer.explainClause(
+                    clauseBuilder.transferToken(token, bob, 1000n),
+                    {
+                        abis: [
+                            [
+                                'function transfer(address recipient, uint256 amount)'
+                            ]
+                        ]
+                    }
+                ).sentence
+            ).toBe(
+                `Call transfer(recipient: ${bob}, amount: 1000) on ${token}`
+            );
+        });
+
+        test('Ok <- unknown selector', () => {
+            const explanation = transactionExplainer.explainClause(
+                clauseBuilder.functionInteraction(token, setFragment, [42])
+            );
+            expect(explanation.kind).toBe('call');
+            expect(explanation.selector).toBe(setFragment.selector);
+            expect(explanation.functionName).toBeUndefined();
+            expect(explanation.sentence).toBe(
+                `Call function ${setFragment.selector} on ${token}`
+            );
+        });
+
+        test('Ok <- selector matching arguments not matching', () => {
+            expect(
+                transactionExplainer.explainClause({
+                    to: token,
+                    value: 0,
+                    data: '0xa9059cbb00'
+                }).sentence
+            ).toBe(`Call function 0xa9059cbb on ${token}`);
+        });
+
+        test('Exception <- malformed ABI', () => {
+            expect(() =>
+                transactionExplainer.explainClause(
+                    clauseBuilder.transferToken(token, bob, 1000n),
+                    { abis: ['not a JSON ABI'] }
+                )
+            ).toThrowError(InvalidAbiDataToEncodeOrDecode);
+        });
+    });
+
+    describe('explain', () => {
+        test('Ok <- transaction and body', () => {
+            const { body } = transactions.undelegated[0];
+            const explanation = transactionExplainer.explain(body);
+            expect(explanation.clauses).toHaveLength(2);
+            expect(explanation.clauses[0].kind).toBe('call');
+            expect(explanation.sentence).toBe(
+                explanation.clauses.map(({ sentence }) => sentence).join('; ')
+            );
+            expect(transactionExplainer.explain(new Transaction(body))).toEqual(
+                explanation
+            );
+        });
+    });
+});
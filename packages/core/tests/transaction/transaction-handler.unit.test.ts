@@ -278,6 +278,44 @@ describe('Transaction handler', () => {
             });
         });
 
+        /**
+         * Dynamic-fee transactions decoding
+         */
+        test('Should be able to decode dynamic-fee transactions', () => {
+            transactions.dynamicFee.forEach((transaction) => {
+                // Unsigned transaction
+                const decodedUnsigned = TransactionHandler.decode(
+                    transaction.encodedUnsignedExpected,
+                    false
+                );
+                expect(decodedUnsigned.body).toEqual(transaction.body);
+                expect(decodedUnsigned.isSigned).toBe(false);
+                expect(decodedUnsigned.encoded).toEqual(
+                    transaction.encodedUnsignedExpected
+                );
+
+                // Signed transaction
+                const signed = decodedUnsigned.isDelegated
+                    ? TransactionHandler.signWithDelegator(
+                          transaction.body,
+                          Buffer.from(Hex.of(signer.privateKey).bytes),
+                          Buffer.from(Hex.of(delegator.privateKey).bytes)
+                      )
+                    : TransactionHandler.sign(
+                          transaction.body,
+                          Buffer.from(Hex.of(signer.privateKey).bytes)
+                      );
+                const decodedSigned = TransactionHandler.decode(
+                    signed.encoded,
+                    true
+                );
+                expect(decodedSigned.body).toEqual(transaction.body);
+                expect(decodedSigned.signature).toEqual(signed.signature);
+                expect(decodedSigned.origin).toBe(signer.address);
+                expect(decodedSigned.id).toBe(signed.id);
+            });
+        });
+
         /**
          * Invalid data decoding
          */
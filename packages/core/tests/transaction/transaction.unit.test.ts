@@ -1,6 +1,18 @@
 import { describe, expect, test } from '@jest/globals';
-import { delegator, signer, transactions } from './fixture';
-import { Transaction, TransactionHandler } from '../../src';
+import {
+    delegator,
+    dynamicFeeReference,
+    signer,
+    transactions
+} from './fixture';
+import {
+    Blake2b256,
+    Transaction,
+    TransactionHandler,
+    TransactionType,
+    type TransactionBody,
+    type TransactionJSON
+} from '../../src';
 import {
     InvalidSecp256k1Signature,
     InvalidTransactionField,
@@ -183,6 +195,186 @@ describe('Transaction', () => {
         });
     });
 
+    /**
+     * Dynamic-fee transactions
+     */
+    describe('Dynamic-fee transactions', () => {
+        /**
+         * Testing creation of unsigned transaction
+         */
+        test('Should be able to create unsigned transactions', () => {
+            transactions.dynamicFee.forEach((transaction) => {
+                const unsignedTransaction = new Transaction(transaction.body);
+
+                // Checks
+                expect(unsignedTransaction.type).toBe(
+                    TransactionType.DynamicFee
+                );
+                expect(unsignedTransaction.isSigned).toEqual(false);
+                expect(unsignedTransaction.isDelegated).toEqual(
+                    transaction.body.reserved?.features === 1
+                );
+
+                // Encoding, the type byte first
+                expect(unsignedTransaction.encoded).toEqual(
+                    transaction.encodedUnsignedExpected
+                );
+                expect(unsignedTransaction.encoded[0]).toBe(0x51);
+
+                // The signature hash covers the type byte
+                expect(
+                    Hex.of(unsignedTransaction.getSignatureHash()).toString()
+                ).toEqual(
+                    Blake2b256.of(
+                        transaction.encodedUnsignedExpected
+                    ).toString()
+                );
+
+                // Intrinsic gas doesn't depend on the type
+                expect(unsignedTransaction.intrinsicGas).toBe(37432);
+            });
+        });
+
+        /**
+         * Fee fields expressed as hexadecimal strings encode the same
+         */
+        test('Should encode fee fields of any numeric expression', () => {
+            const { body, encodedUnsignedExpected } =
+                transactions.dynamicFee[0];
+            expect(
+                new Transaction({
+                    ...body,
+                    maxFeePerGas: '0x02540be400',
+                    maxPriorityFeePerGas: '1000000000'
+                }).encoded
+            ).toEqual(encodedUnsignedExpected);
+        });
+
+        /**
+         * Testing creation of signed transaction
+         */
+        test('Should be able to create signed transactions', () => {
+            const [undelegated, delegated] = transactions.dynamicFee;
+            const signed = TransactionHandler.sign(
+                undelegated.body,
+                Buffer.from(Hex.of(signer.privateKey).bytes)
+            );
+            expect(signed.type).toBe(TransactionType.DynamicFee);
+            expect(signed.origin).toEqual(signer.address);
+            expect(signed.encoded[0]).toBe(0x51);
+
+            const signedWithDelegator = TransactionHandler.signWithDelegator(
+                delegated.body,
+                Buffer.from(Hex.of(signer.privateKey).bytes),
+                Buffer.from(Hex.of(delegator.privateKey).bytes)
+            );
+            expect(signedWithDelegator.origin).toEqual(signer.address);
+            expect(signedWithDelegator.delegator).toEqual(delegator.address);
+
+            // Same fields priced as legacy transaction is another transaction
+            expect(signed.id).not.toEqual(
+                TransactionHandler.sign(
+                    transactions.undelegated[0].body,
+                    Buffer.from(Hex.of(signer.privateKey).bytes)
+                ).id
+            );
+        });
+
+        /**
+         * Reference vectors computed independently of this code
+         */
+        test('Should match the reference encoding, ID and signature', () => {
+            const { body, undelegated, delegated } = dynamicFeeReference;
+            const signed = TransactionHandler.sign(
+                body,
+                Buffer.from(Hex.of(signer.privateKey).bytes)
+            );
+            const signedWithDelegator = TransactionHandler.signWithDelegator(
+                { ...body, reserved: { features: 1 } },
+                Buffer.from(Hex.of(signer.privateKey).bytes),
+                Buffer.from(Hex.of(delegator.privateKey).bytes)
+            );
+            [
+                { expected: undelegated, transaction: signed },
+                { expected: delegated, transaction: signedWithDelegator }
+            ].forEach(({ expected, transaction }) => {
+                const unsigned = new Transaction(transaction.body);
+                expect(Hex.of(unsigned.encoded).toString()).toEqual(
+                    expected.encodedUnsigned
+                );
+                expect(Hex.of(unsigned.getSignatureHash()).toString()).toEqual(
+                    expected.signatureHash
+                );
+                expect(
+                    Hex.of(transaction.signature as Buffer).toString()
+                ).toEqual(expected.signature);
+                expect(Hex.of(transaction.encoded).toString()).toEqual(
+                    expected.encodedSigned
+                );
+                expect(transaction.id).toEqual(expected.id);
+                const decoded = TransactionHandler.decode(
+                    Buffer.from(Hex.of(expected.encodedSigned).bytes),
+                    true
+                );
+                expect(decoded.id).toEqual(expected.id);
+                expect(decoded.origin).toEqual(signer.address);
+            });
+            expect(signedWithDelegator.delegator).toEqual(delegator.address);
+        });
+
+        /**
+         * Legacy transactions keep their type
+         */
+        test('Should be legacy without fee fields', () => {
+            expect(new Transaction(transactions.undelegated[0].body).type).toBe(
+                TransactionType.Legacy
+            );
+        });
+
+        /**
+         * Invalid fee fields
+         */
+        test('Should throw error for invalid fee fields', () => {
+            const { body } = transactions.dynamicFee[0];
+            // Bodies the type rejects, as passed by untyped callers.
+            (
+                [
+                    { ...body, gasPriceCoef: 0 },
+                    { ...body, maxFeePerGas: undefined },
+                    { ...body, maxPriorityFeePerGas: undefined },
+                    { ...body, maxPriorityFeePerGas: 10000000001 },
+                    { ...body, maxFeePerGas: '1.5' },
+                    { ...body, maxFeePerGas: -1 },
+                    {
+                        ...transactions.undelegated[0].body,
+                        gasPriceCoef: undefined
+                    }
+                ] as unknown as TransactionBody[]
+            ).forEach((invalidBody) => {
+                expect(Transaction.isValidBody(invalidBody)).toBe(false);
+                expect(() => new Transaction(invalidBody)).toThrowError(
+                    InvalidTransactionField
+                );
+            });
+        });
+
+        /**
+         * Round trip through JSON
+         */
+        test('Should be lossless through JSON', () => {
+            const signed = TransactionHandler.signWithDelegator(
+                transactions.dynamicFee[1].body,
+                Buffer.from(Hex.of(signer.privateKey).bytes),
+                Buffer.from(Hex.of(delegator.privateKey).bytes)
+            );
+            const restored = Transaction.fromJSON(
+                JSON.parse(JSON.stringify(signed)) as TransactionJSON
+            );
+            expect(restored.encoded).toEqual(signed.encoded);
+            expect(restored.type).toBe(TransactionType.DynamicFee);
+        });
+    });
+
     /**
      * Invalid transactions
      */
@@ -205,4 +397,152 @@ describe('Transaction', () => {
                 })
         ).toThrowError(InvalidTransactionField);
     });
+
+    /**
+     * JSON serialization
+     */
+    describe('JSON serialization', () => {
+        const signed = [
+            ...transactions.undelegated.map((transaction) =>
+                TransactionHandler.sign(
+                    transaction.body,
+                    Buffer.from(Hex.of(signer.privateKey).bytes)
+                )
+            ),
+            ...transactions.delegated.map((transaction) =>
+                TransactionHandler.signWithDelegator(
+                    transaction.body,
+                    Buffer.from(Hex.of(signer.privateKey).bytes),
+                    Buffer.from(Hex.of(delegator.privateKey).bytes)
+                )
+            )
+        ];
+
+        /**
+         * Round trip through JSON text, for unsigned and signed transactions
+         */
+        test('Should be lossless against TransactionHandler.decode', () => {
+            [
+                ...[...transactions.undelegated, ...transactions.delegated].map(
+                    (transaction) =>
+                        TransactionHandler.decode(
+                            transaction.encodedUnsignedExpected,
+                            false
+                        )
+                ),
+                ...signed.map((transaction) =>
+                    TransactionHandler.decode(transaction.encoded, true)
+                )
+            ].forEach((decoded) => {
+                const restored = Transaction.fromJSON(
+                    JSON.parse(JSON.stringify(decoded)) as TransactionJSON
+                );
+                expect(restored.body).toEqual(decoded.body);
+                expect(restored.signature).toEqual(decoded.signature);
+                expect(restored.encoded).toEqual(decoded.encoded);
+            });
+        });
+
+        /**
+         * Schema of the JSON representation
+         */
+        test('Should expose delegation, split signature and derived fields', () => {
+            const unsigned = new Transaction(transactions.delegated[1].body);
+            expect(unsigned.toJSON()).toEqual({
+                body: {
+                    ...transactions.delegated[1].body,
+                    reserved: {
+                        features: 1,
+                        unused: ['0x3078303030', '0x3078303030']
+                    }
+                },
+                isDelegated: true
+            });
+
+            const json = signed[1].toJSON();
+            expect(json.isDelegated).toBe(true);
+            expect(json.signature?.origin).toEqual(
+                Hex.of(
+                    signed[1].signature?.subarray(0, 65) as Buffer
+                ).toString()
+            );
+            expect(json.signature?.delegator).toEqual(
+                Hex.of(signed[1].signature?.subarray(65) as Buffer).toString()
+            );
+            expect(json.id).toEqual(signed[1].id);
+            expect(json.origin).toEqual(signer.address);
+            expect(json.delegator).toEqual(delegator.address);
+
+            const undelegated = signed[0].toJSON();
+            expect(undelegated.isDelegated).toBe(false);
+            expect(undelegated.body).toEqual(transactions.undelegated[0].body);
+            expect(undelegated.signature?.delegator).toBeUndefined();
+            expect(undelegated.delegator).toBeUndefined();
+        });
+
+        /**
+         * Derived fields are optional
+         */
+        test('Should load JSON without derived fields', () => {
+            const { body, signature } = signed[1].toJSON();
+            expect(
+                Transaction.fromJSON({
+                    body,
+                    signature
+                }).id
+            ).toEqual(signed[1].id);
+        });
+
+        /**
+         * Invalid JSON representations
+         */
+        test('Should throw error for invalid JSON', () => {
+            const json = signed[1].toJSON();
+            [
+                { ...json, body: { ...json.body, blockRef: '0x00' } },
+                {
+                    ...json,
+                    body: { ...json.body, reserved: { unused: ['not hex'] } }
+                },
+                { ...json, isDelegated: false },
+                { ...json, id: signed[0].id },
+                { ...json, origin: delegator.address },
+                { ...json, delegator: signer.address },
+                {
+                    ...json,
+                    signature: { origin: 'not hex', delegator: 'not hex' }
+                },
+                { ...signed[0].toJSON(), delegator: delegator.address },
+                {
+                    ...new Transaction(json.body as TransactionBody).toJSON(),
+                    origin: signer.address
+                },
+                {
+                    ...signed[0].toJSON(),
+                    signature: {
+                        delegator: signed[0].toJSON().signature?.origin
+                    }
+                } as unknown as TransactionJSON,
+                {
+                    ...json,
+                    signature: { delegator: json.signature?.delegator }
+                } as unknown as TransactionJSON,
+                { ...json, id: 5 } as unknown as TransactionJSON,
+                { ...json, origin: null } as unknown as TransactionJSON,
+                { isDelegated: false } as unknown as TransactionJSON
+            ].forEach((invalid) => {
+                expect(() => Transaction.fromJSON(invalid)).toThrowError(
+                    InvalidTransactionField
+                );
+            });
+
+            // Signature missing the delegator part
+            expect(() =>
+                Transaction.fromJSON({
+                    ...json,
+                    signature: { origin: json.signature?.origin as string }
+                })
+            ).toThrowError(InvalidSecp256k1Signature);
+        });
+    });
 });
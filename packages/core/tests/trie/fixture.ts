@@ -0,0 +1,167 @@
+import { type TransactionReceiptBody } from '../../src';
+
+/**
+ * The receipt of the only transaction of the mainnet block 17010409, and its `receiptsRoot`.
+ */
+const singleReceiptBlock = {
+    receipts: [
+        {
+            gasUsed: 21000,
+            gasPayer: '0x6b8d66568cbc7944798268aca153f426596d250a',
+            paid: '0x2ea11e32ad50000',
+            reward: '0xdfd22a8cd98000',
+            reverted: false,
+            outputs: [
+                {
+                    events: [],
+                    transfers: [
+                        {
+                            sender: '0x6b8d66568cbc7944798268aca153f426596d250a',
+                            recipient:
+                                '0x9840acbcd7417ceee8117da585a3c3f6642c8a52',
+                            amount: '0xde0b6b3a7640000'
+                        }
+                    ]
+                }
+            ]
+        }
+    ] satisfies TransactionReceiptBody[],
+    receiptsRoot:
+        '0xc49772fc8a4013db440de4014b4492dec2516f8ae878d69c6e4a1fd8e8018c75'
+};
+
+/**
+ * The receipts of the four transactions of the mainnet block 17229578:
+ * a swap emitting events, a VET transfer, a reverted VTHO transfer and a VET transfer,
+ * and its `receiptsRoot`.
+ */
+const multipleReceiptsBlock = {
+    receipts: [
+        {
+            gasUsed: 223631,
+            gasPayer: '0xa416bdda32b00e218f08ace220bab512c863ff2f',
+            paid: '0x3e11f0316b4ec000',
+            reward: '0x129efb420697a000',
+            reverted: false,
+            outputs: [
+                {
+                    events: [
+                        {
+                            address:
+                                '0x45429a2255e7248e57fce99e7239aed3f84b7a53',
+                            topics: [
+                                '0xe1fffcc4923d04b559f4d29a8bfc6cda04eb5b0d3c460751c2402c5c5cc9109c',
+                                '0x000000000000000000000000576da7124c7bb65a692d95848276367e5a844d95'
+                            ],
+                            data: '0x00000000000000000000000000000000000000000000001043561a8829300000'
+                        },
+                        {
+                            address:
+                                '0x45429a2255e7248e57fce99e7239aed3f84b7a53',
+                            topics: [
+                                '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+                                '0x000000000000000000000000576da7124c7bb65a692d95848276367e5a844d95',
+                                '0x0000000000000000000000001a8abd6d5627eb26ad71c0c7ae5224cdc640faf3'
+                            ],
+                            data: '0x00000000000000000000000000000000000000000000001043561a8829300000'
+                        },
+                        {
+                            address:
+                                '0x5db3c8a942333f6468176a870db36eef120a34dc',
+                            topics: [
+                                '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+                                '0x0000000000000000000000001a8abd6d5627eb26ad71c0c7ae5224cdc640faf3',
+                                '0x000000000000000000000000a416bdda32b00e218f08ace220bab512c863ff2f'
+                            ],
+                            data: '0x00000000000000000000000000000000000000000000023b04b1d40b515745aa'
+                        },
+                        {
+                            address:
+                                '0x1a8abd6d5627eb26ad71c0c7ae5224cdc640faf3',
+                            topics: [
+                                '0x1c411e9a96e071241c2f21f7726b17ae89e3cab4c78be50e062b03a9fffbbad1'
+                            ],
+                            data: '0x000000000000000000000000000000000000000000002f87e3cb2aaf503b96140000000000000000000000000000000000000000000687a8d57a3a1d0de7f46c'
+                        },
+                        {
+                            address:
+                                '0x1a8abd6d5627eb26ad71c0c7ae5224cdc640faf3',
+                            topics: [
+                                '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822',
+                                '0x000000000000000000000000576da7124c7bb65a692d95848276367e5a844d95',
+                                '0x000000000000000000000000a416bdda32b00e218f08ace220bab512c863ff2f'
+                            ],
+                            data: '0x00000000000000000000000000000000000000000000001043561a88293000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000023b04b1d40b515745aa'
+                        }
+                    ],
+                    transfers: [
+                        {
+                            sender: '0xa416bdda32b00e218f08ace220bab512c863ff2f',
+                            recipient:
+                                '0x576da7124c7bb65a692d95848276367e5a844d95',
+                            amount: '0x1043561a8829300000'
+                        },
+                        {
+                            sender: '0x576da7124c7bb65a692d95848276367e5a844d95',
+                            recipient:
+                                '0x45429a2255e7248e57fce99e7239aed3f84b7a53',
+                            amount: '0x1043561a8829300000'
+                        }
+                    ]
+                }
+            ]
+        },
+        {
+            gasUsed: 21216,
+            gasPayer: '0xbeae4bef0121f11d269aedf6adb227259d4314ad',
+            paid: '0x46c17f1958beae0',
+            reward: '0x153a0c879a9f9a9',
+            reverted: false,
+            outputs: [
+                {
+                    events: [],
+                    transfers: [
+                        {
+                            sender: '0xbeae4bef0121f11d269aedf6adb227259d4314ad',
+                            recipient:
+                                '0x23a46368e4acc7bb2fe0afeb054def51ec56aa74',
+                            amount: '0xac576e2a31c35a0000'
+                        }
+                    ]
+                }
+            ]
+        },
+        {
+            gasUsed: 24455,
+            gasPayer: '0x95fe74d1ae072ee45bdb09879a157364e5341565',
+            paid: '0x386e3296e67232f',
+            reward: '0x10eddbfa11ef0f4',
+            reverted: true,
+            outputs: []
+        },
+        {
+            gasUsed: 21000,
+            gasPayer: '0x9a107a75cff525b033a3e53cadafe3d193b570ec',
+            paid: '0x2ea11e32ad50000',
+            reward: '0xdfd22a8cd98000',
+            reverted: false,
+            outputs: [
+                {
+                    events: [],
+                    transfers: [
+                        {
+                            sender: '0x9a107a75cff525b033a3e53cadafe3d193b570ec',
+                            recipient:
+                                '0xb7591602c0c9d525bc3a7cf3c729fd91b8bf5bf6',
+                            amount: '0xe18cc1b1e0e8c20000'
+                        }
+                    ]
+                }
+            ]
+        }
+    ] satisfies TransactionReceiptBody[],
+    receiptsRoot:
+        '0x2a6f43d81cc422a6daf359b28c9e696c94b7246f9052c3ddbff523bc3ef4cbb7'
+};
+
+export { singleReceiptBlock, multipleReceiptsBlock };
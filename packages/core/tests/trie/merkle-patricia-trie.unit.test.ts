@@ -0,0 +1,203 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { Hex, MerklePatriciaTrie, TransactionHandler, Txt } from '../../src';
+import { signer, transactions } from '../transaction/fixture';
+import { multipleReceiptsBlock, singleReceiptBlock } from './fixture';
+
+/**
+ * The root of the empty trie, the `txsRoot` and `receiptsRoot` of the blocks without transactions.
+ */
+const EMPTY_ROOT =
+    '0x45b0cfc220ceec5b7c1c62c4d4193d38e4eba48e8815729ce75f9c0ab0e4c1c0';
+
+/**
+ * Items long enough to be hashed, and short enough to be embedded in their parent.
+ */
+const items = Array.from(
+    { length: 300 },
+    (_, index) =>
+        Txt.of(index % 2 === 0 ? `item ${index}` : `item ${index}`.repeat(8))
+            .bytes
+);
+
+/**
+ * Unit tests for the MerklePatriciaTrie class.
+ *
+ * @group unit/trie
+ */
+describe('MerklePatriciaTrie', () => {
+    describe('root', () => {
+        test('Ok <- empty trie', () => {
+            expect(new MerklePatriciaTrie().root.toString()).toBe(EMPTY_ROOT);
+            expect(MerklePatriciaTrie.ofTransactions([]).root.toString()).toBe(
+                EMPTY_ROOT
+            );
+        });
+
+        test('Ok <- receipts root of a mainnet block', () => {
+            const { receipts, receiptsRoot } = singleReceiptBlock;
+            expect(
+                MerklePatriciaTrie.ofReceipts(receipts).root.toString()
+            ).toBe(receiptsRoot);
+            expect(
+                MerklePatriciaTrie.ofReceipts([
+                    { ...receipts[0], reverted: true }
+                ]).root.toString()
+            ).not.toBe(receiptsRoot);
+        });
+
+        test('Ok <- receipts root of a mainnet block with several transactions', () => {
+            const { receipts, receiptsRoot } = multipleReceiptsBlock;
+            expect(
+                MerklePatriciaTrie.ofReceipts(receipts).root.toString()
+            ).toBe(receiptsRoot);
+            expect(
+                MerklePatriciaTrie.ofReceipts(
+                    [...receipts].reverse()
+                ).root.toString()
+            ).not.toBe(receiptsRoot);
+        });
+
+        test('Ok <- transactions root of signed or raw transactions', () => {
+            const { body } = transactions.undelegated[0];
+            const signed = [1, 2, 3].map((nonce) =>
+                TransactionHandler.sign(
+                    { ...body, nonce },
+                    Buffer.from(Hex.of(signer.privateKey).bytes)
+                )
+            );
+            const root = MerklePatriciaTrie.ofTransactions(signed).root;
+            expect(
+                MerklePatriciaTrie.ofTransactions(
+                    signed.map((transaction) =>
+                        Hex.of(transaction.encoded).toString()
+                    )
+                ).root.isEqual(root)
+            ).toBe(true);
+            expect(
+                MerklePatriciaTrie.ofTransactions(
+                    [...signed].reverse()
+                ).root.isEqual(root)
+            ).toBe(false);
+        });
+
+        test('Ok <- independent of the insertion order', () => {
+            const reversed = new MerklePatriciaTrie();
+            for (let index = items.length - 1; index >= 0; index--) {
+                reversed.put(
+                    MerklePatriciaTrie.keyOfIndex(index),
+                    items[index]
+                );
+            }
+            expect(
+                reversed.root.isEqual(MerklePatriciaTrie.ofList(items).root)
+            ).toBe(true);
+        });
+
+        test('Ok <- value overwritten', () => {
+            const trie = MerklePatriciaTrie.ofList(items);
+            trie.put(MerklePatriciaTrie.keyOfIndex(7), items[8]);
+            expect(trie.get(MerklePatriciaTrie.keyOfIndex(7))).toEqual(
+                items[8]
+            );
+            expect(
+                trie.root.isEqual(MerklePatriciaTrie.ofList(items).root)
+            ).toBe(false);
+        });
+
+        test('Exception <- empty value', () => {
+            expect(() =>
+                new MerklePatriciaTrie().put(
+                    MerklePatriciaTrie.keyOfIndex(0),
+                    new Uint8Array()
+                )
+            ).toThrowError(InvalidDataType);
+        });
+    });
+
+    describe('get', () => {
+        test('Ok <- keys in the trie', () => {
+            const trie = MerklePatriciaTrie.ofList(items);
+            items.forEach((item, index) => {
+                expect(trie.get(MerklePatriciaTrie.keyOfIndex(index))).toEqual(
+                    item
+                );
+            });
+        });
+
+        test('Ok <- keys not in the trie', () => {
+            const trie = MerklePatriciaTrie.ofList(items);
+            [
+                MerklePatriciaTrie.keyOfIndex(items.length),
+                new Uint8Array(),
+                Hex.of('0x8201').bytes
+            ].forEach((key) => {
+                expect(trie.get(key)).toBeNull();
+            });
+        });
+    });
+
+    describe('prove and verify', () => {
+        test('Ok <- inclusion of each key', () => {
+            const trie = MerklePatriciaTrie.ofList(items);
+            const root = trie.root.toString();
+            items.forEach((item, index) => {
+                const key = MerklePatriciaTrie.keyOfIndex(index);
+                expect(
+                    MerklePatriciaTrie.verifyProof(root, key, trie.prove(key))
+                ).toEqual(item);
+            });
+        });
+
+        test('Ok <- inclusion of the receipts of a mainnet block', () => {
+            const { receipts, receiptsRoot } = multipleReceiptsBlock;
+            const trie = MerklePatriciaTrie.ofReceipts(receipts);
+            receipts.forEach((_, index) => {
+                const key = MerklePatriciaTrie.keyOfIndex(index);
+                expect(
+                    MerklePatriciaTrie.verifyProof(
+                        receiptsRoot,
+                        key,
+                        trie.prove(key)
+                    )
+                ).toEqual(trie.get(key));
+            });
+        });
+
+        test('Ok <- absence of a key', () => {
+            const trie = MerklePatriciaTrie.ofList(items);
+            const key = MerklePatriciaTrie.keyOfIndex(items.length);
+            expect(
+                MerklePatriciaTrie.verifyProof(
+                    trie.root.bytes,
+                    key,
+                    trie.prove(key)
+                )
+            ).toBeNull();
+            expect(
+                MerklePatriciaTrie.verifyProof(EMPTY_ROOT, key, [])
+            ).toBeNull();
+        });
+
+        test('Exception <- proof not matching the root', () => {
+            const trie = MerklePatriciaTrie.ofList(items);
+            const key = MerklePatriciaTrie.keyOfIndex(42);
+            const proof = trie.prove(key);
+            const tampered = proof.map((node) => Uint8Array.from(node));
+            tampered[tampered.length - 1][5] ^= 0xff;
+            [
+                proof.slice(1),
+                tampered,
+                MerklePatriciaTrie.ofList(items.slice(1)).prove(key)
+            ].forEach((invalid) => {
+                expect(() =>
+                    MerklePatriciaTrie.verifyProof(
+                        trie.root.toString(),
+                        key,
+                        invalid
+                    )
+                ).toThrowError(InvalidDataType);
+            });
+        });
+    });
+});
@@ -76,4 +76,31 @@ describe('Transaction utils', () => {
             }
         );
     });
+
+    /**
+     * Intrinsic gas - Transaction body of any type
+     */
+    test('Should calculate intrinsic gas for legacy and dynamic-fee transaction bodies', () => {
+        normalTransactions.forEach((normalTransaction) => {
+            const body = {
+                chainTag: 1,
+                blockRef: '0x00000000aabbccdd',
+                expiration: 32,
+                clauses: normalTransaction.clauses,
+                gas: normalTransaction.expected,
+                dependsOn: null,
+                nonce: 1
+            };
+            expect(
+                TransactionUtils.intrinsicGas({ ...body, gasPriceCoef: 0 })
+            ).toBe(normalTransaction.expected);
+            expect(
+                TransactionUtils.intrinsicGas({
+                    ...body,
+                    maxFeePerGas: 10000000000,
+                    maxPriorityFeePerGas: 0
+                })
+            ).toBe(normalTransaction.expected);
+        });
+    });
 });
@@ -167,6 +167,11 @@ describe('unitsUtils', () => {
     });
 
     describe('parseUnits', () => {
+        test('valid - zero', () => {
+            expect(unitsUtils.parseUnits(0)).toBe(0n);
+            expect(unitsUtils.parseUnits('0.0', 'gwei')).toBe(0n);
+        });
+
         test('ethers drop-in compatibility', () => {
             const numberStrings = [
                 '0.100000000000000000',
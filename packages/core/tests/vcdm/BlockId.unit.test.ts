@@ -0,0 +1,84 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { BlockId, BlockRef, HexUInt, ThorId } from '../../src';
+
+const BlockIdFixture = {
+    // Block 12345678 = 0x00bc614e.
+    id: '0x00bc614e4b48ab7e0a2c8e2a07d1fcbf0a1dbd7e9e5b3c6f0d6c7a7f51a8ef33',
+    blockRef: '0x00bc614e4b48ab7e',
+    number: 12345678,
+    next: '0x00bc614f08d6b4fa1a7dfb2d29f49c0a3dd3bd3a1ad8f2aaa7fa1a02e3aa7b55',
+    genesis:
+        '0x000000000b2bce3c70bc649a02749e8687721b09ed2e15997f466536b20bb127'
+};
+
+/**
+ * Test BlockId class.
+ * @group unit/vcdm
+ */
+describe('BlockId class tests', () => {
+    describe('Construction tests', () => {
+        test('Return a BlockId instance from a `0x` prefixed string', () => {
+            const blockId = BlockId.of(BlockIdFixture.id);
+            expect(blockId).toBeInstanceOf(BlockId);
+            expect(blockId).toBeInstanceOf(ThorId);
+            expect(blockId.toString()).toBe(BlockIdFixture.id);
+        });
+
+        test('Return a BlockId instance from bytes', () => {
+            const blockId = BlockId.of(HexUInt.of(BlockIdFixture.id).bytes);
+            expect(blockId.isEqual(BlockId.of(BlockIdFixture.id))).toBe(true);
+        });
+
+        test('Return a BlockId instance from a ThorId', () => {
+            const blockId = BlockId.of(ThorId.of(BlockIdFixture.genesis));
+            expect(blockId).toBeInstanceOf(BlockId);
+            expect(blockId.number).toBe(0);
+        });
+
+        test('Throw an error for a not hexadecimal expression', () => {
+            expect(() => BlockId.of('0xInvalidBlockId')).toThrow(
+                InvalidDataType
+            );
+        });
+
+        test('Throw an error for a negative value', () => {
+            expect(() => BlockId.of(-1n)).toThrow(InvalidDataType);
+        });
+    });
+
+    describe('Block number and BlockRef tests', () => {
+        test('Return the embedded block number', () => {
+            expect(BlockId.of(BlockIdFixture.id).number).toBe(
+                BlockIdFixture.number
+            );
+        });
+
+        test('Return the BlockRef as the first 8 bytes', () => {
+            const blockRef = BlockId.of(BlockIdFixture.id).blockRef;
+            expect(blockRef).toBeInstanceOf(BlockRef);
+            expect(blockRef.toString()).toBe(BlockIdFixture.blockRef);
+            expect(blockRef.number).toBe(BlockIdFixture.number);
+        });
+    });
+
+    describe('Comparison tests', () => {
+        test('Order by height', () => {
+            const block = BlockId.of(BlockIdFixture.id);
+            const next = BlockId.of(BlockIdFixture.next);
+            expect(block.compareTo(next)).toBeLessThan(0);
+            expect(next.compareTo(block)).toBeGreaterThan(0);
+            expect(block.compareTo(BlockId.of(BlockIdFixture.id))).toBe(0);
+        });
+
+        test('Compare with a BlockRef', () => {
+            const block = BlockId.of(BlockIdFixture.id);
+            expect(block.compareTo(BlockRef.of(BlockIdFixture.blockRef))).toBe(
+                0
+            );
+            expect(
+                block.compareTo(BlockRef.ofNumber(BlockIdFixture.number + 1))
+            ).toBeLessThan(0);
+        });
+    });
+});
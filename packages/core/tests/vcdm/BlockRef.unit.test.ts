@@ -0,0 +1,93 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { BlockId, BlockRef, ThorId } from '../../src';
+
+const BlockRefFixture = {
+    id: '0x00bc614e4b48ab7e0a2c8e2a07d1fcbf0a1dbd7e9e5b3c6f0d6c7a7f51a8ef33',
+    blockRef: '0x00bc614e4b48ab7e',
+    number: 12345678
+};
+
+/**
+ * Test BlockRef class.
+ * @group unit/vcdm
+ */
+describe('BlockRef class tests', () => {
+    describe('Construction tests', () => {
+        test('Return a BlockRef instance from a `0x` prefixed string', () => {
+            const blockRef = BlockRef.of(BlockRefFixture.blockRef);
+            expect(blockRef).toBeInstanceOf(BlockRef);
+            expect(blockRef.toString()).toBe(BlockRefFixture.blockRef);
+            expect(blockRef.number).toBe(BlockRefFixture.number);
+        });
+
+        test('Return a BlockRef instance from a block ID', () => {
+            expect(BlockRef.of(BlockId.of(BlockRefFixture.id)).toString()).toBe(
+                BlockRefFixture.blockRef
+            );
+            expect(BlockRef.of(ThorId.of(BlockRefFixture.id)).toString()).toBe(
+                BlockRefFixture.blockRef
+            );
+        });
+
+        test('Return a BlockRef instance padding short values', () => {
+            expect(BlockRef.of(1).toString()).toBe('0x0000000000000001');
+        });
+
+        test('Return a BlockRef instance from a block number', () => {
+            const blockRef = BlockRef.ofNumber(BlockRefFixture.number);
+            expect(blockRef.toString()).toBe('0x00bc614e00000000');
+            expect(blockRef.number).toBe(BlockRefFixture.number);
+        });
+
+        test('Throw an error for a not block number', () => {
+            expect(() => BlockRef.ofNumber(-1)).toThrow(InvalidDataType);
+            expect(() => BlockRef.ofNumber(1.5)).toThrow(InvalidDataType);
+            expect(() => BlockRef.ofNumber(2 ** 32)).toThrow(InvalidDataType);
+        });
+
+        test('Throw an error for an expression longer than 8 bytes', () => {
+            expect(() => BlockRef.of('0xff00bc614e4b48ab7e')).toThrow(
+                InvalidDataType
+            );
+        });
+    });
+
+    describe('isValid method tests', () => {
+        test('Return true for valid expressions', () => {
+            expect(BlockRef.isValid(BlockRefFixture.blockRef)).toBe(true);
+            expect(BlockRef.isValid(BlockRefFixture.blockRef.slice(2))).toBe(
+                true
+            );
+            expect(BlockRef.isValid0x(BlockRefFixture.blockRef)).toBe(true);
+        });
+
+        test('Return false for invalid expressions', () => {
+            expect(BlockRef.isValid(BlockRefFixture.id)).toBe(false);
+            expect(BlockRef.isValid('0xInvalidRef')).toBe(false);
+            expect(BlockRef.isValid('InvalidBlockRef!')).toBe(false);
+            expect(BlockRef.isValid('0x' + 'g'.repeat(16))).toBe(false);
+            expect(BlockRef.isValid0x(BlockRefFixture.blockRef.slice(2))).toBe(
+                false
+            );
+        });
+    });
+
+    describe('Comparison tests', () => {
+        test('Order by height', () => {
+            const ref = BlockRef.of(BlockRefFixture.blockRef);
+            expect(
+                ref.compareTo(BlockRef.ofNumber(BlockRefFixture.number - 1))
+            ).toBeGreaterThan(0);
+            expect(
+                ref.compareTo(BlockRef.ofNumber(BlockRefFixture.number + 1))
+            ).toBeLessThan(0);
+        });
+
+        test('Compare with a block ID', () => {
+            const ref = BlockRef.of(BlockRefFixture.blockRef);
+            expect(ref.compareTo(BlockId.of(BlockRefFixture.id))).toBe(0);
+            expect(ref.isEqual(BlockId.of(BlockRefFixture.id))).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
+import { FixedPointNumber, RoundingMode, Txt } from '../../src';
+
+/**
+ * Test FixedPointNumber class.
+ * @group unit/vcdm
+ */
+describe('FixedPointNumber class tests', () => {
+    describe('Construction tests', () => {
+        test('Return an instance from a bigint', () => {
+            const fpn = FixedPointNumber.of(-123n);
+            expect(fpn.scaledValue).toBe(-123n);
+            expect(fpn.fractionalDigits).toBe(0);
+        });
+
+        test('Return an instance from a number using its shortest decimal expression', () => {
+            const fpn = FixedPointNumber.of(0.1);
+            expect(fpn.scaledValue).toBe(1n);
+            expect(fpn.fractionalDigits).toBe(1);
+            expect(FixedPointNumber.of(1e21).toString()).toBe(
+                '1000000000000000000000'
+            );
+            expect(FixedPointNumber.of(1.5e-7).toString()).toBe('0.00000015');
+        });
+
+        test('Return an instance from a decimal string', () => {
+            const fpn = FixedPointNumber.of('-12.3400');
+            expect(fpn.scaledValue).toBe(-123400n);
+            expect(fpn.fractionalDigits).toBe(4);
+            expect(FixedPointNumber.of('.5').toString()).toBe('0.5');
+            expect(FixedPointNumber.of('+7.').toString()).toBe('7');
+            expect(FixedPointNumber.of('1.25E2').toString()).toBe('125');
+        });
+
+        test('Return an instance with many decimals', () => {
+            const exp = '0.' + '0'.repeat(99) + '1';
+            const fpn = FixedPointNumber.of(exp);
+            expect(fpn.fractionalDigits).toBe(100);
+            expect(fpn.toString()).toBe(exp);
+        });
+
+        test('Return an instance from a hexadecimal string', () => {
+            expect(FixedPointNumber.of('0xff').bi).toBe(255n);
+        });
+
+        test('Return an instance with the given fractional digits', () => {
+            const fpn = FixedPointNumber.of('1.5', 18);
+            expect(fpn.fractionalDigits).toBe(18);
+            expect(fpn.scaledValue).toBe(1500000000000000000n);
+        });
+
+        test('Throw an error if the fractional digits would round the value', () => {
+            expect(() => FixedPointNumber.of('1.55', 1)).toThrow(
+                InvalidDataType
+            );
+        });
+
+        test('Throw an error for not decimal expressions', () => {
+            expect(() => FixedPointNumber.of('c0ffee')).toThrow(
+                InvalidDataType
+            );
+            expect(() => FixedPointNumber.of('.')).toThrow(InvalidDataType);
+            expect(() => FixedPointNumber.of('')).toThrow(InvalidDataType);
+            expect(() => FixedPointNumber.of(NaN)).toThrow(InvalidDataType);
+            expect(() => FixedPointNumber.of(Infinity)).toThrow(
+                InvalidDataType
+            );
+        });
+    });
+
+    describe('isValid tests', () => {
+        test('Return true for decimal expressions', () => {
+            ['0', '-1', '+1.5', '.5', '5.', '1e3', '-1.5E-3'].forEach((exp) => {
+                expect(FixedPointNumber.isValid(exp)).toBe(true);
+            });
+        });
+
+        test('Return false for not decimal expressions', () => {
+            ['', '.', '-', '1.2.3', 'e3', '0x1f', '1,5'].forEach((exp) => {
+                expect(FixedPointNumber.isValid(exp)).toBe(false);
+            });
+        });
+
+        test('Return false for exponents out of range', () => {
+            expect(FixedPointNumber.isValid('1e1000')).toBe(true);
+            expect(FixedPointNumber.isValid('1e-1000')).toBe(true);
+            ['1e1001', '1e-1001', '1e999999999'].forEach((exp) => {
+                expect(FixedPointNumber.isValid(exp)).toBe(false);
+                expect(() => FixedPointNumber.of(exp)).toThrow(InvalidDataType);
+            });
+        });
+    });
+
+    describe('VCDM interface tests', () => {
+        test('bi - return the integer value', () => {
+            expect(FixedPointNumber.of('42.000').bi).toBe(42n);
+            expect(FixedPointNumber.of('-42').bi).toBe(-42n);
+        });
+
+        test('bi - throw an error for not integer values', () => {
+            expect(() => FixedPointNumber.of('42.5').bi).toThrow(
+                InvalidOperation
+            );
+        });
+
+        test('bytes - return the encoded decimal expression', () => {
+            expect(FixedPointNumber.of('1.50').bytes).toEqual(
+                Txt.of('1.5').bytes
+            );
+        });
+
+        test('n - return the number value', () => {
+            expect(FixedPointNumber.of('-1.25').n).toBe(-1.25);
+        });
+
+        test('compareTo and isEqual - ignore the fractional digits', () => {
+            const a = FixedPointNumber.of('1.0');
+            const b = FixedPointNumber.of('1.000');
+            const c = FixedPointNumber.of('1.001');
+            expect(a.compareTo(b)).toBe(0);
+            expect(a.isEqual(b)).toBe(true);
+            expect(a.compareTo(c)).toBeLessThan(0);
+            expect(c.compareTo(a)).toBeGreaterThan(0);
+            expect(FixedPointNumber.of(-2).compareTo(a)).toBeLessThan(0);
+        });
+    });
+
+    describe('Arithmetic tests', () => {
+        test('add - return the exact sum', () => {
+            const sum = FixedPointNumber.of(0.1).add(FixedPointNumber.of(0.2));
+            expect(sum.toString()).toBe('0.3');
+        });
+
+        test('sub - return the exact difference', () => {
+            const diff = FixedPointNumber.of('1').sub(
+                FixedPointNumber.of('0.000000000000000000000000000001')
+            );
+            expect(diff.toString()).toBe('0.999999999999999999999999999999');
+        });
+
+        test('mul - return the exact product', () => {
+            const product = FixedPointNumber.of('-1.5').mul(
+                FixedPointNumber.of('0.25')
+            );
+            expect(product.toString()).toBe('-0.375');
+            expect(product.fractionalDigits).toBe(3);
+        });
+
+        test('div - return the exact quotient', () => {
+            const quotient = FixedPointNumber.of(1).div(
+                FixedPointNumber.of(8),
+                3,
+                RoundingMode.UNNECESSARY
+            );
+            expect(quotient.toString()).toBe('0.125');
+        });
+
+        test('div - throw an error if rounding is unnecessary but needed', () => {
+            expect(() =>
+                FixedPointNumber.of(1).div(
+                    FixedPointNumber.of(3),
+                    18,
+                    RoundingMode.UNNECESSARY
+                )
+            ).toThrow(InvalidOperation);
+        });
+
+        test('div - throw an error dividing by zero', () => {
+            expect(() =>
+                FixedPointNumber.of(1).div(
+                    FixedPointNumber.ZERO,
+                    2,
+                    RoundingMode.HALF_UP
+                )
+            ).toThrow(InvalidOperation);
+        });
+
+        test('div - throw an error for negative fractional digits', () => {
+            expect(() =>
+                FixedPointNumber.of(1).div(
+                    FixedPointNumber.of(2),
+                    -1,
+                    RoundingMode.HALF_UP
+                )
+            ).toThrow(InvalidDataType);
+        });
+
+        test('div - round according the rounding mode', () => {
+            const third = (mode: RoundingMode, n: number): string =>
+                FixedPointNumber.of(n)
+                    .div(FixedPointNumber.of(3), 2, mode)
+                    .toString();
+            expect(third(RoundingMode.UP, 1)).toBe('0.34');
+            expect(third(RoundingMode.DOWN, 1)).toBe('0.33');
+            expect(third(RoundingMode.CEILING, -1)).toBe('-0.33');
+            expect(third(RoundingMode.FLOOR, -1)).toBe('-0.34');
+            expect(third(RoundingMode.HALF_UP, 2)).toBe('0.67');
+            expect(third(RoundingMode.HALF_DOWN, -2)).toBe('-0.67');
+        });
+
+        test('round - round the middle value according the rounding mode', () => {
+            const round = (exp: string, mode: RoundingMode): string =>
+                FixedPointNumber.of(exp).round(0, mode).toString();
+            expect(round('2.5', RoundingMode.HALF_UP)).toBe('3');
+            expect(round('-2.5', RoundingMode.HALF_UP)).toBe('-3');
+            expect(round('2.5', RoundingMode.HALF_DOWN)).toBe('2');
+            expect(round('2.5', RoundingMode.HALF_EVEN)).toBe('2');
+            expect(round('3.5', RoundingMode.HALF_EVEN)).toBe('4');
+            expect(round('-3.5', RoundingMode.HALF_EVEN)).toBe('-4');
+            expect(round('2.6', RoundingMode.HALF_DOWN)).toBe('3');
+        });
+
+        test('abs and negated - return the absolute and the opposite value', () => {
+            expect(FixedPointNumber.of('-1.5').abs().toString()).toBe('1.5');
+            expect(FixedPointNumber.of('1.5').abs().toString()).toBe('1.5');
+            expect(FixedPointNumber.of('1.5').negated().toString()).toBe(
+                '-1.5'
+            );
+        });
+    });
+
+    describe('toString tests', () => {
+        test('Return the minimal decimal expression', () => {
+            expect(FixedPointNumber.of('0012.3400').toString()).toBe('12.34');
+            expect(FixedPointNumber.of('-0.0500').toString()).toBe('-0.05');
+            expect(FixedPointNumber.of('100.00').toString()).toBe('100');
+            expect(FixedPointNumber.of('-0.0').toString()).toBe('0');
+        });
+
+        test('Return the expression with the given fractional digits', () => {
+            expect(FixedPointNumber.of('1.5').toString(3)).toBe('1.500');
+            expect(FixedPointNumber.of(7).toString(1)).toBe('7.0');
+            expect(
+                FixedPointNumber.of('1.005').toString(2, RoundingMode.HALF_EVEN)
+            ).toBe('1.00');
+        });
+
+        test('Throw an error if the fractional digits would round the value', () => {
+            expect(() => FixedPointNumber.of('1.005').toString(2)).toThrow(
+                InvalidOperation
+            );
+        });
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, test } from '@jest/globals';
 import { Hex, HexInt } from '../../src';
-import { InvalidDataType } from '@vechain/sdk-errors';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
 
 /**
  * Test HexInt class.
@@ -86,4 +86,83 @@ describe('HexInt class tests', () => {
             expect(ofHex.isEqual(ofN)).toBeTruthy();
         });
     });
+
+    describe('Arithmetic tests', () => {
+        test('add - return the sum with the digits of the widest operand', () => {
+            const sum = HexInt.of('0x00ff').add(1);
+            expect(sum).toBeInstanceOf(HexInt);
+            expect(sum.toString()).toBe('0x0100');
+            expect(HexInt.of(1).add(HexInt.of(-3n)).toString()).toBe('-0x02');
+        });
+
+        test('sub - return a negative difference', () => {
+            const diff = HexInt.of(1).sub(3n);
+            expect(diff.bi).toBe(-2n);
+            expect(diff.toString()).toBe('-0x02');
+        });
+
+        test('mul - return the product', () => {
+            expect(HexInt.of(-4).mul(Hex.of(3n)).bi).toBe(-12n);
+        });
+
+        test('mod - return the remainder with the sign of the dividend', () => {
+            expect(HexInt.of(-7).mod(3).bi).toBe(-1n);
+            expect(HexInt.of(7).mod(-3).bi).toBe(1n);
+        });
+
+        test('mod - throw an error dividing by zero', () => {
+            expect(() => HexInt.of(7).mod(0)).toThrow(InvalidOperation);
+        });
+
+        test('Throw an error if the operand is not an integer', () => {
+            expect(() => HexInt.of(1).add(1.5)).toThrow(InvalidDataType);
+        });
+    });
+
+    describe('Bitwise tests', () => {
+        test('and, or, xor - return the bitwise result', () => {
+            const hex = HexInt.of('0x0f0f');
+            expect(hex.and(0xff).toString()).toBe('0x000f');
+            expect(hex.or(0xf0).toString()).toBe('0x0fff');
+            expect(hex.xor(0xffff).toString()).toBe('0xf0f0');
+        });
+
+        test('and - follow the two complement semantic for negative values', () => {
+            expect(HexInt.of(-1).and(0xff).bi).toBe(255n);
+        });
+
+        test('shl, shr - shift preserving the sign', () => {
+            expect(HexInt.of(1).shl(8).toString()).toBe('0x0100');
+            expect(HexInt.of('0x0100').shr(4).toString()).toBe('0x0010');
+            expect(HexInt.of(-16).shr(2).bi).toBe(-4n);
+        });
+
+        test('shl - throw an error for negative bits', () => {
+            expect(() => HexInt.of(1).shl(-1)).toThrow(InvalidDataType);
+        });
+    });
+
+    describe('Padding and concatenation tests', () => {
+        test('pad - pad on the left to the given bytes', () => {
+            const padded = HexInt.of(-1).pad(4);
+            expect(padded).toBeInstanceOf(HexInt);
+            expect(padded.toString()).toBe('-0x00000001');
+        });
+
+        test('pad - throw an error if the value does not fit', () => {
+            expect(() => HexInt.of('0x010203').pad(2)).toThrow(InvalidDataType);
+        });
+
+        test('concat - append the bytes of the operand', () => {
+            expect(HexInt.of('0xabc').concat(Hex.of('0x01')).toString()).toBe(
+                '0x0abc01'
+            );
+        });
+
+        test('concat - throw an error for negative values', () => {
+            expect(() => HexInt.of(-1).concat(Hex.of(1n))).toThrow(
+                InvalidOperation
+            );
+        });
+    });
 });
@@ -1,6 +1,6 @@
 import { describe, expect, test } from '@jest/globals';
 import { HexUInt } from '../../src';
-import { InvalidDataType } from '@vechain/sdk-errors';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
 
 /**
  * Test HexUInt class.
@@ -31,4 +31,40 @@ describe('HexUInt class tests', () => {
             expect(ofHex.isEqual(ofN)).toBeTruthy();
         });
     });
+
+    describe('Operations tests', () => {
+        test('Return HexUInt instances', () => {
+            const slot = HexUInt.of(
+                '0x0000000000000000000000000000000000000000000000000000000000000001'
+            );
+            const next = slot.add(1);
+            expect(next).toBeInstanceOf(HexUInt);
+            expect(next.toString()).toBe(
+                '0x0000000000000000000000000000000000000000000000000000000000000002'
+            );
+            expect(slot.shl(255).sub(1).and(slot.xor(3))).toBeInstanceOf(
+                HexUInt
+            );
+            expect(HexUInt.of(3).mul(5).mod(4).bi).toBe(3n);
+            expect(HexUInt.of(1).or(6).shr(1).bi).toBe(3n);
+        });
+
+        test('Throw an error if the result is negative', () => {
+            expect(() => HexUInt.of(1).sub(2)).toThrow(InvalidOperation);
+            expect(() => HexUInt.of(1).or(-2)).toThrow(InvalidOperation);
+        });
+
+        test('pad - return a HexUInt padded to the given bytes', () => {
+            const padded = HexUInt.of('0xc0ffee').pad(32);
+            expect(padded).toBeInstanceOf(HexUInt);
+            expect(padded.digits.length).toBe(64);
+        });
+
+        test('concat - return a HexUInt of the concatenated bytes', () => {
+            const selector = HexUInt.of('0xa9059cbb');
+            const data = selector.concat(HexUInt.of(1).pad(32));
+            expect(data).toBeInstanceOf(HexUInt);
+            expect(data.bytes.length).toBe(36);
+        });
+    });
 });
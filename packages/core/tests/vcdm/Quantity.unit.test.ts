@@ -1,5 +1,5 @@
 import { describe, expect, test } from '@jest/globals';
-import { InvalidDataType } from '@vechain/sdk-errors';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
 import { Hex, Quantity } from '../../src';
 
 /**
@@ -40,4 +40,29 @@ describe('Quantity class tests', () => {
             expect(() => Quantity.of(-12357)).toThrow(InvalidDataType);
         });
     });
+
+    describe('Operations tests', () => {
+        test('Return Quantity instances with minimal digits', () => {
+            const nonce = Quantity.of(0xff).add(1);
+            expect(nonce).toBeInstanceOf(Quantity);
+            expect(nonce.toString()).toBe('0x100');
+            expect(Quantity.of(0x100).sub(0x100).toString()).toBe('0x0');
+            expect(Quantity.of(1).shl(4).toString()).toBe('0x10');
+            expect(Quantity.of(0x10).xor(0x11).toString()).toBe('0x1');
+            expect(Quantity.of(6).mul(7).mod(5).toString()).toBe('0x2');
+            expect(Quantity.of(6).and(3).or(8).shr(1).toString()).toBe('0x5');
+            expect(Quantity.of(1).concat(Hex.of('0x0002')).toString()).toBe(
+                '0x10002'
+            );
+        });
+
+        test('pad - do not pad but check the value fits', () => {
+            expect(Quantity.of(1).pad(32).toString()).toBe('0x1');
+            expect(() => Quantity.of(0x10000).pad(2)).toThrow(InvalidDataType);
+        });
+
+        test('Throw an error if the result is negative', () => {
+            expect(() => Quantity.of(1).sub(2)).toThrow(InvalidOperation);
+        });
+    });
 });
@@ -1,6 +1,13 @@
 import { describe, expect, test } from '@jest/globals';
 import { InvalidDataType } from '@vechain/sdk-errors';
-import { Hex, Revision, revisionUtils, Txt } from '../../src';
+import {
+    BlockId,
+    BlockRef,
+    Hex,
+    Revision,
+    revisionUtils,
+    Txt
+} from '../../src';
 
 /**
  * Test Revision class.
@@ -131,6 +138,24 @@ describe('Revision class tests', () => {
             });
         });
 
+        describe('From BlockId value', () => {
+            test('Return a Revision instance expressing the block ID', () => {
+                const id =
+                    '0x00bc614e4b48ab7e0a2c8e2a07d1fcbf0a1dbd7e9e5b3c6f0d6c7a7f51a8ef33';
+                const rev = Revision.of(BlockId.of(id));
+                expect(rev).toBeInstanceOf(Revision);
+                expect(rev.toString()).toBe(id);
+            });
+        });
+
+        describe('From BlockRef value', () => {
+            test('Return a Revision instance expressing the block number', () => {
+                const rev = Revision.of(BlockRef.of('0x00bc614e4b48ab7e'));
+                expect(rev).toBeInstanceOf(Revision);
+                expect(rev.toString()).toBe('12345678');
+            });
+        });
+
         describe('From Uint8Array value', () => {
             test('Return a Revision instance for a valid value', () => {
                 const rev = Revision.of(Txt.of('best').bytes);
@@ -0,0 +1,219 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
+import { Hex, HexUInt, Signature, secp256k1 } from '../../src';
+
+/**
+ * Test vectors of [EIP-2098](https://eips.ethereum.org/EIPS/eip-2098#test-cases).
+ */
+const SignatureFixture = {
+    privateKey: HexUInt.of(
+        '0x1234567890123456789012345678901234567890123456789012345678901234'
+    ).bytes,
+    order: 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n,
+    vectors: [
+        {
+            // keccak256 of the EIP-191 prefixed message "Hello World".
+            messageHash:
+                '0xa1de988600a42c4b4ab089b619297c17d53cffae5d5120d82d8a92d0bb3b78f2',
+            r: '0x68a020a209d3d56c46f38cc50a33f704f4a9a10a59377f8dd762ac66910e9b90',
+            s: '0x7e865ad05c4035ab5792787d4a0297a43617ae897930a6fe4d822b8faea52064',
+            v: 27,
+            yParityAndS:
+                '0x7e865ad05c4035ab5792787d4a0297a43617ae897930a6fe4d822b8faea52064'
+        },
+        {
+            // keccak256 of the EIP-191 prefixed message "It's a small(er) world".
+            messageHash:
+                '0xac33ec93c768b669bdb542a85baebaf7342d35fc9ad8fc0bbc1b852c6f8bf021',
+            r: '0x9328da16089fcba9bececa81663203989f2df5fe1faa6291a45381c81bd17f76',
+            s: '0x139c6d6b623b42da56557e5e734a43dc83345ddfadec52cbe24d0cc64f550793',
+            v: 28,
+            yParityAndS:
+                '0x939c6d6b623b42da56557e5e734a43dc83345ddfadec52cbe24d0cc64f550793'
+        }
+    ]
+};
+
+/**
+ * Test Signature class.
+ * @group unit/vcdm
+ */
+describe('Signature class tests', () => {
+    describe('Construction tests', () => {
+        SignatureFixture.vectors.forEach((vector) => {
+            test(`Return a Signature from the secp256k1.sign output (v = ${vector.v})`, () => {
+                const signature = Signature.of(
+                    secp256k1.sign(
+                        HexUInt.of(vector.messageHash).bytes,
+                        SignatureFixture.privateKey
+                    )
+                );
+                expect(signature).toBeInstanceOf(Signature);
+                expect(signature.r).toBe(HexUInt.of(vector.r).bi);
+                expect(signature.s).toBe(HexUInt.of(vector.s).bi);
+                expect(signature.yParity).toBe(vector.v - 27);
+                expect(signature.v).toBe(vector.v);
+            });
+
+            test(`Return a Signature from the legacy form (v = ${vector.v})`, () => {
+                const signature = Signature.of(
+                    vector.r + vector.s.slice(2) + vector.v.toString(16)
+                );
+                expect(signature.yParity).toBe(vector.v - 27);
+                expect(Hex.of(signature.legacyBytes).toString()).toBe(
+                    vector.r + vector.s.slice(2) + vector.v.toString(16)
+                );
+            });
+
+            test(`Return a Signature from the EIP-2098 compact form (v = ${vector.v})`, () => {
+                const signature = Signature.of(
+                    vector.r + vector.yParityAndS.slice(2)
+                );
+                expect(signature.s).toBe(HexUInt.of(vector.s).bi);
+                expect(signature.v).toBe(vector.v);
+                expect(Hex.of(signature.compactBytes).toString()).toBe(
+                    vector.r + vector.yParityAndS.slice(2)
+                );
+            });
+        });
+
+        test('Return a Signature from components', () => {
+            const vector = SignatureFixture.vectors[1];
+            const signature = Signature.ofRSV(
+                HexUInt.of(vector.r).bi,
+                HexUInt.of(vector.s).bi,
+                1
+            );
+            expect(
+                signature.isEqual(
+                    Signature.ofRSV(
+                        HexUInt.of(vector.r).bi,
+                        HexUInt.of(vector.s).bi,
+                        vector.v
+                    )
+                )
+            ).toBe(true);
+        });
+
+        test('Throw an error for a wrong length', () => {
+            expect(() =>
+                Signature.of(SignatureFixture.vectors[0].r)
+            ).toThrowError(InvalidDataType);
+        });
+
+        test('Throw an error for a not hexadecimal expression', () => {
+            expect(() => Signature.of('0xInvalidSignature')).toThrowError(
+                InvalidDataType
+            );
+        });
+
+        test('Throw an error for an invalid v', () => {
+            const vector = SignatureFixture.vectors[0];
+            expect(() =>
+                Signature.of(vector.r + vector.s.slice(2) + '02')
+            ).toThrowError(InvalidDataType);
+            expect(() =>
+                Signature.ofRSV(
+                    HexUInt.of(vector.r).bi,
+                    HexUInt.of(vector.s).bi,
+                    29
+                )
+            ).toThrowError(InvalidDataType);
+        });
+
+        test('Throw an error for components out of range', () => {
+            const vector = SignatureFixture.vectors[0];
+            expect(() =>
+                Signature.ofRSV(0n, HexUInt.of(vector.s).bi, 0)
+            ).toThrowError(InvalidDataType);
+            expect(() =>
+                Signature.ofRSV(
+                    HexUInt.of(vector.r).bi,
+                    SignatureFixture.order,
+                    0
+                )
+            ).toThrowError(InvalidDataType);
+        });
+    });
+
+    describe('isValid tests', () => {
+        test('Return true for valid signature expressions', () => {
+            const vector = SignatureFixture.vectors[0];
+            expect(Signature.isValid(vector.r + vector.s.slice(2) + '00')).toBe(
+                true
+            );
+            expect(
+                Signature.isValid(vector.r + vector.yParityAndS.slice(2))
+            ).toBe(true);
+        });
+
+        test('Return false for invalid signature expressions', () => {
+            expect(Signature.isValid('0x00')).toBe(false);
+            expect(Signature.isValid(new Uint8Array(65))).toBe(false);
+        });
+    });
+
+    describe('Normalization tests', () => {
+        const vector = SignatureFixture.vectors[0];
+        const low = Signature.ofRSV(
+            HexUInt.of(vector.r).bi,
+            HexUInt.of(vector.s).bi,
+            vector.v
+        );
+        const high = Signature.ofRSV(
+            low.r,
+            SignatureFixture.order - low.s,
+            1 - low.yParity
+        );
+
+        test('Return the same signature if s is low', () => {
+            expect(low.isLowS).toBe(true);
+            expect(low.normalize()).toBe(low);
+        });
+
+        test('Return the low-s signature if s is high', () => {
+            expect(high.isLowS).toBe(false);
+            expect(high.isEqual(low)).toBe(false);
+            expect(high.normalize().isEqual(low)).toBe(true);
+        });
+
+        test('Recover the same public key from both forms', () => {
+            const messageHash = HexUInt.of(vector.messageHash).bytes;
+            expect(secp256k1.recover(messageHash, high.bytes)).toEqual(
+                secp256k1.recover(messageHash, low.bytes)
+            );
+        });
+
+        test('Throw an error serializing a high-s signature in compact form', () => {
+            expect(() => high.compactBytes).toThrowError(InvalidOperation);
+        });
+    });
+
+    describe('Cast and comparison tests', () => {
+        const vector = SignatureFixture.vectors[0];
+        const signature = Signature.of(vector.r + vector.s.slice(2) + '00');
+
+        test('Return the recoverable bytes', () => {
+            expect(signature.bytes.length).toBe(Signature.LENGTH);
+            expect(signature.toString()).toBe(
+                vector.r + vector.s.slice(2) + '00'
+            );
+            expect(signature.bi).toBe(HexUInt.of(signature.toString()).bi);
+        });
+
+        test('Throw an error casting to number', () => {
+            expect(() => signature.n).toThrowError(InvalidOperation);
+        });
+
+        test('Compare signatures', () => {
+            const other = Signature.of(
+                SignatureFixture.vectors[1].r +
+                    SignatureFixture.vectors[1].s.slice(2) +
+                    '01'
+            );
+            expect(signature.compareTo(signature)).toBe(0);
+            expect(signature.compareTo(other)).toBeLessThan(0);
+            expect(other.compareTo(signature)).toBeGreaterThan(0);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidDataType, InvalidOperation } from '@vechain/sdk-errors';
+import { Coin, VET, VTHO } from '../../src';
+
+const VETFixture = {
+    balance: '0x47ff1f90327aa0f8e', // As returned by `GET /accounts/{address}`.
+    balanceWei: 83006399998987997070n,
+    balanceUnits: '83.00639999898799707'
+};
+
+/**
+ * Test VET class.
+ * @group unit/vcdm
+ */
+describe('VET class tests', () => {
+    describe('Construction tests', () => {
+        test('Return a VET instance from a decimal string in VET', () => {
+            const vet = VET.of('1.5');
+            expect(vet).toBeInstanceOf(VET);
+            expect(vet).toBeInstanceOf(Coin);
+            expect(vet.code).toBe('VET');
+            expect(vet.wei).toBe(1500000000000000000n);
+        });
+
+        test('Return a VET instance from a number in VET', () => {
+            expect(VET.of(0.1).wei).toBe(100000000000000000n);
+        });
+
+        test('Return a VET instance from a value in a given unit', () => {
+            expect(VET.of(3, 'gwei').wei).toBe(3000000000n);
+            expect(VET.of('1', 6).wei).toBe(1000000n);
+        });
+
+        test('Return a VET instance from the smallest fraction', () => {
+            expect(VET.of('0.000000000000000001').wei).toBe(1n);
+        });
+
+        test('Return a VET instance from a hexadecimal balance in wei', () => {
+            const vet = VET.ofWei(VETFixture.balance);
+            expect(vet.wei).toBe(VETFixture.balanceWei);
+            expect(vet.toUnits()).toBe(VETFixture.balanceUnits);
+        });
+
+        test('Return a VET instance from decimal, bigint and number wei', () => {
+            expect(VET.ofWei('1000').wei).toBe(1000n);
+            expect(VET.ofWei(1000n).wei).toBe(1000n);
+            expect(VET.ofWei(1000).wei).toBe(1000n);
+        });
+
+        test('Throw an error if the amount is finer than 1 wei', () => {
+            expect(() => VET.of('0.0000000000000000001')).toThrow(
+                InvalidDataType
+            );
+        });
+
+        test('Throw an error if the amount is not a number', () => {
+            expect(() => VET.of('c0ffee')).toThrow(InvalidDataType);
+        });
+
+        test('Throw an error if wei is not an integer', () => {
+            expect(() => VET.ofWei('1.5')).toThrow(InvalidDataType);
+            expect(() => VET.ofWei(1.5)).toThrow(InvalidDataType);
+            expect(() => VET.ofWei(Number.MAX_SAFE_INTEGER + 1)).toThrow(
+                InvalidDataType
+            );
+        });
+    });
+
+    describe('VCDM interface tests', () => {
+        test('bi - return the amount in wei', () => {
+            expect(VET.of(2).bi).toBe(2000000000000000000n);
+        });
+
+        test('bytes - return the bytes of the amount in wei', () => {
+            expect(VET.ofWei(256).bytes).toEqual(new Uint8Array([1, 0]));
+        });
+
+        test('n - return the amount in VET', () => {
+            expect(VET.of('1.25').n).toBe(1.25);
+        });
+
+        test('compareTo - compare amounts', () => {
+            expect(VET.of(1).compareTo(VET.of(2))).toBeLessThan(0);
+            expect(VET.of(2).compareTo(VET.of(2))).toBe(0);
+            expect(VET.of(3).compareTo(VET.of(2))).toBeGreaterThan(0);
+        });
+
+        test('compareTo - throw an error for different currencies', () => {
+            expect(() => VET.of(1).compareTo(VTHO.of(1))).toThrow(
+                InvalidOperation
+            );
+        });
+
+        test('isEqual - compare currency and amount', () => {
+            expect(VET.of('1.0').isEqual(VET.ofWei(10n ** 18n))).toBe(true);
+            expect(VET.of(1).isEqual(VET.of(2))).toBe(false);
+            expect(VET.of(1).isEqual(VTHO.of(1))).toBe(false);
+        });
+    });
+
+    describe('Arithmetic tests', () => {
+        test('add - return the exact sum', () => {
+            const sum = VET.of('0.1').add(VET.of('0.2'));
+            expect(sum).toBeInstanceOf(VET);
+            expect(sum.isEqual(VET.of('0.3'))).toBe(true);
+        });
+
+        test('sub - return the exact difference, negative too', () => {
+            const diff = VET.of('0.1').sub(VET.of('0.3'));
+            expect(diff).toBeInstanceOf(VET);
+            expect(diff.wei).toBe(-200000000000000000n);
+            expect(diff.toString()).toBe('-0.2 VET');
+        });
+
+        test('add and sub - throw an error for different currencies', () => {
+            expect(() => VET.of(1).add(VTHO.of(1))).toThrow(InvalidOperation);
+            expect(() => VET.of(1).sub(VTHO.of(1))).toThrow(InvalidOperation);
+        });
+    });
+
+    describe('Format tests', () => {
+        test('toUnits - return the amount in the given unit', () => {
+            expect(VET.of(1).toUnits()).toBe('1.0');
+            expect(VET.of(1).toUnits('gwei')).toBe('1000000000.0');
+            expect(VET.of(1).toUnits('wei')).toBe('1000000000000000000');
+        });
+
+        test('toString - return the amount followed by the code', () => {
+            expect(VET.of('42.42').toString()).toBe('42.42 VET');
+        });
+    });
+});
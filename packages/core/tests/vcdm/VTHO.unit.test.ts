@@ -0,0 +1,33 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidOperation } from '@vechain/sdk-errors';
+import { VET, VTHO } from '../../src';
+
+/**
+ * Test VTHO class.
+ * @group unit/vcdm
+ */
+describe('VTHO class tests', () => {
+    test('Return a VTHO instance from a decimal string in VTHO', () => {
+        const vtho = VTHO.of('0.42');
+        expect(vtho).toBeInstanceOf(VTHO);
+        expect(vtho.code).toBe('VTHO');
+        expect(vtho.wei).toBe(420000000000000000n);
+    });
+
+    test('Return a VTHO instance from a hexadecimal energy in wei', () => {
+        const vtho = VTHO.ofWei('0x4563918244f40000');
+        expect(vtho.toString()).toBe('5.0 VTHO');
+    });
+
+    test('Return the exact sum and difference as VTHO', () => {
+        const fee = VTHO.of('0.21');
+        const total = fee.add(fee);
+        expect(total).toBeInstanceOf(VTHO);
+        expect(total.isEqual(VTHO.of('0.42'))).toBe(true);
+        expect(total.sub(fee).isEqual(fee)).toBe(true);
+    });
+
+    test('Throw an error operating with VET', () => {
+        expect(() => VTHO.of(1).add(VET.of(1))).toThrow(InvalidOperation);
+    });
+});
@@ -1,23 +1,12 @@
-import { Address, Mnemonic } from '../../../src';
+import { Address, Mnemonic, VET } from '../../../src';
 import { Account } from '../../../src/vcdm/account';
-import { type Currency } from '../../../src/vcdm/Currency';
-
-// Use actual Currency subclasses once they are implemented.
-const mockCurrency: Currency = {
-    compareTo: jest.fn().mockReturnValue(0),
-    bi: 0n,
-    code: 'VET',
-    n: 0,
-    isEqual: jest.fn().mockReturnValue(true),
-    bytes: new Uint8Array(0)
-};
 
 /**
  * Test Account class.
  * @group unit/vcdm
  */
 describe('Account class tests', () => {
-    const balance = mockCurrency;
+    const balance = VET.of(0);
     const mnemonic = Mnemonic.of();
     describe('Construction tests', () => {
         test('Return an Account instance if the passed arguments are valid', () => {
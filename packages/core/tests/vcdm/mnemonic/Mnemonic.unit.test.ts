@@ -1,16 +1,19 @@
 import { describe, expect, test } from '@jest/globals';
-import { InvalidHDNode } from '@vechain/sdk-errors';
+import { InvalidHDNode, InvalidHDNodeMnemonic } from '@vechain/sdk-errors';
 import {
     Address,
     mnemonic,
     Mnemonic,
     secp256k1,
+    type MnemonicLanguage,
     type WordlistSizeType
 } from '../../../src';
 import { Hex } from '../../../src/vcdm/Hex';
 import {
     customRandomGeneratorWithXor,
     derivationPaths,
+    languages,
+    spanishWords,
     words,
     wrongDerivationPath
 } from './fixture';
@@ -59,6 +62,18 @@ describe('Mnemonic', () => {
                 });
         });
 
+        test('toPrivateKey - passphrase', () => {
+            const withPassphrase = Mnemonic.toPrivateKey(
+                words,
+                'm/0',
+                'TREZOR'
+            );
+            expect(withPassphrase).not.toEqual(Mnemonic.toPrivateKey(words));
+            expect(
+                Address.ofPublicKey(secp256k1.derivePublicKey(withPassphrase))
+            ).toEqual(Address.ofMnemonic(words, 'm/0', 'TREZOR'));
+        });
+
         test('toPrivateKey - wrong path', () => {
             expect(() =>
                 Mnemonic.toPrivateKey(words, wrongDerivationPath)
@@ -115,6 +130,30 @@ describe('Mnemonic', () => {
             expect(Mnemonic.of().length).toEqual(12);
         });
 
+        test('of - languages', () => {
+            languages.forEach((language) => {
+                const words = Mnemonic.of(12, undefined, language);
+                expect(words.length).toEqual(12);
+                expect(Mnemonic.isValid(words, language)).toBe(true);
+                expect(Mnemonic.isValid(words)).toBe(true);
+                expect(Mnemonic.toPrivateKey(words).length).toEqual(32);
+            });
+        });
+
+        test('of - japanese - words are split on ideographic space', () => {
+            const words = Mnemonic.of(12, () => new Uint8Array(16), 'japanese');
+            expect(words).toEqual([
+                ...new Array<string>(11).fill('あいこくしん'),
+                'あおぞら'.normalize('NFKD')
+            ]);
+        });
+
+        test('of - wrong language', () => {
+            expect(() =>
+                Mnemonic.of(12, undefined, 'klingon' as MnemonicLanguage)
+            ).toThrowError(InvalidHDNodeMnemonic);
+        });
+
         test('of - wrong length', () => {
             expect(() => {
                 // @ts-expect-error - Wrong length error for testing purposes.
@@ -140,6 +179,42 @@ describe('Mnemonic', () => {
             expect(Mnemonic.isValid(Mnemonic.of())).toBeTruthy();
             expect(mnemonic.isValid(Mnemonic.of())).toBeTruthy();
         });
+
+        test('isValid - language', () => {
+            expect(Mnemonic.isValid(spanishWords, 'spanish')).toBe(true);
+            expect(Mnemonic.isValid(spanishWords, 'english')).toBe(false);
+            expect(Mnemonic.isValid(words, 'spanish')).toBe(false);
+            expect(Mnemonic.isValid(words, 'klingon' as MnemonicLanguage)).toBe(
+                false
+            );
+        });
+
+        test('isValid - NFKD normalization and case insensitive', () => {
+            // Composed accents (NFC), upper case and multiple spaces.
+            const phrase = spanishWords
+                .join('  ')
+                .normalize('NFC')
+                .toUpperCase();
+            expect(Mnemonic.isValid(phrase, 'spanish')).toBe(true);
+            expect(Mnemonic.isValid(phrase)).toBe(true);
+        });
+    });
+
+    describe('languageOf', () => {
+        test('languageOf - detected', () => {
+            expect(Mnemonic.languageOf(words)).toEqual('english');
+            expect(Mnemonic.languageOf(spanishWords)).toEqual('spanish');
+            expect(
+                Mnemonic.languageOf(Mnemonic.of(24, undefined, 'japanese'))
+            ).toEqual('japanese');
+            expect(
+                Mnemonic.languageOf(Mnemonic.of(12, undefined, 'korean'))
+            ).toEqual('korean');
+        });
+
+        test('languageOf - null', () => {
+            expect(Mnemonic.languageOf('hello world')).toBeNull();
+        });
     });
 
     describe('Unused methods tests', () => {
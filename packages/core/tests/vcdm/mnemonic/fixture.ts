@@ -1,5 +1,6 @@
 import {
     secp256k1,
+    type MnemonicLanguage,
     type WordListRandomGeneratorSizeInBytes
 } from '../../../src';
 
@@ -11,6 +12,30 @@ const words =
         ' '
     );
 
+/**
+ * Spanish mnemonic words fixture, NFKD normalized as the BIP39 wordlist.
+ */
+const spanishWords =
+    'obra diadema gorila farmacia colgar gorra pausa talar cocina duda dragón optar'
+        .normalize('NFKD')
+        .split(' ');
+
+/**
+ * Languages of the BIP39 wordlists.
+ */
+const languages: MnemonicLanguage[] = [
+    'czech',
+    'english',
+    'french',
+    'italian',
+    'japanese',
+    'korean',
+    'portuguese',
+    'simplified-chinese',
+    'spanish',
+    'traditional-chinese'
+];
+
 /**
  * Custom random generator with XOR
  */
@@ -64,6 +89,8 @@ const wrongDerivationPath = 'm/0/1/4/2/4/h';
 export {
     customRandomGeneratorWithXor,
     derivationPaths,
+    languages,
+    spanishWords,
     words,
     wrongDerivationPath
 };
@@ -16,7 +16,7 @@ class InvalidAbiDataToEncodeOrDecode extends VechainSDKError<ObjectErrorData> {}
  * * This error will be thrown when the abi fragment is invalid.
  */
 class InvalidAbiFragment extends VechainSDKError<{
-    type: 'function' | 'event';
+    type: 'constructor' | 'error' | 'event' | 'function' | 'parameter';
     fragment: unknown;
 }> {}
 
@@ -10,4 +10,46 @@ import { type ObjectErrorData } from '../types';
  */
 class CertificateSignature extends VechainSDKError<ObjectErrorData> {}
 
-export { CertificateSignature };
+/**
+ * Certificate verification error.
+ *
+ * WHEN TO USE:
+ * * This error will be thrown when a validly signed certificate doesn't satisfy the verification policy
+ * because stale, issued in the future, for a not allowed domain or purpose, or replayed.
+ */
+class CertificateVerification extends VechainSDKError<ObjectErrorData> {}
+
+/**
+ * Invalid session token error.
+ *
+ * WHEN TO USE:
+ * * This error will be thrown when a session token issued after a certificate verification
+ * is malformed, not signed by the issuer or expired.
+ */
+class InvalidSessionToken extends VechainSDKError<ObjectErrorData> {}
+
+/**
+ * Invalid Sign-In with VeChain message error.
+ *
+ * WHEN TO USE:
+ * * This error will be thrown when a Sign-In with VeChain message can't be built or parsed
+ * OR the certificate carrying it doesn't match its fields.
+ */
+class InvalidSIWVMessage extends VechainSDKError<ObjectErrorData> {}
+
+/**
+ * Sign-In with VeChain verification error.
+ *
+ * WHEN TO USE:
+ * * This error will be thrown when a well formed Sign-In with VeChain message
+ * is expired, not yet valid, or bound to a different domain, nonce or chain than expected.
+ */
+class SIWVVerification extends VechainSDKError<ObjectErrorData> {}
+
+export {
+    CertificateSignature,
+    CertificateVerification,
+    InvalidSessionToken,
+    InvalidSIWVMessage,
+    SIWVVerification
+};
@@ -0,0 +1,14 @@
+import { VechainSDKError } from '../sdk-error';
+import { type ObjectErrorData } from '../types';
+
+/**
+ * Invalid EIP-712 typed data error.
+ *
+ * WHEN TO USE:
+ * * This error will be thrown when the domain, the types or the message of
+ * [EIP-712](https://eips.ethereum.org/EIPS/eip-712) typed data are malformed
+ * OR the message doesn't match its types.
+ */
+class InvalidTypedData extends VechainSDKError<ObjectErrorData> {}
+
+export { InvalidTypedData };
@@ -9,7 +9,7 @@ import { VechainSDKError } from '../sdk-error';
  * @note Data (mnemonic) is undefined for security reasons, the mnemonic should not be logged!
  */
 class InvalidHDNodeMnemonic extends VechainSDKError<
-    undefined | { wordlistSize: number }
+    undefined | { wordlistSize: number; language?: string }
 > {}
 
 /**
@@ -17,11 +17,15 @@ class InvalidHDNodeMnemonic extends VechainSDKError<
  *
  * WHEN TO USE:
  * * This error will be thrown when the HDNode is invalid (derivation path / chainCode / public key parameters).
+ *
+ * @note Data never includes extended keys, an extended private key should not be logged!
  */
 class InvalidHDNode extends VechainSDKError<{
     derivationPath?: string;
     chainCode?: Uint8Array;
     publicKey?: Uint8Array;
+    index?: number;
+    count?: number;
 }> {}
 
 export { InvalidHDNodeMnemonic, InvalidHDNode };
@@ -31,8 +31,34 @@ class InvalidSecp256k1Signature extends VechainSDKError<{
     recovery?: number;
 }> {}
 
+/**
+ * Invalid secp256k1 public key error.
+ *
+ * WHEN TO USE:
+ * * Error will be thrown when the secp256k1 public key is not a point of the curve.
+ */
+class InvalidSecp256k1PublicKey extends VechainSDKError<{
+    publicKey: Uint8Array;
+}> {}
+
+/**
+ * Invalid secp256k1 ECIES encrypted data error.
+ *
+ * WHEN TO USE:
+ * * Error will be thrown when the ECIES encrypted data is malformed
+ *   or it can't be decrypted/authenticated with the given private key.
+ *
+ * @note Data (private key, shared secret) is undefined for security reasons, only the length of the encrypted data is logged.
+ */
+class InvalidSecp256k1EncryptedData extends VechainSDKError<{
+    length: number;
+    version?: number;
+}> {}
+
 export {
     InvalidSecp256k1PrivateKey,
     InvalidSecp256k1MessageHash,
-    InvalidSecp256k1Signature
+    InvalidSecp256k1Signature,
+    InvalidSecp256k1PublicKey,
+    InvalidSecp256k1EncryptedData
 };
@@ -1,5 +1,12 @@
 import { describe, expect, test } from '@jest/globals';
-import { CertificateSignature, VechainSDKError } from '../../src';
+import {
+    CertificateSignature,
+    CertificateVerification,
+    InvalidSessionToken,
+    InvalidSIWVMessage,
+    SIWVVerification,
+    VechainSDKError
+} from '../../src';
 
 /**
  * Available errors test - Certificate
@@ -22,4 +29,72 @@ describe('Error package Available errors test - Certificate', () => {
             }).toThrowError(VechainSDKError);
         });
     });
+
+    /**
+     * CertificateVerification
+     */
+    test('CertificateVerification', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new CertificateVerification(
+                    'method',
+                    'message',
+                    { data: 'data' },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
+
+    /**
+     * InvalidSessionToken
+     */
+    test('InvalidSessionToken', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new InvalidSessionToken(
+                    'method',
+                    'message',
+                    { data: 'data' },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
+
+    /**
+     * InvalidSIWVMessage
+     */
+    test('InvalidSIWVMessage', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new InvalidSIWVMessage(
+                    'method',
+                    'message',
+                    { data: 'data' },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
+
+    /**
+     * SIWVVerification
+     */
+    test('SIWVVerification', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new SIWVVerification(
+                    'method',
+                    'message',
+                    { data: 'data' },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
 });
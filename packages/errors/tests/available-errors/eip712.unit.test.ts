@@ -0,0 +1,25 @@
+import { describe, expect, test } from '@jest/globals';
+import { InvalidTypedData, VechainSDKError } from '../../src';
+
+/**
+ * Available errors test - EIP-712
+ * @group unit/errors/available-errors/eip712
+ */
+describe('Error package Available errors test - EIP-712', () => {
+    /**
+     * InvalidTypedData
+     */
+    test('InvalidTypedData', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new InvalidTypedData(
+                    'method',
+                    'message',
+                    { data: 'data' },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
+});
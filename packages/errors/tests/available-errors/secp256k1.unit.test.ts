@@ -1,7 +1,9 @@
 import { describe, expect, test } from '@jest/globals';
 import {
+    InvalidSecp256k1EncryptedData,
     InvalidSecp256k1MessageHash,
     InvalidSecp256k1PrivateKey,
+    InvalidSecp256k1PublicKey,
     InvalidSecp256k1Signature,
     VechainSDKError
 } from '../../src';
@@ -64,4 +66,38 @@ describe('Error package Available errors test - Secp2561k1', () => {
             }).toThrowError(VechainSDKError);
         });
     });
+
+    /**
+     * InvalidSecp256k1PublicKey
+     */
+    test('InvalidSecp256k1PublicKey', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new InvalidSecp256k1PublicKey(
+                    'method',
+                    'message',
+                    { publicKey: new Uint8Array(0) },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
+
+    /**
+     * InvalidSecp256k1EncryptedData
+     */
+    test('InvalidSecp256k1EncryptedData', () => {
+        // Inner error
+        [undefined, new Error('error')].forEach((innerError) => {
+            expect(() => {
+                throw new InvalidSecp256k1EncryptedData(
+                    'method',
+                    'message',
+                    { length: 0, version: 1 },
+                    innerError
+                );
+            }).toThrowError(VechainSDKError);
+        });
+    });
 });
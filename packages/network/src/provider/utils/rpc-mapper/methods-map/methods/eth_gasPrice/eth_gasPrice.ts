@@ -6,11 +6,7 @@ import { type ThorClient } from '../../../../../../thor-client';
  * @returns The current gas price in Wei unit considering that 1 VTHO equals 1e18 Wei.
  */
 const ethGasPrice = async (thorClient: ThorClient): Promise<string> => {
-    const result = BigInt(
-        (await Promise.resolve(
-            thorClient.contracts.getBaseGasPrice()
-        )) as string
-    );
+    const [result] = await thorClient.contracts.getBaseGasPrice();
 
     return '0x' + result.toString(16);
 };
@@ -4,11 +4,13 @@ import {
     Hex,
     HexUInt,
     Keccak256,
+    Signature,
     Transaction,
     TransactionHandler,
     Txt,
+    eip712,
     secp256k1,
-    vechain_sdk_core_ethers,
+    type vechain_sdk_core_ethers,
     type TransactionBody
 } from '@vechain/sdk-core';
 import {
@@ -179,9 +181,8 @@ class VeChainPrivateKeySigner extends VeChainAbstractSigner {
                     ).bytes,
                     new Uint8Array(this.privateKey)
                 );
-                // SCP256K1 encodes the recovery flag in the last byte. EIP-191 adds 27 to it.
-                sign[sign.length - 1] += 27;
-                resolve(Hex.of(sign).toString());
+                // EIP-191 expects the recovery flag as v = 27 + yParity.
+                resolve(Hex.of(Signature.of(sign).legacyBytes).toString());
             } catch (e) {
                 reject(e);
             }
@@ -193,6 +194,7 @@ class VeChainPrivateKeySigner extends VeChainAbstractSigner {
      *
      * This function is a drop-in replacement for {@link ethers.BaseWallet.signTypedData} function,
      * albeit Ethereum Name Services are not resolved because he resolution depends on **ethers** provider implementation.
+     * The typed data are hashed and signed by {@link eip712.sign}.
      *
      * @param {ethers.TypedDataDomain} domain - The domain parameters used for signing.
      * @param {Record<string, ethers.TypedDataField[]>} types - The types used for signing.
@@ -207,20 +209,14 @@ class VeChainPrivateKeySigner extends VeChainAbstractSigner {
     ): Promise<string> {
         return await new Promise((resolve, reject) => {
             try {
-                const hash = Hex.of(
-                    vechain_sdk_core_ethers.TypedDataEncoder.hash(
+                resolve(
+                    eip712.sign(
                         domain,
                         types,
-                        value
+                        value,
+                        new Uint8Array(this.privateKey)
                     )
-                ).bytes;
-                const sign = secp256k1.sign(
-                    hash,
-                    new Uint8Array(this.privateKey)
                 );
-                // SCP256K1 encodes the recovery flag in the last byte. EIP-712 adds 27 to it.
-                sign[sign.length - 1] += 27;
-                resolve(Hex.of(sign).toString());
             } catch (e) {
                 reject(e);
             }
@@ -7,7 +7,7 @@ import {
     type TransactionsExpandedBlockDetail,
     type WaitForBlockOptions
 } from './types';
-import { Revision, type TransactionClause } from '@vechain/sdk-core';
+import { BlockId, Revision, type TransactionClause } from '@vechain/sdk-core';
 import { type ThorClient } from '../thor-client';
 
 /** The `BlocksModule` class encapsulates functionality for interacting with blocks
@@ -153,10 +153,10 @@ class BlocksModule {
      * Asynchronously retrieves a reference to the best block in the blockchain.
      *
      * This method first calls `getBestBlockCompressed()` to obtain the current best block. If no block is found (i.e., if `getBestBlockCompressed()` returns `null`),
-     * the method returns `null` indicating that there's no block to reference. Otherwise, it extracts and returns the first 18 characters of the
-     * block's ID, providing the ref to the best block.
+     * the method returns `null` indicating that there's no block to reference. Otherwise, it returns the {@link BlockRef}
+     * of the block's ID, i.e. its first 8 bytes, providing the ref to the best block.
      *
-     * @returns {Promise<string | null>} A promise that resolves to either a string representing the first 18 characters of the best block's ID,
+     * @returns {Promise<string | null>} A promise that resolves to either a string representing the BlockRef of the best block's ID,
      * or `null` if no best block is found.
      *
      * @Example:
@@ -170,7 +170,7 @@ class BlocksModule {
     public async getBestBlockRef(): Promise<string | null> {
         const bestBlock = await this.getBestBlockCompressed();
         if (bestBlock === null) return null;
-        return bestBlock.id.slice(0, 18);
+        return BlockId.of(bestBlock.id).blockRef.toString();
     }
 
     /**
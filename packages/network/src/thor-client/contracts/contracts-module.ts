@@ -21,6 +21,7 @@ import { Contract, ContractFactory } from './model';
 import { decodeRevertReason } from '../gas/helpers/decode-evm-error';
 import { type VeChainSigner } from '../../signer';
 import { type Abi } from 'abitype';
+import { InvalidDataType } from '@vechain/sdk-errors';
 import { BUILT_IN_CONTRACTS } from '../../utils';
 
 /**
@@ -110,11 +111,16 @@ class ContractsModule {
         if (response[0].reverted) {
             /**
              * The decoded revert reason of the transaction.
-             * Solidity may revert with Error(string) or Panic(uint256).
+             * Solidity may revert with Error(string), Panic(uint256) or a custom error of the registered ABIs.
              *
              * @link see [Error handling: Assert, Require, Revert and Exceptions](https://docs.soliditylang.org/en/latest/control-structures.html#error-handling-assert-require-revert-and-exceptions)
              */
-            return decodeRevertReason(response[0].data) ?? '';
+            return (
+                decodeRevertReason(
+                    response[0].data,
+                    contractCallOptions?.errors ?? this.thor.errors
+                ) ?? ''
+            );
         } else {
             return new abi.Function(functionFragment).decodeOutput(
                 response[0].data
@@ -210,16 +216,27 @@ class ContractsModule {
      *
      * @link [Total Gas Price](https://docs.vechain.org/core-concepts/transactions/transaction-calculation#total-gas-price)
      *
-     * @returns The base gas price in wei.
+     * @param revision - The block revision to read the base gas price at, the best block by default.
+     * @returns The result of the `Params` contract call, the base gas price in wei being its only value.
+     * @throws {InvalidDataType} If the `Params` contract call doesn't return an integer.
      */
-    public async getBaseGasPrice(): Promise<unknown> {
-        return await this.executeCall(
+    public async getBaseGasPrice(revision?: string): Promise<[bigint]> {
+        const result = await this.executeCall(
             BUILT_IN_CONTRACTS.PARAMS_ADDRESS,
             coder
                 .createInterface(BUILT_IN_CONTRACTS.PARAMS_ABI)
                 .getFunction('get') as FunctionFragment,
-            [dataUtils.encodeBytes32String('base-gas-price', 'left')]
+            [dataUtils.encodeBytes32String('base-gas-price', 'left')],
+            { revision }
         );
+        if (!Array.isArray(result) || typeof result[0] !== 'bigint') {
+            throw new InvalidDataType(
+                'ContractsModule.getBaseGasPrice()',
+                'Invalid base gas price. The Params contract call did not return an integer.',
+                { revision, result: String(result) }
+            );
+        }
+        return result as unknown as [bigint];
     }
 }
 
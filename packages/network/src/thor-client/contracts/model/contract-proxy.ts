@@ -67,7 +67,8 @@ function getReadProxy<TAbi extends Abi>(
                         ...contract.getContractReadOptions(),
                         comment: clauseComment,
                         revision: revisionValue,
-                        includeABI: true
+                        includeABI: true,
+                        errors: contract.errors
                     }
                 )) as ContractCallResult;
             };
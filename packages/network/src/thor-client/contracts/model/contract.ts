@@ -1,5 +1,6 @@
 import {
     coder,
+    ErrorRegistry,
     type EventFragment,
     type FunctionFragment,
     type InterfaceAbi
@@ -38,6 +39,15 @@ class Contract<TAbi extends Abi> {
     readonly abi: InterfaceAbi;
     private signer?: VeChainSigner;
 
+    /**
+     * The registry of the built-in errors and the errors of the ABI of the contract,
+     * decoding the revert reasons of the calls of the {@link read} proxy.
+     *
+     * The registry belongs to the contract, the errors of other contracts declaring the same selector
+     * don't shadow its errors. Register the ABIs of the contracts it calls to decode the errors they revert with.
+     */
+    readonly errors: ErrorRegistry;
+
     readonly deployTransactionReceipt: TransactionReceipt | undefined;
 
     public read: ContractFunctionRead<
@@ -106,6 +116,7 @@ class Contract<TAbi extends Abi> {
         this.filters = getFilterProxy(this);
         this.clause = getClauseProxy(this);
         this.criteria = getCriteriaProxy(this);
+        this.errors = ErrorRegistry.of(abi);
     }
 
     /**
@@ -6,6 +6,7 @@ import type {
 
 import type {
     ClauseOptions,
+    ErrorRegistry,
     ExtendedTransactionClause,
     vechain_sdk_core_ethers
 } from '@vechain/sdk-core';
@@ -36,7 +37,13 @@ type ContractTransactionOptions = {
 /**
  * Defines the options for executing a contract call within a blockchain environment.
  */
-type ContractCallOptions = SimulateTransactionOptions & ClauseOptions;
+type ContractCallOptions = SimulateTransactionOptions &
+    ClauseOptions & {
+        /**
+         * The registry decoding the revert reason of the call, `ThorClient.errors` by default.
+         */
+        errors?: ErrorRegistry;
+    };
 
 /* --------- Input types End --------- */
 
@@ -0,0 +1,178 @@
+import { Address, unitsUtils } from '@vechain/sdk-core';
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { type ThorClient } from '../thor-client';
+import type { SimulateTransactionClause } from '../transactions';
+import {
+    type EstimateFeeOptions,
+    type EstimateFeeResult,
+    type FeeQuote
+} from './types';
+
+/**
+ * The `FeesModule` computes the VTHO cost of transactions
+ * priced with the gas price coefficient.
+ *
+ * The gas price of a transaction is
+ * `baseGasPrice + baseGasPrice * gasPriceCoef / 255`,
+ * its cost is the gas price multiplied by the gas.
+ *
+ * @link [Total Gas Price](https://docs.vechain.org/core-concepts/transactions/transaction-calculation#total-gas-price)
+ */
+class FeesModule {
+    /**
+     * The maximum gas price coefficient.
+     */
+    private static readonly MAX_GAS_PRICE_COEF = 255;
+
+    /**
+     * Initializes a new instance of the `Thor` class.
+     * @param thor - The Thor instance used to interact with the VeChain blockchain API.
+     */
+    constructor(readonly thor: ThorClient) {}
+
+    /**
+     * Gets the base gas price in wei of VTHO from the `Params` built-in contract,
+     * see {@link ContractsModule.getBaseGasPrice}.
+     *
+     * @param revision - The block revision to read the base gas price at, the best block by default.
+     * @returns The base gas price in wei of VTHO.
+     * @throws {InvalidDataType} If the base gas price can't be read.
+     */
+    public async getBaseGasPrice(revision?: string): Promise<bigint> {
+        const [baseGasPrice] =
+            await this.thor.contracts.getBaseGasPrice(revision);
+        return baseGasPrice;
+    }
+
+    /**
+     * Computes the cost of `gas` at the given base gas price and coefficient.
+     * The method doesn't access the network.
+     *
+     * @param gas - The gas used by the transaction, an integer.
+     * @param baseGasPrice - The base gas price in wei of VTHO.
+     * @param gasPriceCoef - The gas price coefficient, an integer in [0, 255].
+     * @returns The quote of the cost.
+     * @throws {InvalidDataType}
+     */
+    public calculateFee(
+        gas: number | bigint,
+        baseGasPrice: bigint,
+        gasPriceCoef: number
+    ): FeeQuote {
+        this.assertGasPriceCoef(gasPriceCoef, 'FeesModule.calculateFee()');
+        if (
+            (typeof gas === 'number' && !Number.isSafeInteger(gas)) ||
+            BigInt(gas) < 0n ||
+            baseGasPrice < 0n
+        ) {
+            throw new InvalidDataType(
+                'FeesModule.calculateFee()',
+                'Invalid gas or base gas price. They must be positive integers.',
+                { gas: String(gas), baseGasPrice: String(baseGasPrice) }
+            );
+        }
+        // Same integer arithmetic of the node: the division truncates.
+        const gasPrice =
+            baseGasPrice +
+            (baseGasPrice * BigInt(gasPriceCoef)) /
+                BigInt(FeesModule.MAX_GAS_PRICE_COEF);
+        const fee = gasPrice * BigInt(gas);
+        return {
+            gasPriceCoef,
+            gasPrice,
+            fee,
+            feeVTHO: unitsUtils.formatVET(fee)
+        };
+    }
+
+    /**
+     * Estimates the VTHO cost of a transaction, combining
+     * * the intrinsic and simulated gas, see {@link GasModule.estimateGas};
+     * * the base gas price, see {@link getBaseGasPrice};
+     * * the gas price coefficient of the options.
+     *
+     * @param clauses - The clauses of the transaction to simulate.
+     * @param caller - The address of the account sending the transaction.
+     * @param options - The options of {@link GasModule.estimateGas}, the gas price coefficient,
+     * its range to quote the minimum and maximum cost for, and the delegator of delegated transactions.
+     * @returns The cost of the transaction, with the party paying it.
+     * @throws {InvalidDataType}
+     */
+    public async estimateFee(
+        clauses: SimulateTransactionClause[],
+        caller?: string,
+        options?: EstimateFeeOptions
+    ): Promise<EstimateFeeResult> {
+        const {
+            gasPriceCoef = 0,
+            gasPriceCoefRange = [0, FeesModule.MAX_GAS_PRICE_COEF],
+            delegator,
+            ...estimateGasOptions
+        } = options ?? {};
+        this.assertGasPriceCoef(gasPriceCoef, 'FeesModule.estimateFee()');
+        const [minCoef, maxCoef] = gasPriceCoefRange;
+        this.assertGasPriceCoef(minCoef, 'FeesModule.estimateFee()');
+        this.assertGasPriceCoef(maxCoef, 'FeesModule.estimateFee()');
+        if (minCoef > maxCoef) {
+            throw new InvalidDataType(
+                'FeesModule.estimateFee()',
+                'Invalid gasPriceCoefRange. The minimum must not be greater than the maximum.',
+                { gasPriceCoefRange }
+            );
+        }
+        if (delegator !== undefined && !Address.isValid(delegator)) {
+            throw new InvalidDataType(
+                'FeesModule.estimateFee()',
+                'Invalid delegator. It must be a valid address.',
+                { delegator }
+            );
+        }
+
+        const estimation = await this.thor.gas.estimateGas(
+            clauses,
+            caller,
+            estimateGasOptions
+        );
+        const baseGasPrice = await this.getBaseGasPrice(
+            estimateGasOptions.revision
+        );
+
+        // The gas padding can make the total gas fractional.
+        const gas = Math.ceil(estimation.totalGas);
+        return {
+            ...estimation,
+            gas,
+            baseGasPrice,
+            quote: this.calculateFee(gas, baseGasPrice, gasPriceCoef),
+            range: {
+                min: this.calculateFee(gas, baseGasPrice, minCoef),
+                max: this.calculateFee(gas, baseGasPrice, maxCoef)
+            },
+            payer: delegator !== undefined ? 'delegator' : 'origin',
+            payerAddress: delegator ?? caller
+        };
+    }
+
+    /**
+     * Throws {@link InvalidDataType} if `gasPriceCoef` is not an integer in [0, 255].
+     *
+     * @param gasPriceCoef - The gas price coefficient to check.
+     * @param methodName - The name of the method checking the coefficient.
+     * @throws {InvalidDataType}
+     */
+    private assertGasPriceCoef(gasPriceCoef: number, methodName: string): void {
+        if (
+            !Number.isInteger(gasPriceCoef) ||
+            gasPriceCoef < 0 ||
+            gasPriceCoef > FeesModule.MAX_GAS_PRICE_COEF
+        ) {
+            throw new InvalidDataType(
+                methodName,
+                'Invalid gasPriceCoef. It must be an integer between 0 and 255.',
+                { gasPriceCoef }
+            );
+        }
+    }
+}
+
+export { FeesModule };
@@ -0,0 +1,2 @@
+export * from './fees-module';
+export * from './types.d';
@@ -0,0 +1,96 @@
+import { type EstimateGasOptions, type EstimateGasResult } from '../gas/types';
+
+/* --- Input options start --- */
+
+/**
+ * Options of `FeesModule.estimateFee`.
+ */
+type EstimateFeeOptions = EstimateGasOptions & {
+    /**
+     * The gas price coefficient of the transaction, an integer in [0, 255], 0 by default.
+     */
+    gasPriceCoef?: number;
+
+    /**
+     * The range of gas price coefficients to quote the minimum and maximum cost for,
+     * `[0, 255]` by default.
+     */
+    gasPriceCoefRange?: [number, number];
+
+    /**
+     * The address of the delegator paying the fee of delegated transactions,
+     * see [VIP-191](https://github.com/vechain/VIPs/blob/master/vips/VIP-191.md).
+     */
+    delegator?: string;
+};
+
+/* --- Input options end --- */
+
+/* --- Responses Outputs start --- */
+
+/**
+ * The cost of a transaction at a given gas price coefficient.
+ */
+interface FeeQuote {
+    /**
+     * The gas price coefficient the cost is quoted at.
+     */
+    gasPriceCoef: number;
+
+    /**
+     * The gas price in wei of VTHO, the base gas price raised by the coefficient.
+     */
+    gasPrice: bigint;
+
+    /**
+     * The cost in wei of VTHO.
+     */
+    fee: bigint;
+
+    /**
+     * The cost in VTHO as decimal string, e.g. `0.42`.
+     */
+    feeVTHO: string;
+}
+
+/**
+ * The result of estimating the VTHO cost of a transaction.
+ */
+interface EstimateFeeResult extends EstimateGasResult {
+    /**
+     * The gas the cost is computed for, the estimated total gas rounded up.
+     */
+    gas: number;
+
+    /**
+     * The base gas price in wei of VTHO, read from the `Params` built-in contract.
+     */
+    baseGasPrice: bigint;
+
+    /**
+     * The cost at the gas price coefficient of the options.
+     */
+    quote: FeeQuote;
+
+    /**
+     * The costs at the minimum and maximum gas price coefficients of the range of the options.
+     */
+    range: {
+        min: FeeQuote;
+        max: FeeQuote;
+    };
+
+    /**
+     * The party paying the fee: the delegator for delegated transactions, else the origin.
+     */
+    payer: 'origin' | 'delegator';
+
+    /**
+     * The address of the payer, if known: the delegator of the options or the caller.
+     */
+    payerAddress?: string;
+}
+
+/* --- Responses Outputs end --- */
+
+export type { EstimateFeeOptions, EstimateFeeResult, FeeQuote };
@@ -91,11 +91,16 @@ class GasModule {
                   revertReasons: simulations.map((simulation) => {
                       /**
                        * The decoded revert reason of the transaction.
-                       * Solidity may revert with Error(string) or Panic(uint256).
+                       * Solidity may revert with Error(string), Panic(uint256) or a custom error of the registered ABIs.
                        *
                        * @link see [Error handling: Assert, Require, Revert and Exceptions](https://docs.soliditylang.org/en/latest/control-structures.html#error-handling-assert-require-revert-and-exceptions)
                        */
-                      return decodeRevertReason(simulation.data) ?? '';
+                      return (
+                          decodeRevertReason(
+                              simulation.data,
+                              this.thor.errors
+                          ) ?? ''
+                      );
                   }),
                   vmErrors: simulations.map((simulation) => {
                       return simulation.vmError;
@@ -3,6 +3,7 @@ export * from './accounts';
 export * from './blocks';
 export * from './contracts';
 export * from './debug';
+export * from './fees';
 export * from './gas';
 export * from './logs';
 export * from './nodes';
@@ -5,8 +5,10 @@ import { ContractsModule } from './contracts';
 import { TransactionsModule } from './transactions';
 import { LogsModule } from './logs';
 import { GasModule } from './gas';
+import { FeesModule } from './fees';
 import { HttpClient, type IHttpClient } from '../utils';
 import { DebugModule } from './debug';
+import { ErrorRegistry } from '@vechain/sdk-core';
 
 /**
  * The `ThorClient` class serves as an interface to interact with the VeChain Thor blockchain.
@@ -49,11 +51,26 @@ class ThorClient {
      */
     public readonly gas: GasModule;
 
+    /**
+     * The `FeesModule` instance
+     */
+    public readonly fees: FeesModule;
+
     /**
      * The `DebugModule` instance
      */
     public readonly debug: DebugModule;
 
+    /**
+     * The `ErrorRegistry` decoding the revert data of transactions, gas estimations and calls,
+     * the built-in errors and the errors of the ABIs registered in it.
+     *
+     * A selector is decoded by the first error registered with it. The contracts loaded by this client
+     * don't register their errors here, each decodes the reverts of its calls with its own registry,
+     * see {@link Contract.errors}.
+     */
+    public readonly errors: ErrorRegistry;
+
     /**
      * Constructs a new `ThorClient` instance with a given HTTP client.
      *
@@ -71,7 +88,9 @@ class ThorClient {
         this.transactions = new TransactionsModule(this);
         this.contracts = new ContractsModule(this);
         this.gas = new GasModule(this);
+        this.fees = new FeesModule(this);
         this.debug = new DebugModule(this);
+        this.errors = new ErrorRegistry();
     }
 
     /**
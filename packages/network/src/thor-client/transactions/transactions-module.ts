@@ -1,20 +1,13 @@
 import { InvalidDataType, InvalidTransactionField } from '@vechain/sdk-errors';
 import { blocksFormatter, getTransactionIndexIntoBlock } from '../../provider';
+import { buildQuery, Poll, thorest, vnsUtils } from '../../utils';
 import {
-    buildQuery,
-    ERROR_SELECTOR,
-    PANIC_SELECTOR,
-    Poll,
-    thorest,
-    vnsUtils
-} from '../../utils';
-import {
+    ErrorRegistry,
     Hex,
     ThorId,
     TransactionHandler,
-    abi,
     Revision,
-    vechain_sdk_core_ethers,
+    type DecodedError,
     type Transaction,
     type TransactionBody,
     type TransactionClause
@@ -447,53 +440,47 @@ class TransactionsModule {
         )) as TransactionSimulationResult[];
     }
 
+    /**
+     * Decode the revert error from the encoded revert reason into a transaction.
+     *
+     * @param encodedRevertReason - The encoded revert reason to decode.
+     * @param errorFragment - (Optional) The error fragment to use to decode the revert reason (For Solidity custom errors not registered in `thor.errors`).
+     * @returns The decoded error, `null` if the error is not registered.
+     * @throws {InvalidAbiDataToEncodeOrDecode} If the revert reason doesn't match the error having its selector.
+     */
+    public decodeRevertError(
+        encodedRevertReason: string,
+        errorFragment?: string
+    ): DecodedError | null {
+        // The explicit fragment is registered first, to decode its selector before the registered errors.
+        const errors =
+            errorFragment !== undefined
+                ? ErrorRegistry.of([errorFragment]).extend(
+                      this.thor.errors.errors
+                  )
+                : this.thor.errors;
+        return errors.decode(encodedRevertReason);
+    }
+
     /**
      * Decode the revert reason from the encoded revert reason into a transaction.
      *
      * @param encodedRevertReason - The encoded revert reason to decode.
-     * @param errorFragment - (Optional) The error fragment to use to decode the revert reason (For Solidity custom errors).
-     * @returns A promise that resolves to the decoded revert reason.
-     * Revert reason can be a string error or Panic(error_code)
+     * @param errorFragment - (Optional) The error fragment to use to decode the revert reason (For Solidity custom errors not registered in `thor.errors`).
+     * @returns The decoded revert reason.
+     * Revert reason can be a string error, Panic(error_code) or a custom error with its arguments, e.g. InsufficientBalance(1, 2)
      */
     public decodeRevertReason(
         encodedRevertReason: string,
         errorFragment?: string
     ): string {
-        // Error selector
-        if (encodedRevertReason.startsWith(ERROR_SELECTOR))
-            return abi.decode<string>(
-                'string',
-                `0x${encodedRevertReason.slice(ERROR_SELECTOR.length)}`
-            );
-        // Panic selector
-        else if (encodedRevertReason.startsWith(PANIC_SELECTOR)) {
-            const decoded = abi.decode<string>(
-                'uint256',
-                `0x${encodedRevertReason.slice(PANIC_SELECTOR.length)}`
-            );
-            return `Panic(0x${parseInt(decoded).toString(16).padStart(2, '0')})`;
-        }
-
-        // Solidity error
-        else {
-            // An error fragment is provided, so decode the revert reason using solidity error
-            if (errorFragment !== undefined) {
-                const errorInterface = new vechain_sdk_core_ethers.Interface([
-                    vechain_sdk_core_ethers.ErrorFragment.from(errorFragment)
-                ]);
-                return errorInterface
-                    .decodeErrorResult(
-                        vechain_sdk_core_ethers.ErrorFragment.from(
-                            errorFragment
-                        ),
-                        encodedRevertReason
-                    )
-                    .toArray()[0] as string;
-            }
-        }
+        const decoded = this.decodeRevertError(
+            encodedRevertReason,
+            errorFragment
+        );
 
         // Unknown revert reason (we know ONLY that transaction is reverted)
-        return ``;
+        return decoded !== null ? ErrorRegistry.reasonOf(decoded) : ``;
     }
 
     /**
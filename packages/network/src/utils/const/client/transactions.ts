@@ -2,6 +2,8 @@ import { Keccak256, Txt } from '@vechain/sdk-core';
 
 /**
  * The selector for the error event.
+ *
+ * @deprecated Decode the revert data with `thorClient.errors`, see {@link ErrorRegistry}.
  */
 const ERROR_SELECTOR = Keccak256.of(Txt.of('Error(string)').bytes)
     .toString()
@@ -9,6 +11,8 @@ const ERROR_SELECTOR = Keccak256.of(Txt.of('Error(string)').bytes)
 
 /**
  * The selector for the panic event.
+ *
+ * @deprecated Decode the revert data with `thorClient.errors`, see {@link ErrorRegistry}.
  */
 const PANIC_SELECTOR = Keccak256.of(Txt.of('Panic(uint256)').bytes)
     .toString()
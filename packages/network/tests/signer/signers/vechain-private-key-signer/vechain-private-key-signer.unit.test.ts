@@ -7,6 +7,7 @@ import {
     test
 } from '@jest/globals';
 import { Address, Hex, HexUInt, secp256k1, Txt } from '@vechain/sdk-core';
+import { InvalidTypedData } from '@vechain/sdk-errors';
 import { ethers } from 'ethers';
 import {
     TESTNET_URL,
@@ -282,7 +283,7 @@ describe('VeChain base signer tests', () => {
                     eip712TestCases.invalid.types,
                     eip712TestCases.invalid.data
                 )
-            ).rejects.toThrowError(TypeError);
+            ).rejects.toThrowError(InvalidTypedData);
         });
 
         test('signTypedData - ethers compatible', async () => {
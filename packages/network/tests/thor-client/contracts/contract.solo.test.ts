@@ -633,10 +633,9 @@ describe('ThorClient - Contracts', () => {
 
         await expect(async () => {
             await contract.filters;
-        }).rejects.toThrow("Event with name then not found in ABI");
+        }).rejects.toThrow('Event with name then not found in ABI');
     });
 
-
     filterContractEventsTestCases.forEach(
         ({
             description,
@@ -0,0 +1,139 @@
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    jest,
+    test
+} from '@jest/globals';
+import { vechain_sdk_core_ethers } from '@vechain/sdk-core';
+import { TESTNET_URL, ThorClient } from '../../src';
+
+/**
+ * The address of the contract of the fixture.
+ */
+const contractAddress = '0x0000000000000000000000000000456e65726779';
+
+/**
+ * The ABI of a vault, declaring a custom error.
+ */
+const vaultAbi = [
+    {
+        type: 'error',
+        name: 'InsufficientBalance',
+        inputs: [
+            { name: 'available', type: 'uint256' },
+            { name: 'required', type: 'uint256' }
+        ]
+    },
+    {
+        type: 'function',
+        name: 'balanceOf',
+        inputs: [{ name: 'owner', type: 'address' }],
+        outputs: [{ name: '', type: 'uint256' }],
+        stateMutability: 'view'
+    }
+] as const;
+
+/**
+ * The revert data of `InsufficientBalance(1, 2)`.
+ */
+const insufficientBalance = new vechain_sdk_core_ethers.Interface(
+    vaultAbi
+).encodeErrorResult('InsufficientBalance', [1, 2]);
+
+/**
+ * Unit tests of the decoding of the revert errors by the ThorClient modules,
+ * the network accesses mocked.
+ *
+ * @group unit/thor-client/errors
+ */
+describe('ThorClient revert errors', () => {
+    let thorClient: ThorClient;
+
+    beforeEach(() => {
+        thorClient = ThorClient.fromUrl(TESTNET_URL);
+        jest.spyOn(
+            thorClient.transactions,
+            'simulateTransaction'
+        ).mockResolvedValue([
+            {
+                data: insufficientBalance,
+                events: [],
+                transfers: [],
+                gasUsed: 1000,
+                reverted: true,
+                vmError: 'execution reverted'
+            }
+        ]);
+    });
+
+    afterEach(() => {
+        thorClient.destroy();
+        jest.restoreAllMocks();
+    });
+
+    test('Ok <- errors registered in the client decoded by estimateGas', async () => {
+        const clauses = [{ to: contractAddress, value: '0', data: '0x' }];
+        expect(
+            (await thorClient.gas.estimateGas(clauses)).revertReasons
+        ).toEqual(['']);
+        thorClient.errors.register(vaultAbi);
+        expect(
+            (await thorClient.gas.estimateGas(clauses)).revertReasons
+        ).toEqual(['InsufficientBalance(1, 2)']);
+    });
+
+    test('Ok <- errors decoded by the read proxy of the contract', async () => {
+        const contract = thorClient.contracts.load(contractAddress, vaultAbi);
+        expect(await contract.read.balanceOf(contractAddress)).toBe(
+            'InsufficientBalance(1, 2)'
+        );
+    });
+
+    test('Ok <- errors of the contracts kept in their own registries', async () => {
+        const vault = thorClient.contracts.load(contractAddress, vaultAbi);
+        const other = thorClient.contracts.load(
+            contractAddress,
+            vaultAbi.filter((fragment) => fragment.type === 'function')
+        );
+        expect(vault.errors.decode(insufficientBalance)?.name).toBe(
+            'InsufficientBalance'
+        );
+        expect(other.errors.decode(insufficientBalance)).toBeNull();
+        expect(thorClient.errors.decode(insufficientBalance)).toBeNull();
+        expect(await other.read.balanceOf(contractAddress)).toBe('');
+    });
+
+    test('Ok <- decodeRevertError and decodeRevertReason', () => {
+        const transactions = thorClient.transactions;
+        expect(transactions.decodeRevertError(insufficientBalance)).toBeNull();
+        expect(transactions.decodeRevertReason(insufficientBalance)).toBe('');
+        expect(
+            transactions.decodeRevertError(
+                insufficientBalance,
+                'error InsufficientBalance(uint256 available, uint256 required)'
+            )
+        ).toEqual({
+            name: 'InsufficientBalance',
+            signature: 'InsufficientBalance(uint256,uint256)',
+            args: { available: 1n, required: 2n }
+        });
+        // The error fragment is not registered.
+        expect(transactions.decodeRevertError(insufficientBalance)).toBeNull();
+        thorClient.errors.register(vaultAbi);
+        expect(transactions.decodeRevertReason(insufficientBalance)).toBe(
+            'InsufficientBalance(1, 2)'
+        );
+    });
+
+    test('Ok <- explicit error fragment before the registered errors', () => {
+        thorClient.errors.register(vaultAbi);
+        expect(
+            thorClient.transactions.decodeRevertError(
+                insufficientBalance,
+                'error InsufficientBalance(uint256 have, uint256 want)'
+            )?.args
+        ).toEqual({ have: 1n, want: 2n });
+    });
+});
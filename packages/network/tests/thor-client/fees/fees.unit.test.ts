@@ -0,0 +1,192 @@
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    jest,
+    test
+} from '@jest/globals';
+import { clauseBuilder } from '@vechain/sdk-core';
+import { InvalidDataType } from '@vechain/sdk-errors';
+import { TESTNET_URL, ThorClient } from '../../../src';
+
+/**
+ * The base gas price of the main and test networks, 1e13 wei.
+ */
+const baseGasPrice = 10000000000000n;
+
+/**
+ * The addresses of the fixture.
+ */
+const caller = '0x7567d83b7b8d80addcb281a71d54fc7b3364ffed';
+const delegator = '0x9e7911de289c3c856ce7f421034f66b6cde49c39';
+
+/**
+ * The clauses of the fixture, a VET transfer.
+ */
+const clauses = [clauseBuilder.transferVET(delegator, 1n)];
+
+/**
+ * Unit tests for the FeesModule class, the network accesses mocked.
+ *
+ * @group unit/thor-client/fees
+ */
+describe('FeesModule', () => {
+    let thorClient: ThorClient;
+
+    beforeEach(() => {
+        thorClient = ThorClient.fromUrl(TESTNET_URL);
+        jest.spyOn(thorClient.contracts, 'executeCall').mockResolvedValue([
+            baseGasPrice
+        ] as unknown as Awaited<
+            ReturnType<typeof thorClient.contracts.executeCall>
+        >);
+        jest.spyOn(thorClient.gas, 'estimateGas').mockResolvedValue({
+            totalGas: 21000,
+            reverted: false,
+            revertReasons: [],
+            vmErrors: []
+        });
+    });
+
+    afterEach(() => {
+        thorClient.destroy();
+        jest.restoreAllMocks();
+    });
+
+    describe('calculateFee', () => {
+        [
+            {
+                gasPriceCoef: 0,
+                gasPrice: 10000000000000n,
+                fee: 210000000000000000n,
+                feeVTHO: '0.21'
+            },
+            {
+                gasPriceCoef: 128,
+                gasPrice: 15019607843137n,
+                fee: 315411764705877000n,
+                feeVTHO: '0.315411764705877'
+            },
+            {
+                gasPriceCoef: 255,
+                gasPrice: 20000000000000n,
+                fee: 420000000000000000n,
+                feeVTHO: '0.42'
+            }
+        ].forEach((expected) => {
+            test(`Ok <- gasPriceCoef ${expected.gasPriceCoef}`, () => {
+                expect(
+                    thorClient.fees.calculateFee(
+                        21000,
+                        baseGasPrice,
+                        expected.gasPriceCoef
+                    )
+                ).toEqual(expected);
+            });
+        });
+
+        [-1, 1.5, 256].forEach((gasPriceCoef) => {
+            test(`Exception <- gasPriceCoef ${gasPriceCoef}`, () => {
+                expect(() =>
+                    thorClient.fees.calculateFee(
+                        21000,
+                        baseGasPrice,
+                        gasPriceCoef
+                    )
+                ).toThrowError(InvalidDataType);
+            });
+        });
+
+        [-1, 1.5, NaN].forEach((gas) => {
+            test(`Exception <- gas ${gas}`, () => {
+                expect(() =>
+                    thorClient.fees.calculateFee(gas, baseGasPrice, 0)
+                ).toThrowError(InvalidDataType);
+            });
+        });
+    });
+
+    describe('getBaseGasPrice', () => {
+        test('Ok <- Params contract', async () => {
+            const executeCall = jest.spyOn(thorClient.contracts, 'executeCall');
+            const getBaseGasPrice = jest.spyOn(
+                thorClient.contracts,
+                'getBaseGasPrice'
+            );
+            expect(await thorClient.fees.getBaseGasPrice('best')).toBe(
+                baseGasPrice
+            );
+            expect(getBaseGasPrice).toHaveBeenCalledWith('best');
+            expect(executeCall).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.anything(),
+                expect.any(Array),
+                { revision: 'best' }
+            );
+        });
+
+        test('Exception <- reverted call', async () => {
+            jest.spyOn(thorClient.contracts, 'executeCall').mockResolvedValue(
+                'reverted'
+            );
+            await expect(thorClient.fees.getBaseGasPrice()).rejects.toThrow(
+                InvalidDataType
+            );
+        });
+    });
+
+    describe('estimateFee', () => {
+        test('Ok <- defaults', async () => {
+            const result = await thorClient.fees.estimateFee(clauses, caller);
+            expect(result.gas).toBe(21000);
+            expect(result.baseGasPrice).toBe(baseGasPrice);
+            expect(result.quote.fee).toBe(210000000000000000n);
+            expect(result.range.min.gasPriceCoef).toBe(0);
+            expect(result.range.max.gasPriceCoef).toBe(255);
+            expect(result.range.max.fee).toBe(420000000000000000n);
+            expect(result.payer).toBe('origin');
+            expect(result.payerAddress).toBe(caller);
+        });
+
+        test('Ok <- padded gas rounded up', async () => {
+            jest.spyOn(thorClient.gas, 'estimateGas').mockResolvedValue({
+                totalGas: 23100.000000000004,
+                reverted: false,
+                revertReasons: [],
+                vmErrors: []
+            });
+            const result = await thorClient.fees.estimateFee(clauses, caller, {
+                gasPadding: 0.1,
+                gasPriceCoef: 255
+            });
+            expect(result.gas).toBe(23101);
+            expect(result.quote.fee).toBe(20000000000000n * BigInt(result.gas));
+        });
+
+        test('Ok <- range and delegator', async () => {
+            const result = await thorClient.fees.estimateFee(clauses, caller, {
+                gasPriceCoefRange: [64, 128],
+                delegator
+            });
+            expect(result.range.min.gasPriceCoef).toBe(64);
+            expect(result.range.max.gasPriceCoef).toBe(128);
+            expect(result.range.min.fee < result.range.max.fee).toBe(true);
+            expect(result.payer).toBe('delegator');
+            expect(result.payerAddress).toBe(delegator);
+        });
+
+        [
+            { gasPriceCoef: 256 },
+            { gasPriceCoefRange: [128, 64] as [number, number] },
+            { gasPriceCoefRange: [0, 300] as [number, number] },
+            { delegator: '0xinvalid' }
+        ].forEach((options) => {
+            test(`Exception <- ${JSON.stringify(options)}`, async () => {
+                await expect(
+                    thorClient.fees.estimateFee(clauses, caller, options)
+                ).rejects.toThrow(InvalidDataType);
+            });
+        });
+    });
+});
@@ -1,7 +1,7 @@
 import {
     coder,
+    type LegacyTransactionBody,
     networkInfo,
-    type TransactionBody,
     unitsUtils
 } from '@vechain/sdk-core';
 import {
@@ -48,7 +48,7 @@ const transfer1VTHOClauseWithValueAsANumber = {
 /**
  * transaction body that transfers 1 VTHO to TEST_ACCOUNTS.TRANSACTION.TRANSACTION_RECEIVER
  */
-const transferTransactionBody: Omit<TransactionBody, 'gas' | 'nonce'> = {
+const transferTransactionBody: Omit<LegacyTransactionBody, 'gas' | 'nonce'> = {
     clauses: [transfer1VTHOClause],
     chainTag: networkInfo.solo.chainTag,
     blockRef: networkInfo.solo.genesisBlock.id.slice(0, 18),
@@ -61,7 +61,7 @@ const transferTransactionBody: Omit<TransactionBody, 'gas' | 'nonce'> = {
  * transaction body that transfers 1 VTHO to TEST_ACCOUNTS.TRANSACTION.TRANSACTION_RECEIVER
  */
 const transferTransactionBodyValueAsNumber: Omit<
-    TransactionBody,
+    LegacyTransactionBody,
     'gas' | 'nonce'
 > = {
     clauses: [transfer1VTHOClauseWithValueAsANumber],